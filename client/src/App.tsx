@@ -11,6 +11,10 @@ import Upload from "@/pages/upload";
 import Statements from "@/pages/statements";
 import Settings from "@/pages/settings";
 import BulkAdd from "@/pages/bulk-add";
+import SettleUp from "@/pages/settle-up";
+import CashFlow from "@/pages/cash-flow";
+import Reconciliation from "@/pages/reconciliation";
+import Subscriptions from "@/pages/subscriptions";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -22,6 +26,10 @@ function Router() {
       <Route path="/upload" component={Upload} />
       <Route path="/statements" component={Statements} />
       <Route path="/bulk-add" component={BulkAdd} />
+      <Route path="/settle-up" component={SettleUp} />
+      <Route path="/cash-flow" component={CashFlow} />
+      <Route path="/reconciliation" component={Reconciliation} />
+      <Route path="/subscriptions" component={Subscriptions} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
@@ -8,6 +8,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 interface StatementExpense {
   id: string;
@@ -37,6 +38,7 @@ interface StatementExpensesViewProps {
 }
 
 export function StatementExpensesView({ statementId }: StatementExpensesViewProps) {
+  const { formatBase } = useBaseCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -169,7 +171,7 @@ export function StatementExpensesView({ statementId }: StatementExpensesViewProp
                           {/* Header */}
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-2">
-                              <span className="font-medium">€{parseFloat(expense.amount).toFixed(2)}</span>
+                              <span className="font-medium">{formatBase(parseFloat(expense.amount))}</span>
                               {expense.sourceLabel && (
                                 <Badge variant="outline" className="text-xs">
                                   {expense.sourceLabel}
@@ -3,11 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, FileText, AlertCircle, CheckCircle } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { getAccountStatementSource } from "./account-manager";
+import type { Account, ImportProfile } from "@shared/schema";
 
 interface UploadResponse {
   statementId: string;
@@ -16,8 +19,10 @@ interface UploadResponse {
 
 export function StatementUploader() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [accountId, setAccountId] = useState<string>("");
   const [source, setSource] = useState<string>("");
   const [partnerId, setPartnerId] = useState<string>("");
+  const [previewFirst, setPreviewFirst] = useState(false);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -26,6 +31,14 @@ export function StatementUploader() {
     queryKey: ["/api/partners"],
   });
 
+  const { data: importProfiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   const uploadMutation = useMutation({
     mutationFn: async (formData: FormData): Promise<UploadResponse> => {
       const response = await fetch("/api/statements/upload", {
@@ -47,6 +60,7 @@ export function StatementUploader() {
       });
       
       setSelectedFile(null);
+      setAccountId("");
       setSource("");
       setPartnerId("");
       
@@ -66,23 +80,34 @@ export function StatementUploader() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (file.type === "text/csv" || file.name.endsWith(".csv")) {
+      if (file.type === "text/csv" || /\.(csv|ofx|qfx|xml|sta|mt940|940)$/i.test(file.name)) {
         setSelectedFile(file);
       } else {
         toast({
           title: "Invalid File Type",
-          description: "Please select a CSV file.",
+          description: "Please select a CSV, OFX, QFX, CAMT.053 (XML) or MT940 file.",
           variant: "destructive",
         });
       }
     }
   };
 
+  // Preselect the statement format and, for a single owner, the partner from the account
+  const handleAccountChange = (value: string) => {
+    const account = accounts.find(a => a.id === value);
+    if (!account) return;
+    setAccountId(value);
+    setSource(getAccountStatementSource(account));
+    if (account.ownerPartnerIds.length === 1) {
+      setPartnerId(account.ownerPartnerIds[0]);
+    }
+  };
+
   const handleUpload = () => {
-    if (!selectedFile || !source) {
+    if (!selectedFile || !accountId || !source) {
       toast({
         title: "Missing Information",
-        description: "Please select a file and specify the source.",
+        description: "Please select a file, the account and the statement format.",
         variant: "destructive",
       });
       return;
@@ -90,10 +115,19 @@ export function StatementUploader() {
 
     const formData = new FormData();
     formData.append("file", selectedFile);
-    formData.append("source", source);
+    // Saved import profiles are offered alongside the built-in sources as "profile:<id>"
+    if (source.startsWith("profile:")) {
+      formData.append("profileId", source.slice("profile:".length));
+    } else {
+      formData.append("source", source);
+    }
+    formData.append("accountId", accountId);
     if (partnerId) {
       formData.append("partnerId", partnerId);
     }
+    if (previewFirst) {
+      formData.append("mode", "preview");
+    }
 
     uploadMutation.mutate(formData);
   };
@@ -112,11 +146,11 @@ export function StatementUploader() {
       <CardContent className="space-y-4">
         {/* File Selection */}
         <div className="space-y-2">
-          <Label htmlFor="file">CSV File</Label>
+          <Label htmlFor="file">Statement File</Label>
           <Input
             id="file"
             type="file"
-            accept=".csv"
+            accept=".csv,.ofx,.qfx,.xml,.sta,.mt940,.940"
             onChange={handleFileChange}
             data-testid="input-statement-file"
             disabled={uploadMutation.isPending}
@@ -129,9 +163,33 @@ export function StatementUploader() {
           )}
         </div>
 
+        {/* Account Selection */}
+        <div className="space-y-2">
+          <Label htmlFor="account">Account</Label>
+          <Select
+            value={accountId}
+            onValueChange={handleAccountChange}
+            disabled={uploadMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-statement-account">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {accounts.length === 0 && (
+            <p className="text-sm text-muted-foreground">Add your accounts under Settings → Accounts first.</p>
+          )}
+        </div>
+
         {/* Source Selection */}
         <div className="space-y-2">
-          <Label htmlFor="source">Bank/Source</Label>
+          <Label htmlFor="source">Statement Format</Label>
           <Select
             value={source}
             onValueChange={setSource}
@@ -146,6 +204,12 @@ export function StatementUploader() {
               <SelectItem value="chase">Chase Bank</SelectItem>
               <SelectItem value="paypal">PayPal</SelectItem>
               <SelectItem value="bank">Generic Bank</SelectItem>
+              <SelectItem value="credit">Credit Card</SelectItem>
+              {importProfiles.map((profile) => (
+                <SelectItem key={profile.id} value={`profile:${profile.id}`}>
+                  {profile.name} (Import Profile)
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -171,10 +235,22 @@ export function StatementUploader() {
           </Select>
         </div>
 
+        {/* Preview Toggle */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="preview-first">Preview before import</Label>
+          <Switch
+            id="preview-first"
+            checked={previewFirst}
+            onCheckedChange={setPreviewFirst}
+            disabled={uploadMutation.isPending}
+            data-testid="switch-preview-import"
+          />
+        </div>
+
         {/* Upload Button */}
         <Button
           onClick={handleUpload}
-          disabled={!selectedFile || !source || uploadMutation.isPending}
+          disabled={!selectedFile || !accountId || !source || uploadMutation.isPending}
           className="w-full"
           data-testid="button-upload-statement"
         >
@@ -205,8 +281,9 @@ export function StatementUploader() {
 
         {/* Info */}
         <div className="text-xs text-muted-foreground space-y-1">
-          <p>• Supported formats: CSV files</p>
+          <p>• Supported formats: CSV, OFX/QFX, CAMT.053 (XML) and MT940 files</p>
           <p>• Automatic AI categorization</p>
+          <p>• Optional review step before expenses are created</p>
           <p>• European date format support (DD-MM-YYYY)</p>
           <p>• European decimal format (comma separator)</p>
         </div>
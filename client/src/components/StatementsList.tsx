@@ -9,6 +9,8 @@ import {
   CheckCircle,
   AlertCircle,
   Eye,
+  ClipboardCheck,
+  Copy,
   ChevronDown,
   ChevronUp,
 } from "lucide-react";
@@ -22,25 +24,34 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { StatementExpensesView } from "@/components/StatementExpensesView";
+import { ImportPreview } from "@/components/import-preview";
+import { DuplicateReview } from "@/components/duplicate-review";
 import { cn } from "@/lib/utils";
+import type { StatementParseError, SuspectedDuplicate } from "@shared/schema";
 
 interface Statement {
   id: string;
   fileName: string;
   fileType: string;
   source: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "preview" | "discarded";
   totalTransactions?: number | null;
   processedTransactions?: number | null;
+  skippedTransactions?: number | null;
   errorMessage?: string | null;
   uploadedAt: string;
   processedAt?: string | null;
+  suspectedDuplicates?: SuspectedDuplicate[] | null;
+  parseErrors?: StatementParseError[] | null;
 }
 
 export function StatementsList() {
   const [selectedStatement, setSelectedStatement] = useState<string | null>(
     null,
   );
+  const [reviewStatementId, setReviewStatementId] = useState<string | null>(
+    null,
+  );
   const [expandedStatements, setExpandedStatements] = useState<Set<string>>(
     new Set(),
   );
@@ -93,6 +104,8 @@ export function StatementsList() {
         return "bg-red-500";
       case "processing":
         return "bg-blue-500";
+      case "preview":
+        return "bg-amber-500";
       default:
         return "bg-gray-500";
     }
@@ -106,6 +119,8 @@ export function StatementsList() {
         return <AlertCircle className="h-4 w-4" />;
       case "processing":
         return <Clock className="h-4 w-4 animate-spin" />;
+      case "preview":
+        return <ClipboardCheck className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
@@ -113,7 +128,13 @@ export function StatementsList() {
 
   const getProgressText = (statement: Statement) => {
     if (statement.status === "completed" && statement.totalTransactions) {
-      return `${statement.processedTransactions || 0}/${statement.totalTransactions} transactions processed`;
+      const duplicateCount = statement.suspectedDuplicates?.length || 0;
+      const skippedCount = statement.skippedTransactions || 0;
+      return `${statement.processedTransactions || 0}/${statement.totalTransactions} transactions processed${
+        skippedCount > 0 ? `, ${skippedCount} already imported` : ""
+      }${
+        duplicateCount > 0 ? `, ${duplicateCount} suspected duplicates` : ""
+      }`;
     }
     if (statement.status === "processing" && statement.totalTransactions) {
       return `Processing ${statement.processedTransactions || 0}/${statement.totalTransactions}...`;
@@ -121,9 +142,18 @@ export function StatementsList() {
     if (statement.status === "failed") {
       return statement.errorMessage || "Processing failed";
     }
+    if (statement.status === "preview") {
+      return `Awaiting review: ${statement.totalTransactions || 0} transactions parsed`;
+    }
+    if (statement.status === "discarded") {
+      return "Import discarded, no expenses were created";
+    }
     return "Waiting to process...";
   };
 
+  const getUnresolvedDuplicateCount = (statement: Statement) =>
+    (statement.suspectedDuplicates || []).filter((d) => !d.resolution).length;
+
   if (isLoading) {
     return (
       <Card>
@@ -230,6 +260,20 @@ export function StatementsList() {
                       {getProgressText(statement)}
                     </div>
 
+                    {/* Rows the parser had to skip */}
+                    {statement.parseErrors && statement.parseErrors.length > 0 && (
+                      <div
+                        className="text-sm text-amber-700"
+                        title={statement.parseErrors
+                          .map((e) => `Line ${e.line}: ${e.message}`)
+                          .join("\n")}
+                        data-testid={`text-parse-errors-${statement.id}`}
+                      >
+                        {statement.parseErrors.length} unparseable rows skipped (lines{" "}
+                        {statement.parseErrors.map((e) => e.line).join(", ")})
+                      </div>
+                    )}
+
                     {/* Progress Bar */}
                     {statement.status === "processing" &&
                       statement.totalTransactions && (
@@ -269,6 +313,68 @@ export function StatementsList() {
                         </DialogContent>
                       </Dialog>
                     )}
+
+                    {/* Suspected duplicates */}
+                    {statement.suspectedDuplicates &&
+                      statement.suspectedDuplicates.length > 0 && (
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className={cn(
+                                getUnresolvedDuplicateCount(statement) > 0 &&
+                                  "border-amber-500 text-amber-700",
+                              )}
+                              data-testid={`button-review-duplicates-${statement.id}`}
+                            >
+                              <Copy className="h-4 w-4 mr-2" />
+                              {statement.suspectedDuplicates.length} Suspected
+                              Duplicates
+                              {getUnresolvedDuplicateCount(statement) > 0 &&
+                                ` (${getUnresolvedDuplicateCount(statement)} to review)`}
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+                            <DialogHeader>
+                              <DialogTitle>Suspected Duplicates</DialogTitle>
+                            </DialogHeader>
+                            <DuplicateReview
+                              statementId={statement.id}
+                              duplicates={statement.suspectedDuplicates}
+                            />
+                          </DialogContent>
+                        </Dialog>
+                      )}
+
+                    {statement.status === "preview" && (
+                      <Dialog
+                        open={reviewStatementId === statement.id}
+                        onOpenChange={(open) =>
+                          setReviewStatementId(open ? statement.id : null)
+                        }
+                      >
+                        <DialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            data-testid={`button-review-import-${statement.id}`}
+                          >
+                            <ClipboardCheck className="h-4 w-4 mr-2" />
+                            Review Import ({statement.totalTransactions || 0})
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-6xl max-h-[80vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Review Import</DialogTitle>
+                          </DialogHeader>
+                          <ImportPreview
+                            statementId={statement.id}
+                            onFinished={() => setReviewStatementId(null)}
+                          />
+                        </DialogContent>
+                      </Dialog>
+                    )}
                   </div>
                 </div>
 
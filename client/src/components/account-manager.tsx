@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Landmark, Plus, Edit2, Trash2, Wand2 } from 'lucide-react';
+import { accountTypes, type Account, type AccountType, type Partner } from '@shared/schema';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  credit_card: 'Credit card',
+  cash: 'Cash',
+  wallet: 'Wallet',
+};
+
+// Built-in statement format most likely used by an account, so uploads can preselect it
+export function getAccountStatementSource(account: Pick<Account, 'name' | 'type' | 'institution'>): string {
+  const text = `${account.institution || ''} ${account.name}`.toLowerCase();
+  if (/amex|american express/.test(text)) return 'amex';
+  if (text.includes('dkb')) return 'dkb';
+  if (text.includes('chase')) return 'chase';
+  if (text.includes('paypal')) return 'paypal';
+  return account.type === 'credit_card' ? 'credit' : 'bank';
+}
+
+interface AccountFormData {
+  name: string;
+  type: AccountType;
+  ownerPartnerIds: string[];
+  currency: string;
+  institution: string;
+}
+
+const EMPTY_FORM: AccountFormData = {
+  name: '',
+  type: 'checking',
+  ownerPartnerIds: [],
+  currency: 'EUR',
+  institution: '',
+};
+
+export function AccountManager() {
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<AccountFormData>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: accounts = [], isLoading } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ['/api/partners'],
+  });
+
+  const invalidateAccounts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: { id?: string; account: AccountFormData }) => {
+      const body = {
+        ...data.account,
+        name: data.account.name.trim(),
+        currency: data.account.currency.trim().toUpperCase(),
+        institution: data.account.institution.trim() || null,
+      };
+      return await apiRequest(data.id ? `/api/accounts/${data.id}` : '/api/accounts', {
+        method: data.id ? 'PATCH' : 'POST',
+        body,
+      });
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      setIsDialogOpen(false);
+      toast({
+        title: editingAccount ? 'Account Updated' : 'Account Created',
+        description: 'Statements and expenses can now be assigned to this account.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save account',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/accounts/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      toast({
+        title: 'Account Deleted',
+        description: 'Its expenses and statements are kept without an account.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete account',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const fromSourcesMutation = useMutation({
+    mutationFn: async (): Promise<{ created: number; linked: number }> => {
+      return await apiRequest('/api/accounts/from-sources', {
+        method: 'POST',
+      });
+    },
+    onSuccess: (result) => {
+      invalidateAccounts();
+      toast({
+        title: 'Accounts Created',
+        description: `${result.created} account${result.created === 1 ? '' : 's'} created, ${result.linked} expense${result.linked === 1 ? '' : 's'} linked.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create accounts from sources',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingAccount(null);
+    setFormData({ ...EMPTY_FORM, ownerPartnerIds: partners.length === 1 ? [partners[0].id] : [] });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (account: Account) => {
+    setEditingAccount(account);
+    setFormData({
+      name: account.name,
+      type: account.type as AccountType,
+      ownerPartnerIds: account.ownerPartnerIds,
+      currency: account.currency,
+      institution: account.institution || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleOwner = (partnerId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      ownerPartnerIds: checked
+        ? [...prev.ownerPartnerIds, partnerId]
+        : prev.ownerPartnerIds.filter(id => id !== partnerId),
+    }));
+  };
+
+  const getPartner = (id: string) => partners.find(partner => partner.id === id);
+
+  const isFormValid = formData.name.trim() !== ''
+    && formData.ownerPartnerIds.length > 0
+    && /^[A-Z]{3}$/.test(formData.currency.trim().toUpperCase());
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading accounts...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Landmark className="h-5 w-5" />
+                <span>Accounts</span>
+              </CardTitle>
+              <CardDescription>
+                Bank accounts, cards and wallets that statements are uploaded for and expenses are paid from.
+              </CardDescription>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => fromSourcesMutation.mutate()}
+                disabled={fromSourcesMutation.isPending}
+                data-testid="button-accounts-from-sources"
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                {fromSourcesMutation.isPending ? 'Creating...' : 'Create from Existing Sources'}
+              </Button>
+              <Button onClick={openCreateDialog} data-testid="button-add-account">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Account
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {accounts.length === 0 ? (
+            <div className="text-center py-8">
+              <Landmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No accounts yet.</p>
+              <p className="text-sm text-muted-foreground">Add one for each bank account or card you upload statements for.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {accounts.map((account) => (
+                <div key={account.id} className="border rounded-lg p-4 space-y-2" data-testid={`card-account-${account.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium">{account.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {[account.institution, ACCOUNT_TYPE_LABELS[account.type as AccountType], account.currency]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(account)}
+                        data-testid={`button-edit-account-${account.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(account.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-account-${account.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {account.ownerPartnerIds.map((partnerId) => (
+                      <Badge key={partnerId} variant="outline" className="text-xs">
+                        <div
+                          className="w-2 h-2 rounded-full mr-1"
+                          style={{ backgroundColor: getPartner(partnerId)?.color || '#6B7280' }}
+                        />
+                        {getPartner(partnerId)?.name || 'Removed partner'}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? 'Edit Account' : 'Add Account'}</DialogTitle>
+            <DialogDescription>
+              Accounts owned by one partner assign their statement rows to that partner by default.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Joint DKB, Anna's AMEX"
+                data-testid="input-account-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as AccountType }))}
+                >
+                  <SelectTrigger data-testid="select-account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accountTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="account-currency">Currency</Label>
+                <Input
+                  id="account-currency"
+                  value={formData.currency}
+                  onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                  maxLength={3}
+                  placeholder="EUR"
+                  data-testid="input-account-currency"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="account-institution">Institution</Label>
+              <Input
+                id="account-institution"
+                value={formData.institution}
+                onChange={(e) => setFormData(prev => ({ ...prev, institution: e.target.value }))}
+                placeholder="e.g., DKB, American Express"
+                data-testid="input-account-institution"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Owners</Label>
+              {partners.map((partner) => (
+                <div key={partner.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`account-owner-${partner.id}`}
+                    checked={formData.ownerPartnerIds.includes(partner.id)}
+                    onCheckedChange={(checked) => toggleOwner(partner.id, checked === true)}
+                    data-testid={`checkbox-account-owner-${partner.id}`}
+                  />
+                  <Label htmlFor={`account-owner-${partner.id}`} className="font-normal">{partner.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate({ id: editingAccount?.id, account: formData })}
+              disabled={!isFormValid || saveMutation.isPending}
+              data-testid="button-save-account"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,10 @@ import {
   Menu,
   X,
   PlusSquare,
+  Scale,
+  TrendingUp,
+  ListChecks,
+  Repeat,
   Moon,
   Sun,
 } from "lucide-react";
@@ -52,6 +56,10 @@ export default function BottomNavigation() {
     { path: "/history", icon: List, label: "History", id: "history" },
     { path: "/upload", icon: Upload, label: "Upload", id: "upload" },
     { path: "/bulk-add", icon: PlusSquare, label: "Bulk Add", id: "bulk-add" },
+    { path: "/settle-up", icon: Scale, label: "Settle Up", id: "settle-up" },
+    { path: "/cash-flow", icon: TrendingUp, label: "Cash Flow", id: "cash-flow" },
+    { path: "/reconciliation", icon: ListChecks, label: "Reconciliation", id: "reconciliation" },
+    { path: "/subscriptions", icon: Repeat, label: "Subscriptions", id: "subscriptions" },
     { path: "/settings", icon: Settings, label: "Settings", id: "settings" },
   ];
 
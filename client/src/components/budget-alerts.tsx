@@ -2,50 +2,32 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertTriangle, CheckCircle, TrendingUp } from "lucide-react";
-import type { Category, Expense } from "@shared/schema";
+import type { Category } from "@shared/schema";
 import { useDateRange } from "@/contexts/date-range-context";
 import { format } from "date-fns";
+import type { RefundMode } from "@/lib/expense-utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 
 interface BudgetAlertsProps {
   onCategorySelect?: (category: Category) => void;
+  refundMode?: RefundMode; // Net counts refunds against the purchase they return
 }
 
-export default function BudgetAlerts({ onCategorySelect }: BudgetAlertsProps) {
-  const { startDate, endDate, budgetMultiplier } = useDateRange();
+export default function BudgetAlerts({ onCategorySelect, refundMode = "net" }: BudgetAlertsProps) {
+  const { formatBase } = useBaseCurrency();
+  const { startDate, endDate } = useDateRange();
+  const { getCategoryStatus } = useBudgetStatus(refundMode);
   
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: expenses = [] } = useQuery<(Expense & { category: Category; partner: any })[]>({
-    queryKey: ["/api/expenses"],
-  });
-
-  // Filter expenses by selected date range
-  const filteredExpenses = expenses.filter((expense: any) => {
-    if (!expense || !expense.date) return false;
-    const expenseDate = new Date(expense.date);
-    return expenseDate >= startDate && expenseDate <= endDate;
-  });
-
   const categoryAlerts = categories.map((category: Category) => {
-    if (!category) return null;
-    
-    const spent = filteredExpenses
-      .filter((expense: any) => expense && expense.categoryId === category.id)
-      .reduce((sum: number, expense: any) => {
-        if (!expense || !expense.amount) return sum;
-        const amount = parseFloat(expense.amount);
-        return sum + (isNaN(amount) ? 0 : amount);
-      }, 0);
-    
-    // Calculate proportional budget for the selected date range
-    const monthlyBudget = parseFloat(category.monthlyBudget || "0");
-    if (monthlyBudget <= 0) return null;
-    const budget = monthlyBudget * budgetMultiplier;
-    
-    const percentage = (spent / budget) * 100;
-    const remaining = budget - spent;
+    const status = getCategoryStatus(category.id);
+    // Categories without any budget have nothing to alert about
+    if (!status || status.source === "none") return null;
+    const { spent, budget, percentage, remaining } = status;
     
     let alertType: 'warning' | 'danger' | 'success' | 'info' = 'success';
     let icon = CheckCircle;
@@ -54,7 +36,7 @@ export default function BudgetAlerts({ onCategorySelect }: BudgetAlertsProps) {
     if (percentage >= 100) {
       alertType = 'danger';
       icon = AlertTriangle;
-      message = `Over budget by €${Math.abs(remaining).toFixed(2)}`;
+      message = `Over budget by ${formatBase(Math.abs(remaining))}`;
     } else if (percentage >= 80) {
       alertType = 'warning';
       icon = TrendingUp;
@@ -96,6 +78,7 @@ export default function BudgetAlerts({ onCategorySelect }: BudgetAlertsProps) {
           </CardTitle>
           <p className="text-sm text-muted-foreground">
             {format(startDate, 'MMM d')} - {format(endDate, 'MMM d, yyyy')}
+            {refundMode === "gross" && " · before refunds"}
           </p>
         </CardHeader>
         <CardContent>
@@ -117,6 +100,7 @@ export default function BudgetAlerts({ onCategorySelect }: BudgetAlertsProps) {
         </CardTitle>
         <p className="text-sm text-muted-foreground">
           {format(startDate, 'MMM d')} - {format(endDate, 'MMM d, yyyy')}
+          {refundMode === "gross" && " · before refunds"}
         </p>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -146,7 +130,7 @@ export default function BudgetAlerts({ onCategorySelect }: BudgetAlertsProps) {
                   <div className="flex items-center justify-between mb-1">
                     <span className="font-medium text-sm">{alert.category.name}</span>
                     <span className="text-sm font-medium">
-                      €{alert.spent.toFixed(2)} / €{alert.budget.toFixed(2)}
+                      {formatBase(alert.spent)} / {formatBase(alert.budget)}
                     </span>
                   </div>
                   <AlertDescription className="text-xs">
@@ -8,31 +8,58 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Plus, Edit2, Trash2, DollarSign } from 'lucide-react';
+import { Calendar, Plus, Edit2, Trash2, DollarSign, Repeat } from 'lucide-react';
 import { format, parseISO, isAfter, isBefore } from 'date-fns';
-import type { Category, BudgetPeriod, Expense } from '@shared/schema';
+import type { Category, BudgetPeriod, BudgetPeriodFrequency, BudgetPeriodSeries, Expense } from '@shared/schema';
+import { isExcludedFromSpending } from '@/lib/expense-utils';
+import { expandLineItems } from '@shared/line-items';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
 
 interface BudgetFormData {
+  name: string;
   categoryId: string;
   startDate: string;
   endDate: string;
   budgetAmount: string;
+  repeat: BudgetPeriodFrequency | 'none';
+  anchorDates: string; // Comma-separated YYYY-MM-DD starts for 'custom'
+  repeatUntil: string;
 }
 
+type EditScope = 'period' | 'series';
+
+const REPEAT_LABELS: Record<BudgetPeriodFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  custom: 'On custom dates',
+};
+
+const emptyForm = (): BudgetFormData => ({
+  name: '',
+  categoryId: '',
+  startDate: '',
+  endDate: '',
+  budgetAmount: '',
+  repeat: 'none',
+  anchorDates: '',
+  repeatUntil: '',
+});
+
+const parseAnchorDates = (value: string) => value.split(',').map(day => day.trim()).filter(Boolean);
+
 export function BudgetPeriodManager() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<BudgetPeriod | null>(null);
-  const [formData, setFormData] = useState<BudgetFormData>({
-    categoryId: '',
-    startDate: '',
-    endDate: '',
-    budgetAmount: '',
-  });
+  const [formData, setFormData] = useState<BudgetFormData>(emptyForm);
   const [editFormData, setEditFormData] = useState({
     name: '',
     budgetAmount: '',
+    scope: 'period' as EditScope,
   });
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -49,25 +76,46 @@ export function BudgetPeriodManager() {
     queryKey: ['/api/expenses'],
   });
 
+  const { data: seriesList = [] } = useQuery<BudgetPeriodSeries[]>({
+    queryKey: ['/api/budget-period-series'],
+  });
+
+  // Series changes create, update or remove the periods that belong to them
+  const invalidateBudgetPeriods = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/budget-periods'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/budget-period-series'] });
+  };
+
   const createBudgetMutation = useMutation({
     mutationFn: async (data: BudgetFormData) => {
-      return await apiRequest('/api/budget-periods', {
+      const body = {
+        name: data.name.trim() || `${categories.find(c => c.id === data.categoryId)?.name} Budget`,
+        categoryId: data.categoryId,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        budgetAmount: data.budgetAmount,
+      };
+      if (data.repeat === 'none') {
+        return await apiRequest('/api/budget-periods', { method: 'POST', body });
+      }
+      return await apiRequest('/api/budget-period-series', {
         method: 'POST',
         body: {
-          name: `${categories.find(c => c.id === data.categoryId)?.name} Budget`,
-          categoryId: data.categoryId,
-          startDate: data.startDate,
-          endDate: data.endDate,
-          budgetAmount: data.budgetAmount,
+          ...body,
+          frequency: data.repeat,
+          anchorDates: data.repeat === 'custom' ? parseAnchorDates(data.anchorDates) : null,
+          repeatUntil: data.repeatUntil || null,
         },
       });
     },
-    onSuccess: () => {
+    onSuccess: (_, data) => {
       toast({
         title: 'Budget Period Created',
-        description: 'Budget period has been successfully created.',
+        description: data.repeat === 'none'
+          ? 'Budget period has been successfully created.'
+          : 'Upcoming periods are created automatically ahead of their start.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/budget-periods'] });
+      invalidateBudgetPeriods();
       setIsCreateDialogOpen(false);
       resetForm();
     },
@@ -81,8 +129,8 @@ export function BudgetPeriodManager() {
   });
 
   const updateBudgetMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name: string; budgetAmount: string } }) => {
-      return await apiRequest(`/api/budget-periods/${id}`, {
+    mutationFn: async ({ url, data }: { url: string; data: { name: string; budgetAmount: string } }) => {
+      return await apiRequest(url, {
         method: 'PATCH',
         body: data,
       });
@@ -92,7 +140,7 @@ export function BudgetPeriodManager() {
         title: 'Budget Period Updated',
         description: 'Budget period has been successfully updated.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/budget-periods'] });
+      invalidateBudgetPeriods();
       setIsEditDialogOpen(false);
       setEditingBudget(null);
     },
@@ -127,13 +175,47 @@ export function BudgetPeriodManager() {
     },
   });
 
+  const updateSeriesMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: number }) => {
+      return await apiRequest(`/api/budget-period-series/${id}`, {
+        method: 'PATCH',
+        body: { isActive },
+      });
+    },
+    onSuccess: invalidateBudgetPeriods,
+    onError: (error) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update budget period series',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteSeriesMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/budget-period-series/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Series Stopped',
+        description: 'Upcoming periods were removed; past and current ones are kept.',
+      });
+      invalidateBudgetPeriods();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Delete Failed',
+        description: error.message || 'Failed to delete budget period series',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const resetForm = () => {
-    setFormData({
-      categoryId: '',
-      startDate: '',
-      endDate: '',
-      budgetAmount: '',
-    });
+    setFormData(emptyForm());
   };
 
   const handleEditBudget = (budget: BudgetPeriod) => {
@@ -141,6 +223,7 @@ export function BudgetPeriodManager() {
     setEditFormData({
       name: budget.name,
       budgetAmount: budget.budgetAmount,
+      scope: 'period',
     });
     setIsEditDialogOpen(true);
   };
@@ -156,7 +239,9 @@ export function BudgetPeriodManager() {
     }
 
     updateBudgetMutation.mutate({
-      id: editingBudget.id,
+      url: editFormData.scope === 'series' && editingBudget.seriesId
+        ? `/api/budget-period-series/${editingBudget.seriesId}`
+        : `/api/budget-periods/${editingBudget.id}`,
       data: {
         name: editFormData.name.trim(),
         budgetAmount: editFormData.budgetAmount,
@@ -166,7 +251,7 @@ export function BudgetPeriodManager() {
 
   const handleDeleteBudget = (budget: BudgetPeriod) => {
     // Check if budget period is used in expenses
-    const hasExpenses = expenses.some(expense => {
+    const hasExpenses = expandLineItems(expenses).some(expense => {
       const expenseDate = new Date(expense.date);
       const startDate = new Date(budget.startDate);
       const endDate = new Date(budget.endDate);
@@ -206,6 +291,15 @@ export function BudgetPeriodManager() {
       return;
     }
 
+    if (formData.repeat === 'custom' && parseAnchorDates(formData.anchorDates).some(day => !/^\d{4}-\d{2}-\d{2}$/.test(day))) {
+      toast({
+        title: 'Validation Error',
+        description: 'Enter the custom start dates as YYYY-MM-DD, separated by commas.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     createBudgetMutation.mutate(formData);
   };
 
@@ -213,9 +307,10 @@ export function BudgetPeriodManager() {
     const startDate = new Date(budget.startDate);
     const endDate = new Date(budget.endDate);
     
-    return expenses
+    return expandLineItems(expenses)
       .filter((expense) => 
         expense.categoryId === budget.categoryId &&
+        !isExcludedFromSpending(expense) &&
         expense.date &&
         new Date(expense.date) >= startDate &&
         new Date(expense.date) <= endDate
@@ -227,6 +322,7 @@ export function BudgetPeriodManager() {
   };
 
   const getCategory = (categoryId: string) => categories.find(c => c.id === categoryId);
+  const getSeries = (seriesId: string | null) => seriesList.find(series => series.id === seriesId);
 
   const getBudgetStatus = (budget: BudgetPeriod) => {
     const spent = getSpentAmount(budget);
@@ -269,6 +365,17 @@ export function BudgetPeriodManager() {
                 </DialogHeader>
                 
                 <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="budget-name">Name (Optional)</Label>
+                    <Input
+                      id="budget-name"
+                      value={formData.name}
+                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g. Vacation summer"
+                      data-testid="input-budget-name"
+                    />
+                  </div>
+
                   <div>
                     <Label htmlFor="category">Category</Label>
                     <Select
@@ -318,7 +425,7 @@ export function BudgetPeriodManager() {
                     <Label htmlFor="budgetAmount">Budget Amount</Label>
                     <div className="relative">
                       <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        €
+                        {currencySymbol}
                       </span>
                       <Input
                         id="budgetAmount"
@@ -333,6 +440,58 @@ export function BudgetPeriodManager() {
                       />
                     </div>
                   </div>
+
+                  <div>
+                    <Label htmlFor="budget-repeat">Repeats</Label>
+                    <Select
+                      value={formData.repeat}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, repeat: value as BudgetFormData['repeat'] }))}
+                    >
+                      <SelectTrigger id="budget-repeat" data-testid="select-budget-repeat">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        {(Object.keys(REPEAT_LABELS) as BudgetPeriodFrequency[]).map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>{REPEAT_LABELS[frequency]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {formData.repeat !== 'none' && formData.repeat !== 'custom' && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Later periods start and end the same number of months after these dates.
+                      </p>
+                    )}
+                  </div>
+
+                  {formData.repeat === 'custom' && (
+                    <div>
+                      <Label htmlFor="budget-anchors">Later Start Dates</Label>
+                      <Input
+                        id="budget-anchors"
+                        value={formData.anchorDates}
+                        onChange={(e) => setFormData(prev => ({ ...prev, anchorDates: e.target.value }))}
+                        placeholder="2026-03-25, 2026-04-24"
+                        data-testid="input-budget-anchors"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Each period lasts as long as the first one.
+                      </p>
+                    </div>
+                  )}
+
+                  {formData.repeat !== 'none' && (
+                    <div>
+                      <Label htmlFor="budget-repeat-until">Repeat Until (Optional)</Label>
+                      <Input
+                        id="budget-repeat-until"
+                        type="date"
+                        value={formData.repeatUntil}
+                        onChange={(e) => setFormData(prev => ({ ...prev, repeatUntil: e.target.value }))}
+                        data-testid="input-budget-repeat-until"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <DialogFooter>
@@ -359,6 +518,47 @@ export function BudgetPeriodManager() {
         </CardHeader>
 
         <CardContent>
+          {seriesList.length > 0 && (
+            <div className="space-y-2 mb-6">
+              <h4 className="text-sm font-medium">Repeating</h4>
+              {seriesList.map((series) => (
+                <div
+                  key={series.id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                  data-testid={`budget-series-${series.id}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <span className="text-lg">{getCategory(series.categoryId)?.emoji}</span>
+                    <div>
+                      <p className="text-sm font-medium">{series.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {REPEAT_LABELS[series.frequency as BudgetPeriodFrequency]} · {formatBase(parseFloat(series.budgetAmount))}
+                        {series.repeatUntil && ` · until ${format(new Date(series.repeatUntil), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={series.isActive === 1}
+                      onCheckedChange={(checked) => updateSeriesMutation.mutate({ id: series.id, isActive: checked ? 1 : 0 })}
+                      disabled={updateSeriesMutation.isPending}
+                      data-testid={`switch-budget-series-${series.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => deleteSeriesMutation.mutate(series.id)}
+                      disabled={deleteSeriesMutation.isPending}
+                      data-testid={`button-delete-budget-series-${series.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {budgetPeriods.length === 0 ? (
             <div className="text-center py-8">
               <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -382,7 +582,16 @@ export function BudgetPeriodManager() {
                         <div className="flex items-center space-x-3">
                           <span className="text-2xl">{category?.emoji}</span>
                           <div>
-                            <h3 className="font-semibold">{category?.name}</h3>
+                            <h3 className="font-semibold flex items-center space-x-2">
+                              <span>{budget.seriesId ? budget.name : category?.name}</span>
+                              {budget.seriesId && (
+                                <Badge variant="outline" className="font-normal">
+                                  <Repeat className="h-3 w-3 mr-1" />
+                                  {getSeries(budget.seriesId) ? REPEAT_LABELS[getSeries(budget.seriesId)!.frequency as BudgetPeriodFrequency] : 'Series'}
+                                  {budget.isCustomized === 1 && ' · edited'}
+                                </Badge>
+                              )}
+                            </h3>
                             <p className="text-sm text-muted-foreground">
                               {format(new Date(budget.startDate), 'MMM d, yyyy')} - {format(new Date(budget.endDate), 'MMM d, yyyy')}
                             </p>
@@ -421,11 +630,11 @@ export function BudgetPeriodManager() {
                       <div className="grid grid-cols-3 gap-4 mb-3">
                         <div>
                           <p className="text-sm text-muted-foreground">Budget</p>
-                          <p className="font-semibold text-lg">€{budgetAmount.toFixed(2)}</p>
+                          <p className="font-semibold text-lg">{formatBase(budgetAmount)}</p>
                         </div>
                         <div>
                           <p className="text-sm text-muted-foreground">Spent</p>
-                          <p className="font-semibold text-lg">€{spent.toFixed(2)}</p>
+                          <p className="font-semibold text-lg">{formatBase(spent)}</p>
                         </div>
                         <div>
                           <p className="text-sm text-muted-foreground">
@@ -434,7 +643,7 @@ export function BudgetPeriodManager() {
                           <p className={`font-semibold text-lg ${
                             remaining >= 0 ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            €{Math.abs(remaining).toFixed(2)}
+                            {formatBase(Math.abs(remaining))}
                           </p>
                         </div>
                       </div>
@@ -472,6 +681,29 @@ export function BudgetPeriodManager() {
           </DialogHeader>
           
           <div className="space-y-4">
+            {editingBudget?.seriesId && (
+              <div>
+                <Label htmlFor="edit-scope">Apply To</Label>
+                <Select
+                  value={editFormData.scope}
+                  onValueChange={(value) => setEditFormData(prev => ({ ...prev, scope: value as EditScope }))}
+                >
+                  <SelectTrigger id="edit-scope" data-testid="select-edit-budget-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="period">This period only</SelectItem>
+                    <SelectItem value="series">The whole series</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {editFormData.scope === 'series'
+                    ? 'Changes current and upcoming periods, except ones edited on their own.'
+                    : 'Later changes to the whole series leave this period as it is.'}
+                </p>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="edit-name">Budget Name</Label>
               <Input
@@ -487,7 +719,7 @@ export function BudgetPeriodManager() {
               <Label htmlFor="edit-budgetAmount">Budget Amount</Label>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                  €
+                  {currencySymbol}
                 </span>
                 <Input
                   id="edit-budgetAmount"
@@ -0,0 +1,603 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { normalizeAmount } from '@/lib/expense-utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { ListFilter, Plus, Edit2, Trash2, ArrowUp, ArrowDown, FlaskConical } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CategorizationRule, Category, Expense, Partner, TransactionType } from '@shared/schema';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+
+interface RuleFormData {
+  name: string;
+  descriptionMatchType: 'contains' | 'regex';
+  descriptionPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  sourceLabel: string;
+  cardholderName: string;
+  setCategoryId: string;
+  setPartnerId: string;
+  setTags: string;
+  setType: TransactionType | typeof NONE;
+  setExcludeFromSpending: boolean;
+}
+
+interface RuleTestResult {
+  matchCount: number;
+  matches: Expense[];
+}
+
+// Select items can't have an empty value
+const NONE = 'none';
+
+// New rules go to the end of the list; gaps leave room for manual priorities
+const PRIORITY_STEP = 10;
+
+const emptyForm: RuleFormData = {
+  name: '',
+  descriptionMatchType: 'contains',
+  descriptionPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  sourceLabel: '',
+  cardholderName: '',
+  setCategoryId: NONE,
+  setPartnerId: NONE,
+  setTags: '',
+  setType: NONE,
+  setExcludeFromSpending: false,
+};
+
+const toRuleBody = (data: RuleFormData) => ({
+  name: data.name.trim(),
+  descriptionMatchType: data.descriptionMatchType,
+  descriptionPattern: data.descriptionPattern.trim() || null,
+  minAmount: data.minAmount.trim() ? normalizeAmount(data.minAmount) : null,
+  maxAmount: data.maxAmount.trim() ? normalizeAmount(data.maxAmount) : null,
+  sourceLabel: data.sourceLabel.trim() || null,
+  cardholderName: data.cardholderName.trim() || null,
+  setCategoryId: data.setCategoryId === NONE ? null : data.setCategoryId,
+  setPartnerId: data.setPartnerId === NONE ? null : data.setPartnerId,
+  setTags: data.setTags.split(',').map(tag => tag.trim()).filter(Boolean),
+  setType: data.setType === NONE ? null : data.setType,
+  setExcludeFromSpending: data.setExcludeFromSpending ? 1 : 0,
+});
+
+export function CategorizationRuleManager() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery<CategorizationRule[]>({
+    queryKey: ['/api/categorization-rules'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ['/api/partners'],
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      if (editingRule) {
+        return await apiRequest(`/api/categorization-rules/${editingRule.id}`, {
+          method: 'PATCH',
+          body: toRuleBody(data),
+        });
+      }
+      const lastPriority = rules.length > 0 ? rules[rules.length - 1].priority : 0;
+      return await apiRequest('/api/categorization-rules', {
+        method: 'POST',
+        body: { ...toRuleBody(data), priority: lastPriority + PRIORITY_STEP },
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: editingRule ? 'Rule Updated' : 'Rule Created',
+        description: 'The rule will be applied to future imports.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/categorization-rules'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Save Failed',
+        description: error.message || 'Failed to save rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async (updates: { id: string; data: Partial<CategorizationRule> }[]) => {
+      for (const update of updates) {
+        await apiRequest(`/api/categorization-rules/${update.id}`, {
+          method: 'PATCH',
+          body: update.data,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categorization-rules'] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categorization-rules'] });
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/categorization-rules/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Rule Deleted',
+        description: 'Future imports will no longer use this rule.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/categorization-rules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Delete Failed',
+        description: error.message || 'Failed to delete rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const testRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormData): Promise<RuleTestResult> => {
+      return await apiRequest('/api/categorization-rules/test', {
+        method: 'POST',
+        body: toRuleBody(data),
+      });
+    },
+    onSuccess: (result) => setTestResult(result),
+    onError: (error) => {
+      setTestResult(null);
+      toast({
+        title: 'Test Failed',
+        description: error.message || 'Failed to test rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Renumbers the whole list so that equal or missing priorities can't block a move
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const reordered = [...rules];
+    const [rule] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, rule);
+
+    const updates = reordered
+      .map((rule, position) => ({ id: rule.id, priority: (position + 1) * PRIORITY_STEP, current: rule.priority }))
+      .filter(update => update.priority !== update.current)
+      .map(update => ({ id: update.id, data: { priority: update.priority } }));
+    updateRuleMutation.mutate(updates);
+  };
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setTestResult(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: CategorizationRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      descriptionMatchType: rule.descriptionMatchType === 'regex' ? 'regex' : 'contains',
+      descriptionPattern: rule.descriptionPattern || '',
+      minAmount: rule.minAmount || '',
+      maxAmount: rule.maxAmount || '',
+      sourceLabel: rule.sourceLabel || '',
+      cardholderName: rule.cardholderName || '',
+      setCategoryId: rule.setCategoryId || NONE,
+      setPartnerId: rule.setPartnerId || NONE,
+      setTags: (rule.setTags || []).join(', '),
+      setType: (rule.setType as TransactionType | null) || NONE,
+      setExcludeFromSpending: rule.setExcludeFromSpending === 1,
+    });
+    setTestResult(null);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setTestResult(null);
+  };
+
+  const handleSave = () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please give the rule a name.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveRuleMutation.mutate(formData);
+  };
+
+  const updateField = <K extends keyof RuleFormData>(field: K) => (value: RuleFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setTestResult(null);
+  };
+
+  const getCategory = (categoryId: string | null) => categories.find(category => category.id === categoryId);
+  const getPartner = (partnerId: string | null) => partners.find(partner => partner.id === partnerId);
+
+  const describeConditions = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    if (rule.descriptionPattern) {
+      conditions.push(rule.descriptionMatchType === 'regex'
+        ? `matches /${rule.descriptionPattern}/`
+        : `contains "${rule.descriptionPattern}"`);
+    }
+    if (rule.minAmount) conditions.push(`≥ ${currencySymbol}${rule.minAmount}`);
+    if (rule.maxAmount) conditions.push(`≤ ${currencySymbol}${rule.maxAmount}`);
+    if (rule.sourceLabel) conditions.push(`from ${rule.sourceLabel}`);
+    if (rule.cardholderName) conditions.push(`card of ${rule.cardholderName}`);
+    return conditions;
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading rules...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <ListFilter className="h-5 w-5" />
+                <span>Categorization Rules</span>
+              </CardTitle>
+              <CardDescription>
+                Applied to imported transactions from top to bottom, before learned rules and the categorization provider
+              </CardDescription>
+            </div>
+
+            <Button onClick={openCreateDialog} data-testid="button-create-categorization-rule">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Rule
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-center py-8">
+              <ListFilter className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No rules created yet.</p>
+              <p className="text-sm text-muted-foreground">
+                Create a rule to categorize, assign or tag matching transactions automatically.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {rules.map((rule, index) => {
+                const category = getCategory(rule.setCategoryId);
+                const partner = getPartner(rule.setPartnerId);
+                return (
+                  <div
+                    key={rule.id}
+                    className={`flex items-center justify-between p-4 border rounded-lg ${rule.isActive ? '' : 'opacity-60'}`}
+                    data-testid={`row-categorization-rule-${rule.id}`}
+                  >
+                    <div className="space-y-1">
+                      <p className="font-medium">{rule.name}</p>
+                      <p className="text-sm text-gray-600">
+                        If {describeConditions(rule).join(' and ')}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {category && <Badge variant="secondary">{category.emoji} {category.name}</Badge>}
+                        {partner && <Badge variant="secondary">{partner.name}</Badge>}
+                        {(rule.setTags || []).map((tag) => (
+                          <Badge key={tag} variant="outline">#{tag}</Badge>
+                        ))}
+                        {rule.setType === 'income' && <Badge variant="outline">Income</Badge>}
+                        {rule.setType === 'expense' && <Badge variant="outline">Expense</Badge>}
+                        {rule.setType === 'transfer' && <Badge variant="outline">Transfer</Badge>}
+                        {rule.setExcludeFromSpending === 1 && <Badge variant="outline">Excluded from spending</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={rule.isActive === 1}
+                        onCheckedChange={(checked) =>
+                          updateRuleMutation.mutate([{ id: rule.id, data: { isActive: checked ? 1 : 0 } }])
+                        }
+                        disabled={updateRuleMutation.isPending}
+                        data-testid={`switch-categorization-rule-active-${rule.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0 || updateRuleMutation.isPending}
+                        data-testid={`button-move-up-categorization-rule-${rule.id}`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1 || updateRuleMutation.isPending}
+                        data-testid={`button-move-down-categorization-rule-${rule.id}`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEditDialog(rule)}
+                        data-testid={`button-edit-categorization-rule-${rule.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => deleteRuleMutation.mutate(rule.id)}
+                        disabled={deleteRuleMutation.isPending}
+                        data-testid={`button-delete-categorization-rule-${rule.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'Create Rule'}</DialogTitle>
+            <DialogDescription>
+              All conditions you fill in must match. Text comparisons ignore case.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="rule-name">Rule Name</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => updateField('name')(e.target.value)}
+                placeholder="e.g. Rent"
+                data-testid="input-categorization-rule-name"
+              />
+            </div>
+
+            <p className="text-sm font-medium">Conditions</p>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Description</Label>
+                <Select
+                  value={formData.descriptionMatchType}
+                  onValueChange={(value) => updateField('descriptionMatchType')(value as RuleFormData['descriptionMatchType'])}
+                >
+                  <SelectTrigger data-testid="select-categorization-rule-match-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contains">Contains</SelectItem>
+                    <SelectItem value="regex">Regex</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="rule-pattern">Pattern</Label>
+                <Input
+                  id="rule-pattern"
+                  value={formData.descriptionPattern}
+                  onChange={(e) => updateField('descriptionPattern')(e.target.value)}
+                  placeholder={formData.descriptionMatchType === 'regex' ? '^(rewe|edeka)\\b' : 'e.g. Miete'}
+                  data-testid="input-categorization-rule-pattern"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-min-amount">Min Amount</Label>
+                <Input
+                  id="rule-min-amount"
+                  value={formData.minAmount}
+                  onChange={(e) => updateField('minAmount')(e.target.value)}
+                  placeholder="Any"
+                  data-testid="input-categorization-rule-min-amount"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-max-amount">Max Amount</Label>
+                <Input
+                  id="rule-max-amount"
+                  value={formData.maxAmount}
+                  onChange={(e) => updateField('maxAmount')(e.target.value)}
+                  placeholder="Any"
+                  data-testid="input-categorization-rule-max-amount"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-source-label">Source Label</Label>
+                <Input
+                  id="rule-source-label"
+                  value={formData.sourceLabel}
+                  onChange={(e) => updateField('sourceLabel')(e.target.value)}
+                  placeholder="e.g. AMEX"
+                  data-testid="input-categorization-rule-source-label"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-cardholder">Cardholder</Label>
+                <Input
+                  id="rule-cardholder"
+                  value={formData.cardholderName}
+                  onChange={(e) => updateField('cardholderName')(e.target.value)}
+                  placeholder="Name on the card"
+                  data-testid="input-categorization-rule-cardholder"
+                />
+              </div>
+            </div>
+
+            <p className="text-sm font-medium">Actions</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Set Category</Label>
+                <Select value={formData.setCategoryId} onValueChange={updateField('setCategoryId')}>
+                  <SelectTrigger data-testid="select-categorization-rule-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don't change</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.emoji} {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Set Partner</Label>
+                <Select value={formData.setPartnerId} onValueChange={updateField('setPartnerId')}>
+                  <SelectTrigger data-testid="select-categorization-rule-partner">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don't change</SelectItem>
+                    {partners.map((partner) => (
+                      <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-tags">Add Tags</Label>
+                <Input
+                  id="rule-tags"
+                  value={formData.setTags}
+                  onChange={(e) => updateField('setTags')(e.target.value)}
+                  placeholder="Comma separated, e.g. household, fixed"
+                  data-testid="input-categorization-rule-tags"
+                />
+              </div>
+              <div>
+                <Label>Set Type</Label>
+                <Select value={formData.setType} onValueChange={updateField('setType')}>
+                  <SelectTrigger data-testid="select-categorization-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don't change</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="transfer">Transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-exclude">Exclude from spending totals</Label>
+              <Switch
+                id="rule-exclude"
+                checked={formData.setExcludeFromSpending}
+                onCheckedChange={updateField('setExcludeFromSpending')}
+                data-testid="switch-categorization-rule-exclude"
+              />
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Button
+                variant="outline"
+                onClick={() => testRuleMutation.mutate(formData)}
+                disabled={testRuleMutation.isPending}
+                data-testid="button-test-categorization-rule"
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                {testRuleMutation.isPending ? 'Testing...' : 'Test Against History'}
+              </Button>
+
+              {testResult && (
+                <div className="text-sm space-y-1" data-testid="text-categorization-rule-test-result">
+                  <p className="text-gray-600">
+                    Matches {testResult.matchCount} existing expense{testResult.matchCount === 1 ? '' : 's'}
+                    {formData.cardholderName.trim() && ' (the cardholder condition is only checked on import)'}
+                  </p>
+                  {testResult.matches.slice(0, 10).map((expense) => (
+                    <div key={expense.id} className="flex justify-between gap-2 p-2 rounded border">
+                      <span className="truncate">{expense.description}</span>
+                      <span className="whitespace-nowrap text-gray-600">
+                        {format(new Date(expense.date), 'dd.MM.yyyy')} · {formatBase(parseFloat(expense.amount))}
+                      </span>
+                    </div>
+                  ))}
+                  {testResult.matchCount > 10 && (
+                    <p className="text-gray-500">and {testResult.matchCount - 10} more</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveRuleMutation.isPending}
+              data-testid="button-save-categorization-rule"
+            >
+              {editingRule ? 'Update Rule' : 'Create Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
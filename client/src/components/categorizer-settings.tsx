@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Brain, FlaskConical, Save } from 'lucide-react';
+import type { Category, HouseholdSettings } from '@shared/schema';
+
+interface CategorizerFormData {
+  categorizerProvider: string;
+  categorizerModel: string;
+  categorizerEndpoint: string;
+}
+
+interface TestResult {
+  provider: string | null;
+  suggestion: { categoryId: string; confidence: number } | null;
+}
+
+const providerDescriptions: Record<string, string> = {
+  openai: 'Uses the OpenAI API. Requires OPENAI_API_KEY on the server.',
+  local_endpoint: 'Uses a self-hosted server that speaks the OpenAI chat completions API (e.g. Ollama, llama.cpp, LM Studio).',
+  offline: 'Learns from your verified expenses. Runs on the server without any network access.',
+  keywords: 'Only uses your categorization rules and the mappings learned from your corrections.',
+};
+
+export function CategorizerSettings() {
+  const [formData, setFormData] = useState<CategorizerFormData>({
+    categorizerProvider: 'openai',
+    categorizerModel: '',
+    categorizerEndpoint: '',
+  });
+  const [testDescription, setTestDescription] = useState('');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<HouseholdSettings>({
+    queryKey: ['/api/settings/household'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setFormData({
+        categorizerProvider: settings.categorizerProvider,
+        categorizerModel: settings.categorizerModel || '',
+        categorizerEndpoint: settings.categorizerEndpoint || '',
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CategorizerFormData) => {
+      return await apiRequest('/api/settings/household', {
+        method: 'PATCH',
+        body: {
+          categorizerProvider: data.categorizerProvider,
+          categorizerModel: data.categorizerModel.trim() || null,
+          categorizerEndpoint: data.categorizerEndpoint.trim() || null,
+        },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/household'] });
+      setTestResult(null);
+      toast({
+        title: 'Settings Saved',
+        description: 'New statement uploads will use the selected categorizer.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save categorizer settings',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (description: string): Promise<TestResult> => {
+      return await apiRequest('/api/settings/household/test-categorizer', {
+        method: 'POST',
+        body: { description },
+      });
+    },
+    onSuccess: (result) => setTestResult(result),
+    onError: (error) => {
+      setTestResult(null);
+      toast({
+        title: 'Test Failed',
+        description: error.message || 'The categorizer could not be reached',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (formData.categorizerProvider === 'local_endpoint' && !formData.categorizerEndpoint.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please enter the endpoint URL of your local server',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  const usesChatModel = formData.categorizerProvider === 'openai' || formData.categorizerProvider === 'local_endpoint';
+  const suggestedCategory = testResult?.suggestion
+    ? categories.find(category => category.id === testResult.suggestion!.categoryId)
+    : undefined;
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading categorizer settings...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Categorization Provider
+          </CardTitle>
+          <CardDescription>
+            Used for imported transactions that the keyword patterns can't categorize confidently
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="categorizer-provider">Provider</Label>
+            <Select
+              value={formData.categorizerProvider}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, categorizerProvider: value }))}
+            >
+              <SelectTrigger id="categorizer-provider" data-testid="select-categorizer-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="openai">OpenAI</SelectItem>
+                <SelectItem value="local_endpoint">Local OpenAI-compatible endpoint</SelectItem>
+                <SelectItem value="offline">Offline classifier</SelectItem>
+                <SelectItem value="keywords">Rules only</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-600">{providerDescriptions[formData.categorizerProvider]}</p>
+          </div>
+
+          {formData.categorizerProvider === 'local_endpoint' && (
+            <div className="space-y-2">
+              <Label htmlFor="categorizer-endpoint">Endpoint URL</Label>
+              <Input
+                id="categorizer-endpoint"
+                value={formData.categorizerEndpoint}
+                onChange={(e) => setFormData(prev => ({ ...prev, categorizerEndpoint: e.target.value }))}
+                placeholder="http://localhost:11434/v1"
+                data-testid="input-categorizer-endpoint"
+              />
+            </div>
+          )}
+
+          {usesChatModel && (
+            <div className="space-y-2">
+              <Label htmlFor="categorizer-model">Model</Label>
+              <Input
+                id="categorizer-model"
+                value={formData.categorizerModel}
+                onChange={(e) => setFormData(prev => ({ ...prev, categorizerModel: e.target.value }))}
+                placeholder={formData.categorizerProvider === 'openai' ? 'gpt-4o' : 'llama3.1'}
+                data-testid="input-categorizer-model"
+              />
+            </div>
+          )}
+
+          <Button
+            onClick={handleSave}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-categorizer"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Try It
+          </CardTitle>
+          <CardDescription>
+            Categorize a sample description with the saved provider
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={testDescription}
+              onChange={(e) => setTestDescription(e.target.value)}
+              placeholder="e.g. VAPIANO BERLIN HBF"
+              data-testid="input-categorizer-test"
+            />
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate(testDescription)}
+              disabled={!testDescription.trim() || testMutation.isPending}
+              data-testid="button-test-categorizer"
+            >
+              {testMutation.isPending ? 'Testing...' : 'Test'}
+            </Button>
+          </div>
+
+          {testResult && (
+            <div className="p-3 rounded-md border text-sm" data-testid="text-categorizer-result">
+              {!testResult.provider ? (
+                <p className="text-gray-600">
+                  No categorizer is active, so only keyword patterns will be used.
+                </p>
+              ) : suggestedCategory ? (
+                <div className="flex items-center gap-2">
+                  <span>{testResult.provider} suggests</span>
+                  <Badge variant="secondary">
+                    {suggestedCategory.emoji} {suggestedCategory.name}
+                  </Badge>
+                  <span className="text-gray-600">
+                    ({Math.round(testResult.suggestion!.confidence * 100)}% confidence)
+                  </span>
+                </div>
+              ) : (
+                <p className="text-gray-600">
+                  {testResult.provider} had no suggestion for this description.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
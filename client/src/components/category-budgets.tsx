@@ -3,87 +3,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useDateRange } from "@/contexts/date-range-context";
 import { format } from "date-fns";
-import type { Expense, Category, BudgetPeriod } from "@shared/schema";
+import type { Category } from "@shared/schema";
+import type { CategoryBudgetStatus } from "@shared/budgets";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 
-type CategoryWithBudget = Category & {
-  spent: number;
-  budget: number;
-  remaining: number;
-  percentage: number;
-  isOverBudget: boolean;
-  budgetSource: string;
-  usingBudgetPeriod: boolean;
-};
+// The status's budget replaces the category's legacy budget field
+type CategoryWithBudget = Omit<Category, "budget"> & CategoryBudgetStatus;
 
 export default function CategoryBudgets() {
-  const { startDate, endDate, budgetMultiplier } = useDateRange();
+  const { formatBase } = useBaseCurrency();
+  const { startDate, endDate } = useDateRange();
+  const { getCategoryStatus } = useBudgetStatus();
   
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: expenses = [] } = useQuery<Expense[]>({
-    queryKey: ["/api/expenses"],
-  });
-
-  const { data: budgetPeriods = [] } = useQuery<BudgetPeriod[]>({
-    queryKey: ["/api/budget-periods"],
-  });
-
-  // Calculate spending per category with date range filtering and budget period integration
-  const categorySpending: CategoryWithBudget[] = categories
-    .filter((category): category is Category => category !== null && category !== undefined)
-    .map((category) => {
-    // Filter expenses by selected date range
-    const filteredExpenses = expenses.filter((expense) => {
-      if (!expense?.date || expense.categoryId !== category.id) return false;
-      const expenseDate = new Date(expense.date);
-      return expenseDate >= startDate && expenseDate <= endDate;
-    });
-    
-    const spent = filteredExpenses.reduce((sum: number, expense) => {
-      if (!expense || !expense.amount) return sum;
-      const amount = parseFloat(expense.amount);
-      return sum + (isNaN(amount) ? 0 : amount);
-    }, 0);
-    
-    // Check for active budget periods that overlap with selected date range and match this category
-    const activeBudgetPeriod = budgetPeriods.find((period) => {
-      if (!period.isActive || period.categoryId !== category.id) return false;
-      const periodStart = new Date(period.startDate);
-      const periodEnd = new Date(period.endDate);
-      
-      // Check if the budget period overlaps with the selected date range
-      return periodStart <= endDate && periodEnd >= startDate;
-    });
-    
-    let budget: number;
-    let budgetSource: string;
-    
-    if (activeBudgetPeriod) {
-      // Use budget period amount if there's an active period for this category
-      budget = parseFloat(activeBudgetPeriod.budgetAmount || "0");
-      budgetSource = `Budget Period: ${activeBudgetPeriod.name}`;
-    } else {
-      // Fall back to proportional monthly budget
-      const monthlyBudget = parseFloat(category.monthlyBudget || "0");
-      budget = isNaN(monthlyBudget) ? 0 : monthlyBudget * budgetMultiplier;
-      budgetSource = `Monthly Budget (${budgetMultiplier.toFixed(2)}x)`;
-    }
-    
-    const remaining = budget - spent;
-    const percentage = budget > 0 ? Math.min((spent / budget) * 100, 100) : 0;
-    
-    return {
-      ...category,
-      spent,
-      budget,
-      remaining,
-      percentage,
-      isOverBudget: spent > budget && budget > 0,
-      budgetSource,
-      usingBudgetPeriod: !!activeBudgetPeriod,
-    } as CategoryWithBudget;
+  // Budgets come from the server's budget engine: monthly budgets prorated per calendar month, active budget
+  // periods on the days they cover, and envelope carry-over
+  const categorySpending: CategoryWithBudget[] = categories.flatMap((category) => {
+    const status = getCategoryStatus(category.id);
+    return status ? [{ ...category, ...status }] : [];
   });
 
   return (
@@ -104,31 +45,44 @@ export default function CategoryBudgets() {
                   <div>
                     <p className="font-medium text-foreground flex items-center space-x-2">
                       <span>{category.name}</span>
-                      {category.usingBudgetPeriod && (
+                      {category.source === "period" && (
                         <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
                           Period Budget
                         </span>
                       )}
+                      {category.carriedIn !== null && (
+                        <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                          Envelope
+                        </span>
+                      )}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      €{category.spent.toFixed(2)} / €{category.budget.toFixed(2)}
+                      {formatBase(category.spent)} / {formatBase(category.budget)}
+                      {category.carriedIn !== null && category.carriedIn !== 0 && (
+                        ` · ${category.carriedIn > 0 ? "+" : "−"}${formatBase(Math.abs(category.carriedIn))} carried over`
+                      )}
                     </p>
                   </div>
                 </div>
                 <div className="text-right">
                   {category.isOverBudget ? (
                     <p className="text-sm font-medium text-red-600">
-                      €{Math.abs(category.remaining).toFixed(2)} over
+                      {formatBase(Math.abs(category.remaining))} {category.carriedIn !== null ? "overdrawn" : "over"}
                     </p>
                   ) : (
                     <p className="text-sm font-medium text-green-600">
-                      €{category.remaining.toFixed(2)} left
+                      {formatBase(category.remaining)} {category.carriedIn !== null ? "available" : "left"}
+                    </p>
+                  )}
+                  {category.pace === "at_risk" && (
+                    <p className="text-xs text-amber-600" data-testid={`text-pace-${category.id}`}>
+                      On pace for {formatBase(category.projectedSpent)}
                     </p>
                   )}
                 </div>
               </div>
               <Progress 
-                value={category.percentage} 
+                value={Math.min(category.percentage, 100)} 
                 className="h-2"
               />
             </div>
@@ -6,6 +6,7 @@ import { X, CalendarIcon, User } from "lucide-react";
 import type { Category, Expense, Partner } from "@shared/schema";
 import { useDateRange } from "@/contexts/date-range-context";
 import { format, isValid } from "date-fns";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 interface CategoryExpensesProps {
   category: Category;
@@ -13,6 +14,7 @@ interface CategoryExpensesProps {
 }
 
 export default function CategoryExpenses({ category, onClose }: CategoryExpensesProps) {
+  const { formatBase } = useBaseCurrency();
   const { startDate, endDate } = useDateRange();
   
   const { data: expenses = [] } = useQuery<Expense[]>({
@@ -64,7 +66,7 @@ export default function CategoryExpenses({ category, onClose }: CategoryExpenses
             {format(startDate, "MMM d")} - {format(endDate, "MMM d, yyyy")}
           </span>
           <span className="font-medium">
-            Total: €{totalSpent.toFixed(2)} ({sortedExpenses.length} transactions)
+            Total: {formatBase(totalSpent)} ({sortedExpenses.length} transactions)
           </span>
         </div>
       </CardHeader>
@@ -115,7 +117,7 @@ export default function CategoryExpenses({ category, onClose }: CategoryExpenses
                     </div>
                     <div className="flex-shrink-0 text-right min-w-[80px]">
                       <p className="text-sm font-semibold text-foreground">
-                        €{parseFloat(expense.amount || "0").toFixed(2)}
+                        {formatBase(parseFloat(expense.amount || "0"))}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Coins, Save, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import type { ExchangeRate, HouseholdSettings } from '@shared/schema';
+
+interface ImportResult {
+  imported: number;
+  errors: { line: number; message: string }[];
+}
+
+const RATES_SHOWN = 50;
+
+export function CurrencySettings() {
+  const [baseCurrency, setBaseCurrency] = useState('EUR');
+  const [importErrors, setImportErrors] = useState<ImportResult['errors']>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<HouseholdSettings>({
+    queryKey: ['/api/settings/household'],
+  });
+
+  const { data: rates = [] } = useQuery<ExchangeRate[]>({
+    queryKey: ['/api/exchange-rates'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setBaseCurrency(settings.baseCurrency);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      return await apiRequest('/api/settings/household', {
+        method: 'PATCH',
+        body: { baseCurrency: currency },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/household'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      toast({
+        title: 'Base Currency Saved',
+        description: 'All amounts and totals are now shown in the new base currency.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to change the base currency',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<ImportResult> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return await apiRequest('/api/exchange-rates/import', {
+        method: 'POST',
+        body: formData,
+      });
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+      setImportErrors(result.errors);
+      toast({
+        title: 'Rates Imported',
+        description: `${result.imported} rate${result.imported === 1 ? '' : 's'} imported${result.errors.length > 0 ? `, ${result.errors.length} line${result.errors.length === 1 ? '' : 's'} skipped` : ''}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Import Failed',
+        description: error.message || 'Failed to import exchange rates',
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/exchange-rates/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete exchange rate',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const normalizedBase = baseCurrency.trim().toUpperCase();
+  const isBaseValid = /^[A-Z]{3}$/.test(normalizedBase);
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading currency settings...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Base Currency
+          </CardTitle>
+          <CardDescription>
+            Expenses in other currencies are converted into it when they are saved, and every total is reported in it.
+            Changing it converts all existing expenses again from their original amounts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end space-x-2">
+            <div>
+              <Label htmlFor="base-currency">Currency code</Label>
+              <Input
+                id="base-currency"
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value)}
+                maxLength={3}
+                className="w-24"
+                data-testid="input-base-currency"
+              />
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate(normalizedBase)}
+              disabled={!isBaseValid || normalizedBase === settings?.baseCurrency || saveMutation.isPending}
+              data-testid="button-save-base-currency"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? 'Converting...' : 'Save'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>
+                Import a CSV file with the columns date,from,to,rate, e.g. "2024-03-01,USD,EUR,0.9234".
+                An expense uses the latest rate on or before its date.
+              </CardDescription>
+            </div>
+            <div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importMutation.mutate(file);
+                }}
+                data-testid="input-exchange-rate-file"
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importMutation.isPending}
+                data-testid="button-import-exchange-rates"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importMutation.isPending ? 'Importing...' : 'Import CSV'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {importErrors.length > 0 && (
+            <div className="rounded-md border border-amber-500 p-3 text-sm">
+              <p className="font-medium mb-1">Skipped lines</p>
+              {importErrors.slice(0, 10).map((error) => (
+                <p key={error.line} className="text-muted-foreground">Line {error.line}: {error.message}</p>
+              ))}
+            </div>
+          )}
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No exchange rates yet. Expenses can only be entered in the base currency until rates are imported.
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Pair</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.slice(0, RATES_SHOWN).map((rate) => (
+                    <TableRow key={rate.id} data-testid={`row-exchange-rate-${rate.id}`}>
+                      <TableCell>{format(new Date(rate.date), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>1 {rate.fromCurrency} → {rate.toCurrency}</TableCell>
+                      <TableCell className="text-right">{parseFloat(rate.rate)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(rate.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-exchange-rate-${rate.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rates.length > RATES_SHOWN && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Showing the {RATES_SHOWN} most recent of {rates.length} rates
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, BarChart3, Plus, List, Upload, Settings, FileText, PlusSquare, Moon, Sun } from "lucide-react";
+import { Home, BarChart3, Plus, List, Upload, Settings, FileText, PlusSquare, Scale, TrendingUp, ListChecks, Repeat, Moon, Sun } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { useTheme } from "@/contexts/theme-context";
@@ -14,6 +14,10 @@ export default function DesktopNavigation() {
     { path: "/upload", icon: Upload, label: "Upload" },
     { path: "/statements", icon: FileText, label: "Statements" },
     { path: "/bulk-add", icon: PlusSquare, label: "Bulk Add" },
+    { path: "/settle-up", icon: Scale, label: "Settle Up" },
+    { path: "/cash-flow", icon: TrendingUp, label: "Cash Flow" },
+    { path: "/reconciliation", icon: ListChecks, label: "Reconciliation" },
+    { path: "/subscriptions", icon: Repeat, label: "Subscriptions" },
     { path: "/settings", icon: Settings, label: "Settings" },
   ];
 
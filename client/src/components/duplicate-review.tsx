@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowRight, GitMerge, Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Expense, SuspectedDuplicate } from '@shared/schema';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+
+interface DuplicateReviewProps {
+  statementId: string;
+  duplicates: SuspectedDuplicate[];
+}
+
+type DuplicateAction = 'skip' | 'merge' | 'import';
+
+export function DuplicateReview({ statementId, duplicates }: DuplicateReviewProps) {
+  const { formatBase } = useBaseCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: ['/api/expenses'],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ transactionId, action }: { transactionId: string; action: DuplicateAction }) => {
+      return await apiRequest(`/api/statements/${statementId}/duplicates/${transactionId}`, {
+        method: 'POST',
+        body: { action },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/statements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to resolve duplicate',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const getResolutionLabel = (resolution: SuspectedDuplicate['resolution']) => {
+    switch (resolution) {
+      case 'skipped':
+        return 'Skipped';
+      case 'merged':
+        return 'Merged';
+      case 'imported':
+        return 'Imported';
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        These rows were not imported because they match an existing expense. Skip them, merge the bank
+        details into the existing expense, or import them anyway.
+      </p>
+      {duplicates.map(({ transaction, expenseId, matchType, resolution }) => {
+        const existing = expenses.find(expense => expense.id === expenseId);
+        const resolutionLabel = getResolutionLabel(resolution);
+
+        return (
+          <div
+            key={transaction.id}
+            className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg border"
+            data-testid={`duplicate-${transaction.id}`}
+          >
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-2 text-sm">
+              <div>
+                <p className="font-medium">{transaction.description}</p>
+                <p className="text-muted-foreground">
+                  {format(new Date(transaction.date), 'MMM dd, yyyy')} • {formatBase(transaction.amount)}
+                  {transaction.sourceLabel && ` • ${transaction.sourceLabel}`}
+                </p>
+              </div>
+              <ArrowRight className="h-4 w-4 text-muted-foreground hidden md:block" />
+              <div>
+                {existing ? (
+                  <>
+                    <p className="font-medium">{existing.description}</p>
+                    <p className="text-muted-foreground">
+                      {format(new Date(existing.date), 'MMM dd, yyyy')} • {formatBase(parseFloat(existing.amount))}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">Matched expense not found</p>
+                )}
+                <Badge variant="outline" className="mt-1">
+                  {matchType === 'manual' ? 'Manual entry' : 'Earlier upload'}
+                </Badge>
+              </div>
+            </div>
+
+            {resolutionLabel ? (
+              <Badge variant="secondary">{resolutionLabel}</Badge>
+            ) : (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ transactionId: transaction.id, action: 'skip' })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-skip-duplicate-${transaction.id}`}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Skip
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ transactionId: transaction.id, action: 'merge' })}
+                  disabled={resolveMutation.isPending || !existing}
+                  data-testid={`button-merge-duplicate-${transaction.id}`}
+                >
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  Merge
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ transactionId: transaction.id, action: 'import' })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-import-duplicate-${transaction.id}`}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
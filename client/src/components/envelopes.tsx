@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowRight, ArrowRightLeft, Mail } from "lucide-react";
+import { format } from "date-fns";
+import type { Category, EnvelopeTransfer, Expense } from "@shared/schema";
+import { getEnvelopeMonths, isEnvelope } from "@shared/envelopes";
+import { expandLineItems } from "@shared/line-items";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isExcludedFromSpending, normalizeAmount } from "@/lib/expense-utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+const MOVES_SHOWN = 5;
+
+interface MoveForm {
+  fromCategoryId: string;
+  toCategoryId: string;
+  amount: string;
+  note: string;
+}
+
+const emptyForm = (): MoveForm => ({
+  fromCategoryId: "",
+  toCategoryId: "",
+  amount: "",
+  note: "",
+});
+
+export default function Envelopes() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<MoveForm>(emptyForm);
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: transfers = [] } = useQuery<EnvelopeTransfer[]>({
+    queryKey: ["/api/envelope-transfers"],
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async (data: MoveForm) =>
+      apiRequest("/api/envelope-transfers", {
+        method: "POST",
+        body: {
+          fromCategoryId: data.fromCategoryId,
+          toCategoryId: data.toCategoryId,
+          amount: parseFloat(normalizeAmount(data.amount)).toFixed(2),
+          note: data.note.trim() || null,
+        },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/envelope-transfers"] });
+      setIsDialogOpen(false);
+      toast({ description: "Money moved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move money",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const envelopes = categories.filter((category) => category.kind === "expense" && isEnvelope(category));
+  if (envelopes.length === 0) return null;
+
+  // What each envelope holds this month, after carry-over, moves and spending so far
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const spendingRows = expandLineItems(expenses).filter((expense) => !isExcludedFromSpending(expense));
+  const balances = envelopes.map((category) => {
+    const ledger = getEnvelopeMonths(category, spendingRows, transfers, currentMonth);
+    return { category, month: ledger[ledger.length - 1] };
+  });
+
+  const getCategoryName = (id: string) => categories.find((category) => category.id === id)?.name || "Removed category";
+
+  const handleSubmit = () => {
+    const amount = parseFloat(normalizeAmount(form.amount));
+    if (!form.fromCategoryId || !form.toCategoryId || form.fromCategoryId === form.toCategoryId) {
+      toast({ description: "Choose two different envelopes", variant: "destructive" });
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      toast({ description: "Please enter a positive amount", variant: "destructive" });
+      return;
+    }
+    moveMutation.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Mail className="h-5 w-5" />
+            <span>Envelopes</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setForm(emptyForm());
+              setIsDialogOpen(true);
+            }}
+            disabled={envelopes.length < 2}
+            data-testid="button-move-money"
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Move
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">Available in {format(new Date(), "MMMM")}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {balances.map(({ category, month }) => (
+            <div key={category.id} className="flex items-center justify-between" data-testid={`envelope-${category.id}`}>
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className="text-lg">{category.emoji}</span>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{category.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBase(month?.carriedIn ?? 0)} carried · {formatBase(month?.funded ?? 0)} funded
+                    {month && month.moved !== 0 && ` · ${month.moved > 0 ? "+" : "−"}${formatBase(Math.abs(month.moved))} moved`}
+                  </p>
+                </div>
+              </div>
+              <span className={`text-sm font-medium ${(month?.available ?? 0) < 0 ? "text-red-600" : "text-green-600"}`}>
+                {formatBase(month?.available ?? 0)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {transfers.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-xs font-medium text-muted-foreground">Recent moves</p>
+            {transfers.slice(0, MOVES_SHOWN).map((transfer) => (
+              <div key={transfer.id} className="text-xs" data-testid={`envelope-transfer-${transfer.id}`}>
+                <div className="flex items-center space-x-1">
+                  <span>{getCategoryName(transfer.fromCategoryId)}</span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <span>{getCategoryName(transfer.toCategoryId)}</span>
+                  <span className="font-medium">{formatBase(parseFloat(transfer.amount))}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {format(new Date(transfer.createdAt), "MMM d, HH:mm")}
+                  {transfer.note && ` · ${transfer.note}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Money</DialogTitle>
+            <DialogDescription>
+              Moves are kept as a record and count towards this month. Move the money back to undo one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>From</Label>
+                <Select value={form.fromCategoryId} onValueChange={(value) => setForm(prev => ({ ...prev, fromCategoryId: value }))}>
+                  <SelectTrigger data-testid="select-envelope-from">
+                    <SelectValue placeholder="Envelope" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {envelopes.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>{category.emoji} {category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select value={form.toCategoryId} onValueChange={(value) => setForm(prev => ({ ...prev, toCategoryId: value }))}>
+                  <SelectTrigger data-testid="select-envelope-to">
+                    <SelectValue placeholder="Envelope" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {envelopes.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>{category.emoji} {category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="envelope-amount">Amount ({currencySymbol})</Label>
+              <Input
+                id="envelope-amount"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value.replace(/[^0-9.,]/g, "") }))}
+                placeholder="0.00"
+                data-testid="input-envelope-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="envelope-note">Note (Optional)</Label>
+              <Input
+                id="envelope-note"
+                value={form.note}
+                onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="e.g. Birthday dinner"
+                data-testid="input-envelope-note"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={moveMutation.isPending} data-testid="button-save-move">
+              Move Money
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
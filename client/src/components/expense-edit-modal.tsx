@@ -12,7 +12,12 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import type { Expense, Category, Partner } from '@shared/schema';
+import { getSplitValidationError, rescaleFixedShares } from '@shared/splits';
+import { SplitSelector, type SplitValue } from '@/components/split-selector';
+import { LineItemsEditor, getInitialLineItems, getLineItemsEditorError } from '@/components/line-items-editor';
+import type { Account, Expense, Category, LineItem, Partner, SplitType, TransactionType } from '@shared/schema';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+import { COMMON_CURRENCIES, getCurrencySymbol } from '@/lib/expense-utils';
 
 interface ExpenseEditModalProps {
   expense: Expense & { category: Category; partner: Partner };
@@ -21,17 +26,30 @@ interface ExpenseEditModalProps {
 }
 
 export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalProps) {
+  const { baseCurrency, formatBase } = useBaseCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
+  // The amount is edited in the currency it was paid in, like it was entered
   const [formData, setFormData] = useState({
-    amount: expense.amount,
+    amount: expense.foreignAmount ?? expense.amount,
+    currency: expense.currency,
     description: expense.description,
     categoryId: expense.categoryId,
     partnerId: expense.partnerId,
     date: new Date(expense.date),
-    sourceLabel: expense.sourceLabel || '',
+    accountId: expense.accountId,
+    type: expense.type as TransactionType,
+    refundOfExpenseId: expense.refundOfExpenseId,
   });
+  const [split, setSplit] = useState<SplitValue>({
+    splitType: expense.splitType as SplitType,
+    splitShares: expense.splitType === 'fixed' && expense.splitShares && expense.foreignAmount !== null
+      ? rescaleFixedShares(expense.splitShares, parseFloat(expense.foreignAmount))
+      : expense.splitShares,
+  });
+
+  const [lineItems, setLineItems] = useState<LineItem[] | null>(expense.lineItems);
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
@@ -41,17 +59,44 @@ export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalP
     queryKey: ["/api/partners"],
   });
 
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  // Earlier purchases from the same merchant this refund could return, most recent first
+  const isRefund = formData.type === 'expense' && parseFloat(formData.amount.replace(',', '.')) < 0;
+  const refundCandidates = expenses
+    .filter(candidate =>
+      candidate.id !== expense.id &&
+      candidate.type === 'expense' &&
+      parseFloat(candidate.amount) > 0 &&
+      new Date(candidate.date) <= formData.date &&
+      (candidate.id === formData.refundOfExpenseId || (expense.merchantId !== null && candidate.merchantId === expense.merchantId))
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 20);
+
   const updateMutation = useMutation({
     mutationFn: async (data: any) => {
       return await apiRequest(`/api/expenses/${expense.id}`, {
         method: 'PATCH',
         body: {
           amount: data.amount,
+          currency: data.currency,
           description: data.description,
           categoryId: data.categoryId,
           partnerId: data.partnerId,
           date: data.date.toISOString(),
-          sourceLabel: data.sourceLabel,
+          accountId: data.accountId,
+          type: data.type,
+          refundOfExpenseId: isRefund ? data.refundOfExpenseId : null,
+          splitType: split.splitType,
+          splitShares: split.splitShares,
+          lineItems,
         },
       });
     },
@@ -90,6 +135,26 @@ export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalP
       return;
     }
 
+    const splitError = getSplitValidationError(split.splitType, split.splitShares, numericAmount);
+    if (splitError) {
+      toast({
+        title: "Invalid Split",
+        description: splitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lineItemsError = lineItems ? getLineItemsEditorError(lineItems, numericAmount) : null;
+    if (lineItemsError) {
+      toast({
+        title: "Invalid Line Items",
+        description: lineItemsError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateMutation.mutate({
       ...formData,
       amount: numericAmount.toString(),
@@ -128,20 +193,37 @@ export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalP
         
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <Label htmlFor="amount">Amount (€)</Label>
-            <Input
-              id="amount"
-              value={formData.amount}
-              onChange={(e) => {
-                const formatted = formatAmount(e.target.value);
-                setFormData(prev => ({ ...prev, amount: formatted }));
-              }}
-              placeholder="Enter amount (e.g., 25.50 or -5.00 for refund)"
-              data-testid="input-edit-amount"
-              required
-            />
+            <Label htmlFor="amount">Amount ({getCurrencySymbol(formData.currency).trim()})</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="amount"
+                value={formData.amount}
+                onChange={(e) => {
+                  const formatted = formatAmount(e.target.value);
+                  setFormData(prev => ({ ...prev, amount: formatted }));
+                }}
+                placeholder="Enter amount (e.g., 25.50 or -5.00 for refund)"
+                data-testid="input-edit-amount"
+                required
+              />
+              <Select
+                value={formData.currency}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+              >
+                <SelectTrigger className="w-[100px]" data-testid="select-edit-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([baseCurrency, expense.currency, ...COMMON_CURRENCIES])).map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <p className="text-xs text-gray-500 mt-1">
-              Use comma (,) or dot (.) as decimal separator
+              {expense.foreignAmount !== null && formData.currency === expense.currency
+                ? `Stored as ${formatBase(parseFloat(expense.amount))} at a rate of ${expense.exchangeRate}`
+                : 'Use comma (,) or dot (.) as decimal separator'}
             </p>
           </div>
 
@@ -157,27 +239,95 @@ export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalP
           </div>
 
           <div>
-            <Label htmlFor="category">Category</Label>
+            <Label htmlFor="type">Type</Label>
             <Select
-              value={formData.categoryId}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, categoryId: value }))}
+              value={formData.type}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as TransactionType }))}
             >
-              <SelectTrigger data-testid="select-edit-category">
-                <SelectValue placeholder="Select category" />
+              <SelectTrigger data-testid="select-edit-type">
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {categories.map((category) => (
-                  <SelectItem key={category.id} value={category.id}>
-                    <div className="flex items-center space-x-2">
-                      <span>{category.emoji}</span>
-                      <span>{category.name}</span>
-                    </div>
-                  </SelectItem>
-                ))}
+                <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category">Category</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setLineItems(lineItems
+                  ? null
+                  : getInitialLineItems(parseFloat(formData.amount.replace(',', '.')), formData.categoryId))}
+                data-testid="button-toggle-line-items"
+              >
+                {lineItems ? 'Use one category' : 'Split into categories'}
+              </Button>
+            </div>
+            {lineItems ? (
+              <LineItemsEditor
+                value={lineItems}
+                onChange={setLineItems}
+                categories={categories}
+                amount={parseFloat(formData.amount.replace(',', '.'))}
+                currency={formData.currency}
+                idPrefix="edit-line"
+              />
+            ) : (
+              <Select
+                value={formData.categoryId}
+                onValueChange={(value) => setFormData(prev => ({
+                  ...prev,
+                  categoryId: value,
+                  type: (categories.find(category => category.id === value)?.kind ?? prev.type) as TransactionType,
+                }))}
+              >
+                <SelectTrigger data-testid="select-edit-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <div className="flex items-center space-x-2">
+                        <span>{category.emoji}</span>
+                        <span>{category.name}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {isRefund && (
+            <div>
+              <Label>Refund Of</Label>
+              <Select
+                value={formData.refundOfExpenseId ?? 'none'}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, refundOfExpenseId: value === 'none' ? null : value }))}
+              >
+                <SelectTrigger data-testid="select-edit-refund-of">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not linked</SelectItem>
+                  {refundCandidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {format(new Date(candidate.date), 'MMM d, yyyy')} · {candidate.description} · {formatBase(parseFloat(candidate.amount))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="partner">Partner</Label>
             <Select
@@ -204,21 +354,32 @@ export function ExpenseEditModal({ expense, isOpen, onClose }: ExpenseEditModalP
           </div>
 
           <div>
-            <Label htmlFor="sourceLabel">Source (Optional)</Label>
+            <Label>Split</Label>
+            <SplitSelector
+              value={split}
+              onChange={setSplit}
+              partners={partners}
+              amount={parseFloat(formData.amount.replace(',', '.'))}
+              currency={formData.currency}
+              payerId={formData.partnerId}
+              idPrefix="edit-split"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="accountId">Account (Optional)</Label>
             <Select
-              value={formData.sourceLabel}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, sourceLabel: value }))}
+              value={formData.accountId ?? 'none'}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value === 'none' ? null : value }))}
             >
-              <SelectTrigger data-testid="select-edit-source">
-                <SelectValue placeholder="Select source" />
+              <SelectTrigger data-testid="select-edit-account">
+                <SelectValue placeholder="Select account" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="AMEX">AMEX</SelectItem>
-                <SelectItem value="DKB">DKB Bank</SelectItem>
-                <SelectItem value="PayPal">PayPal</SelectItem>
-                <SelectItem value="Cash">Cash</SelectItem>
-                <SelectItem value="Other Card">Other Card</SelectItem>
-                <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
+                <SelectItem value="none">No account</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -25,17 +25,20 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { ExpenseEditModal } from "@/components/expense-edit-modal";
-import type { Expense, Category, Partner } from "@shared/schema";
+import type { Account, Expense, Category, Partner } from "@shared/schema";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { formatMoney } from "@/lib/expense-utils";
 
 const ITEMS_PER_PAGE = 10;
 
 export default function ExpenseHistory() {
+  const { formatBase } = useBaseCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [partnerFilter, setPartnerFilter] = useState("all");
-  const [sourceFilter, setSourceFilter] = useState("all");
+  const [accountFilter, setAccountFilter] = useState("all");
   const [selectedExpenses, setSelectedExpenses] = useState<string[]>([]);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
@@ -55,6 +58,10 @@ export default function ExpenseHistory() {
     queryKey: ["/api/partners"],
   });
 
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   const deleteExpenseMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest(`/api/expenses/${id}`, {
@@ -146,19 +153,19 @@ export default function ExpenseHistory() {
     },
   });
 
-  const bulkUpdateLabelMutation = useMutation({
+  const bulkUpdateAccountMutation = useMutation({
     mutationFn: async ({
       ids,
-      sourceLabel,
+      accountId,
     }: {
       ids: string[];
-      sourceLabel: string;
+      accountId: string;
     }) => {
       // Update all expenses in parallel
       const updatePromises = ids.map((id) =>
         apiRequest(`/api/expenses/${id}`, {
           method: "PATCH",
-          body: { sourceLabel },
+          body: { accountId },
         }),
       );
       return Promise.all(updatePromises);
@@ -170,7 +177,7 @@ export default function ExpenseHistory() {
       setIsSelectionMode(false);
       toast({
         title: "Success",
-        description: `${variables.ids.length} expenses updated with label ${variables.sourceLabel}`,
+        description: `${variables.ids.length} expenses moved to ${getAccount(variables.accountId)?.name || "the account"}`,
       });
     },
     onError: (error: any) => {
@@ -183,8 +190,8 @@ export default function ExpenseHistory() {
     },
   });
 
-  // Get unique source labels from expenses
-  const sourceLabels = Array.from(new Set(expenses.map(expense => expense.sourceLabel).filter(Boolean))) as string[];
+  const getAccount = (accountId: string | null) =>
+    accountId ? accounts.find((account) => account.id === accountId) : undefined;
 
   // Filter expenses with defensive checks
   const filteredExpenses = expenses.filter(
@@ -198,10 +205,10 @@ export default function ExpenseHistory() {
         categoryFilter === "all" || expense.categoryId === categoryFilter;
       const matchesPartner =
         partnerFilter === "all" || expense.partnerId === partnerFilter;
-      const matchesSource =
-        sourceFilter === "all" || expense.sourceLabel === sourceFilter;
+      const matchesAccount =
+        accountFilter === "all" || expense.accountId === accountFilter;
 
-      return matchesSearch && matchesCategory && matchesPartner && matchesSource;
+      return matchesSearch && matchesCategory && matchesPartner && matchesAccount;
     },
   );
 
@@ -214,7 +221,7 @@ export default function ExpenseHistory() {
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, categoryFilter, partnerFilter, sourceFilter]);
+  }, [searchQuery, categoryFilter, partnerFilter, accountFilter]);
 
   const handleDelete = (id: string) => {
     if (confirm("Are you sure you want to delete this expense?")) {
@@ -238,8 +245,8 @@ export default function ExpenseHistory() {
     bulkUpdateCategoryMutation.mutate({ ids: selectedExpenses, categoryId });
   };
 
-  const handleBulkLabelUpdate = (sourceLabel: string) => {
-    bulkUpdateLabelMutation.mutate({ ids: selectedExpenses, sourceLabel });
+  const handleBulkAccountUpdate = (accountId: string) => {
+    bulkUpdateAccountMutation.mutate({ ids: selectedExpenses, accountId });
   };
 
   const handleSelectExpense = (expenseId: string) => {
@@ -326,15 +333,15 @@ export default function ExpenseHistory() {
                 </SelectContent>
               </Select>
 
-              <Select value={sourceFilter} onValueChange={setSourceFilter}>
+              <Select value={accountFilter} onValueChange={setAccountFilter}>
                 <SelectTrigger className="w-full sm:w-auto">
-                  <SelectValue placeholder="All Sources" />
+                  <SelectValue placeholder="All Accounts" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Sources</SelectItem>
-                  {sourceLabels.map((source) => (
-                    <SelectItem key={source} value={source}>
-                      {source}
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -384,19 +391,16 @@ export default function ExpenseHistory() {
                       ))}
                     </SelectContent>
                   </Select>
-                  <Select onValueChange={handleBulkLabelUpdate}>
+                  <Select onValueChange={handleBulkAccountUpdate}>
                     <SelectTrigger className="w-full sm:w-[140px]">
-                      <SelectValue placeholder="Change label" />
+                      <SelectValue placeholder="Change account" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="AMEX">AMEX</SelectItem>
-                      <SelectItem value="DKB">DKB</SelectItem>
-                      <SelectItem value="PayPal">PayPal</SelectItem>
-                      <SelectItem value="Cash">Cash</SelectItem>
-                      <SelectItem value="Other Card">Other Card</SelectItem>
-                      <SelectItem value="Bank Transfer">
-                        Bank Transfer
-                      </SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Button
@@ -473,11 +477,13 @@ export default function ExpenseHistory() {
                                 </p>
                                 <div className="text-right sm:text-left mt-1 sm:mt-0 flex-shrink-0">
                                   <p className="font-semibold text-foreground">
-                                    €
-                                    {expense.amount
-                                      ? parseFloat(expense.amount).toFixed(2)
-                                      : "0.00"}
+                                    {formatBase(parseFloat(expense.amount || "0"))}
                                   </p>
+                                  {expense.foreignAmount !== null && (
+                                    <p className="text-xs text-muted-foreground">
+                                      {formatMoney(parseFloat(expense.foreignAmount), expense.currency)}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-2">
@@ -504,9 +510,9 @@ export default function ExpenseHistory() {
                                     </span>
                                   </div>
                                 )}
-                                {expense.sourceLabel && (
+                                {(getAccount(expense.accountId)?.name || expense.sourceLabel) && (
                                   <Badge variant="outline" className="text-xs">
-                                    {expense.sourceLabel}
+                                    {getAccount(expense.accountId)?.name || expense.sourceLabel}
                                   </Badge>
                                 )}
                                 <span className="text-xs sm:text-sm text-muted-foreground">
@@ -11,6 +11,7 @@ import { useToast } from '@/hooks/use-toast';
 import { CheckCircle, XCircle, Edit2, Save, X, AlertTriangle, DollarSign } from 'lucide-react';
 import { format } from 'date-fns';
 import type { Expense, Category, Partner } from '@shared/schema';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
 
 interface ExpenseVerificationProps {
   statementId: string;
@@ -25,6 +26,7 @@ interface EditingExpense extends Expense {
 }
 
 export function ExpenseVerification({ statementId }: ExpenseVerificationProps) {
+  const { formatBase, currencySymbol } = useBaseCurrency();
   const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
   const [editedExpenses, setEditedExpenses] = useState<Record<string, EditingExpense>>({});
   const { toast } = useToast();
@@ -328,7 +330,7 @@ export function ExpenseVerification({ statementId }: ExpenseVerificationProps) {
                   {isEditing ? (
                     <div className="relative">
                       <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        €
+                        {currencySymbol}
                       </span>
                       <Input
                         value={editedExpense?.editedAmount || ''}
@@ -344,7 +346,7 @@ export function ExpenseVerification({ statementId }: ExpenseVerificationProps) {
                       />
                     </div>
                   ) : (
-                    <p className="text-lg font-semibold">€{parseFloat(expense.amount).toFixed(2)}</p>
+                    <p className="text-lg font-semibold">{formatBase(parseFloat(expense.amount))}</p>
                   )}
                   {expense.originalAmount && expense.originalAmount !== expense.amount && (
                     <p className="text-xs text-gray-500">Original: {expense.originalAmount}</p>
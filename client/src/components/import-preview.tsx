@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardCheck, Loader2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Category, Partner, PreviewTransaction, TransactionType } from '@shared/schema';
+import { formatMoney } from '@/lib/expense-utils';
+
+interface ImportPreviewProps {
+  statementId: string;
+  onFinished?: () => void;
+}
+
+interface PreviewRow extends PreviewTransaction {
+  included: boolean;
+  amountInput: string;
+}
+
+export function ImportPreview({ statementId, onFinished }: ImportPreviewProps) {
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: previewTransactions, isLoading } = useQuery<PreviewTransaction[]>({
+    queryKey: ['/api/statements', statementId, 'preview'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ['/api/partners'],
+  });
+
+  useEffect(() => {
+    if (previewTransactions) {
+      setRows(previewTransactions.map(transaction => ({
+        ...transaction,
+        included: true,
+        amountInput: transaction.amount.toFixed(2),
+      })));
+    }
+  }, [previewTransactions]);
+
+  const invalidateStatementQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/statements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+  };
+
+  const commitMutation = useMutation({
+    mutationFn: async (transactions: PreviewTransaction[]) => {
+      return await apiRequest(`/api/statements/${statementId}/commit`, {
+        method: 'POST',
+        body: { transactions },
+      });
+    },
+    onSuccess: (response) => {
+      toast({
+        title: 'Import Started',
+        description: response.message,
+      });
+      invalidateStatementQueries();
+      onFinished?.();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Import Failed',
+        description: error.message || 'Failed to import transactions',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/statements/${statementId}/discard`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Import Discarded',
+        description: 'No expenses were created from this statement.',
+      });
+      invalidateStatementQueries();
+      onFinished?.();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Discard Failed',
+        description: error.message || 'Failed to discard import',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateRow = (id: string, updates: Partial<PreviewRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...updates } : row)));
+  };
+
+  const includedRows = rows.filter(row => row.included);
+  const allIncluded = rows.length > 0 && includedRows.length === rows.length;
+
+  const handleCommit = () => {
+    const invalidRow = includedRows.find(row =>
+      isNaN(parseFloat(row.amountInput.replace(',', '.'))) || !row.description.trim() || !row.partnerId
+    );
+    if (invalidRow) {
+      toast({
+        title: 'Validation Error',
+        description: `Please check amount, description and partner for "${invalidRow.description || 'untitled row'}".`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    commitMutation.mutate(includedRows.map(({ included, amountInput, ...transaction }) => ({
+      ...transaction,
+      amount: parseFloat(amountInput.replace(',', '.')),
+      description: transaction.description.trim(),
+    })));
+  };
+
+  const getConfidenceVariant = (confidence: number) => {
+    if (confidence >= 0.8) return 'default';
+    if (confidence >= 0.6) return 'secondary';
+    return 'destructive';
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading preview...</div>;
+  }
+
+  return (
+    <Card data-testid="card-import-preview">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5" />
+          <span>Review Import</span>
+        </CardTitle>
+        <CardDescription>
+          Nothing has been added yet. Adjust or untick rows, then import the ones you want to keep.
+          Rows marked as possible duplicates will be held back for review on the statement.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allIncluded}
+                    onCheckedChange={(checked) =>
+                      setRows(prev => prev.map(row => ({ ...row, included: checked === true })))
+                    }
+                    data-testid="checkbox-preview-all"
+                  />
+                </TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Partner</TableHead>
+                <TableHead>Confidence</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id} className={row.included ? '' : 'opacity-50'}>
+                  <TableCell>
+                    <Checkbox
+                      checked={row.included}
+                      onCheckedChange={(checked) => updateRow(row.id, { included: checked === true })}
+                      data-testid={`checkbox-preview-${row.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={format(new Date(row.date), 'yyyy-MM-dd')}
+                      onChange={(e) => e.target.value && updateRow(row.id, { date: new Date(e.target.value).toISOString() })}
+                      className="w-36"
+                      data-testid={`input-preview-date-${row.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.description}
+                      onChange={(e) => updateRow(row.id, { description: e.target.value })}
+                      className="min-w-[200px]"
+                      data-testid={`input-preview-description-${row.id}`}
+                    />
+                    {row.originalAmount && (
+                      <p className="text-xs text-muted-foreground mt-1">Original: {row.originalAmount}</p>
+                    )}
+                    {row.duplicateOfExpenseId && (
+                      <Badge variant="outline" className="mt-1 border-amber-500 text-amber-700">
+                        Possible duplicate
+                      </Badge>
+                    )}
+                    {row.type === 'income' && (
+                      <Badge variant="outline" className="mt-1 border-green-500 text-green-700">
+                        Income
+                      </Badge>
+                    )}
+                    {row.type === 'transfer' && (
+                      <Badge variant="outline" className="mt-1">
+                        Transfer
+                      </Badge>
+                    )}
+                    {row.excludeFromSpending && (
+                      <Badge variant="outline" className="mt-1">
+                        Excluded from spending
+                      </Badge>
+                    )}
+                    {row.tags?.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="mt-1 mr-1">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.amountInput}
+                      onChange={(e) => updateRow(row.id, { amountInput: e.target.value })}
+                      className="w-24"
+                      data-testid={`input-preview-amount-${row.id}`}
+                    />
+                    {row.currency && (
+                      <p className="text-xs text-muted-foreground mt-1">{row.currency}</p>
+                    )}
+                    {row.foreignAmount !== undefined && row.foreignCurrency && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Charged {formatMoney(row.foreignAmount, row.foreignCurrency)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.categoryId}
+                      onValueChange={(value) => updateRow(row.id, {
+                        categoryId: value,
+                        type: (categories.find(category => category.id === value)?.kind ?? 'expense') as TransactionType,
+                      })}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-preview-category-${row.id}`}>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            <div className="flex items-center space-x-2">
+                              <span>{category.emoji}</span>
+                              <span>{category.name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.partnerId}
+                      onValueChange={(value) => updateRow(row.id, { partnerId: value })}
+                    >
+                      <SelectTrigger className="w-32" data-testid={`select-preview-partner-${row.id}`}>
+                        <SelectValue placeholder="Select partner" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {partners.map((partner) => (
+                          <SelectItem key={partner.id} value={partner.id}>
+                            <div className="flex items-center space-x-2">
+                              <div
+                                className="w-3 h-3 rounded-full"
+                                style={{ backgroundColor: partner.color }}
+                              />
+                              <span>{partner.name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getConfidenceVariant(row.confidence)}>
+                      {Math.round(row.confidence * 100)}%
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground" data-testid="text-preview-selection">
+            {includedRows.length} of {rows.length} transactions selected
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => discardMutation.mutate()}
+              disabled={discardMutation.isPending || commitMutation.isPending}
+              data-testid="button-discard-preview"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+            <Button
+              onClick={handleCommit}
+              disabled={includedRows.length === 0 || commitMutation.isPending || discardMutation.isPending}
+              data-testid="button-commit-preview"
+            >
+              {commitMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+              )}
+              Import {includedRows.length} Transactions
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
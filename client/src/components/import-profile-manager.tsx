@@ -0,0 +1,457 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { FileSpreadsheet, Plus, Edit2, Trash2 } from 'lucide-react';
+import type { ImportProfile } from '@shared/schema';
+
+// Column numbers are shown 1-based in the form and stored 0-based
+interface ProfileFormData {
+  name: string;
+  sourceLabel: string;
+  delimiter: string;
+  headerRow: string;
+  dateFormat: string;
+  decimalSeparator: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountMode: 'single' | 'split';
+  amountColumn: string;
+  debitColumn: string;
+  creditColumn: string;
+  signConvention: string;
+}
+
+const emptyForm: ProfileFormData = {
+  name: '',
+  sourceLabel: '',
+  delimiter: ';',
+  headerRow: '1',
+  dateFormat: 'DD.MM.YYYY',
+  decimalSeparator: ',',
+  dateColumn: '1',
+  descriptionColumn: '2',
+  amountMode: 'single',
+  amountColumn: '3',
+  debitColumn: '',
+  creditColumn: '',
+  signConvention: 'expense_negative',
+};
+
+const delimiterLabels: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const dateFormats = ['DD.MM.YYYY', 'DD.MM.YY', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const toColumnIndex = (value: string) => (value ? parseInt(value) - 1 : null);
+const toColumnNumber = (index: number | null) => (index == null ? '' : String(index + 1));
+
+export function ImportProfileManager() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ImportProfile | null>(null);
+  const [formData, setFormData] = useState<ProfileFormData>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: ['/api/import-profiles'],
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      const body = {
+        name: data.name.trim(),
+        sourceLabel: data.sourceLabel.trim() || null,
+        delimiter: data.delimiter,
+        headerRow: Math.max(parseInt(data.headerRow) - 1, 0),
+        dateFormat: data.dateFormat,
+        decimalSeparator: data.decimalSeparator,
+        dateColumn: toColumnIndex(data.dateColumn),
+        descriptionColumn: toColumnIndex(data.descriptionColumn),
+        amountColumn: data.amountMode === 'single' ? toColumnIndex(data.amountColumn) : null,
+        debitColumn: data.amountMode === 'split' ? toColumnIndex(data.debitColumn) : null,
+        creditColumn: data.amountMode === 'split' ? toColumnIndex(data.creditColumn) : null,
+        // Debit/credit columns are unsigned, the processor treats debits as spending
+        signConvention: data.amountMode === 'split' ? 'expense_negative' : data.signConvention,
+      };
+
+      if (editingProfile) {
+        return await apiRequest(`/api/import-profiles/${editingProfile.id}`, {
+          method: 'PATCH',
+          body,
+        });
+      }
+      return await apiRequest('/api/import-profiles', {
+        method: 'POST',
+        body,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: editingProfile ? 'Import Profile Updated' : 'Import Profile Created',
+        description: 'The import profile has been saved.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/import-profiles'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Save Failed',
+        description: error.message || 'Failed to save import profile',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/import-profiles/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Import Profile Deleted',
+        description: 'The import profile has been deleted.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/import-profiles'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Delete Failed',
+        description: error.message || 'Failed to delete import profile',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingProfile(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (profile: ImportProfile) => {
+    setEditingProfile(profile);
+    setFormData({
+      name: profile.name,
+      sourceLabel: profile.sourceLabel || '',
+      delimiter: profile.delimiter,
+      headerRow: String(profile.headerRow + 1),
+      dateFormat: profile.dateFormat,
+      decimalSeparator: profile.decimalSeparator,
+      dateColumn: toColumnNumber(profile.dateColumn),
+      descriptionColumn: toColumnNumber(profile.descriptionColumn),
+      amountMode: profile.amountColumn != null ? 'single' : 'split',
+      amountColumn: toColumnNumber(profile.amountColumn),
+      debitColumn: toColumnNumber(profile.debitColumn),
+      creditColumn: toColumnNumber(profile.creditColumn),
+      signConvention: profile.signConvention,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingProfile(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = () => {
+    const hasAmountColumns = formData.amountMode === 'single'
+      ? !!formData.amountColumn
+      : !!formData.debitColumn && !!formData.creditColumn;
+
+    if (!formData.name.trim() || !formData.dateColumn || !formData.descriptionColumn || !hasAmountColumns) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please fill in the name and all column numbers.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveProfileMutation.mutate(formData);
+  };
+
+  const updateField = (field: keyof ProfileFormData) => (value: string) =>
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                <span>Import Profiles</span>
+              </CardTitle>
+              <CardDescription>
+                Describe the CSV layout of banks that aren't supported out of the box
+              </CardDescription>
+            </div>
+
+            <Button onClick={openCreateDialog} data-testid="button-create-import-profile">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Profile
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {profiles.length === 0 ? (
+            <div className="text-center py-8">
+              <FileSpreadsheet className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No import profiles created yet.</p>
+              <p className="text-sm text-muted-foreground">Create a profile to import CSV files from any bank.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {profiles.map((profile) => (
+                <div key={profile.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <p className="font-medium">{profile.name}</p>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{delimiterLabels[profile.delimiter] || profile.delimiter}</Badge>
+                      <Badge variant="outline">{profile.dateFormat}</Badge>
+                      <Badge variant="outline">Decimal "{profile.decimalSeparator}"</Badge>
+                      <Badge variant="outline">
+                        {profile.amountColumn != null ? 'Signed amount' : 'Debit / credit'}
+                      </Badge>
+                      {profile.sourceLabel && <Badge variant="secondary">{profile.sourceLabel}</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openEditDialog(profile)}
+                      data-testid={`button-edit-import-profile-${profile.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => deleteProfileMutation.mutate(profile.id)}
+                      disabled={deleteProfileMutation.isPending}
+                      data-testid={`button-delete-import-profile-${profile.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProfile ? 'Edit Import Profile' : 'Create Import Profile'}</DialogTitle>
+            <DialogDescription>
+              Column and row numbers start at 1, as shown in a spreadsheet.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="profile-name">Profile Name</Label>
+                <Input
+                  id="profile-name"
+                  value={formData.name}
+                  onChange={(e) => updateField('name')(e.target.value)}
+                  placeholder="e.g. N26"
+                  data-testid="input-import-profile-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-source-label">Source Label (Optional)</Label>
+                <Input
+                  id="profile-source-label"
+                  value={formData.sourceLabel}
+                  onChange={(e) => updateField('sourceLabel')(e.target.value)}
+                  placeholder="Defaults to profile name"
+                  data-testid="input-import-profile-source-label"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Delimiter</Label>
+                <Select value={formData.delimiter} onValueChange={updateField('delimiter')}>
+                  <SelectTrigger data-testid="select-import-profile-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(delimiterLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="profile-header-row">Header Row</Label>
+                <Input
+                  id="profile-header-row"
+                  type="number"
+                  min="1"
+                  value={formData.headerRow}
+                  onChange={(e) => updateField('headerRow')(e.target.value)}
+                  data-testid="input-import-profile-header-row"
+                />
+              </div>
+              <div>
+                <Label>Decimal Separator</Label>
+                <Select value={formData.decimalSeparator} onValueChange={updateField('decimalSeparator')}>
+                  <SelectTrigger data-testid="select-import-profile-decimal">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                    <SelectItem value=".">Dot (1,234.56)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Date Format</Label>
+                <Select value={formData.dateFormat} onValueChange={updateField('dateFormat')}>
+                  <SelectTrigger data-testid="select-import-profile-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateFormats.map((dateFormat) => (
+                      <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="profile-date-column">Date Column</Label>
+                <Input
+                  id="profile-date-column"
+                  type="number"
+                  min="1"
+                  value={formData.dateColumn}
+                  onChange={(e) => updateField('dateColumn')(e.target.value)}
+                  data-testid="input-import-profile-date-column"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-description-column">Description Column</Label>
+                <Input
+                  id="profile-description-column"
+                  type="number"
+                  min="1"
+                  value={formData.descriptionColumn}
+                  onChange={(e) => updateField('descriptionColumn')(e.target.value)}
+                  data-testid="input-import-profile-description-column"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Amount Layout</Label>
+                <Select value={formData.amountMode} onValueChange={updateField('amountMode')}>
+                  <SelectTrigger data-testid="select-import-profile-amount-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">One signed amount column</SelectItem>
+                    <SelectItem value="split">Separate debit and credit columns</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.amountMode === 'single' ? (
+                <div>
+                  <Label htmlFor="profile-amount-column">Amount Column</Label>
+                  <Input
+                    id="profile-amount-column"
+                    type="number"
+                    min="1"
+                    value={formData.amountColumn}
+                    onChange={(e) => updateField('amountColumn')(e.target.value)}
+                    data-testid="input-import-profile-amount-column"
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="profile-debit-column">Debit Column</Label>
+                    <Input
+                      id="profile-debit-column"
+                      type="number"
+                      min="1"
+                      value={formData.debitColumn}
+                      onChange={(e) => updateField('debitColumn')(e.target.value)}
+                      data-testid="input-import-profile-debit-column"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-credit-column">Credit Column</Label>
+                    <Input
+                      id="profile-credit-column"
+                      type="number"
+                      min="1"
+                      value={formData.creditColumn}
+                      onChange={(e) => updateField('creditColumn')(e.target.value)}
+                      data-testid="input-import-profile-credit-column"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {formData.amountMode === 'single' && (
+              <div>
+                <Label>Sign Convention</Label>
+                <Select value={formData.signConvention} onValueChange={updateField('signConvention')}>
+                  <SelectTrigger data-testid="select-import-profile-sign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense_negative">Spending is negative (bank account)</SelectItem>
+                    <SelectItem value="expense_positive">Spending is positive (credit card)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveProfileMutation.isPending}
+              data-testid="button-save-import-profile"
+            >
+              {editingProfile ? 'Update Profile' : 'Create Profile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
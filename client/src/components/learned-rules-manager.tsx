@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { GraduationCap, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Category, LearnedCategoryRule } from '@shared/schema';
+
+export function LearnedRulesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery<LearnedCategoryRule[]>({
+    queryKey: ['/api/learned-rules'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/learned-rules/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/learned-rules'] });
+      toast({
+        title: 'Rule Deleted',
+        description: 'Future imports will no longer use this mapping.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete learned rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const getCategory = (categoryId: string) => categories.find(category => category.id === categoryId);
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading learned rules...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GraduationCap className="h-5 w-5" />
+          Learned Rules
+        </CardTitle>
+        <CardDescription>
+          Merchant mappings picked up when you verify or correct imported expenses. They are applied
+          before the keyword patterns and the categorization provider.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rules.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <GraduationCap className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No learned rules yet</p>
+            <p className="text-sm">Verify or recategorize imported expenses to teach the importer</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Merchant</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Confirmed</TableHead>
+                <TableHead>Last Updated</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => {
+                const category = getCategory(rule.categoryId);
+                return (
+                  <TableRow key={rule.id} data-testid={`row-learned-rule-${rule.id}`}>
+                    <TableCell className="font-mono text-sm">{rule.merchantKey}</TableCell>
+                    <TableCell>
+                      {category ? (
+                        <span>{category.emoji} {category.name}</span>
+                      ) : (
+                        <Badge variant="outline">Deleted category</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{rule.hitCount}×</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {format(new Date(rule.updatedAt), 'MMM dd, yyyy')}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRuleMutation.mutate(rule.id)}
+                        disabled={deleteRuleMutation.isPending}
+                        data-testid={`button-delete-learned-rule-${rule.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
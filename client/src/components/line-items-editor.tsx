@@ -0,0 +1,125 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { getLineItemsValidationError } from '@shared/line-items';
+import type { Category, LineItem } from '@shared/schema';
+import { formatMoney, getCurrencySymbol } from '@/lib/expense-utils';
+
+interface LineItemsEditorProps {
+  value: LineItem[];
+  onChange: (value: LineItem[] | null) => void; // null once fewer than two lines are left
+  categories: Pick<Category, 'id' | 'name' | 'emoji'>[];
+  amount: number; // The expense amount the lines must add up to
+  currency: string;
+  idPrefix?: string;
+}
+
+// Starting lines when an expense is split: everything on its current category plus an empty line to fill in
+export function getInitialLineItems(amount: number, categoryId: string): LineItem[] {
+  return [
+    { amount: isNaN(amount) ? 0 : amount, categoryId, note: null },
+    { amount: 0, categoryId: '', note: null },
+  ];
+}
+
+// Explains why the lines can't be saved yet, or returns null
+export function getLineItemsEditorError(lineItems: LineItem[], amount: number): string | null {
+  if (lineItems.some(line => !line.categoryId)) {
+    return 'Pick a category for every line';
+  }
+  return getLineItemsValidationError(lineItems, amount);
+}
+
+export function LineItemsEditor({
+  value,
+  onChange,
+  categories,
+  amount,
+  currency,
+  idPrefix = 'line',
+}: LineItemsEditorProps) {
+  const lineTotal = value.reduce((sum, line) => sum + line.amount, 0);
+  const remaining = Math.round(((isNaN(amount) ? 0 : amount) - lineTotal) * 100) / 100;
+  const validationError = getLineItemsEditorError(value, amount);
+
+  const updateLine = (index: number, changes: Partial<LineItem>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    const lines = value.filter((_, i) => i !== index);
+    onChange(lines.length < 2 ? null : lines);
+  };
+
+  const addLine = () => {
+    onChange([...value, { amount: remaining > 0 ? remaining : 0, categoryId: '', note: null }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((line, index) => (
+        <div key={index} className="space-y-1 rounded-md border p-2" data-testid={`${idPrefix}-row-${index}`}>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="number"
+              step="0.01"
+              value={line.amount}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value.replace(',', '.'));
+                updateLine(index, { amount: isNaN(parsed) ? 0 : parsed });
+              }}
+              className="w-24"
+              data-testid={`input-${idPrefix}-amount-${index}`}
+            />
+            <span className="w-4 text-sm text-muted-foreground">{getCurrencySymbol(currency).trim()}</span>
+            <Select value={line.categoryId} onValueChange={(categoryId) => updateLine(index, { categoryId })}>
+              <SelectTrigger className="flex-1" data-testid={`select-${idPrefix}-category-${index}`}>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.emoji} {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeLine(index)}
+              data-testid={`button-${idPrefix}-remove-${index}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            value={line.note ?? ''}
+            onChange={(e) => updateLine(index, { note: e.target.value || null })}
+            placeholder="Note (optional)"
+            data-testid={`input-${idPrefix}-note-${index}`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine} data-testid={`button-${idPrefix}-add`}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <span
+          className={`text-xs ${remaining === 0 ? 'text-muted-foreground' : 'text-destructive'}`}
+          data-testid={`text-${idPrefix}-remaining`}
+        >
+          {formatMoney(remaining, currency)} left to assign
+        </span>
+      </div>
+
+      {validationError && remaining === 0 && (
+        <p className="text-xs text-destructive" data-testid={`text-${idPrefix}-error`}>{validationError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Store, Merge, Edit2, Link2, Search } from 'lucide-react';
+import type { Merchant } from '@shared/schema';
+
+type MerchantWithCount = Merchant & { expenseCount: number };
+
+export function MerchantManager() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [mergeName, setMergeName] = useState('');
+  const [renamingMerchant, setRenamingMerchant] = useState<MerchantWithCount | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: merchants = [], isLoading } = useQuery<MerchantWithCount[]>({
+    queryKey: ['/api/merchants'],
+  });
+
+  const invalidateMerchants = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/merchants'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: { targetId: string; sourceIds: string[]; name: string }) => {
+      return await apiRequest('/api/merchants/merge', {
+        method: 'POST',
+        body: data,
+      });
+    },
+    onSuccess: () => {
+      invalidateMerchants();
+      setSelectedIds(new Set());
+      setIsMergeDialogOpen(false);
+      toast({
+        title: 'Merchants Merged',
+        description: 'All aliases and expenses now belong to one merchant.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Merge Failed',
+        description: error.message || 'Failed to merge merchants',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async (data: { id: string; name: string }) => {
+      return await apiRequest(`/api/merchants/${data.id}`, {
+        method: 'PATCH',
+        body: { name: data.name },
+      });
+    },
+    onSuccess: () => {
+      invalidateMerchants();
+      setRenamingMerchant(null);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Rename Failed',
+        description: error.message || 'Failed to rename merchant',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const linkExpensesMutation = useMutation({
+    mutationFn: async (): Promise<{ linked: number }> => {
+      return await apiRequest('/api/merchants/link-expenses', {
+        method: 'POST',
+      });
+    },
+    onSuccess: (result) => {
+      invalidateMerchants();
+      toast({
+        title: 'Expenses Linked',
+        description: `${result.linked} expense${result.linked === 1 ? '' : 's'} linked to a merchant.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to link expenses',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredMerchants = merchants.filter(merchant => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return merchant.name.toLowerCase().includes(term) || merchant.aliases.some(alias => alias.includes(term));
+  });
+
+  const selectedMerchants = merchants.filter(merchant => selectedIds.has(merchant.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const openMergeDialog = () => {
+    // Default to keeping the merchant with the most expenses
+    const target = [...selectedMerchants].sort((a, b) => b.expenseCount - a.expenseCount)[0];
+    setMergeTargetId(target.id);
+    setMergeName(target.name);
+    setIsMergeDialogOpen(true);
+  };
+
+  const handleMerge = () => {
+    mergeMutation.mutate({
+      targetId: mergeTargetId,
+      sourceIds: selectedMerchants.map(merchant => merchant.id).filter(id => id !== mergeTargetId),
+      name: mergeName.trim(),
+    });
+  };
+
+  const openRenameDialog = (merchant: MerchantWithCount) => {
+    setRenamingMerchant(merchant);
+    setRenameValue(merchant.name);
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading merchants...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Store className="h-5 w-5" />
+                <span>Merchants</span>
+              </CardTitle>
+              <CardDescription>
+                Imported descriptions are reduced to a merchant. Merge merchants that are the same shop.
+              </CardDescription>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => linkExpensesMutation.mutate()}
+                disabled={linkExpensesMutation.isPending}
+                data-testid="button-link-merchant-expenses"
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                {linkExpensesMutation.isPending ? 'Linking...' : 'Link Existing Expenses'}
+              </Button>
+              <Button
+                onClick={openMergeDialog}
+                disabled={selectedMerchants.length < 2}
+                data-testid="button-merge-merchants"
+              >
+                <Merge className="h-4 w-4 mr-2" />
+                Merge Selected ({selectedMerchants.length})
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search merchants or aliases..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+              data-testid="input-search-merchants"
+            />
+          </div>
+
+          {filteredMerchants.length === 0 ? (
+            <div className="text-center py-8">
+              <Store className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No merchants found.</p>
+              <p className="text-sm text-muted-foreground">Merchants are created as statements are imported.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Merchant</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Expenses</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMerchants.map((merchant) => (
+                  <TableRow key={merchant.id} data-testid={`row-merchant-${merchant.id}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(merchant.id)}
+                        onCheckedChange={(checked) => toggleSelected(merchant.id, checked === true)}
+                        data-testid={`checkbox-merchant-${merchant.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{merchant.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {merchant.aliases.map((alias) => (
+                          <Badge key={alias} variant="outline" className="font-mono text-xs">{alias}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{merchant.expenseCount}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openRenameDialog(merchant)}
+                        data-testid={`button-rename-merchant-${merchant.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isMergeDialogOpen} onOpenChange={setIsMergeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Merchants</DialogTitle>
+            <DialogDescription>
+              The other merchants are removed; their aliases and expenses move to the one you keep.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Keep</Label>
+              <Select
+                value={mergeTargetId}
+                onValueChange={(value) => {
+                  setMergeTargetId(value);
+                  setMergeName(merchants.find(merchant => merchant.id === value)?.name || '');
+                }}
+              >
+                <SelectTrigger data-testid="select-merge-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedMerchants.map((merchant) => (
+                    <SelectItem key={merchant.id} value={merchant.id}>
+                      {merchant.name} ({merchant.expenseCount})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="merge-name">Name</Label>
+              <Input
+                id="merge-name"
+                value={mergeName}
+                onChange={(e) => setMergeName(e.target.value)}
+                data-testid="input-merge-name"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsMergeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMerge}
+              disabled={!mergeName.trim() || mergeMutation.isPending}
+              data-testid="button-confirm-merge-merchants"
+            >
+              {mergeMutation.isPending ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renamingMerchant !== null} onOpenChange={(open) => !open && setRenamingMerchant(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Merchant</DialogTitle>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="merchant-name">Name</Label>
+            <Input
+              id="merchant-name"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              data-testid="input-merchant-name"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenamingMerchant(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => renamingMerchant && renameMutation.mutate({ id: renamingMerchant.id, name: renameValue.trim() })}
+              disabled={!renameValue.trim() || renameMutation.isPending}
+              data-testid="button-save-merchant-name"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,14 +2,20 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar, TrendingUp, TrendingDown } from "lucide-react";
-import { useState } from "react";
-import type { Expense, Category, Partner } from "@shared/schema";
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import type { Expense, Category, Partner, Settlement } from "@shared/schema";
+import { isExcludedFromSpending } from "@/lib/expense-utils";
+import { computeBalances } from "@shared/balances";
+import { expandLineItems } from "@shared/line-items";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 interface MonthlySummaryProps {
   onMonthSelect?: (month: string) => void;
 }
 
 export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
+  const { formatBase } = useBaseCurrency();
   const [selectedMonth, setSelectedMonth] = useState(new Date().toISOString().slice(0, 7));
   
   const handleMonthChange = (month: string) => {
@@ -31,9 +37,19 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
     queryKey: ["/api/partners"],
   });
 
+  const { data: settlements = [] } = useQuery<Settlement[]>({
+    queryKey: ["/api/settlements"],
+  });
+
+  // Running balance at the end of the selected month, or the latest month before it with activity
+  const monthBalance = useMemo(() => {
+    const { months } = computeBalances(expenses, settlements, partners.map(partner => partner.id));
+    return months.find(entry => entry.month <= selectedMonth);
+  }, [expenses, settlements, partners, selectedMonth]);
+
   // Filter expenses by selected month
   const monthlyExpenses = expenses.filter(expense => {
-    if (!expense || !expense.date) return false;
+    if (!expense || !expense.date || isExcludedFromSpending(expense)) return false;
     const expenseMonth = new Date(expense.date).toISOString().slice(0, 7);
     return expenseMonth === selectedMonth;
   });
@@ -60,11 +76,12 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
     return { partner, total };
   });
 
-  // Calculate category breakdown
+  // Calculate category breakdown, counting each line of a split expense
+  const monthlyLines = expandLineItems(monthlyExpenses);
   const categoryBreakdown = categories.map(category => {
     if (!category) return { category, total: 0, count: 0 };
     
-    const categoryExpenses = monthlyExpenses.filter(expense => 
+    const categoryExpenses = monthlyLines.filter(expense => 
       expense && expense.categoryId === category.id
     );
     
@@ -114,7 +131,7 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
         {/* Monthly Total */}
         <div className="text-center">
           <p className="text-sm text-muted-foreground">Total Spent</p>
-          <p className="text-3xl font-bold text-foreground">€{monthlyTotal.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-foreground">{formatBase(monthlyTotal)}</p>
           <p className="text-sm text-muted-foreground">{monthlyExpenses.length} transactions</p>
         </div>
 
@@ -132,7 +149,7 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
                   <span className="text-sm">{partner.name}</span>
                 </div>
                 <div className="text-right">
-                  <p className="font-medium">€{total.toFixed(2)}</p>
+                  <p className="font-medium">{formatBase(total)}</p>
                   <p className="text-xs text-muted-foreground">
                     {monthlyTotal > 0 ? ((total / monthlyTotal) * 100).toFixed(1) : 0}%
                   </p>
@@ -142,6 +159,31 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
           </div>
         </div>
 
+        {/* Balance between partners */}
+        {monthBalance && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">Balance</h4>
+              <Link href="/settle-up" className="text-sm text-primary hover:underline" data-testid="link-settle-up">
+                Settle up
+              </Link>
+            </div>
+            <div className="space-y-2">
+              {partners.map(partner => {
+                const balance = monthBalance.partners.find(entry => entry.partnerId === partner.id)?.balance || 0;
+                return (
+                  <div key={partner.id} className="flex items-center justify-between text-sm">
+                    <span>{partner.name}</span>
+                    <span className={balance > 0.005 ? "text-green-600" : balance < -0.005 ? "text-red-600" : "text-muted-foreground"}>
+                      {balance > 0.005 ? `is owed ${formatBase(balance)}` : balance < -0.005 ? `owes ${formatBase(-balance)}` : "settled"}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Top Categories */}
         <div>
           <h4 className="font-medium mb-3">Top Categories</h4>
@@ -156,7 +198,7 @@ export default function MonthlySummary({ onMonthSelect }: MonthlySummaryProps) {
                     <span className="text-sm">{category.name}</span>
                   </div>
                   <div className="text-right">
-                    <p className="font-medium">€{total.toFixed(2)}</p>
+                    <p className="font-medium">{formatBase(total)}</p>
                     <p className="text-xs text-muted-foreground">{count} transactions</p>
                   </div>
                 </div>
@@ -12,6 +12,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -27,13 +28,16 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { insertExpenseSchema } from "@shared/schema";
+import { insertExpenseSchema, type Account } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import { normalizeAmount, toISODate } from "@/lib/expense-utils";
+import { COMMON_CURRENCIES, getCurrencySymbol, normalizeAmount, toISODate } from "@/lib/expense-utils";
+import { getDefaultSplit, getSplitValidationError } from "@shared/splits";
+import { DEFAULT_SPLIT, SplitSelector, type SplitValue } from "@/components/split-selector";
 import { z } from "zod";
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 const CATEGORY_USAGE_KEY = "categoryLastUsed";
 
@@ -75,10 +79,12 @@ const formSchema = insertExpenseSchema.omit({ date: true }).extend({
 type FormData = z.infer<typeof formSchema>;
 
 export default function QuickAddExpense() {
+  const { baseCurrency } = useBaseCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedPartner, setSelectedPartner] = useState<string>("");
   const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [split, setSplit] = useState<SplitValue>(DEFAULT_SPLIT);
   const [categoryUsage, setCategoryUsage] = useState<Record<string, number>>(() => 
     getCategoryLastUsed()
   );
@@ -100,6 +106,10 @@ export default function QuickAddExpense() {
     queryKey: ["/api/partners"],
   });
 
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -108,10 +118,14 @@ export default function QuickAddExpense() {
       categoryId: "",
       partnerId: "",
       date: new Date(),
-      sourceLabel: "",
+      accountId: "",
+      currency: "",
     },
   });
 
+  // Amounts are entered in the currency paid in and converted to the base currency on save
+  const currency = form.watch("currency") || baseCurrency;
+
   const createExpenseMutation = useMutation({
     mutationFn: async (data: FormData) => {
       // Handle comma as decimal separator and preserve sign for refunds
@@ -121,6 +135,10 @@ export default function QuickAddExpense() {
         ...data,
         amount: parsedAmount.toFixed(2), // Keep the sign for negative amounts (refunds)
         date: toISODate(data.date),
+        accountId: data.accountId || null,
+        currency,
+        splitType: split.splitType,
+        splitShares: split.splitShares,
       };
       return apiRequest("/api/expenses", {
         method: "POST",
@@ -136,18 +154,20 @@ export default function QuickAddExpense() {
         categoryId: "",
         partnerId: "",
         date: new Date(),
-        sourceLabel: "",
+        accountId: "",
+        currency: "",
       });
       setSelectedPartner("");
+      setSplit(DEFAULT_SPLIT);
       toast({
         title: "Success",
         description: "Expense added successfully",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add expense",
+        description: error.message || "Failed to add expense",
         variant: "destructive",
       });
     },
@@ -173,6 +193,20 @@ export default function QuickAddExpense() {
       return;
     }
 
+    const splitError = getSplitValidationError(
+      split.splitType,
+      split.splitShares,
+      parseFloat(normalizeAmount(data.amount)),
+    );
+    if (splitError) {
+      toast({
+        title: "Error",
+        description: splitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     createExpenseMutation.mutate(data);
   };
 
@@ -254,27 +288,44 @@ export default function QuickAddExpense() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Amount (use minus sign for refunds)</FormLabel>
-                  <FormControl>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        €
-                      </span>
-                      <Input
-                        {...field}
-                        type="text"
-                        placeholder="10.50 or -5.00 for refund"
-                        className="pl-8"
-                        onChange={(e) => {
-                          // Allow numbers, dots, commas, and minus sign
-                          const value = e.target.value.replace(
-                            /[^0-9.,-]/g,
-                            "",
-                          );
-                          field.onChange(value);
-                        }}
-                      />
-                    </div>
-                  </FormControl>
+                  <div className="flex space-x-2">
+                    <FormControl>
+                      <div className="relative flex-1">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+                          {getCurrencySymbol(currency).trim()}
+                        </span>
+                        <Input
+                          {...field}
+                          type="text"
+                          placeholder="10.50 or -5.00 for refund"
+                          className="pl-10"
+                          onChange={(e) => {
+                            // Allow numbers, dots, commas, and minus sign
+                            const value = e.target.value.replace(
+                              /[^0-9.,-]/g,
+                              "",
+                            );
+                            field.onChange(value);
+                          }}
+                        />
+                      </div>
+                    </FormControl>
+                    <Select
+                      value={currency}
+                      onValueChange={(value) => form.setValue("currency", value)}
+                    >
+                      <SelectTrigger className="w-[100px]" data-testid="select-currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES])).map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <FormMessage />
                 </FormItem>
               )}
@@ -289,6 +340,7 @@ export default function QuickAddExpense() {
                   <Select 
                     onValueChange={(value) => {
                       field.onChange(value);
+                      setSplit(getDefaultSplit(categories.find((category) => category.id === value)));
                       updateCategoryLastUsed(value);
                       setCategoryUsage((prev) => ({
                         ...prev,
@@ -320,25 +372,30 @@ export default function QuickAddExpense() {
 
             <FormField
               control={form.control}
-              name="sourceLabel"
+              name="accountId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Source (Optional)</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <FormLabel>Account (Optional)</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      // Paying from an account usually means paying in its currency
+                      const account = accounts.find((a) => a.id === value);
+                      if (account) form.setValue("currency", account.currency);
+                    }}
+                    value={field.value ?? ""}
+                  >
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select source" />
+                      <SelectTrigger data-testid="select-account">
+                        <SelectValue placeholder="Select account" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="AMEX">AMEX</SelectItem>
-                      <SelectItem value="DKB">DKB Bank</SelectItem>
-                      <SelectItem value="PayPal">PayPal</SelectItem>
-                      <SelectItem value="Cash">Cash</SelectItem>
-                      <SelectItem value="Other Card">Other Card</SelectItem>
-                      <SelectItem value="Bank Transfer">
-                        Bank Transfer
-                      </SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -396,6 +453,19 @@ export default function QuickAddExpense() {
               )}
             />
 
+            <div className="space-y-2">
+              <Label>Split</Label>
+              <SplitSelector
+                value={split}
+                onChange={setSplit}
+                partners={partners}
+                amount={parseFloat(normalizeAmount(form.watch("amount") || ""))}
+                currency={currency}
+                payerId={selectedPartner}
+                idPrefix="quick-add-split"
+              />
+            </div>
+
             <Button
               type="submit"
               className="w-full"
@@ -0,0 +1,512 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Repeat, Plus, Edit2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { getSplitValidationError } from '@shared/splits';
+import { DEFAULT_SPLIT, SplitSelector, formatSplit, type SplitValue } from '@/components/split-selector';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+import { COMMON_CURRENCIES, formatMoney, toISODate } from '@/lib/expense-utils';
+import {
+  recurrenceFrequencies,
+  type Account,
+  type Category,
+  type Partner,
+  type RecurrenceFrequency,
+  type RecurringExpense,
+  type SplitType,
+} from '@shared/schema';
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  custom: 'Every few days',
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  weekly: 'weeks',
+  monthly: 'months',
+  yearly: 'years',
+  custom: 'days',
+};
+
+// Short description of a schedule, e.g. "Monthly" or "Every 3 months"
+export function formatRecurrence(recurringExpense: Pick<RecurringExpense, 'frequency' | 'interval'>): string {
+  const frequency = recurringExpense.frequency as RecurrenceFrequency;
+  if (recurringExpense.interval === 1 && frequency !== 'custom') return FREQUENCY_LABELS[frequency];
+  if (recurringExpense.interval === 1) return 'Daily';
+  return `Every ${recurringExpense.interval} ${INTERVAL_UNITS[frequency]}`;
+}
+
+interface RecurringFormData {
+  description: string;
+  amount: string;
+  currency: string;
+  categoryId: string;
+  partnerId: string;
+  accountId: string | null;
+  frequency: RecurrenceFrequency;
+  interval: string;
+  startDate: string;
+  endDate: string;
+}
+
+export function RecurringExpenseManager() {
+  const { baseCurrency } = useBaseCurrency();
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<RecurringFormData | null>(null);
+  const [split, setSplit] = useState<SplitValue>(DEFAULT_SPLIT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: recurringExpenses = [], isLoading } = useQuery<RecurringExpense[]>({
+    queryKey: ['/api/recurring-expenses'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ['/api/partners'],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  // Saving can book an occurrence that is due today
+  const invalidateRecurring = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/recurring-expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: { id?: string; body: Record<string, unknown> }) => {
+      return await apiRequest(data.id ? `/api/recurring-expenses/${data.id}` : '/api/recurring-expenses', {
+        method: data.id ? 'PATCH' : 'POST',
+        body: data.body,
+      });
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      setIsDialogOpen(false);
+      toast({
+        title: editing ? 'Recurring Expense Updated' : 'Recurring Expense Created',
+        description: 'Occurrences are booked automatically on their due date.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save recurring expense',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (data: { id: string; isActive: number }) => {
+      return await apiRequest(`/api/recurring-expenses/${data.id}`, {
+        method: 'PATCH',
+        body: { isActive: data.isActive },
+      });
+    },
+    onSuccess: invalidateRecurring,
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update recurring expense',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/recurring-expenses/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      toast({
+        title: 'Recurring Expense Deleted',
+        description: 'Expenses already booked for it are kept.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete recurring expense',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setFormData({
+      description: '',
+      amount: '',
+      currency: baseCurrency,
+      categoryId: '',
+      partnerId: partners[0]?.id ?? '',
+      accountId: null,
+      frequency: 'monthly',
+      interval: '1',
+      startDate: toISODate(new Date()),
+      endDate: '',
+    });
+    setSplit(DEFAULT_SPLIT);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (recurringExpense: RecurringExpense) => {
+    setEditing(recurringExpense);
+    setFormData({
+      description: recurringExpense.description,
+      amount: recurringExpense.amount,
+      currency: recurringExpense.currency,
+      categoryId: recurringExpense.categoryId,
+      partnerId: recurringExpense.partnerId,
+      accountId: recurringExpense.accountId,
+      frequency: recurringExpense.frequency as RecurrenceFrequency,
+      interval: recurringExpense.interval.toString(),
+      startDate: toISODate(new Date(recurringExpense.startDate)),
+      endDate: recurringExpense.endDate ? toISODate(new Date(recurringExpense.endDate)) : '',
+    });
+    setSplit({ splitType: recurringExpense.splitType as SplitType, splitShares: recurringExpense.splitShares });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!formData) return;
+    const amount = parseFloat(formData.amount.replace(',', '.'));
+    const splitError = getSplitValidationError(split.splitType, split.splitShares, amount);
+    if (splitError) {
+      toast({ title: 'Invalid Split', description: splitError, variant: 'destructive' });
+      return;
+    }
+
+    const body = {
+      description: formData.description.trim(),
+      amount: amount.toFixed(2),
+      currency: formData.currency,
+      categoryId: formData.categoryId,
+      partnerId: formData.partnerId,
+      accountId: formData.accountId,
+      frequency: formData.frequency,
+      interval: parseInt(formData.interval, 10) || 1,
+      startDate: formData.startDate,
+      endDate: formData.endDate || null,
+      splitType: split.splitType,
+      splitShares: split.splitShares,
+    };
+    saveMutation.mutate({ id: editing?.id, body });
+  };
+
+  const getCategory = (id: string) => categories.find(category => category.id === id);
+  const getPartner = (id: string) => partners.find(partner => partner.id === id);
+
+  const isFormValid = formData !== null
+    && formData.description.trim() !== ''
+    && parseFloat(formData.amount.replace(',', '.')) > 0
+    && formData.categoryId !== ''
+    && formData.partnerId !== ''
+    && formData.startDate !== ''
+    && (parseInt(formData.interval, 10) || 0) >= 1;
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading recurring expenses...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Repeat className="h-5 w-5" />
+                <span>Recurring Expenses</span>
+              </CardTitle>
+              <CardDescription>
+                Rent, subscriptions and other bills that come back on a schedule. Each occurrence is booked on its
+                due date and completed by the matching statement row once that is imported.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateDialog} disabled={partners.length === 0} data-testid="button-add-recurring">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Recurring Expense
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {recurringExpenses.length === 0 ? (
+            <div className="text-center py-8">
+              <Repeat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No recurring expenses yet.</p>
+              <p className="text-sm text-muted-foreground">Add the bills you otherwise enter by hand every month.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {recurringExpenses.map((recurringExpense) => {
+                const category = getCategory(recurringExpense.categoryId);
+                const partner = getPartner(recurringExpense.partnerId);
+                return (
+                  <div
+                    key={recurringExpense.id}
+                    className="flex items-center justify-between border rounded-lg p-4"
+                    data-testid={`card-recurring-${recurringExpense.id}`}
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span>{category?.emoji}</span>
+                        <span className="font-medium">{recurringExpense.description}</span>
+                        <span className="text-muted-foreground">
+                          {formatMoney(parseFloat(recurringExpense.amount), recurringExpense.currency)}
+                        </span>
+                        {recurringExpense.isActive !== 1 && <Badge variant="outline">Paused</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {[
+                          formatRecurrence(recurringExpense),
+                          partner?.name,
+                          formatSplit({ splitType: recurringExpense.splitType as SplitType, splitShares: recurringExpense.splitShares }, partners),
+                          recurringExpense.nextDueDate
+                            ? `Next ${format(new Date(recurringExpense.nextDueDate), 'MMM d, yyyy')}`
+                            : 'Ended',
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={recurringExpense.isActive === 1}
+                        onCheckedChange={(checked) => toggleMutation.mutate({ id: recurringExpense.id, isActive: checked ? 1 : 0 })}
+                        disabled={toggleMutation.isPending}
+                        data-testid={`switch-recurring-active-${recurringExpense.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(recurringExpense)}
+                        data-testid={`button-edit-recurring-${recurringExpense.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(recurringExpense.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-recurring-${recurringExpense.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Recurring Expense' : 'Add Recurring Expense'}</DialogTitle>
+            <DialogDescription>
+              Occurrences from today on are booked; earlier ones are left to be entered or imported as before.
+            </DialogDescription>
+          </DialogHeader>
+
+          {formData && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="recurring-description">Description</Label>
+                <Input
+                  id="recurring-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Rent, Netflix"
+                  data-testid="input-recurring-description"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="recurring-amount">Amount</Label>
+                  <Input
+                    id="recurring-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    data-testid="input-recurring-amount"
+                  />
+                </div>
+                <div>
+                  <Label>Currency</Label>
+                  <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                    <SelectTrigger data-testid="select-recurring-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([baseCurrency, formData.currency, ...COMMON_CURRENCIES])).map((currency) => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Category</Label>
+                  <Select value={formData.categoryId} onValueChange={(categoryId) => setFormData({ ...formData, categoryId })}>
+                    <SelectTrigger data-testid="select-recurring-category">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.emoji} {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Paid by</Label>
+                  <Select value={formData.partnerId} onValueChange={(partnerId) => setFormData({ ...formData, partnerId })}>
+                    <SelectTrigger data-testid="select-recurring-partner">
+                      <SelectValue placeholder="Select partner" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {partners.map((partner) => (
+                        <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label>Account (Optional)</Label>
+                <Select
+                  value={formData.accountId ?? 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, accountId: value === 'none' ? null : value })}
+                >
+                  <SelectTrigger data-testid="select-recurring-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Frequency</Label>
+                  <Select
+                    value={formData.frequency}
+                    onValueChange={(frequency) => setFormData({ ...formData, frequency: frequency as RecurrenceFrequency })}
+                  >
+                    <SelectTrigger data-testid="select-recurring-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recurrenceFrequencies.map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="recurring-interval">Every ({INTERVAL_UNITS[formData.frequency]})</Label>
+                  <Input
+                    id="recurring-interval"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.interval}
+                    onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                    data-testid="input-recurring-interval"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="recurring-start">First Due Date</Label>
+                  <Input
+                    id="recurring-start"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    data-testid="input-recurring-start-date"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="recurring-end">End Date (Optional)</Label>
+                  <Input
+                    id="recurring-end"
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    data-testid="input-recurring-end-date"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Split</Label>
+                <SplitSelector
+                  value={split}
+                  onChange={setSplit}
+                  partners={partners}
+                  amount={parseFloat(formData.amount.replace(',', '.'))}
+                  currency={formData.currency}
+                  payerId={formData.partnerId}
+                  idPrefix="recurring-split"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isFormValid || saveMutation.isPending}
+              data-testid="button-save-recurring"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
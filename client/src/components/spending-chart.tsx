@@ -25,6 +25,10 @@ import { cn } from "@/lib/utils";
 import { useDateRange } from "@/contexts/date-range-context";
 import type { Expense, Category } from "@shared/schema";
 import type { DateRange } from "react-day-picker";
+import { isExcludedFromSpending } from "@/lib/expense-utils";
+import { expandLineItems } from "@shared/line-items";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 
 interface SpendingData {
   name: string;
@@ -37,6 +41,7 @@ interface SpendingData {
 }
 
 export default function SpendingChart() {
+  const { formatBase } = useBaseCurrency();
   const {
     dateRange,
     setDateRange,
@@ -47,8 +52,8 @@ export default function SpendingChart() {
     startDate,
     endDate,
     dayCount,
-    budgetMultiplier
   } = useDateRange();
+  const { data: budgetStatus, getCategoryStatus } = useBudgetStatus();
   
   const { data: expenses = [] } = useQuery<Expense[]>({
     queryKey: ["/api/expenses"],
@@ -60,19 +65,21 @@ export default function SpendingChart() {
 
   // Date range now comes from context
 
-  // Filter expenses by date range and calculate spending data with proportional budgets
+  // Filter expenses by date range; budgeted categories take spending and budget from the budget engine
   const { chartData, totalSpent, totalBudget, filteredExpenses } = useMemo(() => {
     const filteredExpenses = expenses.filter((expense) => {
-      if (!expense?.date) return false;
+      if (!expense?.date || isExcludedFromSpending(expense)) return false;
       const expenseDate = new Date(expense.date);
       return expenseDate >= startDate && expenseDate <= endDate;
     });
 
+    const lineExpenses = expandLineItems(filteredExpenses);
     const spendingData: SpendingData[] = categories
       .map((category) => {
         if (!category) return null;
 
-        const spent = filteredExpenses
+        const status = getCategoryStatus(category.id);
+        const spent = status ? status.spent : lineExpenses
           .filter((expense) => expense?.categoryId === category.id)
           .reduce((sum: number, expense) => {
             if (!expense?.amount) return sum;
@@ -80,11 +87,9 @@ export default function SpendingChart() {
             return sum + (isNaN(amount) ? 0 : amount);
           }, 0);
 
-        // Calculate proportional budget for the selected date range
-        const monthlyBudget = category.monthlyBudget ? parseFloat(category.monthlyBudget) : 0;
-        const budget = monthlyBudget * budgetMultiplier;
+        const budget = status?.budget ?? 0;
         const remaining = Math.max(0, budget - spent);
-        const isOverBudget = spent > budget && budget > 0;
+        const isOverBudget = status?.isOverBudget ?? false;
 
         return {
           name: category.name || "Unknown",
@@ -107,7 +112,7 @@ export default function SpendingChart() {
       totalBudget,
       filteredExpenses,
     };
-  }, [expenses, categories, startDate, endDate, budgetMultiplier]);
+  }, [expenses, categories, startDate, endDate, getCategoryStatus]);
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -118,12 +123,12 @@ export default function SpendingChart() {
             {data.emoji} {data.name}
           </p>
           <p className="text-sm text-gray-600 dark:text-gray-300">
-            Spent: €{data.value.toFixed(2)}
+            Spent: {formatBase(data.value)}
           </p>
           {data.budget > 0 && (
             <>
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                Budget: €{data.budget.toFixed(2)}
+                Budget: {formatBase(data.budget)}
               </p>
               <p className={`text-sm font-medium ${
                 data.isOverBudget 
@@ -131,8 +136,8 @@ export default function SpendingChart() {
                   : 'text-green-600 dark:text-green-400'
               }`}>
                 {data.isOverBudget 
-                  ? `Over by €${(data.value - data.budget).toFixed(2)}` 
-                  : `€${data.remaining.toFixed(2)} remaining`
+                  ? `Over by ${formatBase(data.value - data.budget)}` 
+                  : `${formatBase(data.remaining)} remaining`
                 }
               </p>
             </>
@@ -226,14 +231,15 @@ export default function SpendingChart() {
               {format(startDate, 'MMM d')} - {format(endDate, 'MMM d, yyyy')} ({dayCount} days)
             </span>
             <span className="font-medium text-gray-900 dark:text-gray-100">
-              Budget: €{totalBudget.toFixed(2)} ({(dayCount / 30).toFixed(2)}x monthly)
+              Budget: {formatBase(totalBudget)}
+              {budgetStatus && ` (${budgetStatus.monthlyShare.toFixed(2)}x monthly)`}
             </span>
           </div>
           
           <div className="flex items-center justify-between mt-2">
             <div className="flex items-center space-x-4">
               <span className="text-gray-900 dark:text-gray-100 font-semibold">
-                Total Spent: €{totalSpent.toFixed(2)}
+                Total Spent: {formatBase(totalSpent)}
               </span>
             </div>
             <div className={`font-semibold ${
@@ -242,8 +248,8 @@ export default function SpendingChart() {
                 : 'text-red-600 dark:text-red-400'
             }`}>
               {budgetRemaining >= 0 
-                ? `€${budgetRemaining.toFixed(2)} remaining` 
-                : `€${overBudgetAmount.toFixed(2)} over budget`
+                ? `${formatBase(budgetRemaining)} remaining` 
+                : `${formatBase(overBudgetAmount)} over budget`
               }
             </div>
           </div>
@@ -0,0 +1,156 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getPartnerShares, getSplitValidationError } from '@shared/splits';
+import type { Partner, SplitShare, SplitType } from '@shared/schema';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+import { formatMoney, getCurrencySymbol } from '@/lib/expense-utils';
+
+export interface SplitValue {
+  splitType: SplitType;
+  splitShares: SplitShare[] | null;
+}
+
+interface SplitSelectorProps {
+  value: SplitValue;
+  onChange: (value: SplitValue) => void;
+  partners: Pick<Partner, 'id' | 'name' | 'color'>[];
+  amount?: number; // Used for the per-partner preview and to check fixed amounts
+  currency?: string; // Currency of the amount and fixed shares, the base currency unless given
+  payerId?: string;
+  allowFixed?: boolean; // Category defaults have no amount to split
+  idPrefix?: string;
+}
+
+export const SPLIT_TYPE_LABELS: Record<SplitType, string> = {
+  equal: 'Shared equally',
+  percentage: 'Custom percentage',
+  fixed: 'Fixed amounts',
+  personal: 'Personal',
+};
+
+export const DEFAULT_SPLIT: SplitValue = { splitType: 'equal', splitShares: null };
+
+// Short label for a split, e.g. "60/40" for a percentage split between two partners
+export function formatSplit(value: SplitValue, partners: Pick<Partner, 'id'>[]): string {
+  if (value.splitType === 'equal' && partners.length === 2) return '50/50';
+  if (value.splitType === 'percentage' && value.splitShares) {
+    return partners
+      .map(partner => value.splitShares?.find(share => share.partnerId === partner.id)?.value ?? 0)
+      .map(percentage => Math.round(percentage))
+      .join('/');
+  }
+  return SPLIT_TYPE_LABELS[value.splitType];
+}
+
+// Starting shares when switching to a custom split: an even division between all partners
+function getEvenShares(splitType: SplitType, partners: Pick<Partner, 'id'>[], amount?: number): SplitShare[] | null {
+  if (partners.length === 0) return null;
+  if (splitType === 'percentage') {
+    return partners.map(partner => ({ partnerId: partner.id, value: Math.round(10000 / partners.length) / 100 }));
+  }
+  if (splitType === 'fixed') {
+    const perPartner = amount && !isNaN(amount) ? Math.abs(amount) / partners.length : 0;
+    return partners.map(partner => ({ partnerId: partner.id, value: Math.round(perPartner * 100) / 100 }));
+  }
+  return null;
+}
+
+export function SplitSelector({
+  value,
+  onChange,
+  partners,
+  amount,
+  currency,
+  payerId,
+  allowFixed = true,
+  idPrefix = 'split',
+}: SplitSelectorProps) {
+  const { baseCurrency } = useBaseCurrency();
+  const shareCurrency = currency || baseCurrency;
+  const hasShares = value.splitType === 'percentage' || value.splitType === 'fixed';
+  const validationError = getSplitValidationError(value.splitType, value.splitShares, amount);
+
+  const handleTypeChange = (splitType: SplitType) => {
+    onChange({ splitType, splitShares: getEvenShares(splitType, partners, amount) });
+  };
+
+  const handleShareChange = (partnerId: string, input: string) => {
+    const parsed = parseFloat(input.replace(',', '.'));
+    const shareValue = isNaN(parsed) ? 0 : parsed;
+    const shares = partners.map(partner => ({
+      partnerId: partner.id,
+      value: partner.id === partnerId
+        ? shareValue
+        : value.splitShares?.find(share => share.partnerId === partner.id)?.value ?? 0,
+    }));
+    onChange({ splitType: value.splitType, splitShares: shares });
+  };
+
+  const preview = amount !== undefined && !isNaN(amount) && payerId && !validationError
+    ? getPartnerShares(
+        { amount: amount.toFixed(2), partnerId: payerId, splitType: value.splitType, splitShares: value.splitShares },
+        partners.map(partner => partner.id),
+      )
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <Select value={value.splitType} onValueChange={(type) => handleTypeChange(type as SplitType)}>
+        <SelectTrigger data-testid={`select-${idPrefix}-type`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="equal">{partners.length === 2 ? 'Shared 50/50' : SPLIT_TYPE_LABELS.equal}</SelectItem>
+          <SelectItem value="percentage">{SPLIT_TYPE_LABELS.percentage}</SelectItem>
+          {allowFixed && <SelectItem value="fixed">{SPLIT_TYPE_LABELS.fixed}</SelectItem>}
+          <SelectItem value="personal">{SPLIT_TYPE_LABELS.personal}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {hasShares && (
+        <div className="space-y-2">
+          {partners.map((partner) => (
+            <div key={partner.id} className="flex items-center space-x-2">
+              <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: partner.color }} />
+              <Label htmlFor={`${idPrefix}-share-${partner.id}`} className="flex-1 text-sm font-normal">
+                {partner.name}
+              </Label>
+              <Input
+                id={`${idPrefix}-share-${partner.id}`}
+                type="number"
+                min="0"
+                step={value.splitType === 'percentage' ? '1' : '0.01'}
+                value={value.splitShares?.find(share => share.partnerId === partner.id)?.value ?? 0}
+                onChange={(e) => handleShareChange(partner.id, e.target.value)}
+                className="w-24"
+                data-testid={`input-${idPrefix}-share-${partner.id}`}
+              />
+              <span className="w-4 text-sm text-muted-foreground">
+                {value.splitType === 'percentage' ? '%' : getCurrencySymbol(shareCurrency).trim()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {value.splitType === 'personal' && (
+        <p className="text-xs text-muted-foreground">Only the partner who paid carries this expense.</p>
+      )}
+
+      {validationError && (
+        <p className="text-xs text-destructive" data-testid={`text-${idPrefix}-error`}>{validationError}</p>
+      )}
+
+      {preview && (
+        <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+          {partners.map((partner) => (
+            <span key={partner.id}>
+              {partner.name}: {formatMoney(preview.get(partner.id) || 0, shareCurrency)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
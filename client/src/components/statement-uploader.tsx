@@ -7,23 +7,30 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { Upload, FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { ExpenseVerification } from './expense-verification';
+import { ImportPreview } from './import-preview';
 import { BudgetPeriodManager } from './budget-period-manager';
-import type { Partner, Statement } from '@shared/schema';
+import { getAccountStatementSource } from './account-manager';
+import type { Account, Partner, Statement, ImportProfile } from '@shared/schema';
 
 interface UploadFormData {
   file: File | null;
+  accountId: string;
   source: string;
   defaultPartnerId: string;
+  previewFirst: boolean;
 }
 
 export function StatementUploader() {
   const [formData, setFormData] = useState<UploadFormData>({
     file: null,
+    accountId: '',
     source: '',
     defaultPartnerId: '',
+    previewFirst: false,
   });
   const [uploadedStatementId, setUploadedStatementId] = useState<string | null>(null);
   const { toast } = useToast();
@@ -34,6 +41,14 @@ export function StatementUploader() {
     queryKey: ['/api/partners'],
   });
 
+  const { data: importProfiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: ['/api/import-profiles'],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+
   // Fetch uploaded statement status
   const { data: uploadedStatement } = useQuery<Statement>({
     queryKey: ['/api/statements', uploadedStatementId],
@@ -55,13 +70,15 @@ export function StatementUploader() {
     onSuccess: (response) => {
       toast({
         title: 'Upload Successful',
-        description: 'Your statement is being processed. This may take a few minutes.',
+        description: formData.previewFirst
+          ? 'Your statement is being analyzed. Review the transactions before they are imported.'
+          : 'Your statement is being processed. This may take a few minutes.',
       });
       setUploadedStatementId(response.statementId);
       queryClient.invalidateQueries({ queryKey: ['/api/statements'] });
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
-      // Reset form
-      setFormData({ file: null, source: '', defaultPartnerId: '' });
+      // Reset form, keeping the preview preference for the next upload
+      setFormData(prev => ({ file: null, accountId: '', source: '', defaultPartnerId: '', previewFirst: prev.previewFirst }));
     },
     onError: (error) => {
       toast({
@@ -77,10 +94,22 @@ export function StatementUploader() {
     setFormData(prev => ({ ...prev, file }));
   };
 
+  // The account decides the likely statement format and, for a single owner, who made the purchases
+  const handleAccountChange = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return;
+    setFormData(prev => ({
+      ...prev,
+      accountId,
+      source: getAccountStatementSource(account),
+      defaultPartnerId: account.ownerPartnerIds.length === 1 ? account.ownerPartnerIds[0] : prev.defaultPartnerId,
+    }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.file || !formData.source || !formData.defaultPartnerId) {
+    if (!formData.file || !formData.accountId || !formData.source || !formData.defaultPartnerId) {
       toast({
         title: 'Missing Information',
         description: 'Please fill in all required fields',
@@ -103,8 +132,17 @@ export function StatementUploader() {
 
     const uploadFormData = new FormData();
     uploadFormData.append('file', formData.file);
-    uploadFormData.append('source', formData.source);
+    // Saved import profiles are offered alongside the built-in sources as "profile:<id>"
+    if (formData.source.startsWith('profile:')) {
+      uploadFormData.append('profileId', formData.source.slice('profile:'.length));
+    } else {
+      uploadFormData.append('source', formData.source);
+    }
+    uploadFormData.append('accountId', formData.accountId);
     uploadFormData.append('defaultPartnerId', formData.defaultPartnerId);
+    if (formData.previewFirst) {
+      uploadFormData.append('mode', 'preview');
+    }
 
     uploadMutation.mutate(uploadFormData);
   };
@@ -138,17 +176,17 @@ export function StatementUploader() {
             Upload Financial Statement
           </CardTitle>
           <CardDescription>
-            Upload your AMEX or bank statement (CSV format) to automatically categorize and add transactions
+            Upload your AMEX or bank statement (CSV, OFX/QFX, CAMT.053 or MT940 format) to automatically categorize and add transactions
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="file-upload">Statement File (CSV)</Label>
+              <Label htmlFor="file-upload">Statement File (CSV, OFX, QFX, CAMT.053, MT940)</Label>
               <Input
                 id="file-upload"
                 type="file"
-                accept=".csv,text/csv,application/csv"
+                accept=".csv,.ofx,.qfx,.xml,.sta,.mt940,.940,text/csv,application/csv,application/x-ofx"
                 onChange={handleFileChange}
                 data-testid="input-file-upload"
               />
@@ -160,20 +198,52 @@ export function StatementUploader() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="source-select">Statement Source</Label>
+              <Label htmlFor="account-select">Account</Label>
+              <Select
+                value={formData.accountId}
+                onValueChange={handleAccountChange}
+                data-testid="select-statement-account"
+              >
+                <SelectTrigger id="account-select">
+                  <SelectValue placeholder="Select the account this statement is for" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {accounts.length === 0 && (
+                <p className="text-sm text-gray-600">
+                  Add your bank accounts and cards under Settings → Accounts first.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="source-select">Statement Format</Label>
               <Select
                 value={formData.source}
                 onValueChange={(value) => setFormData(prev => ({ ...prev, source: value }))}
                 data-testid="select-statement-source"
               >
                 <SelectTrigger id="source-select">
-                  <SelectValue placeholder="Select statement source" />
+                  <SelectValue placeholder="Select statement format" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="amex">American Express</SelectItem>
+                  <SelectItem value="dkb">DKB Bank</SelectItem>
                   <SelectItem value="chase">Chase Bank</SelectItem>
+                  <SelectItem value="paypal">PayPal</SelectItem>
                   <SelectItem value="bank">Other Bank</SelectItem>
                   <SelectItem value="credit">Credit Card</SelectItem>
+                  {importProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={`profile:${profile.id}`}>
+                      {profile.name} (Import Profile)
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -198,9 +268,24 @@ export function StatementUploader() {
               </Select>
             </div>
 
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="preview-switch">Preview before import</Label>
+                <p className="text-sm text-gray-600">
+                  Review and adjust parsed transactions before any expenses are created
+                </p>
+              </div>
+              <Switch
+                id="preview-switch"
+                checked={formData.previewFirst}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, previewFirst: checked }))}
+                data-testid="switch-preview-import"
+              />
+            </div>
+
             <Button
               type="submit"
-              disabled={!formData.file || !formData.source || !formData.defaultPartnerId || uploadMutation.isPending}
+              disabled={!formData.file || !formData.accountId || !formData.source || !formData.defaultPartnerId || uploadMutation.isPending}
               className="w-full"
               data-testid="button-upload-statement"
             >
@@ -269,10 +354,35 @@ export function StatementUploader() {
               </div>
             )}
 
+            {uploadedStatement.parseErrors && uploadedStatement.parseErrors.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-md">
+                <p className="text-amber-700 text-sm font-medium" data-testid="text-parse-errors">
+                  {uploadedStatement.parseErrors.length} rows could not be parsed and were skipped:
+                </p>
+                <ul className="text-amber-700 text-sm list-disc pl-5">
+                  {uploadedStatement.parseErrors.map((parseError) => (
+                    <li key={parseError.line}>
+                      Line {parseError.line}: {parseError.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {uploadedStatement.status === 'preview' && (
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+                <p className="text-blue-700 text-sm" data-testid="text-preview-message">
+                  <strong>Ready for review.</strong> {uploadedStatement.totalTransactions} transactions were parsed. 
+                  Nothing has been imported yet.
+                </p>
+              </div>
+            )}
+
             {uploadedStatement.status === 'completed' && (
               <div className="p-3 bg-green-50 border border-green-200 rounded-md">
                 <p className="text-green-700 text-sm" data-testid="text-success-message">
                   <strong>Success!</strong> {uploadedStatement.processedTransactions} transactions have been added to your expenses. 
+                  {!!uploadedStatement.skippedTransactions && `${uploadedStatement.skippedTransactions} were already imported from an earlier statement and were skipped. `}
                   Please verify and edit the expenses below.
                 </p>
               </div>
@@ -281,6 +391,11 @@ export function StatementUploader() {
         </Card>
       )}
 
+      {/* Review step for uploads made in preview mode */}
+      {uploadedStatement && uploadedStatement.status === 'preview' && (
+        <ImportPreview statementId={uploadedStatement.id} />
+      )}
+
       {/* Expense Verification for completed uploads */}
       {uploadedStatement && uploadedStatement.status === 'completed' && (
         <ExpenseVerification statementId={uploadedStatement.id} />
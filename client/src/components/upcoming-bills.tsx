@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import type { Category, Partner, RecurringExpense } from "@shared/schema";
+import { listOccurrences } from "@shared/recurring";
+import { formatMoney } from "@/lib/expense-utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+const UPCOMING_DAYS = 30;
+const BILLS_SHOWN = 8;
+
+function formatDueIn(dueDate: Date): string {
+  const days = differenceInCalendarDays(dueDate, new Date());
+  if (days <= 0) return "Today";
+  if (days === 1) return "Tomorrow";
+  return `In ${days} days`;
+}
+
+export default function UpcomingBills() {
+  const { baseCurrency, formatBase } = useBaseCurrency();
+
+  const { data: recurringExpenses = [] } = useQuery<RecurringExpense[]>({
+    queryKey: ["/api/recurring-expenses"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ["/api/partners"],
+  });
+
+  // Occurrences that haven't been booked yet and fall due within the next weeks
+  const until = addDays(startOfDay(new Date()), UPCOMING_DAYS);
+  const bills = recurringExpenses
+    .filter((recurringExpense) => recurringExpense.isActive === 1 && recurringExpense.nextDueDate)
+    .flatMap((recurringExpense) =>
+      listOccurrences(recurringExpense, recurringExpense.nextDueDate!, until).map((dueDate) => ({ recurringExpense, dueDate }))
+    )
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+  // Bills in the base currency add up exactly; others are only listed
+  const baseTotal = bills
+    .filter((bill) => bill.recurringExpense.currency === baseCurrency)
+    .reduce((sum, bill) => sum + parseFloat(bill.recurringExpense.amount), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5" />
+          <span>Upcoming Bills</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Next {UPCOMING_DAYS} days{bills.length > 0 && ` · ${formatBase(baseTotal)}`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {bills.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-sm text-muted-foreground">No bills due in the next {UPCOMING_DAYS} days.</p>
+            {recurringExpenses.length === 0 && (
+              <Link href="/settings" className="text-sm text-primary hover:underline">
+                Add recurring expenses in the settings
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {bills.slice(0, BILLS_SHOWN).map(({ recurringExpense, dueDate }) => {
+              const category = categories.find((c) => c.id === recurringExpense.categoryId);
+              const partner = partners.find((p) => p.id === recurringExpense.partnerId);
+              return (
+                <div
+                  key={`${recurringExpense.id}-${dueDate.getTime()}`}
+                  className="flex items-center justify-between"
+                  data-testid={`upcoming-bill-${recurringExpense.id}`}
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <span className="text-lg">{category?.emoji}</span>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{recurringExpense.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(dueDate, "MMM d")} · {formatDueIn(dueDate)}
+                        {partner && ` · ${partner.name}`}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-sm font-medium">
+                    {formatMoney(parseFloat(recurringExpense.amount), recurringExpense.currency)}
+                  </span>
+                </div>
+              );
+            })}
+            {bills.length > BILLS_SHOWN && (
+              <p className="text-xs text-muted-foreground text-center">
+                {bills.length - BILLS_SHOWN} more due in the next {UPCOMING_DAYS} days
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
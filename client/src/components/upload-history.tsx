@@ -117,6 +117,11 @@ export function UploadHistory() {
                     ✓ {statement.processedTransactions} added
                   </span>
                 )}
+                {statement.status === 'completed' && !!statement.skippedTransactions && (
+                  <span className="text-sm text-muted-foreground" data-testid={`text-skipped-${statement.id}`}>
+                    {statement.skippedTransactions} already imported
+                  </span>
+                )}
               </div>
             </div>
           ))}
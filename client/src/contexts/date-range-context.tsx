@@ -13,7 +13,6 @@ interface DateRangeContextType {
   startDate: Date;
   endDate: Date;
   dayCount: number;
-  budgetMultiplier: number;
   // Add convenient method for setting custom range
   setCustomDateRange: (start: Date, end: Date) => void;
 }
@@ -38,7 +37,7 @@ export function DateRangeProvider({ children }: DateRangeProviderProps) {
   const [customEndDate, setCustomEndDate] = useState<Date>();
 
   // Calculate date range
-  const { startDate, endDate, dayCount, budgetMultiplier } = useMemo(() => {
+  const { startDate, endDate, dayCount } = useMemo(() => {
     const now = new Date();
     let start: Date;
     let end: Date = now;
@@ -68,13 +67,11 @@ export function DateRangeProvider({ children }: DateRangeProviderProps) {
     }
     
     const dayCount = differenceInDays(endOfDay(end), startOfDay(start)) + 1;
-    const budgetMultiplier = dayCount / 30; // Convert to monthly proportion
     
     return {
       startDate: startOfDay(start),
       endDate: endOfDay(end),
-      dayCount,
-      budgetMultiplier
+      dayCount
     };
   }, [dateRange, customStartDate, customEndDate]);
 
@@ -95,7 +92,6 @@ export function DateRangeProvider({ children }: DateRangeProviderProps) {
       startDate,
       endDate,
       dayCount,
-      budgetMultiplier,
       setCustomDateRange
     }}>
       {children}
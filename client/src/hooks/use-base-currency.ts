@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { HouseholdSettings } from "@shared/schema";
+import { formatMoney, getCurrencySymbol } from "@/lib/expense-utils";
+
+// Every stored amount and total is in the household's base currency
+export function useBaseCurrency() {
+  const { data: settings } = useQuery<HouseholdSettings>({
+    queryKey: ["/api/settings/household"],
+  });
+
+  const baseCurrency = settings?.baseCurrency ?? "EUR";
+  return {
+    baseCurrency,
+    currencySymbol: getCurrencySymbol(baseCurrency).trim(),
+    formatBase: (amount: number) => formatMoney(amount, baseCurrency),
+  };
+}
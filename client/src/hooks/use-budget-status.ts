@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { BudgetStatus, CategoryBudgetStatus } from "@shared/budgets";
+import type { RefundMode } from "@shared/spending";
+import { useDateRange } from "@/contexts/date-range-context";
+import { apiRequest } from "@/lib/queryClient";
+
+// Budgets, spending and pace per category for the selected date range, as worked out by the server
+export function useBudgetStatus(refundMode: RefundMode = "net") {
+  const { startDate, endDate } = useDateRange();
+  const from = format(startDate, "yyyy-MM-dd");
+  const to = format(endDate, "yyyy-MM-dd");
+
+  const query = useQuery<BudgetStatus>({
+    queryKey: ["/api/budgets/status", from, to, refundMode],
+    queryFn: () => apiRequest(`/api/budgets/status?${new URLSearchParams({ from, to, refundMode })}`, { method: "GET" }),
+  });
+
+  const getCategoryStatus = useMemo(() => {
+    const byCategory = new Map<string, CategoryBudgetStatus>(
+      (query.data?.categories ?? []).map(status => [status.categoryId, status]),
+    );
+    return (categoryId: string) => byCategory.get(categoryId);
+  }, [query.data]);
+
+  return { ...query, getCategoryStatus };
+}
@@ -37,10 +37,51 @@ export function formatAmountDisplay(amount: number): string {
   return amount.toFixed(2).replace(".", ",");
 }
 
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  USD: "$",
+  GBP: "£",
+  JPY: "¥",
+  CHF: "CHF ",
+  PLN: "zł ",
+  SEK: "kr ",
+  DKK: "kr ",
+  NOK: "kr ",
+};
+
+/**
+ * Currencies offered when entering an amount; any other three-letter code works as well
+ */
+export const COMMON_CURRENCIES = ["EUR", "USD", "GBP", "CHF", "JPY", "PLN", "SEK", "DKK", "NOK", "CZK", "HUF"];
+
+/**
+ * Symbol shown in front of amounts, the code itself for currencies without a common symbol
+ */
+export function getCurrencySymbol(currency: string): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+}
+
+/**
+ * Formats an amount with its currency, e.g. "€12.50" or "-$3.00"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  return `${amount < 0 ? "-" : ""}${getCurrencySymbol(currency)}${Math.abs(amount).toFixed(2)}`;
+}
+
 /**
  * Validates amount string format (supports European decimal format and negative values)
  */
 export function isValidAmountFormat(amount: string): boolean {
   const regex = /^-?[0-9]+([.,][0-9]{1,2})?$/;
   return regex.test(amount);
-}
\ No newline at end of file
+}
+
+// Spending rules live in shared code so the server's budget engine counts the same rows
+export {
+  isIncome,
+  isTransfer,
+  isExcludedFromSpending,
+  isRefund,
+  applyRefundMode,
+  type RefundMode,
+} from "@shared/spending";
@@ -27,6 +27,7 @@ import {
   CalendarDays,
   ChevronDown,
   ChevronUp,
+  Store,
 } from "lucide-react";
 import { useState } from "react";
 import MonthlySummary from "@/components/monthly-summary";
@@ -47,9 +48,13 @@ import {
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format, subDays, startOfMonth, endOfMonth } from "date-fns";
-import type { Expense, Category, Partner } from "@shared/schema";
+import type { Expense, Category, Partner, Merchant } from "@shared/schema";
+import { applyRefundMode, isExcludedFromSpending, type RefundMode } from "@/lib/expense-utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 
 function AnalyticsContent() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
   const [timeRange, setTimeRange] = useState("6months");
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(
     null,
@@ -58,6 +63,8 @@ function AnalyticsContent() {
   const [isMonthExpensesOpen, setIsMonthExpensesOpen] = useState(true);
   const { startDate, endDate, setCustomDateRange } = useDateRange();
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [refundMode, setRefundMode] = useState<RefundMode>("net");
+  const { getCategoryStatus } = useBudgetStatus(refundMode);
 
   const handleMonthSelect = (month: string) => {
     const [year, monthNum] = month.split("-");
@@ -84,9 +91,13 @@ function AnalyticsContent() {
     queryKey: ["/api/partners"],
   });
 
-  // Filter expenses by date range
-  const filteredExpenses = expenses.filter((expense: Expense) => {
-    if (!expense || !expense.date) return false;
+  const { data: merchants = [] } = useQuery<Merchant[]>({
+    queryKey: ["/api/merchants"],
+  });
+
+  // Filter expenses by date range, after placing or dropping refunds for the chosen figures
+  const filteredExpenses = applyRefundMode(expenses, refundMode).filter((expense: Expense) => {
+    if (!expense || !expense.date || isExcludedFromSpending(expense)) return false;
     const expenseDate = new Date(expense.date);
     return expenseDate >= startDate && expenseDate <= endDate;
   });
@@ -178,33 +189,44 @@ function AnalyticsContent() {
         return months;
       })();
 
-  // Category spending comparison (filtered by date range)
+  // Category spending against the effective budget for the range, from the budget engine
   const categoryComparison = categories
     .map((category) => {
-      if (!category) return null;
-
-      const spent = filteredExpenses
-        .filter((expense) => expense && expense.categoryId === category.id)
-        .reduce((sum, expense) => {
-          if (!expense || !expense.amount) return sum;
-          const amount = parseFloat(expense.amount);
-          return sum + (isNaN(amount) ? 0 : amount);
-        }, 0);
-
-      const budget = parseFloat(category.budget || "0");
-      const isOverBudget = spent > budget && budget > 0;
+      const status = getCategoryStatus(category.id);
+      if (!status) return null;
 
       return {
         name: category.name,
-        spent: spent,
-        budget: budget,
+        spent: status.spent,
+        budget: status.budget,
         emoji: category.emoji,
-        spentColor: isOverBudget ? "#EF4444" : "#3B82F6",
+        spentColor: status.isOverBudget ? "#EF4444" : "#3B82F6",
         budgetColor: "#E5E7EB",
       };
     })
     .filter(Boolean);
 
+  // Top merchants by spending (filtered by date range)
+  const merchantTotals = new Map<string, { total: number; count: number }>();
+  for (const expense of filteredExpenses) {
+    if (!expense.merchantId) continue;
+    const amount = parseFloat(expense.amount);
+    const current = merchantTotals.get(expense.merchantId) || { total: 0, count: 0 };
+    merchantTotals.set(expense.merchantId, {
+      total: current.total + (isNaN(amount) ? 0 : amount),
+      count: current.count + 1,
+    });
+  }
+  const topMerchants = Array.from(merchantTotals.entries())
+    .map(([merchantId, totals]) => ({
+      merchantId,
+      name: merchants.find((merchant) => merchant.id === merchantId)?.name || "Unknown merchant",
+      ...totals,
+    }))
+    .filter((merchant) => merchant.total > 0)
+    .sort((a, b) => b.total - a.total)
+    .slice(0, 10);
+
   return (
     <div className="space-y-6">
       {/* Date Range Controls - Sub Navigation */}
@@ -285,6 +307,16 @@ function AnalyticsContent() {
                   />
                 </PopoverContent>
               </Popover>
+
+              <Select value={refundMode} onValueChange={(value) => setRefundMode(value as RefundMode)}>
+                <SelectTrigger className="w-40 h-9" data-testid="select-refund-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="net">Net of refunds</SelectItem>
+                  <SelectItem value="gross">Gross</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardContent>
@@ -340,7 +372,7 @@ function AnalyticsContent() {
                       />
                       <YAxis
                         tick={{ fontSize: 12 }}
-                        tickFormatter={(value) => `€${value}`}
+                        tickFormatter={(value) => `${currencySymbol}${value}`}
                         axisLine={false}
                         tickLine={false}
                       />
@@ -349,7 +381,7 @@ function AnalyticsContent() {
                           value: number,
                           name: string,
                           props: any,
-                        ) => [`€${value.toFixed(2)}`, "Total Spent"]}
+                        ) => [formatBase(value), "Total Spent"]}
                         labelFormatter={(label) => `Month: ${label}`}
                         contentStyle={{
                           backgroundColor: "white",
@@ -400,7 +432,7 @@ function AnalyticsContent() {
                       />
                       <YAxis
                         tick={{ fontSize: 12 }}
-                        tickFormatter={(value) => `€${value}`}
+                        tickFormatter={(value) => `${currencySymbol}${value}`}
                       />
                       <Tooltip
                         formatter={(
@@ -412,7 +444,7 @@ function AnalyticsContent() {
                           const category = categoryComparison.find(
                             (c: any) => c?.name === props.payload?.name,
                           );
-                          if (!category) return [`€${value.toFixed(2)}`, name];
+                          if (!category) return [formatBase(value), name];
 
                           const isOverBudget =
                             category.spent > category.budget &&
@@ -426,12 +458,12 @@ function AnalyticsContent() {
                               const overAmount =
                                 category.spent - category.budget;
                               return [
-                                `€${value.toFixed(2)}`,
-                                `Spent (Over by €${overAmount.toFixed(2)}!)`,
+                                formatBase(value),
+                                `Spent (Over by ${formatBase(overAmount)}!)`,
                               ];
                             } else if (isEqualBudget) {
                               return [
-                                `€${value.toFixed(2)}`,
+                                formatBase(value),
                                 "Spent (0% budget remaining)",
                               ];
                             } else {
@@ -445,12 +477,12 @@ function AnalyticsContent() {
                                     ).toFixed(0)
                                   : "0";
                               return [
-                                `€${value.toFixed(2)}`,
+                                formatBase(value),
                                 `Spent (${remainingPercent}% budget remaining)`,
                               ];
                             }
                           }
-                          return [`€${value.toFixed(2)}`, "Budget"];
+                          return [formatBase(value), "Budget"];
                         }}
                         labelStyle={{ color: "#374151" }}
                         contentStyle={{
@@ -478,6 +510,37 @@ function AnalyticsContent() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Top Merchants */}
+            {topMerchants.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Store className="h-5 w-5" />
+                    <span>Top Merchants</span>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {format(startDate, "MMM d")} -{" "}
+                    {format(endDate, "MMM d, yyyy")}
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {topMerchants.map((merchant) => (
+                      <div
+                        key={merchant.merchantId}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <span className="font-medium">{merchant.name}</span>
+                        <span className="text-muted-foreground">
+                          {merchant.count}× · {formatBase(merchant.total)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             {/* Category Expenses Detail - Shows when a category is selected */}
             {selectedCategory && (
               <Card>
@@ -587,7 +650,7 @@ function AnalyticsContent() {
                                   </div>
                                   <div className="flex-shrink-0 text-right ml-4">
                                     <p className="font-semibold text-sm">
-                                      €
+                                      {currencySymbol}
                                       {parseFloat(
                                         expense.amount || "0",
                                       ).toFixed(2)}
@@ -607,7 +670,7 @@ function AnalyticsContent() {
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <BudgetAlerts onCategorySelect={setSelectedCategory} />
+            <BudgetAlerts onCategorySelect={setSelectedCategory} refundMode={refundMode} />
           </div>
         </div>
       </div>
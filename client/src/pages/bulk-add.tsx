@@ -31,11 +31,14 @@ import { useToast } from "@/hooks/use-toast";
 import { insertExpenseSchema } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { normalizeAmount, toISODate } from "@/lib/expense-utils";
+import { getDefaultSplit } from "@shared/splits";
+import { DEFAULT_SPLIT, SplitSelector, formatSplit } from "@/components/split-selector";
 import { z } from "zod";
 import { format } from "date-fns";
 import { 
   CalendarIcon, 
   Plus, 
+  Users,
   Trash2, 
   Copy, 
   RotateCcw,
@@ -45,7 +48,8 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Layout from "@/components/layout";
-import type { Category, Partner } from "@shared/schema";
+import type { Account, Category, Partner, SplitType } from "@shared/schema";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 // Schema for individual bulk expense items
 const bulkExpenseItemSchema = insertExpenseSchema.omit({ date: true }).extend({
@@ -82,6 +86,7 @@ interface ExpenseSubmissionResult {
 }
 
 function BulkAddContent() {
+  const { currencySymbol } = useBaseCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [submissionResults, setSubmissionResults] = useState<Record<string, ExpenseSubmissionResult>>({});
@@ -95,6 +100,10 @@ function BulkAddContent() {
     queryKey: ["/api/partners"],
   });
 
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   const form = useForm<BulkExpenseForm>({
     resolver: zodResolver(bulkExpenseSchema),
     defaultValues: {
@@ -106,7 +115,8 @@ function BulkAddContent() {
           categoryId: "",
           partnerId: "",
           date: new Date(),
-          sourceLabel: "",
+          accountId: "",
+          ...DEFAULT_SPLIT,
         }
       ],
       defaults: {
@@ -122,6 +132,10 @@ function BulkAddContent() {
     name: "expenses",
   });
 
+  // New rows and category changes pick up the category's default split
+  const getCategorySplit = (categoryId: string) =>
+    getDefaultSplit(categories.find(category => category.id === categoryId));
+
   const addRow = () => {
     const defaults = form.getValues("defaults");
     append({
@@ -131,7 +145,8 @@ function BulkAddContent() {
       categoryId: defaults.categoryId,
       partnerId: defaults.partnerId,
       date: defaults.date,
-      sourceLabel: "",
+      accountId: "",
+      ...getCategorySplit(defaults.categoryId),
     });
   };
 
@@ -145,7 +160,8 @@ function BulkAddContent() {
         categoryId: defaults.categoryId,
         partnerId: defaults.partnerId,
         date: defaults.date,
-        sourceLabel: "",
+        accountId: "",
+        ...getCategorySplit(defaults.categoryId),
       });
     }
   };
@@ -167,7 +183,8 @@ function BulkAddContent() {
       categoryId: "",
       partnerId: "",
       date: new Date(),
-      sourceLabel: "",
+      accountId: "",
+      ...DEFAULT_SPLIT,
     }]);
     setSubmissionResults({});
   };
@@ -198,7 +215,9 @@ function BulkAddContent() {
                   categoryId: expense.categoryId,
                   partnerId: expense.partnerId,
                   date: toISODate(expense.date),
-                  sourceLabel: expense.sourceLabel || "",
+                  accountId: expense.accountId || null,
+                  splitType: expense.splitType,
+                  splitShares: expense.splitShares,
                 },
               });
               results[expense.id] = { id: expense.id, status: 'success' };
@@ -425,10 +444,11 @@ function BulkAddContent() {
                       <TableHead className="w-[100px]">Status</TableHead>
                       <TableHead className="w-[120px]">Date</TableHead>
                       <TableHead className="min-w-[200px]">Description</TableHead>
-                      <TableHead className="w-[120px]">Amount (€)</TableHead>
+                      <TableHead className="w-[120px]">Amount ({currencySymbol})</TableHead>
                       <TableHead className="w-[150px]">Category</TableHead>
                       <TableHead className="w-[120px]">Partner</TableHead>
-                      <TableHead className="w-[120px]">Source</TableHead>
+                      <TableHead className="w-[120px]">Split</TableHead>
+                      <TableHead className="w-[120px]">Account</TableHead>
                       <TableHead className="w-[100px]">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -520,7 +540,12 @@ function BulkAddContent() {
                           <TableCell>
                             <Select
                               value={form.watch(`expenses.${index}.categoryId`)}
-                              onValueChange={(value) => form.setValue(`expenses.${index}.categoryId`, value)}
+                              onValueChange={(value) => {
+                                form.setValue(`expenses.${index}.categoryId`, value);
+                                const split = getCategorySplit(value);
+                                form.setValue(`expenses.${index}.splitType`, split.splitType);
+                                form.setValue(`expenses.${index}.splitShares`, split.splitShares);
+                              }}
                               disabled={status === 'success'}
                             >
                               <SelectTrigger className="w-[150px]" data-testid={`select-category-${index}`}>
@@ -571,24 +596,60 @@ function BulkAddContent() {
                             )}
                           </TableCell>
 
+                          <TableCell>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="w-[120px] justify-start font-normal"
+                                  disabled={status === 'success'}
+                                  data-testid={`button-split-${index}`}
+                                >
+                                  <Users className="mr-2 h-3 w-3" />
+                                  {formatSplit(
+                                    {
+                                      splitType: (form.watch(`expenses.${index}.splitType`) || "equal") as SplitType,
+                                      splitShares: form.watch(`expenses.${index}.splitShares`) ?? null,
+                                    },
+                                    partners,
+                                  )}
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-72">
+                                <SplitSelector
+                                  value={{
+                                    splitType: (form.watch(`expenses.${index}.splitType`) || "equal") as SplitType,
+                                    splitShares: form.watch(`expenses.${index}.splitShares`) ?? null,
+                                  }}
+                                  onChange={(split) => {
+                                    form.setValue(`expenses.${index}.splitType`, split.splitType);
+                                    form.setValue(`expenses.${index}.splitShares`, split.splitShares);
+                                  }}
+                                  partners={partners}
+                                  amount={parseFloat(normalizeAmount(form.watch(`expenses.${index}.amount`) || ""))}
+                                  payerId={form.watch(`expenses.${index}.partnerId`)}
+                                  idPrefix={`split-${index}`}
+                                />
+                              </PopoverContent>
+                            </Popover>
+                          </TableCell>
+
                           <TableCell>
                             <Select
-                              value={form.watch(`expenses.${index}.sourceLabel`) || "none"}
-                              onValueChange={(value) => form.setValue(`expenses.${index}.sourceLabel`, value === "none" ? "" : value)}
+                              value={form.watch(`expenses.${index}.accountId`) || "none"}
+                              onValueChange={(value) => form.setValue(`expenses.${index}.accountId`, value === "none" ? "" : value)}
                               disabled={status === 'success'}
                             >
-                              <SelectTrigger className="w-[120px]" data-testid={`select-source-${index}`}>
-                                <SelectValue placeholder="Source" />
+                              <SelectTrigger className="w-[120px]" data-testid={`select-account-${index}`}>
+                                <SelectValue placeholder="Account" />
                               </SelectTrigger>
                               <SelectContent>
                                 <SelectItem value="none">None</SelectItem>
-                                <SelectItem value="AMEX">AMEX</SelectItem>
-                                <SelectItem value="DKB">DKB Bank</SelectItem>
-                                <SelectItem value="Chase">Chase Bank</SelectItem>
-                                <SelectItem value="PayPal">PayPal</SelectItem>
-                                <SelectItem value="Cash">Cash</SelectItem>
-                                <SelectItem value="Other Card">Other Card</SelectItem>
-                                <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
+                                {accounts.map((account) => (
+                                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </TableCell>
@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDownCircle, ArrowUpCircle, TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import Layout from "@/components/layout";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { formatMoney } from "@/lib/expense-utils";
+import { computeCashFlow } from "@shared/cash-flow";
+import type { Expense, Partner } from "@shared/schema";
+
+function formatMonth(month: string) {
+  return format(new Date(`${month}-01T00:00:00`), "MMMM yyyy");
+}
+
+function formatNet(value: number, currency: string) {
+  return `${value > 0 ? "+" : ""}${formatMoney(value, currency)}`;
+}
+
+function netColor(value: number) {
+  return value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "";
+}
+
+function CashFlowContent() {
+  const { baseCurrency, formatBase } = useBaseCurrency();
+  const { data: expenses = [], isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ["/api/partners"],
+  });
+
+  const months = useMemo(
+    () => computeCashFlow(expenses, partners.map(partner => partner.id)),
+    [expenses, partners],
+  );
+
+  const getPartner = (id: string) => partners.find(partner => partner.id === id);
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading cash flow...</div>;
+  }
+
+  const currentMonth = months[0];
+
+  return (
+    <div className="space-y-6">
+      {currentMonth && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <ArrowDownCircle className="h-5 w-5 text-green-600" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Income · {formatMonth(currentMonth.month)}</p>
+                  <p className="text-xl font-semibold" data-testid="text-cash-flow-income">{formatBase(currentMonth.income)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <ArrowUpCircle className="h-5 w-5 text-red-600" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Spending · {formatMonth(currentMonth.month)}</p>
+                  <p className="text-xl font-semibold" data-testid="text-cash-flow-spending">{formatBase(currentMonth.spending)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5 text-primary" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Net · {formatMonth(currentMonth.month)}</p>
+                  <p className={`text-xl font-semibold ${netColor(currentMonth.net)}`} data-testid="text-cash-flow-net">
+                    {formatNet(currentMonth.net, baseCurrency)}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="h-5 w-5" />
+            <span>Cash Flow by Month</span>
+          </CardTitle>
+          <CardDescription>
+            Income each partner received minus their share of the month's spending.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {months.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No transactions yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Partner</TableHead>
+                    <TableHead className="text-right">Income</TableHead>
+                    <TableHead className="text-right">Spending</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.flatMap((monthFlow) => [
+                    ...monthFlow.partners.map((entry, index) => (
+                      <TableRow key={`${monthFlow.month}-${entry.partnerId}`} data-testid={`row-cash-flow-${monthFlow.month}-${entry.partnerId}`}>
+                        <TableCell className="font-medium">{index === 0 ? formatMonth(monthFlow.month) : ""}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <div
+                              className="w-2 h-2 rounded-full"
+                              style={{ backgroundColor: getPartner(entry.partnerId)?.color || "#6B7280" }}
+                            />
+                            <span>{getPartner(entry.partnerId)?.name || "Removed partner"}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatBase(entry.income)}</TableCell>
+                        <TableCell className="text-right">{formatBase(entry.spending)}</TableCell>
+                        <TableCell className={`text-right font-medium ${netColor(entry.net)}`}>{formatNet(entry.net, baseCurrency)}</TableCell>
+                      </TableRow>
+                    )),
+                    <TableRow key={`${monthFlow.month}-total`} className="bg-muted/50">
+                      <TableCell />
+                      <TableCell className="font-medium">Household</TableCell>
+                      <TableCell className="text-right font-medium">{formatBase(monthFlow.income)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatBase(monthFlow.spending)}</TableCell>
+                      <TableCell className={`text-right font-bold ${netColor(monthFlow.net)}`}>{formatNet(monthFlow.net, baseCurrency)}</TableCell>
+                    </TableRow>,
+                  ])}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function CashFlow() {
+  return (
+    <Layout
+      title="Cash Flow"
+      description="Income minus spending per month for each partner"
+    >
+      <CashFlowContent />
+    </Layout>
+  );
+}
@@ -7,12 +7,17 @@ import CategoryBudgets from "@/components/category-budgets";
 import SpendingChart from "@/components/spending-chart";
 import BottomNavigation from "@/components/bottom-navigation";
 import BudgetAlerts from "@/components/budget-alerts";
+import UpcomingBills from "@/components/upcoming-bills";
+import Envelopes from "@/components/envelopes";
 import DesktopNavigation from "@/components/desktop-navigation";
 import DateRangePicker from "@/components/date-range-picker";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { DateRangeProvider, useDateRange } from "@/contexts/date-range-context";
-import { subDays, startOfDay, endOfDay, differenceInDays } from "date-fns";
-import type { Expense, Category, Partner, BudgetPeriod } from "@shared/schema";
+import { subDays, startOfDay, endOfDay } from "date-fns";
+import type { Expense, Partner } from "@shared/schema";
+import { isExcludedFromSpending } from "@/lib/expense-utils";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 
 interface DashboardStats {
   totalSpent: number;
@@ -21,6 +26,7 @@ interface DashboardStats {
 }
 
 function DashboardContent() {
+  const { formatBase } = useBaseCurrency();
   const isMobile = useIsMobile();
   const { startDate, endDate } = useDateRange();
 
@@ -28,65 +34,22 @@ function DashboardContent() {
     queryKey: ["/api/expenses"],
   });
 
-  const { data: categories = [] } = useQuery<Category[]>({
-    queryKey: ["/api/categories"],
-  });
-
   const { data: partners = [] } = useQuery<Partner[]>({
     queryKey: ["/api/partners"],
   });
 
-  const { data: budgetPeriods = [] } = useQuery<BudgetPeriod[]>({
-    queryKey: ["/api/budget-periods"],
-  });
-
-  // Calculate dashboard stats for selected date range
-  const dayCount = differenceInDays(endDate, startDate) + 1;
-  const budgetMultiplier = dayCount / 30; // Convert to monthly proportion
+  const { data: budgetStatus } = useBudgetStatus();
 
+  // Transactions in the selected date range
   const filteredExpenses = expenses.filter((expense) => {
-    if (!expense?.date) return false;
+    if (!expense?.date || isExcludedFromSpending(expense)) return false;
     const expenseDate = new Date(expense.date);
     return expenseDate >= startOfDay(startDate) && expenseDate <= endOfDay(endDate);
   });
 
-  const totalSpent = filteredExpenses.reduce(
-    (sum: number, expense) => {
-      if (!expense || !expense.amount) return sum;
-      const amount = parseFloat(expense.amount);
-      return sum + (isNaN(amount) ? 0 : amount);
-    },
-    0,
-  );
-
-  // Calculate total budget using budget periods when available, fallback to monthly budgets
-  const totalBudget = categories.reduce((sum: number, category) => {
-    if (!category) return sum;
-    
-    // Check for active budget periods that overlap with selected date range and match this category
-    const activeBudgetPeriod = budgetPeriods.find((period) => {
-      if (!period.isActive || period.categoryId !== category.id) return false;
-      const periodStart = new Date(period.startDate);
-      const periodEnd = new Date(period.endDate);
-      
-      // Check if the budget period overlaps with the selected date range
-      return periodStart <= endDate && periodEnd >= startDate;
-    });
-    
-    let categoryBudget: number;
-    
-    if (activeBudgetPeriod) {
-      // Use budget period amount if there's an active period for this category
-      categoryBudget = parseFloat(activeBudgetPeriod.budgetAmount || "0");
-    } else {
-      // Fall back to proportional monthly budget
-      const monthlyBudget = parseFloat(category.monthlyBudget || "0");
-      categoryBudget = isNaN(monthlyBudget) ? 0 : monthlyBudget * budgetMultiplier;
-    }
-    
-    return sum + (isNaN(categoryBudget) ? 0 : categoryBudget);
-  }, 0);
-  const budgetRemaining = totalBudget - totalSpent;
+  // Spending and budget totals come from the budget engine, like the category budgets below
+  const totalSpent = budgetStatus?.totals.spent ?? 0;
+  const budgetRemaining = budgetStatus?.totals.remaining ?? 0;
   const transactionCount = filteredExpenses.length;
 
   return (
@@ -148,7 +111,7 @@ function DashboardContent() {
                         Total Spent
                       </p>
                       <p className="text-2xl font-bold text-foreground">
-                        €{totalSpent.toFixed(2)}
+                        {formatBase(totalSpent)}
                       </p>
                       <p className="text-xs text-muted-foreground mt-1">
                         Selected period
@@ -171,7 +134,7 @@ function DashboardContent() {
                       <p
                         className={`text-2xl font-bold ${budgetRemaining >= 0 ? "text-green-600" : "text-red-600"}`}
                       >
-                        €{Math.abs(budgetRemaining).toFixed(2)}
+                        {formatBase(Math.abs(budgetRemaining))}
                       </p>
                       <p className="text-xs text-muted-foreground mt-1">
                         {budgetRemaining >= 0 ? "Remaining" : "Over budget"}
@@ -222,7 +185,9 @@ function DashboardContent() {
 
           {/* Categories Sidebar */}
           <div className="space-y-6">
+            <UpcomingBills />
             <CategoryBudgets />
+            <Envelopes />
             <BudgetAlerts />
           </div>
         </div>
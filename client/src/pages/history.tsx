@@ -36,18 +36,25 @@ import {
   Download,
   Eye,
   Settings,
-  Trash2
+  Trash2,
+  Store,
+  Undo2,
+  Landmark
 } from "lucide-react";
 import DateRangePicker from "@/components/date-range-picker";
 import { format, parseISO, isValid } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatMoney, isIncome, isRefund, isTransfer } from "@/lib/expense-utils";
+import type { Account, LineItem } from "@shared/schema";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 function HistoryContent() {
+  const { formatBase } = useBaseCurrency();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [selectedPartner, setSelectedPartner] = useState<string>("all");
-  const [selectedSource, setSelectedSource] = useState<string>("all");
+  const [selectedAccount, setSelectedAccount] = useState<string>("all");
   const [sortBy, setSortBy] = useState<"date" | "amount" | "category">("date");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [currentPage, setCurrentPage] = useState(1);
@@ -74,6 +81,14 @@ function HistoryContent() {
     queryKey: ["/api/partners"],
   });
 
+  const { data: merchants = [] } = useQuery({
+    queryKey: ["/api/merchants"],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   // Delete single expense mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -121,6 +136,28 @@ function HistoryContent() {
     },
   });
 
+  // Links refunds to the purchase they most likely return
+  const matchRefundsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/expenses/match-refunds", { method: "POST" });
+      return response as { linked: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      toast({
+        title: "Refunds matched",
+        description: `${data.linked} refund${data.linked !== 1 ? 's' : ''} linked to the original purchase.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to match refunds. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Selection handlers
   const toggleExpenseSelection = (id: string) => {
     setSelectedExpenseIds((prev) => {
@@ -162,14 +199,15 @@ function HistoryContent() {
     bulkDeleteMutation.mutate(idsArray);
   };
 
-  // Get unique source labels for filter dropdown
-  const uniqueSources = Array.from(new Set(
-    (expenses as any[])
-      .map((e: any) => e.sourceLabel)
-      .filter(Boolean)
-  )).sort();
+  const getMerchant = (merchantId: string | null) => {
+    return merchantId ? (merchants as any[]).find((m: any) => m.id === merchantId) : undefined;
+  };
+
+  const getAccount = (accountId: string | null) => {
+    return accountId ? accounts.find(account => account.id === accountId) : undefined;
+  };
 
-  // Filter expenses by date range, search term, category, partner, and source
+  // Filter expenses by date range, search term, category, partner, and account
   const filteredExpenses = (expenses as any[]).filter((expense: any) => {
     if (!expense || !expense.date) return false;
     
@@ -178,13 +216,16 @@ function HistoryContent() {
     
     const matchesSearch = !searchTerm || 
       expense.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      getMerchant(expense.merchantId)?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       expense.amount?.toString().includes(searchTerm);
     
-    const matchesCategory = selectedCategory === "all" || expense.categoryId === selectedCategory;
+    const matchesCategory = selectedCategory === "all" || expense.categoryId === selectedCategory
+      || (expense.lineItems ?? []).some((line: LineItem) => line.categoryId === selectedCategory);
     const matchesPartner = selectedPartner === "all" || expense.partnerId === selectedPartner;
-    const matchesSource = selectedSource === "all" || expense.sourceLabel === selectedSource;
+    const matchesAccount = selectedAccount === "all"
+      || (selectedAccount === "none" ? !expense.accountId : expense.accountId === selectedAccount);
     
-    return dateInRange && matchesSearch && matchesCategory && matchesPartner && matchesSource;
+    return dateInRange && matchesSearch && matchesCategory && matchesPartner && matchesAccount;
   });
 
   // Sort expenses
@@ -225,8 +266,9 @@ function HistoryContent() {
     currentPage * itemsPerPage
   );
 
-  // Calculate totals
+  // Calculate totals; income and transfers between our own accounts aren't spending
   const totalAmount = filteredExpenses.reduce((sum: number, expense: any) => {
+    if (isIncome(expense) || isTransfer(expense)) return sum;
     const amount = parseFloat(expense.amount || "0");
     return sum + (isNaN(amount) ? 0 : amount);
   }, 0);
@@ -235,6 +277,19 @@ function HistoryContent() {
     return (categories as any[]).find((c: any) => c.id === categoryId);
   };
 
+  const getExpense = (expenseId: string) => {
+    return (expenses as any[]).find((e: any) => e.id === expenseId);
+  };
+
+  // Total refunded per original charge
+  const refundedByExpense = (expenses as any[]).reduce((totals: Map<string, number>, expense: any) => {
+    if (expense.refundOfExpenseId) {
+      const amount = parseFloat(expense.amount || "0");
+      totals.set(expense.refundOfExpenseId, (totals.get(expense.refundOfExpenseId) || 0) - (isNaN(amount) ? 0 : amount));
+    }
+    return totals;
+  }, new Map<string, number>());
+
   const getPartner = (partnerId: string) => {
     return (partners as any[]).find((p: any) => p.id === partnerId);
   };
@@ -243,7 +298,7 @@ function HistoryContent() {
     setSearchTerm("");
     setSelectedCategory("all");
     setSelectedPartner("all");
-    setSelectedSource("all");
+    setSelectedAccount("all");
     setSortBy("date");
     setSortOrder("desc");
     setCurrentPage(1);
@@ -278,7 +333,7 @@ function HistoryContent() {
                 <DollarSign className="h-5 w-5 text-green-600" />
                 <div>
                   <p className="text-sm text-muted-foreground">Total Spent</p>
-                  <p className="text-xl font-semibold">€{totalAmount.toFixed(2)}</p>
+                  <p className="text-xl font-semibold">{formatBase(totalAmount)}</p>
                 </div>
               </div>
             </CardContent>
@@ -336,7 +391,7 @@ function HistoryContent() {
               <div className="relative lg:col-span-2 xl:col-span-1">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search description or amount..."
+                  placeholder="Search description, merchant or amount..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -374,18 +429,19 @@ function HistoryContent() {
                 </SelectContent>
               </Select>
 
-              {/* Source Filter */}
-              <Select value={selectedSource} onValueChange={setSelectedSource}>
-                <SelectTrigger data-testid="select-source-filter">
-                  <SelectValue placeholder="All Sources" />
+              {/* Account Filter */}
+              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                <SelectTrigger data-testid="select-account-filter">
+                  <SelectValue placeholder="All Accounts" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Sources</SelectItem>
-                  {uniqueSources.map((source: string) => (
-                    <SelectItem key={source} value={source}>
-                      {source}
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
                     </SelectItem>
                   ))}
+                  <SelectItem value="none">No Account</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -444,6 +500,16 @@ function HistoryContent() {
                     Delete {selectedExpenseIds.size} {selectedExpenseIds.size === 1 ? 'expense' : 'expenses'}
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => matchRefundsMutation.mutate()}
+                  disabled={matchRefundsMutation.isPending}
+                  data-testid="button-match-refunds"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  {matchRefundsMutation.isPending ? "Matching..." : "Match Refunds"}
+                </Button>
                 <Button variant="outline" size="sm" data-testid="button-export">
                   <Download className="h-4 w-4 mr-2" />
                   Export
@@ -465,6 +531,10 @@ function HistoryContent() {
                 {paginatedExpenses.map((expense: any, index: number) => {
                   const category = getCategory(expense.categoryId);
                   const partner = getPartner(expense.partnerId);
+                  const merchant = getMerchant(expense.merchantId);
+                  const account = getAccount(expense.accountId);
+                  const refundedCharge = expense.refundOfExpenseId ? getExpense(expense.refundOfExpenseId) : null;
+                  const refundedAmount = refundedByExpense.get(expense.id) || 0;
                   const expenseDate = expense.date ? new Date(expense.date) : null;
                   const isSelected = selectedExpenseIds.has(expense.id);
                   
@@ -493,24 +563,76 @@ function HistoryContent() {
                                   <span>{format(expenseDate, 'MMM d, yyyy')}</span>
                                 </span>
                               )}
-                              {category && (
+                              {expense.lineItems?.length ? (
+                                expense.lineItems.map((line: LineItem, index: number) => (
+                                  <Badge key={index} variant="secondary" className="text-xs flex-shrink-0" title={line.note ?? undefined}>
+                                    {getCategory(line.categoryId)?.name ?? "Unknown"} · {formatMoney(line.amount, expense.currency)}
+                                  </Badge>
+                                ))
+                              ) : category && (
                                 <Badge variant="secondary" className="text-xs flex-shrink-0">
                                   {category.name}
                                 </Badge>
                               )}
+                              {refundedCharge ? (
+                                <Badge variant="outline" className="text-xs flex-shrink-0">
+                                  Refund of {refundedCharge.description} · {format(new Date(refundedCharge.date), 'MMM d')}
+                                </Badge>
+                              ) : isRefund(expense) && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0 text-muted-foreground">
+                                  Unmatched refund
+                                </Badge>
+                              )}
+                              {refundedAmount > 0 && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0">
+                                  {formatBase(refundedAmount)} refunded
+                                </Badge>
+                              )}
+                              {isIncome(expense) && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0 border-green-500 text-green-700">
+                                  Income
+                                </Badge>
+                              )}
+                              {isTransfer(expense) && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0 text-muted-foreground">
+                                  Transfer
+                                </Badge>
+                              )}
+                              {expense.recurringExpenseId && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0 text-muted-foreground">
+                                  {expense.statementId ? "Recurring" : "Recurring · not on a statement yet"}
+                                </Badge>
+                              )}
                               {partner && (
                                 <span className="flex items-center space-x-1 flex-shrink-0">
                                   <User className="h-3 w-3" />
                                   <span>{partner.name}</span>
                                 </span>
                               )}
+                              {merchant && (
+                                <span className="flex items-center space-x-1 flex-shrink-0">
+                                  <Store className="h-3 w-3" />
+                                  <span>{merchant.name}</span>
+                                </span>
+                              )}
+                              {account && (
+                                <span className="flex items-center space-x-1 flex-shrink-0">
+                                  <Landmark className="h-3 w-3" />
+                                  <span>{account.name}</span>
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
                         <div className="flex-shrink-0 text-right min-w-[80px]">
-                          <p className="text-sm sm:text-lg font-semibold text-foreground">
-                            €{parseFloat(expense.amount || "0").toFixed(2)}
+                          <p className={`text-sm sm:text-lg font-semibold ${isIncome(expense) ? "text-green-600" : "text-foreground"}`}>
+                            {isIncome(expense) ? "+" : ""}{formatBase(parseFloat(expense.amount || "0"))}
                           </p>
+                          {expense.foreignAmount !== null && (
+                            <p className="text-xs text-muted-foreground" data-testid={`text-foreign-amount-${expense.id}`}>
+                              {formatMoney(parseFloat(expense.foreignAmount), expense.currency)}
+                            </p>
+                          )}
                         </div>
                         <div className="flex-shrink-0">
                           <Button
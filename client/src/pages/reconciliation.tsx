@@ -0,0 +1,386 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney, getCurrencySymbol, normalizeAmount, toISODate } from "@/lib/expense-utils";
+import { AlertTriangle, CheckCircle, Edit2, Landmark, ListChecks } from "lucide-react";
+import { format } from "date-fns";
+import Layout from "@/components/layout";
+import { reconcileAccount, type StatementReconciliation } from "@shared/reconciliation";
+import type { Account, Expense, Statement } from "@shared/schema";
+
+interface BalanceForm {
+  accountId: string;
+  openingBalance: string;
+  closingBalance: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+function formatDay(day: string | null) {
+  return day ? format(new Date(`${day}T00:00:00`), "MMM d, yyyy") : "—";
+}
+
+// Balances and changes are in the account's currency, like the statements they come from
+function formatBalance(value: number | null, currency: string) {
+  return value === null ? "—" : formatMoney(value, currency);
+}
+
+function formatSigned(value: number, currency: string) {
+  return `${value > 0 ? "+" : ""}${formatMoney(value, currency)}`;
+}
+
+// Blank inputs clear a balance; anything else must read as an amount
+function toBalanceValue(input: string): string | null {
+  if (!input.trim()) return null;
+  return parseFloat(normalizeAmount(input)).toFixed(2);
+}
+
+function StatusBadge({ result }: { result: StatementReconciliation }) {
+  if (result.status === "balanced") {
+    return (
+      <Badge variant="outline" className="border-green-500 text-green-700">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        Balanced
+      </Badge>
+    );
+  }
+  if (result.status === "missing_balances") {
+    return <Badge variant="outline" className="text-muted-foreground">Balances missing</Badge>;
+  }
+  return (
+    <Badge variant="destructive">
+      <AlertTriangle className="h-3 w-3 mr-1" />
+      Gap
+    </Badge>
+  );
+}
+
+function ReconciliationContent() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingStatement, setEditingStatement] = useState<Statement | null>(null);
+  const [form, setForm] = useState<BalanceForm | null>(null);
+  const { baseCurrency } = useBaseCurrency();
+
+  const { data: statements = [], isLoading } = useQuery<Statement[]>({
+    queryKey: ["/api/statements"],
+  });
+
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const reconciliations = useMemo(
+    () => accounts.map(account => ({ account, results: reconcileAccount(account, statements, expenses) })),
+    [accounts, statements, expenses],
+  );
+
+  const formCurrencySymbol = getCurrencySymbol(
+    accounts.find(account => account.id === form?.accountId)?.currency ?? baseCurrency
+  ).trim();
+
+  const unassignedStatements = statements.filter(statement => !statement.accountId && statement.status === "completed");
+
+  const updateBalancesMutation = useMutation({
+    mutationFn: async (data: { id: string; form: BalanceForm }) =>
+      apiRequest(`/api/statements/${data.id}/balances`, {
+        method: "PATCH",
+        body: {
+          accountId: data.form.accountId || null,
+          openingBalance: toBalanceValue(data.form.openingBalance),
+          closingBalance: toBalanceValue(data.form.closingBalance),
+          periodStart: data.form.periodStart || null,
+          periodEnd: data.form.periodEnd || null,
+        },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      setEditingStatement(null);
+      toast({ description: "Statement balances saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save balances",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditDialog = (statement: Statement) => {
+    setEditingStatement(statement);
+    setForm({
+      accountId: statement.accountId || "",
+      openingBalance: statement.openingBalance ?? "",
+      closingBalance: statement.closingBalance ?? "",
+      periodStart: statement.periodStart ? toISODate(new Date(statement.periodStart)) : "",
+      periodEnd: statement.periodEnd ? toISODate(new Date(statement.periodEnd)) : "",
+    });
+  };
+
+  const handleSave = () => {
+    if (!editingStatement || !form) return;
+    const invalid = [form.openingBalance, form.closingBalance]
+      .some(value => value.trim() !== "" && isNaN(parseFloat(normalizeAmount(value))));
+    if (invalid) {
+      toast({ description: "Please enter balances as amounts, e.g. 1234,56", variant: "destructive" });
+      return;
+    }
+    updateBalancesMutation.mutate({ id: editingStatement.id, form });
+  };
+
+  const getStatement = (id: string) => statements.find(statement => statement.id === id);
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading statements...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {accounts.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Landmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No accounts yet.</p>
+            <p className="text-sm text-muted-foreground">Add your accounts under Settings → Accounts to reconcile their statements.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {reconciliations.map(({ account, results }) => (
+        <Card key={account.id} data-testid={`card-reconciliation-${account.id}`}>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Landmark className="h-5 w-5" />
+              <span>{account.name}</span>
+            </CardTitle>
+            <CardDescription>
+              The change between opening and closing balance should match the account's transactions in each period.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {results.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No imported statements for this account.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Statement</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Opening</TableHead>
+                      <TableHead className="text-right">Closing</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Recorded</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <TableRow
+                        key={result.statementId}
+                        className={result.status === "gap" ? "bg-red-50 dark:bg-red-950/30" : undefined}
+                        data-testid={`row-reconciliation-${result.statementId}`}
+                      >
+                        <TableCell className="font-medium">
+                          <div>{result.fileName}</div>
+                          <div className="text-xs text-muted-foreground">{result.transactionCount} transactions</div>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDay(result.periodStart)} – {formatDay(result.periodEnd)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div>{formatBalance(result.openingBalance, account.currency)}</div>
+                          {result.openingFromPrevious && (
+                            <div className="text-xs text-muted-foreground">from previous</div>
+                          )}
+                          {result.carryOverGap !== null && (
+                            <div className="text-xs text-destructive">
+                              {formatSigned(result.carryOverGap, account.currency)} vs previous closing
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatBalance(result.closingBalance, account.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          {result.expectedChange === null ? "—" : formatSigned(result.expectedChange, account.currency)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatSigned(result.recordedChange, account.currency)}</TableCell>
+                        <TableCell className={`text-right font-medium ${result.difference ? "text-destructive" : ""}`}>
+                          {result.difference === null ? "—" : formatSigned(result.difference, account.currency)}
+                        </TableCell>
+                        <TableCell><StatusBadge result={result} /></TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const statement = getStatement(result.statementId);
+                              if (statement) openEditDialog(statement);
+                            }}
+                            data-testid={`button-edit-balances-${result.statementId}`}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {unassignedStatements.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ListChecks className="h-5 w-5" />
+              <span>Statements Without an Account</span>
+            </CardTitle>
+            <CardDescription>
+              Assign these statements to an account to include them in its reconciliation.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {unassignedStatements.map((statement) => (
+              <div key={statement.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <p className="font-medium">{statement.fileName}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {statement.source.toUpperCase()} · uploaded {format(new Date(statement.uploadedAt), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openEditDialog(statement)}
+                  data-testid={`button-assign-statement-${statement.id}`}
+                >
+                  Assign
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={editingStatement !== null} onOpenChange={(open) => !open && setEditingStatement(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Statement Balances</DialogTitle>
+            <DialogDescription>
+              {editingStatement?.balanceSource === "file"
+                ? "These balances were read from the statement file. Changes here replace them."
+                : "Enter the balances printed on the statement. Amounts owed on a card are negative."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label>Account</Label>
+                <Select value={form.accountId} onValueChange={(value) => setForm(prev => prev && { ...prev, accountId: value })}>
+                  <SelectTrigger data-testid="select-balances-account">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="period-start">Period start</Label>
+                  <Input
+                    id="period-start"
+                    type="date"
+                    value={form.periodStart}
+                    onChange={(e) => setForm(prev => prev && { ...prev, periodStart: e.target.value })}
+                    data-testid="input-period-start"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="period-end">Period end</Label>
+                  <Input
+                    id="period-end"
+                    type="date"
+                    value={form.periodEnd}
+                    onChange={(e) => setForm(prev => prev && { ...prev, periodEnd: e.target.value })}
+                    data-testid="input-period-end"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="opening-balance">Opening balance ({formCurrencySymbol})</Label>
+                  <Input
+                    id="opening-balance"
+                    value={form.openingBalance}
+                    onChange={(e) => setForm(prev => prev && { ...prev, openingBalance: e.target.value.replace(/[^0-9.,-]/g, "") })}
+                    placeholder="Previous closing"
+                    data-testid="input-opening-balance"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="closing-balance">Closing balance ({formCurrencySymbol})</Label>
+                  <Input
+                    id="closing-balance"
+                    value={form.closingBalance}
+                    onChange={(e) => setForm(prev => prev && { ...prev, closingBalance: e.target.value.replace(/[^0-9.,-]/g, "") })}
+                    placeholder="0.00"
+                    data-testid="input-closing-balance"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingStatement(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={updateBalancesMutation.isPending}
+              data-testid="button-save-balances"
+            >
+              {updateBalancesMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function Reconciliation() {
+  return (
+    <Layout
+      title="Reconciliation"
+      description="Check imported transactions against the balances on each statement"
+    >
+      <ReconciliationContent />
+    </Layout>
+  );
+}
@@ -30,6 +30,18 @@ import {
 } from "lucide-react";
 import { format, addMonths, subMonths } from "date-fns";
 import { BudgetPeriodManager } from "@/components/budget-period-manager";
+import { ImportProfileManager } from "@/components/import-profile-manager";
+import { CategorizerSettings } from "@/components/categorizer-settings";
+import { LearnedRulesManager } from "@/components/learned-rules-manager";
+import { CategorizationRuleManager } from "@/components/categorization-rule-manager";
+import { MerchantManager } from "@/components/merchant-manager";
+import { AccountManager } from "@/components/account-manager";
+import { CurrencySettings } from "@/components/currency-settings";
+import { RecurringExpenseManager } from "@/components/recurring-expense-manager";
+import { SplitSelector, formatSplit, type SplitValue } from "@/components/split-selector";
+import { getSplitValidationError } from "@shared/splits";
+import type { BudgetMode, SplitShare, SplitType, TransactionType } from "@shared/schema";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
 
 interface BudgetPeriod {
   id: string;
@@ -43,6 +55,8 @@ interface Partner {
   id: string;
   name: string;
   color: string;
+  cardholderAliases?: string[] | null;
+  cardLastFour?: string[] | null;
 }
 
 interface Category {
@@ -52,10 +66,18 @@ interface Category {
   color: string;
   monthlyBudget: number;
   includeInSpending?: number;
+  kind: TransactionType;
+  defaultSplitType: SplitType;
+  defaultSplitShares: SplitShare[] | null;
+  budgetMode: BudgetMode;
+  envelopeCap: string | null;
 }
 
 function SettingsContent() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
   const [editingPartner, setEditingPartner] = useState<Partner | null>(null);
+  const [editingPartnerAliases, setEditingPartnerAliases] = useState("");
+  const [editingPartnerCards, setEditingPartnerCards] = useState("");
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [newPartnerName, setNewPartnerName] = useState("");
   const [newPartnerColor, setNewPartnerColor] = useState("#3b82f6");
@@ -65,6 +87,7 @@ function SettingsContent() {
   const [newCategoryColor, setNewCategoryColor] = useState("#3b82f6");
   const [newCategoryBudget, setNewCategoryBudget] = useState("");
   const [newCategoryIncludeInSpending, setNewCategoryIncludeInSpending] = useState(true);
+  const [newCategoryIsIncome, setNewCategoryIsIncome] = useState(false);
 
   const isMobile = useIsMobile();
   const { toast } = useToast();
@@ -97,13 +120,16 @@ function SettingsContent() {
   });
 
   const updatePartnerMutation = useMutation({
-    mutationFn: async (data: { id: string; name: string; color: string }) =>
+    mutationFn: async (data: Partner) =>
       apiRequest(`/api/partners/${data.id}`, { method: "PATCH", body: data }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/partners"] });
       setEditingPartner(null);
       toast({ description: "Partner updated successfully" });
     },
+    onError: (error) => {
+      toast({ description: error.message || "Failed to update partner", variant: "destructive" });
+    },
   });
 
   const deletePartnerMutation = useMutation({
@@ -117,16 +143,16 @@ function SettingsContent() {
 
   // Category budget mutations
   const updateCategoryBudgetMutation = useMutation({
-    mutationFn: async (data: { id: string; monthlyBudget: number }) =>
-      apiRequest(`/api/categories/${data.id}`, { method: "PATCH", body: { monthlyBudget: data.monthlyBudget } }),
+    mutationFn: async ({ id, ...data }: { id: string; monthlyBudget: number } & Partial<Pick<Category, "defaultSplitType" | "defaultSplitShares" | "budgetMode" | "envelopeCap">>) =>
+      apiRequest(`/api/categories/${id}`, { method: "PATCH", body: data }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setEditingCategory(null);
       toast({ description: "Budget updated successfully" });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({ 
-        description: "Failed to update budget",
+        description: error.message || "Failed to update budget",
         variant: "destructive" 
       });
     },
@@ -142,22 +168,51 @@ function SettingsContent() {
     });
   };
 
+  const openEditPartner = (partner: Partner) => {
+    setEditingPartner(partner);
+    setEditingPartnerAliases((partner.cardholderAliases || []).join(", "));
+    setEditingPartnerCards((partner.cardLastFour || []).join(", "));
+  };
+
   const handleUpdatePartner = () => {
     if (!editingPartner) return;
-    updatePartnerMutation.mutate(editingPartner);
+
+    const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+    const cardLastFour = splitList(editingPartnerCards);
+    if (cardLastFour.some(digits => !/^\d{4}$/.test(digits))) {
+      toast({ description: "Card numbers must be exactly four digits each", variant: "destructive" });
+      return;
+    }
+
+    updatePartnerMutation.mutate({
+      ...editingPartner,
+      cardholderAliases: splitList(editingPartnerAliases),
+      cardLastFour,
+    });
   };
 
   const handleUpdateCategoryBudget = () => {
     if (!editingCategory) return;
+
+    const splitError = getSplitValidationError(editingCategory.defaultSplitType, editingCategory.defaultSplitShares);
+    if (splitError) {
+      toast({ description: splitError, variant: "destructive" });
+      return;
+    }
+
     updateCategoryBudgetMutation.mutate({
       id: editingCategory.id,
       monthlyBudget: parseFloat(editingCategory.monthlyBudget?.toString() || "0"),
+      defaultSplitType: editingCategory.defaultSplitType,
+      defaultSplitShares: editingCategory.defaultSplitType === "percentage" ? editingCategory.defaultSplitShares : null,
+      budgetMode: editingCategory.budgetMode,
+      envelopeCap: editingCategory.budgetMode === "envelope" && editingCategory.envelopeCap ? editingCategory.envelopeCap : null,
     });
   };
 
   // Category mutations
   const addCategoryMutation = useMutation({
-    mutationFn: async (data: { name: string; emoji: string; color: string; monthlyBudget: number; includeInSpending: number }) =>
+    mutationFn: async (data: { name: string; emoji: string; color: string; monthlyBudget: number; includeInSpending: number; kind: TransactionType }) =>
       apiRequest("/api/categories", { method: "POST", body: data }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
@@ -166,6 +221,7 @@ function SettingsContent() {
       setNewCategoryColor(displayColorOptions[0] || "#3b82f6");
       setNewCategoryBudget("");
       setNewCategoryIncludeInSpending(true);
+      setNewCategoryIsIncome(false);
       toast({ description: "Category added successfully" });
     },
     onError: () => {
@@ -213,8 +269,10 @@ function SettingsContent() {
       name: newCategoryName.trim(),
       emoji: newCategoryEmoji,
       color: newCategoryColor,
-      monthlyBudget: parseFloat(newCategoryBudget) || 0,
-      includeInSpending: newCategoryIncludeInSpending ? 1 : 0,
+      // Income categories never count as spending and have no budget
+      monthlyBudget: newCategoryIsIncome ? 0 : parseFloat(newCategoryBudget) || 0,
+      includeInSpending: newCategoryIncludeInSpending && !newCategoryIsIncome ? 1 : 0,
+      kind: newCategoryIsIncome ? "income" : "expense",
     });
   };
 
@@ -274,10 +332,18 @@ function SettingsContent() {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <Tabs defaultValue="budgets" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-11">
             <TabsTrigger value="budgets" data-testid="tab-budgets">Budget Management</TabsTrigger>
             <TabsTrigger value="partners" data-testid="tab-partners">Partners</TabsTrigger>
+            <TabsTrigger value="accounts" data-testid="tab-accounts">Accounts</TabsTrigger>
+            <TabsTrigger value="currencies" data-testid="tab-currencies">Currencies</TabsTrigger>
             <TabsTrigger value="periods" data-testid="tab-periods">Budget Periods</TabsTrigger>
+            <TabsTrigger value="recurring" data-testid="tab-recurring">Recurring</TabsTrigger>
+            <TabsTrigger value="import-profiles" data-testid="tab-import-profiles">Import Profiles</TabsTrigger>
+            <TabsTrigger value="categorization" data-testid="tab-categorization">Categorization</TabsTrigger>
+            <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
+            <TabsTrigger value="learned-rules" data-testid="tab-learned-rules">Learned Rules</TabsTrigger>
+            <TabsTrigger value="merchants" data-testid="tab-merchants">Merchants</TabsTrigger>
           </TabsList>
 
           {/* Budget Management Tab */}
@@ -332,7 +398,7 @@ function SettingsContent() {
                       </div>
                     </div>
                     <div>
-                      <Label htmlFor="category-budget">Monthly Budget (€)</Label>
+                      <Label htmlFor="category-budget">Monthly Budget ({currencySymbol})</Label>
                       <Input
                         id="category-budget"
                         type="number"
@@ -357,6 +423,17 @@ function SettingsContent() {
                       <p className="text-xs text-muted-foreground mt-1">
                         Toggle off for categories like savings or investments
                       </p>
+                      <div className="flex items-center space-x-2 mt-2">
+                        <Switch
+                          id="income-category"
+                          checked={newCategoryIsIncome}
+                          onCheckedChange={setNewCategoryIsIncome}
+                          data-testid="switch-category-income"
+                        />
+                        <Label htmlFor="income-category" className="text-sm">
+                          Income category
+                        </Label>
+                      </div>
                     </div>
                     <div className="flex items-end">
                       <Button
@@ -387,9 +464,28 @@ function SettingsContent() {
                       <div className="flex items-center space-x-3">
                         <span className="text-2xl">{category.emoji}</span>
                         <div>
-                          <p className="font-medium">{category.name}</p>
+                          <p className="font-medium">
+                            {category.name}
+                            {category.kind === "income" && (
+                              <Badge variant="outline" className="ml-2 border-green-500 text-green-700">Income</Badge>
+                            )}
+                            {category.kind === "transfer" && (
+                              <Badge variant="outline" className="ml-2">Transfer</Badge>
+                            )}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Monthly Budget: {formatBase(parseFloat(category.monthlyBudget?.toString() || "0"))}
+                            {category.budgetMode === "envelope" && (
+                              <Badge variant="outline" className="ml-2">
+                                Envelope{category.envelopeCap !== null && ` · cap ${formatBase(parseFloat(category.envelopeCap))}`}
+                              </Badge>
+                            )}
+                          </p>
                           <p className="text-sm text-muted-foreground">
-                            Monthly Budget: €{(parseFloat(category.monthlyBudget?.toString() || "0")).toFixed(2)}
+                            Default Split: {formatSplit(
+                              { splitType: category.defaultSplitType, splitShares: category.defaultSplitShares },
+                              partners as Partner[],
+                            )}
                           </p>
                           <div className="flex items-center space-x-2 mt-1">
                             <Switch
@@ -428,7 +524,7 @@ function SettingsContent() {
                           </DialogHeader>
                           <div className="space-y-4">
                             <div>
-                              <Label htmlFor="budget-amount">Monthly Budget (€)</Label>
+                              <Label htmlFor="budget-amount">Monthly Budget ({currencySymbol})</Label>
                               <Input
                                 id="budget-amount"
                                 type="number"
@@ -442,6 +538,71 @@ function SettingsContent() {
                                 data-testid="input-budget-amount"
                               />
                             </div>
+                            {category.kind === "expense" && (
+                              <div className="space-y-2">
+                                <div className="flex items-center space-x-2">
+                                  <Switch
+                                    id="envelope-mode"
+                                    checked={editingCategory?.budgetMode === "envelope"}
+                                    onCheckedChange={(checked) =>
+                                      setEditingCategory(prev =>
+                                        prev ? { ...prev, budgetMode: checked ? "envelope" : "standard" } : null
+                                      )
+                                    }
+                                    data-testid="switch-envelope-mode"
+                                  />
+                                  <Label htmlFor="envelope-mode">Envelope budgeting</Label>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  What is left at the end of a month carries over to the next, and overspending comes out of it.
+                                  Turning this on starts an empty envelope this month.
+                                </p>
+                                {editingCategory?.budgetMode === "envelope" && (
+                                  <div>
+                                    <Label htmlFor="envelope-cap">Carry-over Cap ({currencySymbol})</Label>
+                                    <Input
+                                      id="envelope-cap"
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      placeholder="No cap"
+                                      value={editingCategory.envelopeCap ?? ""}
+                                      onChange={(e) =>
+                                        setEditingCategory(prev =>
+                                          prev ? { ...prev, envelopeCap: e.target.value || null } : null
+                                        )
+                                      }
+                                      data-testid="input-envelope-cap"
+                                    />
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                      Savings beyond the cap don't carry over. Leave empty to carry over everything.
+                                    </p>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            <div>
+                              <Label>Default Split</Label>
+                              {editingCategory && (
+                                <SplitSelector
+                                  value={{
+                                    splitType: editingCategory.defaultSplitType,
+                                    splitShares: editingCategory.defaultSplitShares,
+                                  }}
+                                  onChange={(split: SplitValue) =>
+                                    setEditingCategory(prev =>
+                                      prev ? { ...prev, defaultSplitType: split.splitType, defaultSplitShares: split.splitShares } : null
+                                    )
+                                  }
+                                  partners={partners as Partner[]}
+                                  allowFixed={false}
+                                  idPrefix="category-split"
+                                />
+                              )}
+                              <p className="text-xs text-muted-foreground mt-1">
+                                New expenses in this category start with this split.
+                              </p>
+                            </div>
                             <div className="flex justify-end space-x-2">
                               <Button 
                                 variant="outline"
@@ -550,7 +711,17 @@ function SettingsContent() {
                             className="w-6 h-6 rounded-full"
                             style={{ backgroundColor: partner.color }}
                           />
-                          <span className="font-medium">{partner.name}</span>
+                          <div>
+                            <span className="font-medium">{partner.name}</span>
+                            {((partner.cardholderAliases?.length || 0) > 0 || (partner.cardLastFour?.length || 0) > 0) && (
+                              <p className="text-xs text-muted-foreground">
+                                {[
+                                  ...(partner.cardholderAliases || []),
+                                  ...(partner.cardLastFour || []).map(digits => `•••• ${digits}`),
+                                ].join(" · ")}
+                              </p>
+                            )}
+                          </div>
                         </div>
                         <div className="flex space-x-2">
                           <Dialog>
@@ -558,7 +729,7 @@ function SettingsContent() {
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => setEditingPartner(partner)}
+                                onClick={() => openEditPartner(partner)}
                                 data-testid={`button-edit-partner-${partner.id}`}
                               >
                                 <Edit2 className="h-4 w-4" />
@@ -582,6 +753,30 @@ function SettingsContent() {
                                     data-testid="input-edit-partner-name"
                                   />
                                 </div>
+                                <div>
+                                  <Label htmlFor="edit-partner-cardholder-aliases">Cardholder Names</Label>
+                                  <Input
+                                    id="edit-partner-cardholder-aliases"
+                                    value={editingPartnerAliases}
+                                    onChange={(e) => setEditingPartnerAliases(e.target.value)}
+                                    placeholder="As printed on card statements, e.g. R PURNAMA"
+                                    data-testid="input-edit-partner-cardholder-aliases"
+                                  />
+                                  <p className="text-xs text-muted-foreground mt-1">Separate multiple names with commas</p>
+                                </div>
+                                <div>
+                                  <Label htmlFor="edit-partner-card-last-four">Card Last Four Digits</Label>
+                                  <Input
+                                    id="edit-partner-card-last-four"
+                                    value={editingPartnerCards}
+                                    onChange={(e) => setEditingPartnerCards(e.target.value)}
+                                    placeholder="e.g. 1004, 2231"
+                                    data-testid="input-edit-partner-card-last-four"
+                                  />
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    Matched against the card number column of AMEX statements
+                                  </p>
+                                </div>
                                 <div>
                                   <Label>Color</Label>
                                   <div className="flex space-x-2 mt-2">
@@ -636,10 +831,50 @@ function SettingsContent() {
             </div>
           </TabsContent>
 
+          {/* Accounts Tab */}
+          <TabsContent value="accounts">
+            <AccountManager />
+          </TabsContent>
+
+          {/* Currencies Tab */}
+          <TabsContent value="currencies">
+            <CurrencySettings />
+          </TabsContent>
+
           {/* Budget Periods Tab */}
           <TabsContent value="periods">
             <BudgetPeriodManager />
           </TabsContent>
+
+          {/* Recurring Expenses Tab */}
+          <TabsContent value="recurring">
+            <RecurringExpenseManager />
+          </TabsContent>
+
+          {/* Import Profiles Tab */}
+          <TabsContent value="import-profiles">
+            <ImportProfileManager />
+          </TabsContent>
+
+          {/* Categorization Tab */}
+          <TabsContent value="categorization">
+            <CategorizerSettings />
+          </TabsContent>
+
+          {/* Categorization Rules Tab */}
+          <TabsContent value="rules">
+            <CategorizationRuleManager />
+          </TabsContent>
+
+          {/* Learned Rules Tab */}
+          <TabsContent value="learned-rules">
+            <LearnedRulesManager />
+          </TabsContent>
+
+          {/* Merchants Tab */}
+          <TabsContent value="merchants">
+            <MerchantManager />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -0,0 +1,423 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { normalizeAmount, toISODate } from "@/lib/expense-utils";
+import { ArrowRight, HandCoins, History, Plus, Scale, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import Layout from "@/components/layout";
+import { computeBalances } from "@shared/balances";
+import type { Expense, Partner, Settlement } from "@shared/schema";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+interface SettlementForm {
+  fromPartnerId: string;
+  toPartnerId: string;
+  amount: string;
+  date: string;
+  note: string;
+}
+
+const emptyForm = (): SettlementForm => ({
+  fromPartnerId: "",
+  toPartnerId: "",
+  amount: "",
+  date: toISODate(new Date()),
+  note: "",
+});
+
+function formatMonth(month: string) {
+  return format(new Date(`${month}-01T00:00:00`), "MMMM yyyy");
+}
+
+function SettleUpContent() {
+  const { formatBase, currencySymbol } = useBaseCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<SettlementForm>(emptyForm);
+
+  const { data: expenses = [], isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: settlements = [] } = useQuery<Settlement[]>({
+    queryKey: ["/api/settlements"],
+  });
+
+  const { data: partners = [] } = useQuery<Partner[]>({
+    queryKey: ["/api/partners"],
+  });
+
+  const { balances, suggestedTransfers, months } = useMemo(
+    () => computeBalances(expenses, settlements, partners.map(partner => partner.id)),
+    [expenses, settlements, partners],
+  );
+
+  const getPartner = (id: string) => partners.find(partner => partner.id === id);
+  const getPartnerName = (id: string) => getPartner(id)?.name || "Removed partner";
+
+  const invalidateSettlements = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+  };
+
+  const createSettlementMutation = useMutation({
+    mutationFn: async (data: SettlementForm) =>
+      apiRequest("/api/settlements", {
+        method: "POST",
+        body: {
+          fromPartnerId: data.fromPartnerId,
+          toPartnerId: data.toPartnerId,
+          amount: parseFloat(normalizeAmount(data.amount)).toFixed(2),
+          date: data.date,
+          note: data.note.trim() || null,
+        },
+      }),
+    onSuccess: () => {
+      invalidateSettlements();
+      setIsDialogOpen(false);
+      toast({ description: "Settlement recorded" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record settlement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSettlementMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/settlements/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidateSettlements();
+      toast({ description: "Settlement deleted" });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete settlement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (prefill?: Partial<SettlementForm>) => {
+    setForm({ ...emptyForm(), ...prefill });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    const amount = parseFloat(normalizeAmount(form.amount));
+    if (!form.fromPartnerId || !form.toPartnerId || form.fromPartnerId === form.toPartnerId) {
+      toast({ description: "Choose two different partners", variant: "destructive" });
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      toast({ description: "Please enter a positive amount", variant: "destructive" });
+      return;
+    }
+    createSettlementMutation.mutate(form);
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading balances...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Current balance */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Scale className="h-5 w-5" />
+                <span>Current Balance</span>
+              </CardTitle>
+              <CardDescription>
+                Based on who paid each expense and how it is split. Settlements are not counted as spending.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog()} data-testid="button-record-settlement">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Settlement
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {partners.map((partner) => {
+              const balance = balances.find(entry => entry.partnerId === partner.id)?.balance || 0;
+              return (
+                <div key={partner.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: partner.color }} />
+                    <span className="font-medium">{partner.name}</span>
+                  </div>
+                  <div className="text-right" data-testid={`text-balance-${partner.id}`}>
+                    <p className={`font-bold ${balance > 0 ? "text-green-600" : balance < 0 ? "text-red-600" : ""}`}>
+                      {balance > 0 ? "+" : ""}{formatBase(balance)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {balance > 0.005 ? "is owed" : balance < -0.005 ? "owes" : "settled"}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {suggestedTransfers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">Everyone is settled up.</p>
+          ) : (
+            <div className="space-y-2">
+              <h4 className="font-medium">To settle up</h4>
+              {suggestedTransfers.map((transfer) => (
+                <div
+                  key={`${transfer.fromPartnerId}-${transfer.toPartnerId}`}
+                  className="flex items-center justify-between p-3 bg-muted rounded-lg"
+                >
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="font-medium">{getPartnerName(transfer.fromPartnerId)}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{getPartnerName(transfer.toPartnerId)}</span>
+                    <span className="font-bold">{formatBase(transfer.amount)}</span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openDialog({
+                      fromPartnerId: transfer.fromPartnerId,
+                      toPartnerId: transfer.toPartnerId,
+                      amount: transfer.amount.toFixed(2),
+                    })}
+                    data-testid={`button-settle-${transfer.fromPartnerId}-${transfer.toPartnerId}`}
+                  >
+                    <HandCoins className="h-4 w-4 mr-2" />
+                    Settle
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Balance history */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Balance History</span>
+          </CardTitle>
+          <CardDescription>
+            What each partner paid and owed per month, and the running balance at the end of it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {months.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No expenses yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Partner</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Settled</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.flatMap(({ month, partners: monthPartners }) =>
+                    monthPartners.map((entry, index) => (
+                      <TableRow key={`${month}-${entry.partnerId}`} data-testid={`row-balance-${month}-${entry.partnerId}`}>
+                        <TableCell className="font-medium">{index === 0 ? formatMonth(month) : ""}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <div
+                              className="w-2 h-2 rounded-full"
+                              style={{ backgroundColor: getPartner(entry.partnerId)?.color || "#6B7280" }}
+                            />
+                            <span>{getPartnerName(entry.partnerId)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatBase(entry.paid)}</TableCell>
+                        <TableCell className="text-right">{formatBase(entry.share)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatBase(entry.settlementsPaid - entry.settlementsReceived)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.net > 0 ? "+" : ""}{formatBase(entry.net)}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${entry.balance > 0 ? "text-green-600" : entry.balance < 0 ? "text-red-600" : ""}`}>
+                          {entry.balance > 0 ? "+" : ""}{formatBase(entry.balance)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recorded settlements */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <HandCoins className="h-5 w-5" />
+            <span>Settlements</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {settlements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No settlements recorded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {settlements.map((settlement) => (
+                <div
+                  key={settlement.id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                  data-testid={`row-settlement-${settlement.id}`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="font-medium">{getPartnerName(settlement.fromPartnerId)}</span>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{getPartnerName(settlement.toPartnerId)}</span>
+                      <span className="font-bold">{formatBase(parseFloat(settlement.amount))}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(settlement.date), "PPP")}
+                      {settlement.note && ` · ${settlement.note}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteSettlementMutation.mutate(settlement.id)}
+                    disabled={deleteSettlementMutation.isPending}
+                    data-testid={`button-delete-settlement-${settlement.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Settlement</DialogTitle>
+            <DialogDescription>
+              A transfer between partners to even out shared spending.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>From</Label>
+                <Select value={form.fromPartnerId} onValueChange={(value) => setForm(prev => ({ ...prev, fromPartnerId: value }))}>
+                  <SelectTrigger data-testid="select-settlement-from">
+                    <SelectValue placeholder="Who paid" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {partners.map((partner) => (
+                      <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select value={form.toPartnerId} onValueChange={(value) => setForm(prev => ({ ...prev, toPartnerId: value }))}>
+                  <SelectTrigger data-testid="select-settlement-to">
+                    <SelectValue placeholder="Who received" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {partners.map((partner) => (
+                      <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="settlement-amount">Amount ({currencySymbol})</Label>
+                <Input
+                  id="settlement-amount"
+                  value={form.amount}
+                  onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value.replace(/[^0-9.,]/g, "") }))}
+                  placeholder="0.00"
+                  data-testid="input-settlement-amount"
+                />
+              </div>
+              <div>
+                <Label htmlFor="settlement-date">Date</Label>
+                <Input
+                  id="settlement-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                  data-testid="input-settlement-date"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="settlement-note">Note (Optional)</Label>
+              <Input
+                id="settlement-note"
+                value={form.note}
+                onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="e.g. PayPal transfer"
+                data-testid="input-settlement-note"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createSettlementMutation.isPending}
+              data-testid="button-save-settlement"
+            >
+              {createSettlementMutation.isPending ? "Saving..." : "Save Settlement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function SettleUp() {
+  return (
+    <Layout
+      title="Settle Up"
+      description="See who owes whom and record transfers between partners"
+    >
+      <SettleUpContent />
+    </Layout>
+  );
+}
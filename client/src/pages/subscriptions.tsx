@@ -0,0 +1,261 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CalendarX, Repeat } from "lucide-react";
+import { format } from "date-fns";
+import Layout from "@/components/layout";
+import { formatRecurrence } from "@/components/recurring-expense-manager";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/expense-utils";
+import { detectSubscriptions, type DetectedSubscription } from "@shared/subscriptions";
+import { rescaleFixedShares } from "@shared/splits";
+import type { Category, Expense, Merchant, RecurringExpense } from "@shared/schema";
+
+function formatDay(day: string) {
+  return format(new Date(`${day}T00:00:00`), "MMM d, yyyy");
+}
+
+function formatPriceChange(subscription: DetectedSubscription) {
+  const { previousAmount, amount, date } = subscription.priceChange!;
+  return `${formatMoney(previousAmount, subscription.currency)} → ${formatMoney(amount, subscription.currency)} since ${formatDay(date)}`;
+}
+
+// Fixed shares of an expense are in the base currency, a recurring expense's in its own currency
+function toRecurringExpense(subscription: DetectedSubscription, name: string) {
+  const { latest } = subscription;
+  const splitShares = latest.splitType === "fixed" && latest.splitShares && latest.foreignAmount !== null
+    ? rescaleFixedShares(latest.splitShares, subscription.originalAmount)
+    : latest.splitShares;
+
+  return {
+    description: name,
+    amount: subscription.originalAmount.toFixed(2),
+    currency: subscription.currency,
+    categoryId: latest.categoryId,
+    partnerId: latest.partnerId,
+    accountId: latest.accountId,
+    frequency: subscription.frequency,
+    interval: subscription.interval,
+    startDate: subscription.nextExpected,
+    endDate: null,
+    splitType: latest.splitType,
+    splitShares,
+  };
+}
+
+function SubscriptionsContent() {
+  const { formatBase } = useBaseCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: expenses = [], isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: merchants = [] } = useQuery<Merchant[]>({
+    queryKey: ["/api/merchants"],
+  });
+
+  const { data: recurringExpenses = [] } = useQuery<RecurringExpense[]>({
+    queryKey: ["/api/recurring-expenses"],
+  });
+
+  const subscriptions = useMemo(() => detectSubscriptions(expenses), [expenses]);
+
+  const createRecurringMutation = useMutation({
+    mutationFn: async (body: ReturnType<typeof toRecurringExpense>) => {
+      return await apiRequest("/api/recurring-expenses", {
+        method: "POST",
+        body,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      toast({
+        title: "Recurring Expense Created",
+        description: "Future charges are booked automatically and matched to your statements.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create recurring expense",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getName = (subscription: DetectedSubscription) =>
+    merchants.find(merchant => merchant.id === subscription.merchantId)?.name || subscription.description;
+  const getCategory = (id: string) => categories.find(category => category.id === id);
+  // A recurring expense made from a subscription has no booked charge until its first due date
+  const isRecurring = (subscription: DetectedSubscription, name: string) =>
+    subscription.recurringExpenseId !== null
+    || recurringExpenses.some(recurringExpense => recurringExpense.description.toLowerCase() === name.toLowerCase());
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading subscriptions...</div>;
+  }
+
+  const active = subscriptions.filter(subscription => subscription.status === "active");
+  const monthlyTotal = active.reduce((sum, subscription) => sum + subscription.monthlyCost, 0);
+  const priceChanges = active.filter(subscription => subscription.priceChange);
+  const possiblyCancelled = subscriptions.filter(subscription => subscription.status === "possibly_cancelled");
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-2">
+              <Repeat className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-sm text-muted-foreground">{active.length} active · per month</p>
+                <p className="text-xl font-semibold" data-testid="text-subscriptions-monthly">{formatBase(monthlyTotal)}</p>
+                <p className="text-xs text-muted-foreground">{formatBase(monthlyTotal * 12)} per year</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              <div>
+                <p className="text-sm text-muted-foreground">Price changes</p>
+                <p className="text-xl font-semibold" data-testid="text-subscriptions-price-changes">{priceChanges.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-2">
+              <CalendarX className="h-5 w-5 text-red-600" />
+              <div>
+                <p className="text-sm text-muted-foreground">Possibly cancelled</p>
+                <p className="text-xl font-semibold" data-testid="text-subscriptions-cancelled">{possiblyCancelled.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Repeat className="h-5 w-5" />
+            <span>Detected Subscriptions</span>
+          </CardTitle>
+          <CardDescription>
+            Merchants charging a similar amount at a steady rhythm. A subscription counts as possibly cancelled when
+            its next charge is well overdue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No subscriptions found yet. They show up after two yearly or three regular charges.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subscription</TableHead>
+                    <TableHead>Rhythm</TableHead>
+                    <TableHead>Last charge</TableHead>
+                    <TableHead>Next expected</TableHead>
+                    <TableHead className="text-right">Monthly</TableHead>
+                    <TableHead className="text-right">Yearly</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => {
+                    const name = getName(subscription);
+                    const category = getCategory(subscription.latest.categoryId);
+                    const cancelled = subscription.status === "possibly_cancelled";
+                    return (
+                      <TableRow
+                        key={subscription.key}
+                        className={cancelled ? "text-muted-foreground" : ""}
+                        data-testid={`row-subscription-${subscription.key}`}
+                      >
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <span>{category?.emoji}</span>
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{name}</p>
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {cancelled && <Badge variant="destructive">Possibly cancelled</Badge>}
+                                {subscription.priceChange && (
+                                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                                    {formatPriceChange(subscription)}
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {formatRecurrence(subscription)}
+                          <p className="text-xs text-muted-foreground">{subscription.chargeCount} charges</p>
+                        </TableCell>
+                        <TableCell>
+                          {formatDay(subscription.lastCharge)}
+                          <p className="text-xs text-muted-foreground">
+                            {formatMoney(subscription.originalAmount, subscription.currency)}
+                          </p>
+                        </TableCell>
+                        <TableCell>{cancelled ? "—" : formatDay(subscription.nextExpected)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatBase(subscription.monthlyCost)}</TableCell>
+                        <TableCell className="text-right">{formatBase(subscription.annualCost)}</TableCell>
+                        <TableCell className="text-right">
+                          {isRecurring(subscription, name) ? (
+                            <Badge variant="secondary">Recurring</Badge>
+                          ) : !cancelled && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => createRecurringMutation.mutate(toRecurringExpense(subscription, name))}
+                              disabled={createRecurringMutation.isPending}
+                              data-testid={`button-make-recurring-${subscription.key}`}
+                            >
+                              Make recurring
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function Subscriptions() {
+  return (
+    <Layout
+      title="Subscriptions"
+      description="Recurring charges found in your expense history"
+    >
+      <SubscriptionsContent />
+    </Layout>
+  );
+}
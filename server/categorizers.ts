@@ -0,0 +1,192 @@
+import OpenAI from "openai";
+import type { Category, HouseholdSettings } from "@shared/schema";
+import { normalizeDescription } from "./duplicate-detector";
+
+const DEFAULT_CHAT_MODEL = "gpt-4o";
+
+export interface CategorySuggestion {
+  categoryId: string;
+  confidence: number;
+}
+
+// A verified expense the offline classifier can learn from
+export interface TrainingExample {
+  description: string;
+  categoryId: string;
+}
+
+export interface Categorizer {
+  readonly name: string;
+  // Resolves to null when the provider has no usable answer for the description
+  categorize(description: string): Promise<CategorySuggestion | null>;
+}
+
+// Asks a chat completion API (OpenAI or any server speaking the same protocol) for a category
+export class ChatCompletionCategorizer implements Categorizer {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+  private categories: Category[];
+
+  constructor(name: string, client: OpenAI, model: string, categories: Category[]) {
+    this.name = name;
+    this.client = client;
+    this.model = model;
+    this.categories = categories;
+  }
+
+  async categorize(description: string): Promise<CategorySuggestion | null> {
+    const categoryList = this.categories.map(cat => `${cat.name} (${cat.emoji})`).join(', ');
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert at categorizing financial transactions for a couple's budget tracking app. Analyze the transaction description and categorize it into one of these categories: ${categoryList}.
+
+          Return a JSON response with:
+          - categoryName: the exact category name (not the emoji)
+          - confidence: a number between 0 and 1 indicating how confident you are in this categorization
+
+          Common patterns:
+          - "Groceries" for supermarkets, food stores, markets
+          - "Eating out" for restaurants, cafes, food delivery
+          - "Entertainment" for movies, games, streaming, events
+          - "Subscription" for monthly services, software, memberships
+          - "Transport" for gas, uber, parking, public transit
+          - "Gifts" for presents, flowers, gift cards
+          - "Vacation" for hotels, flights, travel expenses
+          - "Emergency spending" for urgent repairs, medical expenses
+          - "Supplement/medicine" for pharmacy, vitamins, health products`
+        },
+        {
+          role: "user",
+          content: `Categorize this transaction: "${description}"`
+        }
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 200
+    });
+
+    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const categoryName = typeof result.categoryName === 'string' ? result.categoryName : '';
+    const category = this.categories.find(cat =>
+      cat.name.toLowerCase() === categoryName.toLowerCase()
+    );
+
+    if (!category) {
+      console.warn(`${this.name} returned unknown category "${categoryName}" for "${description}"`);
+      return null;
+    }
+
+    return {
+      categoryId: category.id,
+      confidence: Math.min(Math.max(result.confidence || 0.5, 0), 1),
+    };
+  }
+}
+
+// Multinomial naive Bayes over description words, trained on the household's verified expenses
+export class OfflineCategorizer implements Categorizer {
+  readonly name = "Offline classifier";
+  private wordCounts = new Map<string, Map<string, number>>(); // categoryId -> word -> count
+  private totalWords = new Map<string, number>();
+  private exampleCounts = new Map<string, number>();
+  private vocabulary = new Set<string>();
+  private exampleTotal = 0;
+
+  constructor(examples: TrainingExample[]) {
+    for (const example of examples) {
+      const words = this.tokenize(example.description);
+      if (words.length === 0) continue;
+
+      const counts = this.wordCounts.get(example.categoryId) || new Map<string, number>();
+      for (const word of words) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+        this.vocabulary.add(word);
+      }
+      this.wordCounts.set(example.categoryId, counts);
+      this.totalWords.set(example.categoryId, (this.totalWords.get(example.categoryId) || 0) + words.length);
+      this.exampleCounts.set(example.categoryId, (this.exampleCounts.get(example.categoryId) || 0) + 1);
+      this.exampleTotal++;
+    }
+  }
+
+  get trainingSize(): number {
+    return this.exampleTotal;
+  }
+
+  async categorize(description: string): Promise<CategorySuggestion | null> {
+    // Words never seen in training carry no signal, so don't guess from priors alone
+    const words = this.tokenize(description).filter(word => this.vocabulary.has(word));
+    if (words.length === 0) return null;
+
+    const vocabularySize = this.vocabulary.size;
+    const logScores: { categoryId: string; score: number }[] = [];
+
+    for (const [categoryId, counts] of Array.from(this.wordCounts.entries())) {
+      const total = this.totalWords.get(categoryId) || 0;
+      let score = Math.log((this.exampleCounts.get(categoryId) || 0) / this.exampleTotal);
+      for (const word of words) {
+        // Laplace smoothing
+        score += Math.log(((counts.get(word) || 0) + 1) / (total + vocabularySize));
+      }
+      logScores.push({ categoryId, score });
+    }
+
+    // Normalise log scores into probabilities to use the winner's share as confidence
+    const maxScore = Math.max(...logScores.map(s => s.score));
+    const weights = logScores.map(s => ({ categoryId: s.categoryId, weight: Math.exp(s.score - maxScore) }));
+    const weightTotal = weights.reduce((sum, w) => sum + w.weight, 0);
+    const best = weights.reduce((a, b) => (b.weight > a.weight ? b : a));
+
+    return {
+      categoryId: best.categoryId,
+      confidence: best.weight / weightTotal,
+    };
+  }
+
+  private tokenize(description: string): string[] {
+    return normalizeDescription(description)
+      .split(" ")
+      .filter(word => word.length >= 2 && !/^\d+$/.test(word));
+  }
+}
+
+// Builds the provider chosen in the household settings; null means categorization rules only
+export function createCategorizer(
+  settings: HouseholdSettings,
+  categories: Category[],
+  trainingExamples: TrainingExample[],
+): Categorizer | null {
+  switch (settings.categorizerProvider) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn("OPENAI_API_KEY is not set, falling back to categorization rules");
+        return null;
+      }
+      return new ChatCompletionCategorizer(
+        "OpenAI",
+        new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+        settings.categorizerModel || DEFAULT_CHAT_MODEL,
+        categories,
+      );
+    case "local_endpoint":
+      if (!settings.categorizerEndpoint) {
+        console.warn("No categorizer endpoint configured, falling back to categorization rules");
+        return null;
+      }
+      return new ChatCompletionCategorizer(
+        "Local endpoint",
+        // Self-hosted servers usually ignore the key, but the client requires one
+        new OpenAI({ baseURL: settings.categorizerEndpoint, apiKey: process.env.CATEGORIZER_API_KEY || "not-needed" }),
+        settings.categorizerModel || DEFAULT_CHAT_MODEL,
+        categories,
+      );
+    case "offline":
+      return new OfflineCategorizer(trainingExamples);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,230 @@
+// RFC 4180 CSV reading for statement uploads: encoding detection, one delimiter
+// per file, quoted fields with embedded delimiters, newlines and "" escapes.
+
+export interface CSVRecord {
+  line: number; // 1-based line on which the record starts
+  fields: string[];
+}
+
+export interface CSVParseError {
+  line: number;
+  message: string;
+}
+
+export interface DecodedFile {
+  content: string;
+  encoding: 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+}
+
+const DELIMITER_CANDIDATES = [';', ',', '\t', '|'];
+const DELIMITER_SAMPLE_RECORDS = 50;
+
+// Uses the BOM when present, otherwise UTF-8 if the bytes are valid UTF-8 and
+// Windows-1252 (what German banking exports typically use) if they are not
+export function decodeStatementBuffer(buffer: Buffer): DecodedFile {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { content: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8' };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { content: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Swap to little-endian, which every Node build can decode
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return { content: new TextDecoder('utf-16le').decode(swapped), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { content: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    // The WHATWG "latin1" label decodes as Windows-1252
+    return { content: new TextDecoder('latin1').decode(buffer), encoding: 'windows-1252' };
+  }
+}
+
+// Picks the candidate that splits the most records into the same number of columns
+export function detectDelimiter(content: string): string {
+  const counts = new Map<string, number[]>(DELIMITER_CANDIDATES.map(d => [d, []]));
+  let current = new Map<string, number>();
+  let inQuotes = false;
+  let records = 0;
+
+  const finishRecord = () => {
+    if (current.size > 0) {
+      for (const delimiter of DELIMITER_CANDIDATES) {
+        counts.get(delimiter)!.push(current.get(delimiter) || 0);
+      }
+      records++;
+    }
+    current = new Map();
+  };
+
+  for (let i = 0; i < content.length && records < DELIMITER_SAMPLE_RECORDS; i++) {
+    const char = content[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      finishRecord();
+    } else if (!inQuotes && DELIMITER_CANDIDATES.includes(char)) {
+      current.set(char, (current.get(char) || 0) + 1);
+    }
+  }
+  finishRecord();
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const perRecord = counts.get(delimiter)!.filter(count => count > 0);
+    if (perRecord.length === 0) continue;
+
+    const frequency = new Map<number, number>();
+    perRecord.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    for (const [columns, records] of Array.from(frequency.entries())) {
+      const score = records * columns;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Reads the records of a decoded file in one pass. Malformed records are dropped
+// and listed in `errors` by line number.
+class CSVReader {
+  readonly errors: CSVParseError[] = [];
+  private delimiter: string;
+  private fields: string[] = [];
+  private field = '';
+  private fieldQuoted = false;
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside a quoted field; next char decides escape vs close
+  private afterClosingQuote = false;
+  private recordInvalid: string | null = null;
+  private skipLineFeed = false;
+  private previousChar = '';
+  private line = 1;
+  private recordLine = 1;
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter;
+  }
+
+  read(content: string): CSVRecord[] {
+    const records: CSVRecord[] = [];
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      const previousChar = this.previousChar;
+      this.previousChar = char;
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+        this.afterClosingQuote = true;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          if (char === '\r' || (char === '\n' && previousChar !== '\r')) this.line++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipLineFeed = char === '\r';
+        const record = this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+        if (record) records.push(record);
+      } else if (char === '"' && !this.fieldQuoted && !this.afterClosingQuote && this.field.trim() === '') {
+        this.field = '';
+        this.fieldQuoted = true;
+        this.inQuotes = true;
+      } else if (this.afterClosingQuote) {
+        if (char !== ' ' && char !== '\t') {
+          this.recordInvalid = 'Unexpected character after closing quote';
+        }
+      } else {
+        // A stray quote inside an unquoted field (e.g. 12" TV) is kept as text
+        this.field += char;
+      }
+    }
+
+    // A quote closing the last field is only seen at the end of the file
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      this.errors.push({ line: this.recordLine, message: 'Unterminated quoted field' });
+      this.resetRecord();
+      return records;
+    }
+    const record = this.endRecord();
+    if (record) records.push(record);
+    return records;
+  }
+
+  private endField() {
+    this.fields.push(this.fieldQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+    this.afterClosingQuote = false;
+  }
+
+  private endRecord(): CSVRecord | null {
+    this.endField();
+    const fields = this.fields;
+    const invalid = this.recordInvalid;
+    const line = this.recordLine;
+    this.resetRecord();
+
+    if (invalid) {
+      this.errors.push({ line, message: invalid });
+      return null;
+    }
+    // Blank lines carry no record
+    if (fields.length === 1 && fields[0] === '') {
+      return null;
+    }
+    return { line, fields };
+  }
+
+  private resetRecord() {
+    this.fields = [];
+    this.field = '';
+    this.fieldQuoted = false;
+    this.afterClosingQuote = false;
+    this.recordInvalid = null;
+  }
+}
+
+// Reads a whole decoded file, detecting the delimiter once unless one is given
+export function readCSV(content: string, delimiter?: string): {
+  records: CSVRecord[];
+  errors: CSVParseError[];
+  delimiter: string;
+} {
+  const fileDelimiter = delimiter || detectDelimiter(content);
+  const reader = new CSVReader(fileDelimiter);
+  const records = reader.read(content);
+  return { records, errors: reader.errors, delimiter: fileDelimiter };
+}
@@ -0,0 +1,118 @@
+import type { ExchangeRate, InsertExchangeRate } from "@shared/schema";
+import { readCSV, type CSVParseError } from "./csv-reader";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rates are applied at six decimals, the precision they are stored with
+const roundRate = (value: number) => Math.round(value * 1e6) / 1e6;
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export class CurrencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurrencyError";
+    Object.setPrototypeOf(this, CurrencyError.prototype);
+  }
+}
+
+export interface ConvertedAmount {
+  amount: string; // In the base currency
+  foreignAmount: string | null; // The original amount, unless it already was in the base currency
+  exchangeRate: string | null;
+}
+
+// Converts amounts into the household's base currency using the imported rate table.
+// For a given day the latest rate on or before it is used, otherwise the earliest one after it;
+// a rate for the inverse pair is used when the direct pair was never imported.
+export class CurrencyConverter {
+  private ratesByPair = new Map<string, { time: number; rate: number }[]>();
+
+  constructor(rates: ExchangeRate[], readonly baseCurrency: string) {
+    for (const rate of rates) {
+      const value = parseFloat(rate.rate);
+      if (!(value > 0)) continue;
+      this.addRate(rate.fromCurrency, rate.toCurrency, rate.date, value);
+      this.addRate(rate.toCurrency, rate.fromCurrency, rate.date, 1 / value, true);
+    }
+    this.ratesByPair.forEach(rates => rates.sort((a, b) => a.time - b.time));
+  }
+
+  // Base currency units per unit of the currency on that day, null when no rate is known
+  getRate(currency: string, date: Date | string): number | null {
+    if (currency === this.baseCurrency) return 1;
+
+    const rates = this.ratesByPair.get(`${currency}:${this.baseCurrency}`);
+    if (!rates || rates.length === 0) return null;
+
+    const time = new Date(date).getTime();
+    let match = rates[0].rate;
+    for (const rate of rates) {
+      if (rate.time > time) break;
+      match = rate.rate;
+    }
+    return roundRate(match);
+  }
+
+  // An explicit rate, e.g. the one a card statement charged, takes precedence over the table
+  convert(amount: string, currency: string, date: Date | string, explicitRate?: string | null): ConvertedAmount | null {
+    if (currency === this.baseCurrency) {
+      return { amount, foreignAmount: null, exchangeRate: null };
+    }
+
+    const rate = explicitRate ? parseFloat(explicitRate) : this.getRate(currency, date);
+    if (!rate || !(rate > 0)) return null;
+
+    return {
+      amount: roundCents(parseFloat(amount) * rate).toFixed(2),
+      foreignAmount: amount,
+      exchangeRate: roundRate(rate).toString(),
+    };
+  }
+
+  private addRate(from: string, to: string, date: Date, rate: number, inverse = false) {
+    const key = `${from}:${to}`;
+    const rates = this.ratesByPair.get(key) ?? [];
+    const time = new Date(date).getTime();
+    const existing = rates.find(entry => Math.abs(entry.time - time) < DAY_MS);
+    // A directly imported rate wins over one derived from the inverse pair
+    if (existing) {
+      if (!inverse) existing.rate = rate;
+    } else {
+      rates.push({ time, rate });
+    }
+    this.ratesByPair.set(key, rates);
+  }
+}
+
+// Reads a rate table with the columns date,from,to,rate (header row optional), e.g. "2024-03-01,USD,EUR,0.9234"
+export function parseExchangeRateCSV(content: string): { rates: InsertExchangeRate[]; errors: CSVParseError[] } {
+  const { records, errors } = readCSV(content);
+  const rates: InsertExchangeRate[] = [];
+  const parseErrors = [...errors];
+
+  for (const record of records) {
+    const [date = "", from = "", to = "", rate = ""] = record.fields.map(field => field.trim());
+    if (record.line === 1 && /date|datum/i.test(date)) continue;
+    if (!date && !from && !to && !rate) continue;
+
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00:00.000Z`) : null;
+    const value = parseFloat(rate.replace(",", "."));
+
+    if (!day || isNaN(day.getTime())) {
+      parseErrors.push({ line: record.line, message: `Invalid date "${date}", expected YYYY-MM-DD` });
+    } else if (!/^[A-Za-z]{3}$/.test(from) || !/^[A-Za-z]{3}$/.test(to)) {
+      parseErrors.push({ line: record.line, message: `Invalid currency pair "${from}/${to}"` });
+    } else if (!(value > 0)) {
+      parseErrors.push({ line: record.line, message: `Invalid rate "${rate}"` });
+    } else {
+      rates.push({
+        date: day.toISOString(),
+        fromCurrency: from.toUpperCase(),
+        toCurrency: to.toUpperCase(),
+        rate: value.toString(),
+      });
+    }
+  }
+
+  return { rates, errors: parseErrors };
+}
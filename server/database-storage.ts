@@ -1,11 +1,22 @@
 import { db } from "./db";
-import { eq, sql, inArray } from "drizzle-orm";
+import { eq, sql, inArray, and, gt, gte, lte, desc, isNull } from "drizzle-orm";
 import {
   categories,
   partners,
   expenses,
   statements,
   budgetPeriods,
+  importProfiles,
+  householdSettings,
+  learnedCategoryRules,
+  categorizationRules,
+  merchants,
+  settlements,
+  accounts,
+  exchangeRates,
+  recurringExpenses,
+  envelopeTransfers,
+  budgetPeriodSeries,
   type Category,
   type InsertCategory,
   type Partner,
@@ -16,8 +27,31 @@ import {
   type InsertStatement,
   type BudgetPeriod,
   type InsertBudgetPeriod,
+  type ImportProfile,
+  type InsertImportProfile,
+  type HouseholdSettings,
+  type UpdateHouseholdSettings,
+  type LearnedCategoryRule,
+  type CategorizationRule,
+  type InsertCategorizationRule,
+  type Merchant,
+  type InsertMerchant,
+  type Settlement,
+  type InsertSettlement,
+  type Account,
+  type InsertAccount,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type RecurringExpense,
+  type InsertRecurringExpense,
+  type EnvelopeTransfer,
+  type InsertEnvelopeTransfer,
+  type BudgetPeriodSeries,
+  type InsertBudgetPeriodSeries,
+  type UpdateBudgetPeriodSeries,
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import { getSpendingRows, type RefundMode } from "@shared/spending";
+import type { BaseCurrencyRebase, IStorage } from "./storage";
 
 export class DatabaseStorage implements IStorage {
   // Categories
@@ -25,7 +59,7 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(categories);
   }
 
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+  async createCategory(insertCategory: InsertCategory & { envelopeStartMonth?: string | null }): Promise<Category> {
     const [category] = await db
       .insert(categories)
       .values(insertCategory)
@@ -35,7 +69,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateCategory(
     id: string,
-    updateData: Partial<InsertCategory>,
+    updateData: Partial<InsertCategory> & { envelopeStartMonth?: string | null },
   ): Promise<Category | undefined> {
     const [category] = await db
       .update(categories)
@@ -104,8 +138,14 @@ export class DatabaseStorage implements IStorage {
         budget: null,
         monthlyBudget: null,
         includeInSpending: 1,
+        defaultSplitType: "equal",
+        defaultSplitShares: null,
+        kind: "expense",
+        budgetMode: "standard",
+        envelopeCap: null,
+        envelopeStartMonth: null,
       },
-      partner: partner || { id: "", name: "Unknown", color: "#6B7280" },
+      partner: partner || { id: "", name: "Unknown", color: "#6B7280", cardholderAliases: null, cardLastFour: null },
     }));
   }
 
@@ -140,14 +180,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteExpense(id: string): Promise<boolean> {
-    const result = await db.delete(expenses).where(eq(expenses.id, id));
-    return (result.rowCount || 0) > 0;
+    return (await this.bulkDeleteExpenses([id])) > 0;
   }
 
   async bulkDeleteExpenses(ids: string[]): Promise<number> {
     if (ids.length === 0) return 0;
-    const result = await db.delete(expenses).where(inArray(expenses.id, ids));
-    return result.rowCount || 0;
+    return await db.transaction(async (tx) => {
+      // Refunds of a deleted charge stay, but no longer point at it
+      await tx
+        .update(expenses)
+        .set({ refundOfExpenseId: null })
+        .where(inArray(expenses.refundOfExpenseId, ids));
+      const result = await tx.delete(expenses).where(inArray(expenses.id, ids));
+      return result.rowCount || 0;
+    });
   }
 
   // Statements
@@ -184,23 +230,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Analytics
-  async getSpendingByCategory(): Promise<
+  async getSpendingByCategory(refundMode: RefundMode): Promise<
     { categoryId: string; total: number; category: Category }[]
   > {
-    const result = await db
-      .select({
-        categoryId: expenses.categoryId,
-        total: sql<number>`sum(${expenses.amount}::numeric)`,
-        category: categories,
-      })
-      .from(expenses)
-      .leftJoin(categories, eq(expenses.categoryId, categories.id))
-      .groupBy(expenses.categoryId, categories.id);
+    // Refund linking and exclusions are worked out in code like the budget engine does, not in SQL
+    const totalsByCategory = new Map<string, number>();
+    for (const row of getSpendingRows(await db.select().from(expenses), refundMode)) {
+      totalsByCategory.set(row.categoryId, (totalsByCategory.get(row.categoryId) || 0) + parseFloat(row.amount));
+    }
 
-    return result.map(({ categoryId, total, category }) => ({
+    const categoriesById = new Map((await db.select().from(categories)).map(category => [category.id, category]));
+    return Array.from(totalsByCategory.entries()).map(([categoryId, total]) => ({
       categoryId,
-      total: Number(total),
-      category: category || {
+      total,
+      category: categoriesById.get(categoryId) || {
         id: categoryId,
         name: "Unknown",
         emoji: "❓",
@@ -208,24 +251,26 @@ export class DatabaseStorage implements IStorage {
         budget: null,
         monthlyBudget: null,
         includeInSpending: 1,
+        defaultSplitType: "equal",
+        defaultSplitShares: null,
+        kind: "expense",
+        budgetMode: "standard",
+        envelopeCap: null,
+        envelopeStartMonth: null,
       },
     }));
   }
 
-  async getMonthlySpending(): Promise<{ month: string; total: number }[]> {
-    const result = await db
-      .select({
-        month: sql<string>`to_char(${expenses.date}, 'YYYY-MM')`,
-        total: sql<number>`sum(${expenses.amount}::numeric)`,
-      })
-      .from(expenses)
-      .groupBy(sql`to_char(${expenses.date}, 'YYYY-MM')`)
-      .orderBy(sql`to_char(${expenses.date}, 'YYYY-MM') DESC`);
+  async getMonthlySpending(refundMode: RefundMode): Promise<{ month: string; total: number }[]> {
+    const totalsByMonth = new Map<string, number>();
+    for (const row of getSpendingRows(await db.select().from(expenses), refundMode)) {
+      const month = new Date(row.date).toISOString().slice(0, 7); // YYYY-MM
+      totalsByMonth.set(month, (totalsByMonth.get(month) || 0) + parseFloat(row.amount));
+    }
 
-    return result.map(({ month, total }) => ({
-      month,
-      total: Number(total),
-    }));
+    return Array.from(totalsByMonth.entries())
+      .map(([month, total]) => ({ month, total }))
+      .sort((a, b) => b.month.localeCompare(a.month));
   }
 
   // New methods for expense verification and budget periods
@@ -236,6 +281,34 @@ export class DatabaseStorage implements IStorage {
       .where(eq(expenses.statementId, statementId));
   }
 
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
+    return expense;
+  }
+
+  async getExpenseByExternalId(externalId: string, statement: Pick<Statement, "accountId" | "source">): Promise<Expense | undefined> {
+    const scope = statement.accountId
+      ? eq(expenses.accountId, statement.accountId)
+      : inArray(
+          expenses.statementId,
+          db.select({ id: statements.id })
+            .from(statements)
+            .where(and(eq(statements.source, statement.source), isNull(statements.accountId))),
+        );
+    const [expense] = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.externalId, externalId), scope));
+    return expense;
+  }
+
+  async getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]> {
+    return await db
+      .select()
+      .from(expenses)
+      .where(and(gte(expenses.date, startDate), lte(expenses.date, endDate)));
+  }
+
   async getBudgetPeriods(): Promise<BudgetPeriod[]> {
     return await db
       .select()
@@ -279,4 +352,432 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(budgetPeriods).where(eq(budgetPeriods.id, id));
     return (result.rowCount || 0) > 0;
   }
-}
\ No newline at end of file
+
+  // Budget Period Series
+  async getBudgetPeriodSeriesList(): Promise<BudgetPeriodSeries[]> {
+    return await db.select().from(budgetPeriodSeries).orderBy(budgetPeriodSeries.name);
+  }
+
+  async getBudgetPeriodSeries(id: string): Promise<BudgetPeriodSeries | undefined> {
+    const [series] = await db.select().from(budgetPeriodSeries).where(eq(budgetPeriodSeries.id, id));
+    return series;
+  }
+
+  async createBudgetPeriodSeries(insertSeries: InsertBudgetPeriodSeries): Promise<BudgetPeriodSeries> {
+    const [series] = await db
+      .insert(budgetPeriodSeries)
+      .values({
+        ...insertSeries,
+        startDate: new Date(insertSeries.startDate),
+        endDate: new Date(insertSeries.endDate),
+        repeatUntil: insertSeries.repeatUntil ? new Date(insertSeries.repeatUntil) : null,
+      })
+      .returning();
+    return series;
+  }
+
+  async updateBudgetPeriodSeries(
+    id: string,
+    updateData: UpdateBudgetPeriodSeries & { nextInstanceIndex?: number },
+  ): Promise<BudgetPeriodSeries | undefined> {
+    const [series] = await db
+      .update(budgetPeriodSeries)
+      .set({
+        ...updateData,
+        repeatUntil: updateData.repeatUntil !== undefined
+          ? (updateData.repeatUntil ? new Date(updateData.repeatUntil) : null)
+          : undefined,
+      })
+      .where(eq(budgetPeriodSeries.id, id))
+      .returning();
+    return series;
+  }
+
+  async deleteBudgetPeriodSeries(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .delete(budgetPeriods)
+        .where(and(eq(budgetPeriods.seriesId, id), gt(budgetPeriods.startDate, now)));
+      await tx
+        .update(budgetPeriods)
+        .set({ seriesId: null })
+        .where(eq(budgetPeriods.seriesId, id));
+      const result = await tx.delete(budgetPeriodSeries).where(eq(budgetPeriodSeries.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Import Profiles
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return await db
+      .select()
+      .from(importProfiles)
+      .orderBy(importProfiles.name);
+  }
+
+  async getImportProfile(id: string): Promise<ImportProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(importProfiles)
+      .where(eq(importProfiles.id, id));
+    return profile;
+  }
+
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const [profile] = await db
+      .insert(importProfiles)
+      .values(insertProfile)
+      .returning();
+    return profile;
+  }
+
+  async updateImportProfile(
+    id: string,
+    updateData: Partial<InsertImportProfile>,
+  ): Promise<ImportProfile | undefined> {
+    const [profile] = await db
+      .update(importProfiles)
+      .set(updateData)
+      .where(eq(importProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    const result = await db.delete(importProfiles).where(eq(importProfiles.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Learned Category Rules
+  async getLearnedCategoryRules(): Promise<LearnedCategoryRule[]> {
+    return await db
+      .select()
+      .from(learnedCategoryRules)
+      .orderBy(learnedCategoryRules.merchantKey);
+  }
+
+  async upsertLearnedCategoryRule(merchantKey: string, categoryId: string): Promise<LearnedCategoryRule> {
+    const [existing] = await db
+      .select()
+      .from(learnedCategoryRules)
+      .where(eq(learnedCategoryRules.merchantKey, merchantKey));
+
+    if (!existing) {
+      const [rule] = await db
+        .insert(learnedCategoryRules)
+        .values({ merchantKey, categoryId })
+        .returning();
+      return rule;
+    }
+
+    // A correction to a different category replaces the mapping and restarts its count
+    const [rule] = await db
+      .update(learnedCategoryRules)
+      .set({
+        categoryId,
+        hitCount: existing.categoryId === categoryId ? existing.hitCount + 1 : 1,
+        updatedAt: new Date(),
+      })
+      .where(eq(learnedCategoryRules.id, existing.id))
+      .returning();
+    return rule;
+  }
+
+  async deleteLearnedCategoryRule(id: string): Promise<boolean> {
+    const result = await db.delete(learnedCategoryRules).where(eq(learnedCategoryRules.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Categorization Rules
+  async getCategorizationRules(): Promise<CategorizationRule[]> {
+    return await db
+      .select()
+      .from(categorizationRules)
+      .orderBy(categorizationRules.priority, categorizationRules.createdAt);
+  }
+
+  async createCategorizationRule(insertRule: InsertCategorizationRule): Promise<CategorizationRule> {
+    const [rule] = await db
+      .insert(categorizationRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async updateCategorizationRule(
+    id: string,
+    updateData: Partial<InsertCategorizationRule>,
+  ): Promise<CategorizationRule | undefined> {
+    const [rule] = await db
+      .update(categorizationRules)
+      .set(updateData)
+      .where(eq(categorizationRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteCategorizationRule(id: string): Promise<boolean> {
+    const result = await db.delete(categorizationRules).where(eq(categorizationRules.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Merchants
+  async getMerchants(): Promise<Merchant[]> {
+    return await db
+      .select()
+      .from(merchants)
+      .orderBy(merchants.name);
+  }
+
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant> {
+    const [merchant] = await db
+      .insert(merchants)
+      .values(insertMerchant)
+      .returning();
+    return merchant;
+  }
+
+  async updateMerchant(id: string, updateData: Partial<InsertMerchant>): Promise<Merchant | undefined> {
+    const [merchant] = await db
+      .update(merchants)
+      .set(updateData)
+      .where(eq(merchants.id, id))
+      .returning();
+    return merchant;
+  }
+
+  async mergeMerchants(targetId: string, sourceIds: string[]): Promise<Merchant | undefined> {
+    const [target] = await db.select().from(merchants).where(eq(merchants.id, targetId));
+    if (!target) return undefined;
+
+    const otherIds = sourceIds.filter(id => id !== targetId);
+    const sources = otherIds.length > 0
+      ? await db.select().from(merchants).where(inArray(merchants.id, otherIds))
+      : [];
+    if (sources.length === 0) return target;
+
+    const mergedIds = sources.map(source => source.id);
+    const aliases = Array.from(new Set([...target.aliases, ...sources.flatMap(source => source.aliases)]));
+
+    return await db.transaction(async (tx) => {
+      const [merged] = await tx
+        .update(merchants)
+        .set({ aliases })
+        .where(eq(merchants.id, targetId))
+        .returning();
+      await tx
+        .update(expenses)
+        .set({ merchantId: targetId })
+        .where(inArray(expenses.merchantId, mergedIds));
+      await tx.delete(merchants).where(inArray(merchants.id, mergedIds));
+      return merged;
+    });
+  }
+
+  // Exchange rates
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates).orderBy(desc(exchangeRates.date));
+  }
+
+  async saveExchangeRates(insertRates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    return await db.transaction(async (tx) => {
+      const saved: ExchangeRate[] = [];
+      for (const insertRate of insertRates) {
+        const date = new Date(insertRate.date);
+        await tx.delete(exchangeRates).where(and(
+          eq(exchangeRates.date, date),
+          eq(exchangeRates.fromCurrency, insertRate.fromCurrency),
+          eq(exchangeRates.toCurrency, insertRate.toCurrency),
+        ));
+        const [rate] = await tx.insert(exchangeRates).values({ ...insertRate, date }).returning();
+        saved.push(rate);
+      }
+      return saved;
+    });
+  }
+
+  async deleteExchangeRate(id: string): Promise<boolean> {
+    const result = await db.delete(exchangeRates).where(eq(exchangeRates.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Accounts
+  async getAccounts(): Promise<Account[]> {
+    return await db.select().from(accounts).orderBy(accounts.name);
+  }
+
+  async getAccount(id: string): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await db
+      .insert(accounts)
+      .values(insertAccount)
+      .returning();
+    return account;
+  }
+
+  async updateAccount(id: string, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const [account] = await db
+      .update(accounts)
+      .set(updateData)
+      .where(eq(accounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(expenses).set({ accountId: null }).where(eq(expenses.accountId, id));
+      await tx.update(statements).set({ accountId: null }).where(eq(statements.accountId, id));
+      const result = await tx.delete(accounts).where(eq(accounts.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Settlements
+  async getSettlements(): Promise<Settlement[]> {
+    return await db
+      .select()
+      .from(settlements)
+      .orderBy(sql`${settlements.date} DESC`);
+  }
+
+  async createSettlement(insertSettlement: InsertSettlement): Promise<Settlement> {
+    const [settlement] = await db
+      .insert(settlements)
+      .values({
+        ...insertSettlement,
+        date: insertSettlement.date ? new Date(insertSettlement.date) : new Date(),
+      })
+      .returning();
+    return settlement;
+  }
+
+  async deleteSettlement(id: string): Promise<boolean> {
+    const result = await db.delete(settlements).where(eq(settlements.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Envelope Transfers
+  async getEnvelopeTransfers(): Promise<EnvelopeTransfer[]> {
+    return await db
+      .select()
+      .from(envelopeTransfers)
+      .orderBy(sql`${envelopeTransfers.date} DESC`);
+  }
+
+  async createEnvelopeTransfer(insertTransfer: InsertEnvelopeTransfer): Promise<EnvelopeTransfer> {
+    const [transfer] = await db
+      .insert(envelopeTransfers)
+      .values({
+        ...insertTransfer,
+        date: insertTransfer.date ? new Date(insertTransfer.date) : new Date(),
+      })
+      .returning();
+    return transfer;
+  }
+
+  // Recurring Expenses
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    return await db.select().from(recurringExpenses).orderBy(recurringExpenses.description);
+  }
+
+  async getRecurringExpense(id: string): Promise<RecurringExpense | undefined> {
+    const [recurringExpense] = await db.select().from(recurringExpenses).where(eq(recurringExpenses.id, id));
+    return recurringExpense;
+  }
+
+  async createRecurringExpense(
+    insertRecurringExpense: InsertRecurringExpense & { nextDueDate: Date | null },
+  ): Promise<RecurringExpense> {
+    const [recurringExpense] = await db
+      .insert(recurringExpenses)
+      .values({
+        ...insertRecurringExpense,
+        startDate: new Date(insertRecurringExpense.startDate),
+        endDate: insertRecurringExpense.endDate ? new Date(insertRecurringExpense.endDate) : null,
+      })
+      .returning();
+    return recurringExpense;
+  }
+
+  async updateRecurringExpense(
+    id: string,
+    updateData: Partial<InsertRecurringExpense> & { nextDueDate?: Date | null },
+  ): Promise<RecurringExpense | undefined> {
+    const [recurringExpense] = await db
+      .update(recurringExpenses)
+      .set({
+        ...updateData,
+        startDate: updateData.startDate ? new Date(updateData.startDate) : undefined,
+        endDate: updateData.endDate !== undefined
+          ? updateData.endDate ? new Date(updateData.endDate) : null
+          : undefined,
+      })
+      .where(eq(recurringExpenses.id, id))
+      .returning();
+    return recurringExpense;
+  }
+
+  async deleteRecurringExpense(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(expenses).set({ recurringExpenseId: null }).where(eq(expenses.recurringExpenseId, id));
+      const result = await tx.delete(recurringExpenses).where(eq(recurringExpenses.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Household Settings
+  async getHouseholdSettings(): Promise<HouseholdSettings> {
+    const [settings] = await db.select().from(householdSettings).limit(1);
+    if (settings) return settings;
+
+    // First access creates the row with column defaults
+    const [created] = await db.insert(householdSettings).values({}).returning();
+    return created;
+  }
+
+  async updateHouseholdSettings(updateData: UpdateHouseholdSettings & { defaultRulesCreated?: number }): Promise<HouseholdSettings> {
+    const current = await this.getHouseholdSettings();
+    const [settings] = await db
+      .update(householdSettings)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(householdSettings.id, current.id))
+      .returning();
+    return settings;
+  }
+
+  async rebaseCurrency(rebase: BaseCurrencyRebase, updateData: UpdateHouseholdSettings): Promise<HouseholdSettings> {
+    const current = await this.getHouseholdSettings();
+    return await db.transaction(async (tx) => {
+      for (const { id, update } of rebase.expenses) {
+        await tx.update(expenses).set(update).where(eq(expenses.id, id));
+      }
+      for (const { id, amount } of rebase.settlements) {
+        await tx.update(settlements).set({ amount }).where(eq(settlements.id, id));
+      }
+      for (const { id, amount } of rebase.envelopeTransfers) {
+        await tx.update(envelopeTransfers).set({ amount }).where(eq(envelopeTransfers.id, id));
+      }
+      for (const { id, update } of rebase.categories) {
+        await tx.update(categories).set(update).where(eq(categories.id, id));
+      }
+      for (const { id, budgetAmount } of rebase.budgetPeriods) {
+        await tx.update(budgetPeriods).set({ budgetAmount }).where(eq(budgetPeriods.id, id));
+      }
+      for (const { id, budgetAmount } of rebase.budgetPeriodSeries) {
+        await tx.update(budgetPeriodSeries).set({ budgetAmount }).where(eq(budgetPeriodSeries.id, id));
+      }
+      const [settings] = await tx
+        .update(householdSettings)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(householdSettings.id, current.id))
+        .returning();
+      return settings;
+    });
+  }
+}
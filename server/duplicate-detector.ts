@@ -0,0 +1,89 @@
+import type { Expense, PreviewTransaction, SuspectedDuplicate } from "@shared/schema";
+
+// Manually entered expenses are often dated a day or two off the booking date
+const MANUAL_MATCH_WINDOW_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DuplicateMatch {
+  expenseId: string;
+  matchType: SuspectedDuplicate["matchType"];
+}
+
+// Lowercases and strips punctuation so "REWE SAGT DANKE." and "Rewe sagt danke" compare equal
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9äöüßéèàç]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export class DuplicateDetector {
+  private candidates: Expense[];
+  private matchedExpenseIds = new Set<string>();
+
+  constructor(candidates: Expense[]) {
+    this.candidates = candidates;
+  }
+
+  // Date range of existing expenses that need to be loaded to check the given rows
+  static getCandidateRange(transactions: PreviewTransaction[]): { startDate: Date; endDate: Date } | null {
+    const times = transactions
+      .map(transaction => new Date(transaction.date).getTime())
+      .filter(time => !isNaN(time));
+    if (times.length === 0) return null;
+
+    return {
+      startDate: new Date(Math.min(...times) - MANUAL_MATCH_WINDOW_DAYS * DAY_MS),
+      endDate: new Date(Math.max(...times) + MANUAL_MATCH_WINDOW_DAYS * DAY_MS),
+    };
+  }
+
+  // Each existing expense is matched at most once, so two identical purchases on
+  // the same day in one file only flag as many rows as there are existing expenses
+  findMatch(transaction: PreviewTransaction): DuplicateMatch | null {
+    const date = new Date(transaction.date);
+    const description = normalizeDescription(transaction.description);
+    const sourceLabel = (transaction.sourceLabel || "").toLowerCase();
+
+    for (const expense of this.candidates) {
+      if (this.matchedExpenseIds.has(expense.id)) continue;
+      const amount = parseFloat(expense.amount);
+
+      if (expense.statementId) {
+        if (Math.abs(amount - transaction.amount) >= 0.005) continue;
+        const sameDay = expense.date.toDateString() === date.toDateString();
+        const sameSource = (expense.sourceLabel || "").toLowerCase() === sourceLabel;
+        if (sameDay && sameSource && normalizeDescription(expense.description) === description) {
+          this.matchedExpenseIds.add(expense.id);
+          return { expenseId: expense.id, matchType: "statement" };
+        }
+      } else {
+        // Manual entries are always typed as positive amounts
+        if (Math.abs(Math.abs(amount) - Math.abs(transaction.amount)) >= 0.005) continue;
+        const daysApart = Math.abs(expense.date.getTime() - date.getTime()) / DAY_MS;
+        if (daysApart <= MANUAL_MATCH_WINDOW_DAYS && descriptionsOverlap(expense.description, description)) {
+          this.matchedExpenseIds.add(expense.id);
+          return { expenseId: expense.id, matchType: "manual" };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Keeps an expense that was already paired with a row some other way out of later matches
+  exclude(expenseId: string) {
+    this.matchedExpenseIds.add(expenseId);
+  }
+}
+
+// Manual entries are typed by hand ("Rewe groceries"), so a shared merchant word is enough
+export function descriptionsOverlap(manualDescription: string, normalizedDescription: string): boolean {
+  const manual = normalizeDescription(manualDescription);
+  if (!manual) return false;
+  if (manual.includes(normalizedDescription) || normalizedDescription.includes(manual)) return true;
+
+  const words = new Set(normalizedDescription.split(" ").filter(word => word.length >= 4 && !/^\d+$/.test(word)));
+  return manual.split(" ").some(word => words.has(word));
+}
@@ -1,4 +1,25 @@
 import { DatabaseStorage } from "./database-storage";
+import { SALARY_CATEGORY_PATTERN } from "./statement-processor";
+
+const SALARY_CATEGORY = { name: "Salary", emoji: "💼", color: "#16A34A", kind: "income" as const, defaultSplitType: "personal" as const, includeInSpending: 0 };
+const OTHER_INCOME_CATEGORY = { name: "Other income", emoji: "💶", color: "#65A30D", kind: "income" as const, defaultSplitType: "personal" as const, includeInSpending: 0 };
+// Credit card payoffs and moves between our own accounts
+const TRANSFER_CATEGORY = { name: "Transfers", emoji: "🔁", color: "#64748B", kind: "transfer" as const, defaultSplitType: "personal" as const, includeInSpending: 0 };
+
+// Keywords the importer used to have built in, now created once as ordinary categorization rules so they
+// follow category renames and can be edited or deleted in Settings. Listed in the order they are tried.
+const DEFAULT_KEYWORD_RULES = [
+  { category: "Groceries", keywords: ["lidl", "rewe", "edeka", "aldi", "grocery", "supermarket", "market", "food store", "walmart", "safeway", "whole foods", "netto", "penny"] },
+  { category: "Eating out", keywords: ["restaurant", "cafe", "pizza", "delivery", "uber eats", "doordash", "lieferando", "mcdonalds", "burger", "kfc", "subway", "bistro"] },
+  { category: "Entertainment", keywords: ["netflix", "spotify", "amazon prime", "disney", "cinema", "theater", "concert"] },
+  { category: "Transport", keywords: ["bolt", "uber", "lyft", "taxi", "bvg", "db bahn"] },
+  { category: "Supplement/medicine", keywords: ["apotheke", "dm", "rossmann", "pharmacy"] },
+  { category: "Vacation", keywords: ["hotel", "booking", "expedia", "airbnb", "flight"] },
+  { category: "Subscription", keywords: ["subscription", "adobe", "microsoft", "saas"] },
+];
+
+// After the default priority of 100, so rules the household adds run first
+const DEFAULT_RULE_PRIORITY = 900;
 
 export async function initializeDatabase() {
   const storage = new DatabaseStorage();
@@ -8,48 +29,99 @@ export async function initializeDatabase() {
     const existingCategories = await storage.getCategories();
     if (existingCategories.length > 0) {
       console.log('Database already initialized');
-      return;
+    } else {
+      await createDefaultData(storage);
     }
 
-    console.log('Initializing database with default data...');
-
-    // Create default categories
-    const defaultCategories = [
-      { name: "Groceries", emoji: "🛒", color: "#3B82F6", budget: "500.00" },
-      { name: "Eating out", emoji: "🍽️", color: "#F59E0B", budget: "250.00" },
-      { name: "Entertainment", emoji: "🎬", color: "#8B5CF6", budget: "200.00" },
-      { name: "Subscription", emoji: "📱", color: "#10B981", budget: "150.00" },
-      { name: "Gifts", emoji: "🎁", color: "#EF4444", budget: "200.00" },
-      { name: "Potluck", emoji: "🫕", color: "#F97316", budget: "100.00" },
-      { name: "Charity", emoji: "❤️", color: "#EC4899", budget: "100.00" },
-      { name: "Transport", emoji: "🚗", color: "#84CC16", budget: "300.00" },
-      { name: "Vacation", emoji: "✈️", color: "#06B6D4", budget: "800.00" },
-      { name: "Emergency spending", emoji: "🚨", color: "#DC2626", budget: "500.00" },
-      { name: "Babysitting", emoji: "👶", color: "#A855F7", budget: "200.00" },
-      { name: "Housekeeping", emoji: "🧹", color: "#059669", budget: "150.00" },
-      { name: "Supplement/medicine", emoji: "💊", color: "#0891B2", budget: "100.00" },
-    ];
-
-    const createdCategories = [];
-    for (const cat of defaultCategories) {
-      const category = await storage.createCategory(cat);
-      createdCategories.push(category);
-    }
+    await createMissingCategories(storage);
+    await createDefaultKeywordRules(storage);
+  } catch (error) {
+    console.error('Failed to initialize database:', error);
+  }
+}
 
-    // Create default partners
-    const defaultPartners = [
-      { name: "Reza", color: "#8B5CF6" },
-      { name: "Luky", color: "#F59E0B" },
-    ];
+async function createDefaultData(storage: DatabaseStorage) {
+  console.log('Initializing database with default data...');
 
-    const createdPartners = [];
-    for (const partner of defaultPartners) {
-      const createdPartner = await storage.createPartner(partner);
-      createdPartners.push(createdPartner);
-    }
+  // Create default categories
+  const defaultCategories = [
+    { name: "Groceries", emoji: "🛒", color: "#3B82F6", budget: "500.00" },
+    { name: "Eating out", emoji: "🍽️", color: "#F59E0B", budget: "250.00" },
+    { name: "Entertainment", emoji: "🎬", color: "#8B5CF6", budget: "200.00" },
+    { name: "Subscription", emoji: "📱", color: "#10B981", budget: "150.00" },
+    { name: "Gifts", emoji: "🎁", color: "#EF4444", budget: "200.00" },
+    { name: "Potluck", emoji: "🫕", color: "#F97316", budget: "100.00" },
+    { name: "Charity", emoji: "❤️", color: "#EC4899", budget: "100.00" },
+    { name: "Transport", emoji: "🚗", color: "#84CC16", budget: "300.00" },
+    { name: "Vacation", emoji: "✈️", color: "#06B6D4", budget: "800.00" },
+    { name: "Emergency spending", emoji: "🚨", color: "#DC2626", budget: "500.00" },
+    { name: "Babysitting", emoji: "👶", color: "#A855F7", budget: "200.00" },
+    { name: "Housekeeping", emoji: "🧹", color: "#059669", budget: "150.00" },
+    { name: "Supplement/medicine", emoji: "💊", color: "#0891B2", budget: "100.00" },
+  ];
 
-    console.log(`Created ${createdCategories.length} categories and ${createdPartners.length} partners`);
-  } catch (error) {
-    console.error('Failed to initialize database:', error);
+  const createdCategories = [];
+  for (const cat of defaultCategories) {
+    const category = await storage.createCategory(cat);
+    createdCategories.push(category);
+  }
+
+  // Create default partners
+  const defaultPartners = [
+    { name: "Reza", color: "#8B5CF6" },
+    { name: "Luky", color: "#F59E0B" },
+  ];
+
+  const createdPartners = [];
+  for (const partner of defaultPartners) {
+    const createdPartner = await storage.createPartner(partner);
+    createdPartners.push(createdPartner);
+  }
+
+  console.log(`Created ${createdCategories.length} categories and ${createdPartners.length} partners`);
+}
+
+// Categories the importer files rows into by kind. Runs on every start, so households set up before
+// income and transfer tracking get them too; a household's own income categories count when named alike.
+async function createMissingCategories(storage: DatabaseStorage) {
+  const categories = await storage.getCategories();
+  const incomeCategories = categories.filter(category => category.kind === "income");
+  const missing = [
+    ...(incomeCategories.some(category => SALARY_CATEGORY_PATTERN.test(category.name)) ? [] : [SALARY_CATEGORY]),
+    ...(incomeCategories.some(category => !SALARY_CATEGORY_PATTERN.test(category.name)) ? [] : [OTHER_INCOME_CATEGORY]),
+    ...(categories.some(category => category.kind === "transfer") ? [] : [TRANSFER_CATEGORY]),
+  ];
+
+  for (const category of missing) {
+    await storage.createCategory(category);
+    console.log(`Created missing category ${category.name}`);
   }
+}
+
+// Runs once per household, including ones set up before these rules existed; keywords whose category
+// has since been renamed or deleted are left out
+async function createDefaultKeywordRules(storage: DatabaseStorage) {
+  const settings = await storage.getHouseholdSettings();
+  if (settings.defaultRulesCreated === 1) return;
+
+  const categories = await storage.getCategories();
+  let created = 0;
+  for (let index = 0; index < DEFAULT_KEYWORD_RULES.length; index++) {
+    const { category: name, keywords } = DEFAULT_KEYWORD_RULES[index];
+    const category = categories.find(category => category.kind === "expense" && category.name === name);
+    if (!category) continue;
+
+    const alternatives = keywords.map(keyword => keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+    await storage.createCategorizationRule({
+      name: `${name} keywords`,
+      priority: DEFAULT_RULE_PRIORITY + index,
+      descriptionPattern: `\\b(${alternatives})\\b`,
+      descriptionMatchType: "regex",
+      setCategoryId: category.id,
+    });
+    created++;
+  }
+
+  await storage.updateHouseholdSettings({ defaultRulesCreated: 1 });
+  console.log(`Created ${created} default categorization rules`);
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import type { LearnedCategoryRule } from "@shared/schema";
+import type { CategorySuggestion } from "./categorizers";
+import { normalizeDescription } from "./duplicate-detector";
+
+const MERCHANT_KEY_WORDS = 3;
+
+// Leading words of the description with reference numbers removed, so
+// "REWE SAGT DANKE 4711" and "REWE SAGT DANKE 0815" share the key "rewe sagt danke"
+export function getMerchantKey(description: string): string {
+  return normalizeDescription(description)
+    .split(" ")
+    .filter(word => word && !/\d/.test(word))
+    .slice(0, MERCHANT_KEY_WORDS)
+    .join(" ");
+}
+
+export class LearnedRuleMatcher {
+  private rulesByKey: Map<string, LearnedCategoryRule>;
+  // Longest keys first so "amazon prime" wins over "amazon"
+  private rulesByLength: LearnedCategoryRule[];
+
+  constructor(rules: LearnedCategoryRule[]) {
+    this.rulesByKey = new Map(rules.map(rule => [rule.merchantKey, rule]));
+    this.rulesByLength = [...rules].sort((a, b) => b.merchantKey.length - a.merchantKey.length);
+  }
+
+  match(description: string): CategorySuggestion | null {
+    const exact = this.rulesByKey.get(getMerchantKey(description));
+    if (exact) {
+      return { categoryId: exact.categoryId, confidence: 0.95 };
+    }
+
+    // The merchant may appear after a payment prefix, e.g. "Lastschrift rewe sagt danke"
+    const padded = ` ${normalizeDescription(description)} `;
+    const contained = this.rulesByLength.find(rule => padded.includes(` ${rule.merchantKey} `));
+    if (contained) {
+      return { categoryId: contained.categoryId, confidence: 0.9 };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import type { Merchant } from "@shared/schema";
+import { normalizeDescription } from "./duplicate-detector";
+
+const MERCHANT_KEY_WORDS = 3;
+
+// Payment processors and wallets that put their own name in front of the merchant, e.g. "PAYPAL *SPOTIFY"
+const PROCESSOR_PREFIX = /^\s*(?:paypal|sumup|sq|zettle|izettle|iz|stripe|klarna|curve|crv)\s*\*\s*/i;
+
+// Legal forms and checkout slogans that vary between terminals of the same merchant
+const FILLER_WORDS = new Set([
+  "sagt", "danke", "dienstl", "filiale", "fil", "gmbh", "mbh", "ag", "kg", "ohg", "ug", "co", "se", "ev",
+  "inc", "ltd", "llc", "sarl", "bv", "sa",
+]);
+
+// Terminal locations and country codes, only stripped after the first word so "Berliner Kindl" survives
+const LOCATION_WORDS = new Set([
+  "berlin", "hamburg", "muenchen", "münchen", "munich", "koeln", "köln", "cologne", "frankfurt", "stuttgart",
+  "duesseldorf", "düsseldorf", "dortmund", "essen", "leipzig", "bremen", "dresden", "hannover", "nuernberg",
+  "nürnberg", "duisburg", "bochum", "wuppertal", "bielefeld", "bonn", "muenster", "münster", "mannheim",
+  "karlsruhe", "augsburg", "wiesbaden", "potsdam", "mainz", "kiel", "luebeck", "lübeck", "freiburg", "rostock",
+  "wien", "vienna", "zuerich", "zürich", "amsterdam", "paris", "london", "dublin", "luxembourg", "luxemburg",
+  "de", "deu", "ger", "at", "aut", "ch", "nl", "nld", "gb", "uk", "ie", "irl", "lu", "fr", "usa", "us",
+]);
+
+export interface NormalizedMerchant {
+  key: string; // Stored as a merchant alias
+  name: string; // Display name for a newly created merchant
+}
+
+// Reduces a description to the merchant behind it, so "LIDL DIENSTL SAGT DANKE 1234 BERLIN"
+// and "Lidl Sagt Danke" both become "lidl"; null when nothing recognisable is left
+export function normalizeMerchant(description: string): NormalizedMerchant | null {
+  const words = normalizeDescription(description.replace(PROCESSOR_PREFIX, ""))
+    .split(" ")
+    .filter(word => word && !/\d/.test(word) && !FILLER_WORDS.has(word))
+    .filter((word, index) => index === 0 || !LOCATION_WORDS.has(word))
+    .slice(0, MERCHANT_KEY_WORDS);
+
+  if (words.length === 0) {
+    return null;
+  }
+
+  return {
+    key: words.join(" "),
+    name: words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" "),
+  };
+}
+
+// Looks merchants up by alias; merchants created during an import are added as they appear
+export class MerchantDirectory {
+  private merchantsByAlias = new Map<string, Merchant>();
+
+  constructor(merchants: Merchant[]) {
+    merchants.forEach(merchant => this.add(merchant));
+  }
+
+  add(merchant: Merchant) {
+    for (const alias of merchant.aliases) {
+      this.merchantsByAlias.set(alias, merchant);
+    }
+  }
+
+  find(key: string): Merchant | undefined {
+    return this.merchantsByAlias.get(key);
+  }
+}
@@ -0,0 +1,73 @@
+import type { Expense } from "@shared/schema";
+import { descriptionsOverlap, normalizeDescription } from "./duplicate-detector";
+
+// Banks book direct debits a few days around the due date, later over weekends and holidays
+const MATCH_WINDOW_DAYS = 5;
+// Utility bills and subscriptions charged in another currency differ a little from month to month
+const AMOUNT_TOLERANCE = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amounts are in the base currency on both sides
+export type RecurringMatchRow = Pick<Expense, "amount" | "date" | "description" | "merchantId" | "accountId">;
+
+const toCents = (amount: string) => Math.round(parseFloat(amount) * 100);
+
+// Pairs expenses booked for a recurring expense with the statement rows that paid them. It works both ways:
+// a new statement row against booked occurrences that no statement has paid yet, and an occurrence about to
+// be booked against imported rows that aren't linked to a recurring expense yet.
+export class RecurringMatcher {
+  private candidates: Expense[];
+  private matchedIds = new Set<string>();
+
+  constructor(candidates: Expense[]) {
+    this.candidates = candidates;
+  }
+
+  // Date range of expenses that need to be loaded to match rows on the given dates
+  static getCandidateRange(dates: (Date | string)[]): { startDate: Date; endDate: Date } | null {
+    const times = dates.map(date => new Date(date).getTime()).filter(time => !isNaN(time));
+    if (times.length === 0) return null;
+
+    return {
+      startDate: new Date(Math.min(...times) - MATCH_WINDOW_DAYS * DAY_MS),
+      endDate: new Date(Math.max(...times) + MATCH_WINDOW_DAYS * DAY_MS),
+    };
+  }
+
+  // A candidate matches when it is within the window, on the same account (where both have one) and close
+  // in amount. Amounts that are only close also need the same merchant or a shared description word.
+  // The nearest date wins, then the nearest amount; every candidate is matched at most once.
+  findMatch(row: RecurringMatchRow): Expense | null {
+    const rowCents = toCents(row.amount);
+    const rowTime = new Date(row.date).getTime();
+    const rowDescription = normalizeDescription(row.description);
+    let best: { candidate: Expense; daysApart: number; centsApart: number } | null = null;
+
+    for (const candidate of this.candidates) {
+      if (this.matchedIds.has(candidate.id)) continue;
+      if (row.accountId && candidate.accountId && row.accountId !== candidate.accountId) continue;
+
+      const daysApart = Math.abs(new Date(candidate.date).getTime() - rowTime) / DAY_MS;
+      if (daysApart > MATCH_WINDOW_DAYS) continue;
+
+      const candidateCents = toCents(candidate.amount);
+      if (Math.sign(candidateCents) !== Math.sign(rowCents)) continue;
+      const centsApart = Math.abs(candidateCents - rowCents);
+      if (centsApart > Math.abs(rowCents) * AMOUNT_TOLERANCE) continue;
+
+      const sameMerchant = row.merchantId !== null && row.merchantId === candidate.merchantId;
+      const similar = sameMerchant
+        || descriptionsOverlap(row.description, normalizeDescription(candidate.description))
+        || descriptionsOverlap(candidate.description, rowDescription);
+      if (centsApart > 0 && !similar) continue;
+
+      if (!best || daysApart < best.daysApart || (daysApart === best.daysApart && centsApart < best.centsApart)) {
+        best = { candidate, daysApart, centsApart };
+      }
+    }
+
+    if (!best) return null;
+    this.matchedIds.add(best.candidate.id);
+    return best.candidate;
+  }
+}
@@ -0,0 +1,60 @@
+import type { Expense } from "@shared/schema";
+import { isRefund } from "@shared/spending";
+
+// Returns are usually credited within a few weeks; longer gaps are more likely an unrelated refund
+const REFUND_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A refund may not be saved yet, so it has no id
+export type RefundCandidate = Pick<Expense, "amount" | "type" | "merchantId" | "date"> & { id?: string };
+
+const toCents = (amount: string) => Math.round(parseFloat(amount) * 100);
+
+// Finds the purchase a refund most likely returns: same merchant, no more than what is left
+// of the charge after earlier refunds, and charged within the window before the refund
+export class RefundMatcher {
+  private charges: Expense[];
+  private refundedCents = new Map<string, number>();
+
+  constructor(expenses: Expense[]) {
+    this.charges = expenses.filter(expense => expense.merchantId && expense.type === "expense" && toCents(expense.amount) > 0);
+
+    for (const expense of expenses) {
+      if (expense.refundOfExpenseId && isRefund(expense)) {
+        this.addRefunded(expense.refundOfExpenseId, -toCents(expense.amount));
+      }
+    }
+  }
+
+  // Prefers a charge of exactly the refunded amount over a partial refund, then the most recent charge
+  findOriginal(refund: RefundCandidate): Expense | null {
+    if (!refund.merchantId || !isRefund(refund)) return null;
+
+    const refundCents = -toCents(refund.amount);
+    const refundTime = new Date(refund.date).getTime();
+    let best: { charge: Expense; exact: boolean; time: number } | null = null;
+
+    for (const charge of this.charges) {
+      if (charge.merchantId !== refund.merchantId || charge.id === refund.id) continue;
+
+      const chargeTime = new Date(charge.date).getTime();
+      if (chargeTime > refundTime || refundTime - chargeTime > REFUND_WINDOW_DAYS * DAY_MS) continue;
+
+      const remainingCents = toCents(charge.amount) - (this.refundedCents.get(charge.id) || 0);
+      if (refundCents > remainingCents) continue;
+
+      const exact = refundCents === remainingCents;
+      if (!best || (exact && !best.exact) || (exact === best.exact && chargeTime > best.time)) {
+        best = { charge, exact, time: chargeTime };
+      }
+    }
+
+    if (!best) return null;
+    this.addRefunded(best.charge.id, refundCents);
+    return best.charge;
+  }
+
+  private addRefunded(chargeId: string, cents: number) {
+    this.refundedCents.set(chargeId, (this.refundedCents.get(chargeId) || 0) + cents);
+  }
+}
@@ -1,15 +1,65 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type BaseCurrencyRebase } from "./storage";
 import { 
   insertExpenseSchema, 
   insertCategorySchema, 
   insertPartnerSchema,
   insertStatementSchema,
-  insertBudgetPeriodSchema
+  insertBudgetPeriodSchema,
+  insertBudgetPeriodSeriesSchema,
+  updateBudgetPeriodSeriesSchema,
+  budgetStatusQuerySchema,
+  analyticsQuerySchema,
+  insertImportProfileSchema,
+  insertCategorizationRuleSchema,
+  insertMerchantSchema,
+  mergeMerchantsSchema,
+  insertSettlementSchema,
+  insertAccountSchema,
+  insertExchangeRateSchema,
+  insertRecurringExpenseSchema,
+  insertEnvelopeTransferSchema,
+  commitStatementSchema,
+  resolveDuplicateSchema,
+  updateStatementBalancesSchema,
+  updateHouseholdSettingsSchema,
+  type Account,
+  type BudgetPeriodSeries,
+  type Category,
+  type Expense,
+  type ImportProfile,
+  type InsertCategory,
+  type InsertEnvelopeTransfer,
+  type InsertBudgetPeriodSeries,
+  type UpdateBudgetPeriodSeries,
+  type InsertExpense,
+  type InsertStatement,
+  type Partner,
+  type PreviewTransaction,
+  type InsertRecurringExpense,
+  type RecurringExpense,
+  type SplitType,
+  type SuspectedDuplicate,
+  type TransactionType,
 } from "@shared/schema";
 import multer from "multer";
-import { StatementProcessor } from "./statement-processor";
+import { StatementProcessor, type ParsedTransaction, type StatementBalances } from "./statement-processor";
+import { DuplicateDetector } from "./duplicate-detector";
+import { decodeStatementBuffer } from "./csv-reader";
+import { createCategorizer } from "./categorizers";
+import { LearnedRuleMatcher, getMerchantKey } from "./learned-rules";
+import { RuleEngine, getRuleValidationError, ruleMatches } from "./rule-engine";
+import { MerchantDirectory, normalizeMerchant } from "./merchants";
+import { RefundMatcher, type RefundCandidate } from "./refund-matcher";
+import { isRefund } from "@shared/spending";
+import { RecurringMatcher } from "./recurring-matcher";
+import { CurrencyConverter, CurrencyError, parseExchangeRateCSV } from "./currency";
+import { getDefaultSplit, getSplitValidationError, rescaleFixedShares } from "@shared/splits";
+import { getLineItemsValidationError, getMainCategoryId } from "@shared/line-items";
+import { getNextOccurrence, listOccurrences } from "@shared/recurring";
+import { getSeriesPeriod } from "@shared/budget-period-series";
+import { getBudgetStatus } from "@shared/budgets";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
@@ -17,15 +67,27 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['text/csv', 'application/csv', 'text/plain'];
-    if (allowedTypes.includes(file.mimetype) || file.originalname.endsWith('.csv')) {
+    const allowedTypes = [
+      'text/csv', 'application/csv', 'text/plain',
+      'application/x-ofx', 'application/ofx', 'application/vnd.intu.qfx',
+      'application/xml', 'text/xml',
+    ];
+    if (allowedTypes.includes(file.mimetype) || /\.(csv|ofx|qfx|xml|sta|mt940|940)$/i.test(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV files are allowed'));
+      cb(new Error('Only CSV, OFX, QFX, CAMT.053 (XML) or MT940 files are allowed'));
     }
   }
 });
 
+function getStatementFileType(fileName: string): string {
+  // QFX is Quicken's branded OFX, so both are parsed the same way
+  if (/\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  if (/\.xml$/i.test(fileName)) return 'camt';
+  if (/\.(sta|mt940|940)$/i.test(fileName)) return 'mt940';
+  return 'csv';
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Categories
   app.get("/api/categories", async (req, res) => {
@@ -39,20 +101,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/categories", async (req, res) => {
     try {
-      // Convert monthlyBudget to string if it's a number
+      // Convert monthlyBudget and envelopeCap to strings if they're numbers
       const requestData = {
         ...req.body,
         monthlyBudget: req.body.monthlyBudget !== undefined 
           ? String(req.body.monthlyBudget) 
-          : undefined
+          : undefined,
+        envelopeCap: req.body.envelopeCap !== undefined && req.body.envelopeCap !== null
+          ? String(req.body.envelopeCap)
+          : req.body.envelopeCap,
       };
       
       const result = insertCategorySchema.safeParse(requestData);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid category data", errors: result.error.errors });
       }
+
+      const splitError = getSplitValidationError(
+        result.data.defaultSplitType ?? "equal",
+        result.data.defaultSplitShares,
+      );
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const envelopeError = getEnvelopeModeError(result.data);
+      if (envelopeError) {
+        return res.status(400).json({ message: envelopeError });
+      }
       
-      const category = await storage.createCategory(result.data);
+      const category = await storage.createCategory({
+        ...result.data,
+        envelopeStartMonth: getEnvelopeStartMonth(result.data) ?? null,
+      });
       res.status(201).json(category);
     } catch (error) {
       res.status(500).json({ message: "Failed to create category" });
@@ -63,12 +144,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log("PATCH /api/categories/:id body:", req.body);
       
-      // Convert monthlyBudget to string if it's a number
+      // Convert monthlyBudget and envelopeCap to strings if they're numbers
       const requestData = {
         ...req.body,
         monthlyBudget: req.body.monthlyBudget !== undefined 
           ? String(req.body.monthlyBudget) 
-          : undefined
+          : undefined,
+        envelopeCap: req.body.envelopeCap !== undefined && req.body.envelopeCap !== null
+          ? String(req.body.envelopeCap)
+          : req.body.envelopeCap,
       };
       
       const result = insertCategorySchema.partial().safeParse(requestData);
@@ -76,8 +160,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log("Validation errors:", result.error.errors);
         return res.status(400).json({ message: "Invalid category data", errors: result.error.errors });
       }
+
+      if (result.data.defaultSplitType) {
+        const splitError = getSplitValidationError(result.data.defaultSplitType, result.data.defaultSplitShares);
+        if (splitError) {
+          return res.status(400).json({ message: splitError });
+        }
+      }
+
+      const existing = (await storage.getCategories()).find(category => category.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const envelopeError = getEnvelopeModeError(result.data, existing);
+      if (envelopeError) {
+        return res.status(400).json({ message: envelopeError });
+      }
       
-      const category = await storage.updateCategory(req.params.id, result.data);
+      const envelopeStartMonth = getEnvelopeStartMonth(result.data, existing);
+      const category = await storage.updateCategory(
+        req.params.id,
+        envelopeStartMonth !== undefined ? { ...result.data, envelopeStartMonth } : result.data,
+      );
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -173,8 +278,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result.success) {
         return res.status(400).json({ message: "Invalid expense data", errors: result.error.errors });
       }
+
+      const converted = await convertExpenseCurrency(result.data);
+      if ('error' in converted) {
+        return res.status(400).json({ message: converted.error });
+      }
+      const lineItemsError = await getExpenseLineItemsError(converted.update);
+      if (lineItemsError) {
+        return res.status(400).json({ message: lineItemsError });
+      }
+      const data = withLineItemCategory(converted.update);
       
-      const expense = await storage.createExpense(result.data);
+      // Rows entered without a split or type take them from their category
+      const category = (await storage.getCategories()).find(c => c.id === data.categoryId);
+      const split = data.splitType
+        ? { splitType: data.splitType, splitShares: data.splitShares ?? null }
+        : getDefaultSplit(category);
+      const type = data.type ?? (category?.kind as TransactionType | undefined) ?? "expense";
+      const splitError = getExpenseSplitError({ ...data, ...split });
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      // Manual entries show the account they were paid from like imported rows show their source
+      const account = data.accountId ? await storage.getAccount(data.accountId) : undefined;
+      if (data.accountId && !account) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+      const sourceLabel = data.sourceLabel ?? account?.name;
+
+      const merchantId = data.merchantId
+        ?? await resolveMerchantId(await loadMerchantDirectory(), data.description);
+      const refundOfExpenseId = data.refundOfExpenseId ?? await findRefundedExpenseId({
+        amount: data.amount,
+        type,
+        merchantId,
+        date: data.date ? new Date(data.date) : new Date(),
+      });
+      const expense = await storage.createExpense({ ...data, ...split, type, sourceLabel, merchantId, refundOfExpenseId });
       res.status(201).json(expense);
     } catch (error) {
       res.status(500).json({ message: "Failed to create expense" });
@@ -187,11 +328,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result.success) {
         return res.status(400).json({ message: "Invalid expense data", errors: result.error.errors });
       }
+
+      const existing = await storage.getExpense(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const converted = await convertExpenseCurrency(result.data, existing);
+      if ('error' in converted) {
+        return res.status(400).json({ message: converted.error });
+      }
+      const lineItemsError = await getExpenseLineItemsError(converted.update, existing);
+      if (lineItemsError) {
+        return res.status(400).json({ message: lineItemsError });
+      }
+      const update = withLineItemCategory(converted.update);
+
+      const splitError = getExpenseSplitError(update, existing);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const refundLinkError = await getRefundLinkError(update, existing);
+      if (refundLinkError) {
+        return res.status(400).json({ message: refundLinkError });
+      }
       
-      const expense = await storage.updateExpense(req.params.id, result.data);
+      const expense = await storage.updateExpense(req.params.id, update);
       if (!expense) {
         return res.status(404).json({ message: "Expense not found" });
       }
+
+      if (update.categoryId || update.isVerified === 'verified') {
+        await learnCategoryRule(expense);
+      }
       
       res.json(expense);
     } catch (error) {
@@ -243,28 +413,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { source, defaultPartnerId } = req.body;
+      const { profileId, accountId, mode } = req.body;
+      // In preview mode parsed rows are held on the statement until they are reviewed and committed
+      const preview = mode === 'preview';
+      let { source, defaultPartnerId } = req.body;
+
+      let account: Account | undefined;
+      if (accountId) {
+        account = await storage.getAccount(accountId);
+        if (!account) {
+          return res.status(400).json({ message: "Account not found" });
+        }
+        defaultPartnerId = defaultPartnerId || getSoleOwnerId(account);
+      }
+
+      // A saved import profile replaces the built-in source formats
+      let profile: ImportProfile | undefined;
+      if (profileId) {
+        profile = await storage.getImportProfile(profileId);
+        if (!profile) {
+          return res.status(400).json({ message: "Import profile not found" });
+        }
+        source = profile.name;
+      }
       
       if (!source) {
-        return res.status(400).json({ message: "Source is required (e.g., 'amex', 'chase', 'bank')" });
+        return res.status(400).json({ message: "Source or import profile is required (e.g., 'amex', 'chase', 'bank')" });
       }
 
+      const fileType = getStatementFileType(req.file.originalname);
+
       // Create statement record
       const statement = await storage.createStatement({
         fileName: req.file.originalname,
-        fileType: 'csv',
+        fileType,
         source: source.toLowerCase(),
         status: 'processing',
         totalTransactions: 0,
         processedTransactions: 0,
         errorMessage: null,
+        accountId: account?.id ?? null,
       });
 
       // Process the file asynchronously
-      processStatementAsync(req.file.buffer.toString('utf8'), statement.id, source, defaultPartnerId);
+      processStatementAsync(decodeStatementBuffer(req.file.buffer).content, statement.id, source, fileType, defaultPartnerId, profile, preview);
 
       res.status(201).json({
-        message: 'Statement uploaded successfully. Processing started.',
+        message: preview
+          ? 'Statement uploaded successfully. Preparing preview.'
+          : 'Statement uploaded successfully. Processing started.',
         statementId: statement.id
       });
     } catch (error) {
@@ -285,10 +482,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/statements/:id/preview", async (req, res) => {
+    try {
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      if (statement.status !== 'preview') {
+        return res.status(400).json({ message: "Statement is not awaiting review" });
+      }
+      res.json(statement.previewTransactions || []);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement preview" });
+    }
+  });
+
+  app.post("/api/statements/:id/commit", async (req, res) => {
+    try {
+      const result = commitStatementSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid preview data", errors: result.error.errors });
+      }
+
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      if (statement.status !== 'preview') {
+        return res.status(400).json({ message: "Statement is not awaiting review" });
+      }
+
+      await storage.updateStatement(statement.id, {
+        status: 'processing',
+        totalTransactions: result.data.transactions.length,
+        processedTransactions: 0,
+      });
+
+      importStatementTransactions(statement.id, result.data.transactions);
+
+      res.json({ message: `Importing ${result.data.transactions.length} transactions.` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to commit statement" });
+    }
+  });
+
+  app.post("/api/statements/:id/duplicates/:transactionId", async (req, res) => {
+    try {
+      const result = resolveDuplicateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid duplicate resolution", errors: result.error.errors });
+      }
+
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const duplicates = statement.suspectedDuplicates || [];
+      const duplicate = duplicates.find(d => d.transaction.id === req.params.transactionId);
+      if (!duplicate) {
+        return res.status(404).json({ message: "Suspected duplicate not found" });
+      }
+      if (duplicate.resolution) {
+        return res.status(400).json({ message: "Duplicate has already been resolved" });
+      }
+
+      const { transaction } = duplicate;
+      let processedTransactions = statement.processedTransactions || 0;
+
+      if (result.data.action === 'merge') {
+        // Keep the existing expense (and any edits made to it) but attach the bank details; it now
+        // counts as this statement's row
+        const bankDetails: Partial<InsertExpense> = {
+          statementId: statement.id,
+          originalAmount: transaction.originalAmount || transaction.amount.toString(),
+        };
+        if (transaction.externalId) bankDetails.externalId = transaction.externalId;
+        if (transaction.sourceLabel) bankDetails.sourceLabel = transaction.sourceLabel;
+        if (statement.accountId) bankDetails.accountId = statement.accountId;
+
+        const existing = await storage.updateExpense(duplicate.expenseId, bankDetails);
+        if (!existing) {
+          return res.status(404).json({ message: "Matched expense no longer exists" });
+        }
+        processedTransactions++;
+      } else if (result.data.action === 'import') {
+        const expense = await createExpenseFromTransaction(
+          statement.id,
+          transaction,
+          await loadMerchantDirectory(),
+          await storage.getCategories(),
+          statement.accountId ? await storage.getAccount(statement.accountId) : undefined,
+          await loadCurrencyConverter(),
+        );
+        await linkRefunds([expense]);
+        processedTransactions++;
+      }
+
+      const resolution = result.data.action === 'skip' ? 'skipped'
+        : result.data.action === 'merge' ? 'merged'
+        : 'imported';
+
+      const updated = await storage.updateStatement(statement.id, {
+        processedTransactions,
+        suspectedDuplicates: duplicates.map(d =>
+          d === duplicate ? { ...d, resolution } : d
+        ),
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve duplicate" });
+    }
+  });
+
+  app.post("/api/statements/:id/discard", async (req, res) => {
+    try {
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      if (statement.status !== 'preview') {
+        return res.status(400).json({ message: "Statement is not awaiting review" });
+      }
+
+      const updated = await storage.updateStatement(statement.id, {
+        status: 'discarded',
+        previewTransactions: null,
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard statement" });
+    }
+  });
+
+  // Balances entered by hand complete or correct what the statement file provided
+  app.patch("/api/statements/:id/balances", async (req, res) => {
+    try {
+      const result = updateStatementBalancesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid balance data", errors: result.error.errors });
+      }
+
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const { accountId, periodStart, periodEnd, ...amounts } = result.data;
+      if (accountId && !await storage.getAccount(accountId)) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      const update: Partial<InsertStatement> = { ...amounts, balanceSource: 'manual' };
+      if (accountId !== undefined) update.accountId = accountId;
+      if (periodStart !== undefined) update.periodStart = periodStart ? new Date(periodStart) : null;
+      if (periodEnd !== undefined) update.periodEnd = periodEnd ? new Date(periodEnd) : null;
+
+      const updated = await storage.updateStatement(statement.id, update);
+
+      // Rows imported before the statement was assigned to an account move along with it
+      if (accountId) {
+        for (const expense of await storage.getExpensesByStatement(statement.id)) {
+          if (!expense.accountId) {
+            await storage.updateExpense(expense.id, { accountId });
+          }
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update statement balances" });
+    }
+  });
+
   // Analytics
   app.get("/api/analytics/spending-by-category", async (req, res) => {
     try {
-      const data = await storage.getSpendingByCategory();
+      const result = analyticsQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid analytics query", errors: result.error.errors });
+      }
+
+      const data = await storage.getSpendingByCategory(result.data.refundMode);
       res.json(data);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch spending data" });
@@ -297,7 +672,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/analytics/monthly-spending", async (req, res) => {
     try {
-      const data = await storage.getMonthlySpending();
+      const result = analyticsQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid analytics query", errors: result.error.errors });
+      }
+
+      const data = await storage.getMonthlySpending(result.data.refundMode);
       res.json(data);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch monthly spending data" });
@@ -320,11 +700,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result.success) {
         return res.status(400).json({ message: "Invalid expense data", errors: result.error.errors });
       }
+
+      const existing = await storage.getExpense(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const converted = await convertExpenseCurrency(result.data, existing);
+      if ('error' in converted) {
+        return res.status(400).json({ message: converted.error });
+      }
+      const lineItemsError = await getExpenseLineItemsError(converted.update, existing);
+      if (lineItemsError) {
+        return res.status(400).json({ message: lineItemsError });
+      }
+      const update = withLineItemCategory(converted.update);
+
+      const splitError = getExpenseSplitError(update, existing);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const refundLinkError = await getRefundLinkError(update, existing);
+      if (refundLinkError) {
+        return res.status(400).json({ message: refundLinkError });
+      }
       
-      const expense = await storage.updateExpense(req.params.id, result.data);
+      const expense = await storage.updateExpense(req.params.id, update);
       if (!expense) {
         return res.status(404).json({ message: "Expense not found" });
       }
+
+      if (update.categoryId || update.isVerified === 'verified') {
+        await learnCategoryRule(expense);
+      }
       
       res.json(expense);
     } catch (error) {
@@ -346,6 +755,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!expense) {
         return res.status(404).json({ message: "Expense not found" });
       }
+
+      if (expense.isVerified === 'verified') {
+        await learnCategoryRule(expense);
+      }
       
       res.json(expense);
     } catch (error) {
@@ -383,8 +796,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result.success) {
         return res.status(400).json({ message: "Invalid budget period data", errors: result.error.errors });
       }
+
+      const existing = (await storage.getBudgetPeriods()).find(period => period.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Budget period not found" });
+      }
       
-      const budgetPeriod = await storage.updateBudgetPeriod(req.params.id, result.data);
+      // A period of a series edited on its own keeps its values when the whole series is edited later
+      const budgetPeriod = await storage.updateBudgetPeriod(
+        req.params.id,
+        existing.seriesId ? { ...result.data, isCustomized: 1 } : result.data,
+      );
       if (!budgetPeriod) {
         return res.status(404).json({ message: "Budget period not found" });
       }
@@ -408,161 +830,1674 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Statement upload and processing routes
-  app.post("/api/statements/upload", upload.single('file'), async (req, res) => {
+  // Budget period series
+  app.get("/api/budget-period-series", async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const series = await storage.getBudgetPeriodSeriesList();
+      res.json(series);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget period series" });
+    }
+  });
+
+  app.post("/api/budget-period-series", async (req, res) => {
+    try {
+      const result = insertBudgetPeriodSeriesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid budget period series data", errors: result.error.errors });
       }
 
-      const { source, partnerId } = req.body;
-      if (!source) {
-        return res.status(400).json({ message: "Source is required" });
+      const seriesError = await getBudgetPeriodSeriesError(result.data);
+      if (seriesError) {
+        return res.status(400).json({ message: seriesError });
       }
 
-      const csvContent = req.file.buffer.toString('utf8');
-      
-      // Create statement record
-      const statementData = {
-        fileName: req.file.originalname,
-        fileType: 'csv',
-        source: source.toLowerCase(),
-        status: 'pending' as const,
-      };
+      const series = await storage.createBudgetPeriodSeries(result.data);
+      await queueBudgetPeriodGeneration();
+      res.status(201).json(series);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create budget period series" });
+    }
+  });
 
-      const result = insertStatementSchema.safeParse(statementData);
+  app.patch("/api/budget-period-series/:id", async (req, res) => {
+    try {
+      const result = updateBudgetPeriodSeriesSchema.safeParse(req.body);
       if (!result.success) {
-        return res.status(400).json({ 
-          message: "Invalid statement data", 
-          errors: result.error.errors 
-        });
+        return res.status(400).json({ message: "Invalid budget period series data", errors: result.error.errors });
       }
 
-      const statement = await storage.createStatement(result.data);
+      const existing = await storage.getBudgetPeriodSeries(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Budget period series not found" });
+      }
 
-      // Process statement asynchronously
-      processStatementAsync(csvContent, statement.id, source, partnerId);
+      const seriesError = await getBudgetPeriodSeriesError(result.data, existing);
+      if (seriesError) {
+        return res.status(400).json({ message: seriesError });
+      }
 
-      res.status(201).json({ 
-        statementId: statement.id,
-        message: "Statement uploaded successfully. Processing started." 
-      });
+      const series = await storage.updateBudgetPeriodSeries(req.params.id, result.data);
+      if (!series) {
+        return res.status(404).json({ message: "Budget period series not found" });
+      }
+
+      const updated = await updateSeriesPeriods(series, result.data);
+      await queueBudgetPeriodGeneration();
+      res.json(updated);
     } catch (error) {
-      console.error('Statement upload error:', error);
-      res.status(500).json({ message: "Failed to upload statement" });
+      res.status(500).json({ message: "Failed to update budget period series" });
     }
   });
 
-  app.get("/api/statements", async (req, res) => {
+  app.delete("/api/budget-period-series/:id", async (req, res) => {
     try {
-      const statements = await storage.getStatements();
-      res.json(statements);
+      const deleted = await storage.deleteBudgetPeriodSeries(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Budget period series not found" });
+      }
+
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch statements" });
+      res.status(500).json({ message: "Failed to delete budget period series" });
     }
   });
 
-  app.get("/api/statements/:id", async (req, res) => {
+  // Budget status: every screen takes its budget numbers from here
+  app.get("/api/budgets/status", async (req, res) => {
     try {
-      const statement = await storage.getStatement(req.params.id);
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
+      const result = budgetStatusQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid budget status query", errors: result.error.errors });
       }
-      res.json(statement);
+
+      const { from, to, refundMode } = result.data;
+      const [categories, expenses, budgetPeriods, envelopeTransfers] = await Promise.all([
+        storage.getCategories(),
+        storage.getExpenses(),
+        storage.getBudgetPeriods(),
+        storage.getEnvelopeTransfers(),
+      ]);
+      res.json(getBudgetStatus({ categories, expenses, budgetPeriods, envelopeTransfers }, from, to, refundMode));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch statement" });
+      res.status(500).json({ message: "Failed to fetch budget status" });
     }
   });
 
-  app.get("/api/statements/:id/expenses", async (req, res) => {
+  // Import profile routes
+  app.get("/api/import-profiles", async (req, res) => {
     try {
-      const expenses = await storage.getExpensesByStatement(req.params.id);
-      res.json(expenses);
+      const profiles = await storage.getImportProfiles();
+      res.json(profiles);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch statement expenses" });
+      res.status(500).json({ message: "Failed to fetch import profiles" });
     }
   });
 
-  app.patch("/api/expenses/:id/verify", async (req, res) => {
+  app.post("/api/import-profiles", async (req, res) => {
     try {
-      const { isVerified } = req.body;
-      if (!['pending', 'verified', 'rejected'].includes(isVerified)) {
-        return res.status(400).json({ message: "Invalid verification status" });
+      const result = insertImportProfileSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid import profile data", errors: result.error.errors });
       }
 
-      const updated = await storage.updateExpense(req.params.id, { isVerified });
-      if (!updated) {
-        return res.status(404).json({ message: "Expense not found" });
+      const columnsError = getImportProfileColumnsError(result.data);
+      if (columnsError) {
+        return res.status(400).json({ message: columnsError });
       }
       
-      res.json(updated);
+      const profile = await storage.createImportProfile(result.data);
+      res.status(201).json(profile);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update expense verification" });
+      res.status(500).json({ message: "Failed to create import profile" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
-
-// Async function to process uploaded statements
-async function processStatementAsync(
-  csvContent: string, 
-  statementId: string, 
-  source: string, 
-  defaultPartnerId?: string
-) {
-  try {
-    console.log(`Processing statement ${statementId} from ${source}`);
-    
-    // Update status to processing
-    await storage.updateStatement(statementId, { status: 'processing' });
+  app.patch("/api/import-profiles/:id", async (req, res) => {
+    try {
+      const result = insertImportProfileSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid import profile data", errors: result.error.errors });
+      }
 
-    // Get categories and partners for processing
-    const categories = await storage.getCategories();
-    const partners = await storage.getPartners();
-    
-    if (categories.length === 0) {
-      throw new Error('No categories found. Please add categories first.');
+      const existing = await storage.getImportProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      const columnsError = getImportProfileColumnsError({ ...existing, ...result.data });
+      if (columnsError) {
+        return res.status(400).json({ message: columnsError });
+      }
+      
+      const profile = await storage.updateImportProfile(req.params.id, result.data);
+      if (!profile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update import profile" });
     }
+  });
 
-    const processor = new StatementProcessor(categories, partners);
-    const transactions = await processor.parseCSVStatement(csvContent, source);
-
-    console.log(`Parsed ${transactions.length} transactions`);
+  app.delete("/api/import-profiles/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteImportProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import profile" });
+    }
+  });
+
+  // Learned category rules
+  app.get("/api/learned-rules", async (req, res) => {
+    try {
+      const rules = await storage.getLearnedCategoryRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch learned rules" });
+    }
+  });
+
+  app.delete("/api/learned-rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteLearnedCategoryRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Learned rule not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete learned rule" });
+    }
+  });
+
+  // Categorization rules
+  app.get("/api/categorization-rules", async (req, res) => {
+    try {
+      const rules = await storage.getCategorizationRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch categorization rules" });
+    }
+  });
+
+  app.post("/api/categorization-rules", async (req, res) => {
+    try {
+      const result = insertCategorizationRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid categorization rule data", errors: result.error.errors });
+      }
+
+      const validationError = getRuleValidationError(result.data);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const rule = await storage.createCategorizationRule(result.data);
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create categorization rule" });
+    }
+  });
+
+  // Shows which existing expenses a (possibly unsaved) rule would match
+  app.post("/api/categorization-rules/test", async (req, res) => {
+    try {
+      const result = insertCategorizationRuleSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid categorization rule data", errors: result.error.errors });
+      }
+
+      // Expenses don't keep the cardholder, so that condition can only be checked on import
+      const conditions = { ...result.data, cardholderName: null };
+      const expenses = await storage.getExpenses();
+      const matches = expenses.filter(expense => ruleMatches(conditions, {
+        description: expense.description,
+        amount: parseFloat(expense.amount),
+        sourceLabel: expense.sourceLabel,
+      }));
+
+      res.json({ matchCount: matches.length, matches: matches.slice(0, 50) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to test categorization rule" });
+    }
+  });
+
+  app.patch("/api/categorization-rules/:id", async (req, res) => {
+    try {
+      const result = insertCategorizationRuleSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid categorization rule data", errors: result.error.errors });
+      }
+
+      const existing = (await storage.getCategorizationRules()).find(rule => rule.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Categorization rule not found" });
+      }
+
+      const validationError = getRuleValidationError({ ...existing, ...result.data });
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const rule = await storage.updateCategorizationRule(req.params.id, result.data);
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update categorization rule" });
+    }
+  });
+
+  app.delete("/api/categorization-rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteCategorizationRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Categorization rule not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete categorization rule" });
+    }
+  });
+
+  // Merchants
+  app.get("/api/merchants", async (req, res) => {
+    try {
+      const [merchants, expenses] = await Promise.all([storage.getMerchants(), storage.getExpenses()]);
+      const expenseCounts = new Map<string, number>();
+      for (const expense of expenses) {
+        if (expense.merchantId) {
+          expenseCounts.set(expense.merchantId, (expenseCounts.get(expense.merchantId) || 0) + 1);
+        }
+      }
+      res.json(merchants.map(merchant => ({ ...merchant, expenseCount: expenseCounts.get(merchant.id) || 0 })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch merchants" });
+    }
+  });
+
+  app.patch("/api/merchants/:id", async (req, res) => {
+    try {
+      const result = insertMerchantSchema.pick({ name: true }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid merchant data", errors: result.error.errors });
+      }
+
+      const merchant = await storage.updateMerchant(req.params.id, result.data);
+      if (!merchant) {
+        return res.status(404).json({ message: "Merchant not found" });
+      }
+
+      res.json(merchant);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update merchant" });
+    }
+  });
+
+  app.post("/api/merchants/merge", async (req, res) => {
+    try {
+      const result = mergeMerchantsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid merge request", errors: result.error.errors });
+      }
+
+      const { targetId, sourceIds, name } = result.data;
+      let merchant = await storage.mergeMerchants(targetId, sourceIds);
+      if (!merchant) {
+        return res.status(404).json({ message: "Merchant not found" });
+      }
+      if (name && name !== merchant.name) {
+        merchant = await storage.updateMerchant(targetId, { name });
+      }
+
+      res.json(merchant);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to merge merchants" });
+    }
+  });
+
+  // Links expenses recorded before merchants existed
+  app.post("/api/merchants/link-expenses", async (req, res) => {
+    try {
+      const directory = await loadMerchantDirectory();
+      const unlinked = (await storage.getExpenses()).filter(expense => !expense.merchantId);
+      let linked = 0;
+
+      for (const expense of unlinked) {
+        const merchantId = await resolveMerchantId(directory, expense.description);
+        if (merchantId) {
+          await storage.updateExpense(expense.id, { merchantId });
+          linked++;
+        }
+      }
+
+      res.json({ linked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to link expenses to merchants" });
+    }
+  });
+
+  // Links refunds recorded before refund matching existed, or imported before their original charge
+  app.post("/api/expenses/match-refunds", async (req, res) => {
+    try {
+      const linked = await linkRefunds(await storage.getExpenses());
+      res.json({ linked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to match refunds" });
+    }
+  });
+
+  // Accounts
+  app.get("/api/accounts", async (req, res) => {
+    try {
+      const accounts = await storage.getAccounts();
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", async (req, res) => {
+    try {
+      const result = insertAccountSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid account data", errors: result.error.errors });
+      }
+
+      const ownerError = await getAccountOwnerError(result.data.ownerPartnerIds);
+      if (ownerError) {
+        return res.status(400).json({ message: ownerError });
+      }
+
+      const account = await storage.createAccount(result.data);
+      res.status(201).json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  // Creates an account for each free-text source label used before accounts existed and links its expenses
+  app.post("/api/accounts/from-sources", async (req, res) => {
+    try {
+      const partners = await storage.getPartners();
+      if (partners.length === 0) {
+        return res.status(400).json({ message: "Add a partner before creating accounts" });
+      }
+
+      const existing = await storage.getAccounts();
+      const accountsByName = new Map(existing.map(account => [account.name.toLowerCase(), account]));
+      let created = 0;
+      let linked = 0;
+
+      for (const expense of await storage.getExpenses()) {
+        const label = expense.sourceLabel?.trim();
+        if (expense.accountId || !label) continue;
+
+        let account = accountsByName.get(label.toLowerCase());
+        if (!account) {
+          account = await storage.createAccount({
+            name: label,
+            type: /amex|american express|visa|mastercard|credit/i.test(label) ? "credit_card" : "checking",
+            ownerPartnerIds: partners.map(partner => partner.id),
+          });
+          accountsByName.set(label.toLowerCase(), account);
+          created++;
+        }
+
+        await storage.updateExpense(expense.id, { accountId: account.id });
+        linked++;
+      }
+
+      res.json({ created, linked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create accounts from sources" });
+    }
+  });
+
+  app.patch("/api/accounts/:id", async (req, res) => {
+    try {
+      const result = insertAccountSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid account data", errors: result.error.errors });
+      }
+
+      if (result.data.ownerPartnerIds) {
+        const ownerError = await getAccountOwnerError(result.data.ownerPartnerIds);
+        if (ownerError) {
+          return res.status(400).json({ message: ownerError });
+        }
+      }
+
+      const account = await storage.updateAccount(req.params.id, result.data);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteAccount(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Settlements
+  app.get("/api/settlements", async (req, res) => {
+    try {
+      const settlements = await storage.getSettlements();
+      res.json(settlements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settlements" });
+    }
+  });
+
+  app.post("/api/settlements", async (req, res) => {
+    try {
+      const requestData = {
+        ...req.body,
+        amount: req.body.amount !== undefined ? String(req.body.amount) : undefined,
+      };
+
+      const result = insertSettlementSchema.safeParse(requestData);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid settlement data", errors: result.error.errors });
+      }
+
+      const settlement = await storage.createSettlement(result.data);
+      res.status(201).json(settlement);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create settlement" });
+    }
+  });
+
+  app.delete("/api/settlements/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteSettlement(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Settlement not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete settlement" });
+    }
+  });
+
+  // Envelope transfers
+  app.get("/api/envelope-transfers", async (req, res) => {
+    try {
+      const transfers = await storage.getEnvelopeTransfers();
+      res.json(transfers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch envelope transfers" });
+    }
+  });
+
+  app.post("/api/envelope-transfers", async (req, res) => {
+    try {
+      const requestData = {
+        ...req.body,
+        amount: req.body.amount !== undefined ? String(req.body.amount) : undefined,
+      };
+
+      const result = insertEnvelopeTransferSchema.safeParse(requestData);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid envelope transfer data", errors: result.error.errors });
+      }
+
+      const envelopeError = await getEnvelopeTransferError(result.data);
+      if (envelopeError) {
+        return res.status(400).json({ message: envelopeError });
+      }
+
+      const transfer = await storage.createEnvelopeTransfer(result.data);
+      res.status(201).json(transfer);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to move money between envelopes" });
+    }
+  });
+
+  // Recurring expenses
+  app.get("/api/recurring-expenses", async (req, res) => {
+    try {
+      const recurringExpenses = await storage.getRecurringExpenses();
+      res.json(recurringExpenses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring expenses" });
+    }
+  });
+
+  app.post("/api/recurring-expenses", async (req, res) => {
+    try {
+      const result = insertRecurringExpenseSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid recurring expense data", errors: result.error.errors });
+      }
+
+      const recurringExpenseError = await getRecurringExpenseError(result.data);
+      if (recurringExpenseError) {
+        return res.status(400).json({ message: recurringExpenseError });
+      }
+
+      // Occurrences before today are left to be entered or imported like before
+      const created = await storage.createRecurringExpense({
+        ...result.data,
+        nextDueDate: getNextOccurrence(toSchedule(result.data), getStartOfToday()),
+      });
+      await queueRecurringBooking();
+
+      res.status(201).json(await storage.getRecurringExpense(created.id) ?? created);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create recurring expense" });
+    }
+  });
+
+  app.patch("/api/recurring-expenses/:id", async (req, res) => {
+    try {
+      const result = insertRecurringExpenseSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid recurring expense data", errors: result.error.errors });
+      }
+
+      const existing = await storage.getRecurringExpense(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring expense not found" });
+      }
+
+      const recurringExpenseError = await getRecurringExpenseError(result.data, existing);
+      if (recurringExpenseError) {
+        return res.status(400).json({ message: recurringExpenseError });
+      }
+
+      const nextDueDate = getRescheduledDueDate(result.data, existing);
+      const update = nextDueDate !== undefined ? { ...result.data, nextDueDate } : result.data;
+
+      const updated = await storage.updateRecurringExpense(req.params.id, update);
+      if (!updated) {
+        return res.status(404).json({ message: "Recurring expense not found" });
+      }
+      await queueRecurringBooking();
+
+      res.json(await storage.getRecurringExpense(updated.id) ?? updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update recurring expense" });
+    }
+  });
+
+  app.delete("/api/recurring-expenses/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteRecurringExpense(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recurring expense not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurring expense" });
+    }
+  });
+
+  // Exchange rates
+  app.get("/api/exchange-rates", async (req, res) => {
+    try {
+      const rates = await storage.getExchangeRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  app.post("/api/exchange-rates", async (req, res) => {
+    try {
+      const result = insertExchangeRateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid exchange rate data", errors: result.error.errors });
+      }
+
+      const [rate] = await storage.saveExchangeRates([result.data]);
+      res.status(201).json(rate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save exchange rate" });
+    }
+  });
+
+  // Takes a CSV file with date,from,to,rate rows; rates for a day and pair already known are replaced
+  app.post("/api/exchange-rates/import", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { content } = decodeStatementBuffer(req.file.buffer);
+      const { rates, errors } = parseExchangeRateCSV(content);
+      if (rates.length === 0) {
+        return res.status(400).json({ message: "No exchange rates found in file", errors });
+      }
+
+      const saved = await storage.saveExchangeRates(rates);
+      res.json({ imported: saved.length, errors });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import exchange rates" });
+    }
+  });
+
+  app.delete("/api/exchange-rates/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteExchangeRate(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Exchange rate not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete exchange rate" });
+    }
+  });
+
+  // Household settings
+  app.get("/api/settings/household", async (req, res) => {
+    try {
+      const settings = await storage.getHouseholdSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch household settings" });
+    }
+  });
+
+  app.patch("/api/settings/household", async (req, res) => {
+    try {
+      const result = updateHouseholdSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid settings data", errors: result.error.errors });
+      }
+
+      const current = await storage.getHouseholdSettings();
+      if (result.data.baseCurrency && result.data.baseCurrency !== current.baseCurrency) {
+        const rebase = await getBaseCurrencyRebase(current.baseCurrency, result.data.baseCurrency);
+        if ("error" in rebase) {
+          return res.status(400).json({ message: rebase.error });
+        }
+        return res.json(await storage.rebaseCurrency(rebase.rebase, result.data));
+      }
+
+      const settings = await storage.updateHouseholdSettings(result.data);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update household settings" });
+    }
+  });
+
+  // Runs one description through the configured categorizer so the setup can be checked
+  app.post("/api/settings/household/test-categorizer", async (req, res) => {
+    try {
+      const description = typeof req.body.description === 'string' ? req.body.description.trim() : '';
+      if (!description) {
+        return res.status(400).json({ message: "Description is required" });
+      }
+
+      const categories = await storage.getCategories();
+      const categorizer = await loadHouseholdCategorizer(categories);
+      if (!categorizer) {
+        return res.json({ provider: null, suggestion: null });
+      }
+
+      try {
+        const suggestion = await categorizer.categorize(description);
+        res.json({ provider: categorizer.name, suggestion });
+      } catch (error) {
+        res.status(502).json({
+          message: `${categorizer.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to test categorizer" });
+    }
+  });
+
+  // Statement upload and processing routes
+  app.post("/api/statements/upload", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { source, accountId } = req.body;
+      let { partnerId } = req.body;
+      if (!source) {
+        return res.status(400).json({ message: "Source is required" });
+      }
+
+      let account: Account | undefined;
+      if (accountId) {
+        account = await storage.getAccount(accountId);
+        if (!account) {
+          return res.status(400).json({ message: "Account not found" });
+        }
+        partnerId = partnerId || getSoleOwnerId(account);
+      }
+
+      const csvContent = decodeStatementBuffer(req.file.buffer).content;
+      const fileType = getStatementFileType(req.file.originalname);
+      
+      // Create statement record
+      const statementData = {
+        fileName: req.file.originalname,
+        fileType,
+        source: source.toLowerCase(),
+        status: 'pending' as const,
+        accountId: account?.id ?? null,
+      };
+
+      const result = insertStatementSchema.safeParse(statementData);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid statement data", 
+          errors: result.error.errors 
+        });
+      }
+
+      const statement = await storage.createStatement(result.data);
+
+      // Process statement asynchronously
+      processStatementAsync(csvContent, statement.id, source, fileType, partnerId);
+
+      res.status(201).json({ 
+        statementId: statement.id,
+        message: "Statement uploaded successfully. Processing started." 
+      });
+    } catch (error) {
+      console.error('Statement upload error:', error);
+      res.status(500).json({ message: "Failed to upload statement" });
+    }
+  });
+
+  app.get("/api/statements", async (req, res) => {
+    try {
+      const statements = await storage.getStatements();
+      res.json(statements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statements" });
+    }
+  });
+
+  app.get("/api/statements/:id", async (req, res) => {
+    try {
+      const statement = await storage.getStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement" });
+    }
+  });
+
+  app.get("/api/statements/:id/expenses", async (req, res) => {
+    try {
+      const expenses = await storage.getExpensesByStatement(req.params.id);
+      res.json(expenses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement expenses" });
+    }
+  });
+
+  app.patch("/api/expenses/:id/verify", async (req, res) => {
+    try {
+      const { isVerified } = req.body;
+      if (!['pending', 'verified', 'rejected'].includes(isVerified)) {
+        return res.status(400).json({ message: "Invalid verification status" });
+      }
+
+      const updated = await storage.updateExpense(req.params.id, { isVerified });
+      if (!updated) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      if (updated.isVerified === 'verified') {
+        await learnCategoryRule(updated);
+      }
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update expense verification" });
+    }
+  });
+
+  startRecurringScheduler();
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
+
+// Async function to process uploaded statements
+async function processStatementAsync(
+  content: string, 
+  statementId: string, 
+  source: string, 
+  fileType: string,
+  defaultPartnerId?: string,
+  profile?: ImportProfile,
+  preview: boolean = false
+) {
+  try {
+    console.log(`Processing statement ${statementId} from ${source}`);
+    
+    // Update status to processing
+    await storage.updateStatement(statementId, { status: 'processing' });
+
+    // Get categories and partners for processing
+    const categories = await storage.getCategories();
+    const partners = await storage.getPartners();
+    
+    if (categories.length === 0) {
+      throw new Error('No categories found. Please add categories first.');
+    }
+
+    const categorizer = await loadHouseholdCategorizer(categories);
+    const learnedRules = await loadLearnedRules(categories);
+    const ruleEngine = await loadRuleEngine(categories, partners);
+    const processor = new StatementProcessor(categories, partners, categorizer, learnedRules, ruleEngine);
+    const transactions = await processor.parseStatement(content, source, fileType, profile);
+
+    console.log(`Parsed ${transactions.length} transactions, ${processor.parseErrors.length} unparseable rows`);
+
+    if (processor.parseErrors.length > 0) {
+      await storage.updateStatement(statementId, { parseErrors: processor.parseErrors });
+    }
+
+    if (processor.balances) {
+      await storage.updateStatement(statementId, toStatementBalances(processor.balances));
+    }
+
+    const rows = transactions.map((transaction, index) =>
+      toPreviewTransaction(transaction, index, partners, defaultPartnerId)
+    );
+
+    if (preview) {
+      // Flag likely duplicates so they stand out during review
+      const detector = await createDuplicateDetector(statementId, rows);
+      for (const row of rows) {
+        const match = detector.findMatch(row);
+        if (match) {
+          row.duplicateOfExpenseId = match.expenseId;
+        }
+      }
+
+      await storage.updateStatement(statementId, {
+        status: 'preview',
+        totalTransactions: rows.length,
+        previewTransactions: rows,
+      });
+      console.log(`Statement ${statementId} is ready for review: ${rows.length} transactions`);
+      return;
+    }
 
     // Update total transactions
     await storage.updateStatement(statementId, { 
       totalTransactions: transactions.length 
     });
 
+    await importStatementTransactions(statementId, rows);
+  } catch (error) {
+    console.error(`Failed to process statement ${statementId}:`, error);
+    await storage.updateStatement(statementId, {
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      processedAt: new Date(),
+    });
+  }
+}
+
+// Balances read from the file are stored as they were printed; missing ones stay open for manual entry
+function toStatementBalances(balances: StatementBalances): Partial<InsertStatement> {
+  const update: Partial<InsertStatement> = { balanceSource: 'file' };
+  if (balances.openingBalance !== undefined) update.openingBalance = balances.openingBalance.toFixed(2);
+  if (balances.closingBalance !== undefined) update.closingBalance = balances.closingBalance.toFixed(2);
+  if (balances.periodStart) update.periodStart = new Date(balances.periodStart);
+  if (balances.periodEnd) update.periodEnd = new Date(balances.periodEnd);
+  return update;
+}
+
+function toPreviewTransaction(
+  transaction: ParsedTransaction,
+  index: number,
+  partners: Partner[],
+  defaultPartnerId?: string
+): PreviewTransaction {
+  return {
+    id: String(index),
+    date: transaction.date,
+    amount: transaction.amount,
+    description: transaction.description,
+    categoryId: transaction.suggestedCategoryId,
+    // For AMEX, use suggested partner from cardholder name, otherwise use default
+    partnerId: transaction.suggestedPartnerId || defaultPartnerId || partners[0]?.id || '',
+    confidence: transaction.confidence,
+    originalAmount: transaction.originalAmount,
+    sourceLabel: transaction.sourceLabel,
+    externalId: transaction.externalId,
+    cardholderName: transaction.cardholderName,
+    tags: transaction.tags,
+    excludeFromSpending: transaction.excludeFromSpending,
+    type: transaction.type,
+    currency: transaction.currency,
+    foreignAmount: transaction.foreignAmount,
+    foreignCurrency: transaction.foreignCurrency,
+  };
+}
+
+// Builds the household's configured categorizer, training the offline one on verified expenses
+async function loadHouseholdCategorizer(categories: Category[]) {
+  const settings = await storage.getHouseholdSettings();
+  const trainingExamples = settings.categorizerProvider === 'offline'
+    ? (await storage.getExpenses())
+        .filter(expense => expense.isVerified === 'verified')
+        .map(expense => ({ description: expense.description, categoryId: expense.categoryId }))
+    : [];
+  return createCategorizer(settings, categories, trainingExamples);
+}
+
+// Rules pointing at deleted categories are ignored
+async function loadLearnedRules(categories: Category[]) {
+  const categoryIds = new Set(categories.map(category => category.id));
+  const rules = await storage.getLearnedCategoryRules();
+  return new LearnedRuleMatcher(rules.filter(rule => categoryIds.has(rule.categoryId)));
+}
+
+// Actions pointing at deleted categories or partners are dropped, the rest of the rule still applies
+async function loadRuleEngine(categories: Category[], partners: Partner[]) {
+  const categoryIds = new Set(categories.map(category => category.id));
+  const partnerIds = new Set(partners.map(partner => partner.id));
+  const rules = await storage.getCategorizationRules();
+  return new RuleEngine(rules.map(rule => ({
+    ...rule,
+    setCategoryId: rule.setCategoryId && categoryIds.has(rule.setCategoryId) ? rule.setCategoryId : null,
+    setPartnerId: rule.setPartnerId && partnerIds.has(rule.setPartnerId) ? rule.setPartnerId : null,
+  })));
+}
+
+// Remembers the merchant-to-category mapping of an imported expense the user verified or corrected
+async function learnCategoryRule(expense: Expense) {
+  if (!expense.statementId) return;
+
+  const merchantKey = getMerchantKey(expense.description);
+  if (!merchantKey) return;
+
+  try {
+    await storage.upsertLearnedCategoryRule(merchantKey, expense.categoryId);
+  } catch (error) {
+    console.error(`Failed to learn category rule for "${merchantKey}":`, error);
+  }
+}
+
+// Loads existing expenses around the rows' dates, excluding the statement's own expenses
+async function createDuplicateDetector(statementId: string, transactions: PreviewTransaction[]) {
+  const range = DuplicateDetector.getCandidateRange(transactions);
+  const candidates = range
+    ? (await storage.getExpensesByDateRange(range.startDate, range.endDate))
+        .filter(expense => expense.statementId !== statementId)
+    : [];
+  return new DuplicateDetector(candidates);
+}
+
+async function loadMerchantDirectory() {
+  return new MerchantDirectory(await storage.getMerchants());
+}
+
+// Finds the merchant for a description, creating one the first time a merchant is seen
+async function resolveMerchantId(directory: MerchantDirectory, description: string): Promise<string | null> {
+  const normalized = normalizeMerchant(description);
+  if (!normalized) return null;
+
+  const existing = directory.find(normalized.key);
+  if (existing) return existing.id;
+
+  const merchant = await storage.createMerchant({ name: normalized.name, aliases: [normalized.key] });
+  directory.add(merchant);
+  return merchant.id;
+}
+
+async function createExpenseFromTransaction(
+  statementId: string,
+  transaction: PreviewTransaction,
+  merchants: MerchantDirectory,
+  categories: Category[],
+  account: Account | undefined,
+  converter: CurrencyConverter,
+) {
+  const category = categories.find(c => c.id === transaction.categoryId);
+
+  return storage.createExpense({
+    ...convertTransactionCurrency(transaction, account, converter),
+    description: transaction.description,
+    categoryId: transaction.categoryId,
+    partnerId: transaction.partnerId,
+    date: transaction.date,
+    statementId: statementId,
+    isVerified: 'pending',
+    originalAmount: transaction.originalAmount || transaction.amount.toString(),
+    sourceLabel: transaction.sourceLabel,
+    externalId: transaction.externalId,
+    tags: transaction.tags,
+    excludeFromSpending: transaction.excludeFromSpending ? 1 : 0,
+    merchantId: await resolveMerchantId(merchants, transaction.description),
+    type: transaction.type ?? (category?.kind as TransactionType | undefined) ?? "expense",
+    accountId: account?.id ?? null,
+    ...getDefaultSplit(category),
+  });
+}
+
+// A statement row is in the currency the statement states, otherwise in its account's. Card rows charged
+// abroad keep what was actually charged, at the rate the card applied.
+function convertTransactionCurrency(transaction: PreviewTransaction, account: Account | undefined, converter: CurrencyConverter) {
+  const currency = transaction.currency ?? account?.currency ?? converter.baseCurrency;
+  const converted = converter.convert(transaction.amount.toFixed(2), currency, transaction.date);
+  if (!converted) {
+    throw new CurrencyError(`No exchange rate from ${currency} to ${converter.baseCurrency}`);
+  }
+
+  const { foreignAmount, foreignCurrency } = transaction;
+  if (foreignAmount && foreignCurrency && foreignCurrency !== converter.baseCurrency) {
+    const rate = Math.abs(parseFloat(converted.amount) / foreignAmount);
+    return {
+      amount: converted.amount,
+      currency: foreignCurrency,
+      foreignAmount: (Math.sign(parseFloat(converted.amount)) * Math.abs(foreignAmount)).toFixed(2),
+      exchangeRate: (Math.round(rate * 1e6) / 1e6).toString(),
+    };
+  }
+  return { ...converted, currency };
+}
+
+async function loadCurrencyConverter() {
+  const settings = await storage.getHouseholdSettings();
+  return new CurrencyConverter(await storage.getExchangeRates(), settings.baseCurrency);
+}
+
+// Amounts are entered in the expense's own currency and stored in the base currency, along with the original
+// amount and the rate used. Updates that change neither amount, currency, date nor rate keep the stored conversion.
+async function convertExpenseCurrency<T extends Partial<InsertExpense>>(
+  update: T,
+  existing?: Expense,
+): Promise<{ update: T } | { error: string }> {
+  const changesAmount = update.amount !== undefined || update.currency !== undefined
+    || update.date !== undefined || update.exchangeRate !== undefined;
+  if (existing && !changesAmount) {
+    return { update };
+  }
+
+  const converter = await loadCurrencyConverter();
+  const currency = update.currency ?? existing?.currency ?? converter.baseCurrency;
+  const amount = update.amount ?? existing?.foreignAmount ?? existing?.amount ?? "0";
+  const date = update.date ?? existing?.date ?? new Date();
+  // The rate stored with an expense stays until its currency or booking day changes
+  const getDay = (value: Date | string) => new Date(value).toISOString().slice(0, 10);
+  const keepsRate = existing && currency === existing.currency
+    && (update.date === undefined || getDay(update.date) === getDay(existing.date));
+  const explicitRate = update.exchangeRate !== undefined ? update.exchangeRate : keepsRate ? existing.exchangeRate : null;
+
+  const converted = converter.convert(amount, currency, date, explicitRate);
+  if (!converted) {
+    return { error: `No exchange rate from ${currency} to ${converter.baseCurrency}; import one in the settings` };
+  }
+
+  // Fixed split amounts are entered in the expense's currency like the amount itself. Stored ones are in the
+  // base currency and follow the base amount when a new date or rate restates it.
+  const splitType = update.splitType ?? existing?.splitType;
+  const shares = update.splitShares !== undefined ? update.splitShares
+    : existing?.splitType === "fixed" ? existing.splitShares : null;
+  const splitShares = splitType === "fixed" && shares && converted.foreignAmount !== null
+    ? rescaleFixedShares(shares, parseFloat(converted.amount))
+    : update.splitShares;
+
+  return { update: { ...update, ...converted, currency, splitShares } };
+}
+
+// Restates every amount kept in the base currency in a new one: expenses from their original amount, settlements,
+// envelope moves and budget periods at the rate of their day, and the budgets of categories and budget period
+// series at today's rate. Fails unless every rate needed is known.
+async function getBaseCurrencyRebase(
+  currentBase: string,
+  baseCurrency: string,
+): Promise<{ rebase: BaseCurrencyRebase } | { error: string }> {
+  const converter = new CurrencyConverter(await storage.getExchangeRates(), baseCurrency);
+  const missing = new Set<string>();
+  const today = new Date();
+
+  // Amounts in the current base currency; zero and empty ones need no rate
+  const rebaseAmount = <T extends string | null>(amount: T, date: Date): T => {
+    if (amount === null || parseFloat(amount) === 0) return amount;
+    const converted = converter.convert(amount, currentBase, date);
+    if (!converted) missing.add(currentBase);
+    return (converted?.amount ?? amount) as T;
+  };
+
+  const rebase: BaseCurrencyRebase = {
+    expenses: [],
+    settlements: [],
+    envelopeTransfers: [],
+    categories: [],
+    budgetPeriods: [],
+    budgetPeriodSeries: [],
+  };
+
+  for (const expense of await storage.getExpenses()) {
+    const converted = converter.convert(expense.foreignAmount ?? expense.amount, expense.currency, expense.date);
+    if (!converted) {
+      missing.add(expense.currency);
+      continue;
+    }
+    const splitShares = expense.splitType === "fixed" && expense.splitShares
+      ? rescaleFixedShares(expense.splitShares, parseFloat(converted.amount))
+      : expense.splitShares;
+    rebase.expenses.push({ id: expense.id, update: { ...converted, splitShares } });
+  }
+  for (const settlement of await storage.getSettlements()) {
+    rebase.settlements.push({ id: settlement.id, amount: rebaseAmount(settlement.amount, settlement.date) });
+  }
+  for (const transfer of await storage.getEnvelopeTransfers()) {
+    rebase.envelopeTransfers.push({ id: transfer.id, amount: rebaseAmount(transfer.amount, transfer.date) });
+  }
+  for (const category of await storage.getCategories()) {
+    rebase.categories.push({
+      id: category.id,
+      update: {
+        budget: rebaseAmount(category.budget, today),
+        monthlyBudget: rebaseAmount(category.monthlyBudget, today),
+        envelopeCap: rebaseAmount(category.envelopeCap, today),
+      },
+    });
+  }
+  for (const period of await storage.getBudgetPeriods()) {
+    rebase.budgetPeriods.push({ id: period.id, budgetAmount: rebaseAmount(period.budgetAmount, period.startDate) });
+  }
+  for (const series of await storage.getBudgetPeriodSeriesList()) {
+    rebase.budgetPeriodSeries.push({ id: series.id, budgetAmount: rebaseAmount(series.budgetAmount, today) });
+  }
+
+  if (missing.size > 0) {
+    return { error: `No exchange rate to ${baseCurrency} for ${Array.from(missing).join(", ")}; import one first` };
+  }
+  return { rebase };
+}
+
+// A profile needs a signed amount column or a debit and a credit column to read any amounts
+function getImportProfileColumnsError(profile: Partial<Pick<ImportProfile, "amountColumn" | "debitColumn" | "creditColumn">>): string | null {
+  const { amountColumn, debitColumn, creditColumn } = profile;
+  if (amountColumn == null && (debitColumn == null || creditColumn == null)) {
+    return "Either an amount column or both debit and credit columns are required";
+  }
+  return null;
+}
+
+// Owners must be existing partners
+async function getAccountOwnerError(ownerPartnerIds: string[]): Promise<string | null> {
+  const partners = await storage.getPartners();
+  const unknown = ownerPartnerIds.filter(id => !partners.some(partner => partner.id === id));
+  return unknown.length > 0 ? "Account owner not found" : null;
+}
+
+// Only spending categories have a budget to keep in an envelope
+function getEnvelopeModeError(update: Partial<InsertCategory>, existing?: Category): string | null {
+  const budgetMode = update.budgetMode ?? existing?.budgetMode;
+  const kind = update.kind ?? existing?.kind ?? "expense";
+  return budgetMode === "envelope" && kind !== "expense" ? "Only expense categories can be envelopes" : null;
+}
+
+// Switching to envelope mode opens the envelope this month, with nothing carried over from before.
+// Undefined when the update leaves the mode as it is.
+function getEnvelopeStartMonth(update: Partial<InsertCategory>, existing?: Category): string | null | undefined {
+  if (update.budgetMode === undefined || update.budgetMode === existing?.budgetMode) return undefined;
+  return update.budgetMode === "envelope" ? new Date().toISOString().slice(0, 7) : null;
+}
+
+// Money can only be moved between existing envelopes
+async function getEnvelopeTransferError(transfer: InsertEnvelopeTransfer): Promise<string | null> {
+  const categories = await storage.getCategories();
+  const from = categories.find(category => category.id === transfer.fromCategoryId);
+  const to = categories.find(category => category.id === transfer.toCategoryId);
+  if (!from || !to) return "Category not found";
+  if (from.budgetMode !== "envelope" || to.budgetMode !== "envelope") return "Money can only be moved between envelopes";
+  return null;
+}
+
+// Rows from a single-owner account belong to that partner unless the statement says otherwise
+function getSoleOwnerId(account: Account): string | undefined {
+  return account.ownerPartnerIds.length === 1 ? account.ownerPartnerIds[0] : undefined;
+}
+
+// Checks the line items an expense ends up with against its amount in its own currency
+async function getExpenseLineItemsError(update: Partial<InsertExpense>, existing?: Expense): Promise<string | null> {
+  const lineItems = update.lineItems !== undefined ? update.lineItems : existing?.lineItems;
+  if (!lineItems || lineItems.length === 0) return null;
+
+  const categories = await storage.getCategories();
+  if (lineItems.some(line => !categories.some(category => category.id === line.categoryId))) {
+    return "Line category not found";
+  }
+
+  const total = update.amount !== undefined
+    ? update.foreignAmount ?? update.amount
+    : existing?.foreignAmount ?? existing?.amount;
+  return getLineItemsValidationError(lineItems, parseFloat(total ?? "0"));
+}
+
+// A split expense is filed under its largest line's category wherever a single category is shown
+function withLineItemCategory<T extends Partial<InsertExpense>>(update: T): T {
+  const categoryId = update.lineItems?.length ? getMainCategoryId(update.lineItems) : undefined;
+  return categoryId ? { ...update, categoryId } : update;
+}
+
+// Checks the split an expense ends up with once the update is applied to the existing row
+function getExpenseSplitError(update: Partial<InsertExpense>, existing?: Expense): string | null {
+  const splitType = update.splitType ?? existing?.splitType ?? "equal";
+  const splitShares = update.splitShares !== undefined ? update.splitShares : existing?.splitShares;
+  const amount = update.amount ?? existing?.amount;
+  return getSplitValidationError(splitType, splitShares, amount !== undefined ? parseFloat(amount) : undefined);
+}
+
+// The charge a new refund most likely returns, or null when it isn't a refund or nothing matches
+async function findRefundedExpenseId(refund: RefundCandidate): Promise<string | null> {
+  if (!isRefund(refund)) return null;
+  return new RefundMatcher(await storage.getExpenses()).findOriginal(refund)?.id ?? null;
+}
+
+// Links each unlinked refund to its most likely original charge; returns how many were linked
+async function linkRefunds(candidates: Expense[]): Promise<number> {
+  const refunds = candidates.filter(expense => !expense.refundOfExpenseId && isRefund(expense));
+  if (refunds.length === 0) return 0;
+
+  const matcher = new RefundMatcher(await storage.getExpenses());
+  let linked = 0;
+  for (const refund of refunds) {
+    const original = matcher.findOriginal(refund);
+    if (original) {
+      await storage.updateExpense(refund.id, { refundOfExpenseId: original.id });
+      linked++;
+    }
+  }
+  return linked;
+}
+
+// A refund can only point at another existing expense
+async function getRefundLinkError(update: Partial<InsertExpense>, existing: Expense): Promise<string | null> {
+  if (!update.refundOfExpenseId) return null;
+  if (update.refundOfExpenseId === existing.id) return "An expense can't be a refund of itself";
+  const original = await storage.getExpense(update.refundOfExpenseId);
+  return original ? null : "Refunded expense not found";
+}
+
+// Checks a recurring expense as it ends up once the update is applied to the existing one
+async function getRecurringExpenseError(
+  update: Partial<InsertRecurringExpense>,
+  existing?: RecurringExpense,
+): Promise<string | null> {
+  if (update.categoryId && !(await storage.getCategories()).some(category => category.id === update.categoryId)) {
+    return "Category not found";
+  }
+  if (update.partnerId && !(await storage.getPartners()).some(partner => partner.id === update.partnerId)) {
+    return "Partner not found";
+  }
+  if (update.accountId && !(await storage.getAccount(update.accountId))) {
+    return "Account not found";
+  }
+
+  const schedule = toSchedule(update, existing);
+  if (isNaN(schedule.startDate.getTime())) return "Invalid start date";
+  if (schedule.endDate && !(schedule.endDate >= schedule.startDate)) return "End date must be on or after the start date";
+
+  const amount = update.amount ?? existing?.amount;
+  const splitError = getSplitValidationError(
+    update.splitType ?? existing?.splitType ?? "equal",
+    update.splitShares !== undefined ? update.splitShares : existing?.splitShares,
+    amount !== undefined ? parseFloat(amount) : undefined,
+  );
+  if (splitError) return splitError;
+
+  const converter = await loadCurrencyConverter();
+  const currency = update.currency ?? existing?.currency ?? converter.baseCurrency;
+  if (converter.getRate(currency, new Date()) === null) {
+    return `No exchange rate from ${currency} to ${converter.baseCurrency}; import one in the settings`;
+  }
+  return null;
+}
+
+function toSchedule(update: Partial<InsertRecurringExpense>, existing?: RecurringExpense) {
+  const endDate = update.endDate !== undefined ? update.endDate : existing?.endDate;
+  return {
+    frequency: update.frequency ?? existing?.frequency ?? "monthly",
+    interval: update.interval ?? existing?.interval ?? 1,
+    startDate: new Date(update.startDate ?? existing?.startDate ?? NaN),
+    endDate: endDate ? new Date(endDate) : null,
+  };
+}
+
+// The next due date after an update, or undefined when the update leaves it as it is. A new rhythm starts
+// over from today; a series that was resumed or given a different end continues where it left off, without
+// going back to occurrences missed in the meantime.
+function getRescheduledDueDate(update: Partial<InsertRecurringExpense>, existing: RecurringExpense): Date | null | undefined {
+  const schedule = toSchedule(update, existing);
+  const newRhythm = schedule.frequency !== existing.frequency
+    || schedule.interval !== existing.interval
+    || schedule.startDate.getTime() !== existing.startDate.getTime();
+  if (newRhythm) return getNextOccurrence(schedule, getStartOfToday());
+
+  const resumed = update.isActive === 1 && existing.isActive !== 1;
+  const newEnd = (schedule.endDate?.getTime() ?? null) !== (existing.endDate?.getTime() ?? null);
+  if (!resumed && !newEnd) return undefined;
+
+  const today = getStartOfToday();
+  const from = existing.nextDueDate && existing.nextDueDate > today ? existing.nextDueDate : today;
+  return getNextOccurrence(schedule, from);
+}
+
+function getStartOfToday(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+// Due recurring expenses and upcoming budget periods are looked for hourly; each occurrence is booked on its due day
+const RECURRING_BOOKING_INTERVAL_MS = 60 * 60 * 1000;
+
+function startRecurringScheduler() {
+  const run = () => {
+    queueRecurringBooking().catch(error => console.error("Failed to book recurring expenses:", error));
+    queueBudgetPeriodGeneration().catch(error => console.error("Failed to create budget periods:", error));
+  };
+  run();
+  setInterval(run, RECURRING_BOOKING_INTERVAL_MS).unref();
+}
+
+// Bookings run one after another so no occurrence is booked twice
+let recurringBookingQueue: Promise<unknown> = Promise.resolve();
+
+function queueRecurringBooking(): Promise<number> {
+  const booking = recurringBookingQueue.then(() => bookDueRecurringExpenses());
+  recurringBookingQueue = booking.catch(() => undefined);
+  return booking;
+}
+
+// Books an expense for every occurrence of an active recurring expense that is due by the end of today,
+// catching up on days the server was down. When an imported statement row already paid an occurrence,
+// that row is linked to the recurring expense instead. Returns how many expenses were booked.
+async function bookDueRecurringExpenses(): Promise<number> {
+  const endOfToday = new Date(getStartOfToday().getTime() + 24 * 60 * 60 * 1000 - 1);
+  const due = (await storage.getRecurringExpenses()).filter(recurringExpense =>
+    recurringExpense.isActive === 1 && recurringExpense.nextDueDate && recurringExpense.nextDueDate <= endOfToday
+  );
+  if (due.length === 0) return 0;
+
+  const converter = await loadCurrencyConverter();
+  const merchants = await loadMerchantDirectory();
+  const categories = await storage.getCategories();
+  let booked = 0;
+
+  for (const recurringExpense of due) {
+    const occurrences = listOccurrences(recurringExpense, recurringExpense.nextDueDate!, endOfToday);
+    const range = RecurringMatcher.getCandidateRange(occurrences);
+    const unlinkedImports = range
+      ? (await storage.getExpensesByDateRange(range.startDate, range.endDate))
+          .filter(expense => expense.statementId && !expense.recurringExpenseId)
+      : [];
+    const matcher = new RecurringMatcher(unlinkedImports);
+    let nextDueDate = recurringExpense.nextDueDate;
+
+    for (const dueDate of occurrences) {
+      const booking = await getRecurringBooking(recurringExpense, dueDate, merchants, categories, converter);
+      if (!booking) {
+        // Retried on the next run, e.g. once the missing exchange rate is imported
+        console.error(`No exchange rate from ${recurringExpense.currency} to ${converter.baseCurrency} for recurring expense ${recurringExpense.id}`);
+        break;
+      }
+
+      const paid = matcher.findMatch({ ...booking, date: dueDate, merchantId: booking.merchantId ?? null, accountId: booking.accountId ?? null });
+      if (paid) {
+        await storage.updateExpense(paid.id, { recurringExpenseId: recurringExpense.id });
+      } else {
+        await storage.createExpense(booking);
+        booked++;
+      }
+      nextDueDate = getNextOccurrence(recurringExpense, new Date(dueDate.getTime() + 1));
+    }
+
+    await storage.updateRecurringExpense(recurringExpense.id, { nextDueDate });
+  }
+
+  return booked;
+}
+
+// The expense booked for one occurrence, or null when its currency can't be converted
+async function getRecurringBooking(
+  recurringExpense: RecurringExpense,
+  dueDate: Date,
+  merchants: MerchantDirectory,
+  categories: Category[],
+  converter: CurrencyConverter,
+): Promise<InsertExpense | null> {
+  const converted = converter.convert(recurringExpense.amount, recurringExpense.currency, dueDate);
+  if (!converted) return null;
+
+  const category = categories.find(c => c.id === recurringExpense.categoryId);
+  const account = recurringExpense.accountId ? await storage.getAccount(recurringExpense.accountId) : undefined;
+  const splitShares = recurringExpense.splitType === "fixed" && recurringExpense.splitShares && converted.foreignAmount !== null
+    ? rescaleFixedShares(recurringExpense.splitShares, parseFloat(converted.amount))
+    : recurringExpense.splitShares;
+
+  return {
+    ...converted,
+    currency: recurringExpense.currency,
+    description: recurringExpense.description,
+    categoryId: recurringExpense.categoryId,
+    partnerId: recurringExpense.partnerId,
+    date: dueDate.toISOString(),
+    accountId: account?.id ?? null,
+    sourceLabel: account?.name,
+    merchantId: await resolveMerchantId(merchants, recurringExpense.description),
+    type: (category?.kind as TransactionType | undefined) ?? "expense",
+    splitType: recurringExpense.splitType as SplitType,
+    splitShares,
+    recurringExpenseId: recurringExpense.id,
+  };
+}
+
+// Checks a budget period series as it ends up once the update is applied to the existing one
+async function getBudgetPeriodSeriesError(
+  update: Partial<InsertBudgetPeriodSeries> | UpdateBudgetPeriodSeries,
+  existing?: BudgetPeriodSeries,
+): Promise<string | null> {
+  if (update.categoryId !== undefined) {
+    const categories = await storage.getCategories();
+    if (!categories.some(category => category.id === update.categoryId)) return "Category not found";
+  }
+
+  const startDate = "startDate" in update && update.startDate !== undefined ? new Date(update.startDate) : existing?.startDate;
+  const endDate = "endDate" in update && update.endDate !== undefined ? new Date(update.endDate) : existing?.endDate;
+  if (!startDate || !endDate || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return "Invalid period dates";
+  if (endDate < startDate) return "Start date must be before end date";
+
+  if ("anchorDates" in update && update.anchorDates) {
+    if (update.anchorDates.some(day => new Date(day) <= startDate)) return "Anchor dates must come after the first period's start";
+  }
+
+  if (update.repeatUntil) {
+    const repeatUntil = new Date(update.repeatUntil);
+    if (isNaN(repeatUntil.getTime())) return "Invalid repeat-until date";
+    if (repeatUntil < startDate) return "The series can't end before its first period";
+  }
+  return null;
+}
+
+// A change to the whole series reaches its periods that haven't ended yet, except those edited on their own.
+// Periods that would now start after the series' end are removed unless they have started already.
+async function updateSeriesPeriods(series: BudgetPeriodSeries, update: UpdateBudgetPeriodSeries): Promise<BudgetPeriodSeries> {
+  const today = getStartOfToday();
+  const periods = (await storage.getBudgetPeriods()).filter(period => period.seriesId === series.id);
+  const { repeatUntil, ...changes } = update;
+
+  for (const period of periods) {
+    if (series.repeatUntil && period.startDate > series.repeatUntil && period.startDate > today) {
+      await storage.deleteBudgetPeriod(period.id);
+    } else if (period.endDate >= today && period.isCustomized === 0 && Object.keys(changes).length > 0) {
+      await storage.updateBudgetPeriod(period.id, changes);
+    }
+  }
+
+  if (repeatUntil === undefined) return series;
+
+  // A shorter series hands the removed periods back, so extending it again creates them anew
+  let end = 0;
+  while (end < series.nextInstanceIndex && getSeriesPeriod(series, end)) end++;
+  if (end === series.nextInstanceIndex) return series;
+  return (await storage.updateBudgetPeriodSeries(series.id, { nextInstanceIndex: end })) ?? series;
+}
+
+// Periods of a series are created this many days before they start, so they can be adjusted beforehand
+const BUDGET_PERIOD_LEAD_DAYS = 60;
+
+// Generation runs one after another so no period is created twice
+let budgetPeriodQueue: Promise<unknown> = Promise.resolve();
+
+function queueBudgetPeriodGeneration(): Promise<number> {
+  const generation = budgetPeriodQueue.then(() => generateBudgetPeriods());
+  budgetPeriodQueue = generation.catch(() => undefined);
+  return generation;
+}
+
+// Creates the periods of active series that start within the lead time. Periods that are already over, such
+// as those of a paused series, are skipped, as are periods the series already has. Returns how many were created.
+async function generateBudgetPeriods(): Promise<number> {
+  const today = getStartOfToday();
+  const horizon = new Date(today.getTime() + BUDGET_PERIOD_LEAD_DAYS * 24 * 60 * 60 * 1000);
+  const periods = await storage.getBudgetPeriods();
+  let created = 0;
+
+  for (const series of await storage.getBudgetPeriodSeriesList()) {
+    if (series.isActive !== 1) continue;
+    const existingStarts = new Set(
+      periods.filter(period => period.seriesId === series.id).map(period => period.startDate.getTime())
+    );
+
+    let index = series.nextInstanceIndex;
+    for (let period = getSeriesPeriod(series, index); period && period.startDate <= horizon; period = getSeriesPeriod(series, ++index)) {
+      if (period.endDate < today || existingStarts.has(period.startDate.getTime())) continue;
+      await storage.createBudgetPeriod({
+        name: series.name,
+        categoryId: series.categoryId,
+        budgetAmount: series.budgetAmount,
+        startDate: period.startDate.toISOString(),
+        endDate: period.endDate.toISOString(),
+        isActive: 1,
+        seriesId: series.id,
+      });
+      created++;
+    }
+
+    if (index !== series.nextInstanceIndex) {
+      await storage.updateBudgetPeriodSeries(series.id, { nextInstanceIndex: index });
+    }
+  }
+  return created;
+}
+
+// Booked occurrences of recurring expenses that no statement row has paid yet
+async function createRecurringMatcher(transactions: PreviewTransaction[]) {
+  const range = RecurringMatcher.getCandidateRange(transactions.map(transaction => transaction.date));
+  const candidates = range
+    ? (await storage.getExpensesByDateRange(range.startDate, range.endDate))
+        .filter(expense => expense.recurringExpenseId && !expense.statementId)
+    : [];
+  return new RecurringMatcher(candidates);
+}
+
+// Creates expenses for parsed (and possibly reviewed) statement rows
+async function importStatementTransactions(statementId: string, transactions: PreviewTransaction[]) {
+  try {
     let processedCount = 0;
+    let skippedCount = 0;
+    let recurringCount = 0;
     const errors: string[] = [];
+    const suspectedDuplicates: SuspectedDuplicate[] = [];
+    const detector = await createDuplicateDetector(statementId, transactions);
+    const recurringMatcher = await createRecurringMatcher(transactions);
+    const merchants = await loadMerchantDirectory();
+    const categories = await storage.getCategories();
+    const statement = await storage.getStatement(statementId);
+    const account = statement?.accountId ? await storage.getAccount(statement.accountId) : undefined;
+    const converter = await loadCurrencyConverter();
+    const created: Expense[] = [];
 
     // Process each transaction
     for (const transaction of transactions) {
       try {
-        // For AMEX, use suggested partner from cardholder name, otherwise use default
-        let partnerId = transaction.suggestedPartnerId || defaultPartnerId || partners[0]?.id;
-        
-        if (!partnerId) {
-          errors.push(`No partner available for transaction: ${transaction.description}`);
+        // Skip transactions already imported from an earlier statement of the same account (same bank transaction ID)
+        if (statement && transaction.externalId && await storage.getExpenseByExternalId(transaction.externalId, statement)) {
+          skippedCount++;
           continue;
         }
 
-        console.log(`Creating expense - Partner: ${partnerId}, Description: ${transaction.description}, Cardholder: ${transaction.cardholderName || 'N/A'}`);
+        if (!transaction.partnerId) {
+          errors.push(`No partner available for transaction: ${transaction.description}`);
+          continue;
+        }
 
-        await storage.createExpense({
-          amount: transaction.amount.toString(),
+        // A row that pays a booked recurring expense completes that expense rather than adding a second one
+        const bankAmounts = convertTransactionCurrency(transaction, account, converter);
+        const occurrence = recurringMatcher.findMatch({
+          amount: bankAmounts.amount,
+          date: new Date(transaction.date),
           description: transaction.description,
-          categoryId: transaction.suggestedCategoryId,
-          partnerId: partnerId,
-          date: transaction.date,
-          statementId: statementId,
-          isVerified: 'pending',
-          originalAmount: transaction.originalAmount || transaction.amount.toString(),
-          sourceLabel: transaction.sourceLabel,
+          merchantId: null,
+          accountId: account?.id ?? null,
         });
+        if (occurrence) {
+          detector.exclude(occurrence.id);
+          await storage.updateExpense(occurrence.id, {
+            ...bankAmounts,
+            splitShares: occurrence.splitType === "fixed" && occurrence.splitShares
+              ? rescaleFixedShares(occurrence.splitShares, parseFloat(bankAmounts.amount))
+              : occurrence.splitShares,
+            date: transaction.date,
+            statementId,
+            originalAmount: transaction.originalAmount || transaction.amount.toString(),
+            sourceLabel: transaction.sourceLabel,
+            externalId: transaction.externalId,
+            accountId: account?.id ?? occurrence.accountId,
+          });
+          recurringCount++;
+          processedCount++;
+          continue;
+        }
+
+        // Hold back rows that look like an overlapping upload or a manual entry until the user decides
+        const match = detector.findMatch(transaction);
+        if (match) {
+          suspectedDuplicates.push({
+            transaction: { ...transaction, duplicateOfExpenseId: match.expenseId },
+            expenseId: match.expenseId,
+            matchType: match.matchType,
+          });
+          continue;
+        }
+
+        console.log(`Creating expense - Partner: ${transaction.partnerId}, Description: ${transaction.description}, Cardholder: ${transaction.cardholderName || 'N/A'}`);
+
+        created.push(await createExpenseFromTransaction(statementId, transaction, merchants, categories, account, converter));
 
         processedCount++;
 
@@ -574,24 +2509,29 @@ async function processStatementAsync(
         }
       } catch (error) {
         console.error(`Failed to create expense:`, error);
-        errors.push(`Failed to process: ${transaction.description}`);
+        errors.push(`Failed to process: ${transaction.description}${error instanceof CurrencyError ? ` (${error.message})` : ''}`);
       }
     }
 
+    // Matched once every row exists, since statements may list a refund before the purchase
+    await linkRefunds(created);
+
     // Update final status
-    const status = errors.length > 0 ? 'completed' : 'completed';
     const errorMessage = errors.length > 0 ? `${errors.length} errors occurred` : null;
 
     await storage.updateStatement(statementId, {
-      status,
+      status: 'completed',
       processedTransactions: processedCount,
+      skippedTransactions: skippedCount,
       processedAt: new Date(),
       errorMessage,
+      previewTransactions: null,
+      suspectedDuplicates: suspectedDuplicates.length > 0 ? suspectedDuplicates : null,
     });
 
-    console.log(`Completed processing statement ${statementId}: ${processedCount}/${transactions.length} transactions processed`);
+    console.log(`Completed processing statement ${statementId}: ${processedCount}/${transactions.length} transactions processed, ${skippedCount} already imported, ${recurringCount} matched to recurring expenses, ${suspectedDuplicates.length} suspected duplicates`);
   } catch (error) {
-    console.error(`Failed to process statement ${statementId}:`, error);
+    console.error(`Failed to import statement ${statementId}:`, error);
     await storage.updateStatement(statementId, {
       status: 'failed',
       errorMessage: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,125 @@
+import type { CategorizationRule, TransactionType } from "@shared/schema";
+
+// Partial so that unsaved rule bodies can be validated and tested too
+type RuleConditions = Partial<Pick<
+  CategorizationRule,
+  "descriptionPattern" | "descriptionMatchType" | "minAmount" | "maxAmount" | "sourceLabel" | "cardholderName"
+>>;
+
+type RuleActions = Partial<Pick<
+  CategorizationRule,
+  "setCategoryId" | "setPartnerId" | "setTags" | "setExcludeFromSpending" | "setType"
+>>;
+
+// The parts of a transaction a rule can match on
+export interface RuleContext {
+  description: string;
+  amount: number; // Signed as stored, so refunds are negative
+  sourceLabel?: string | null;
+  cardholderName?: string | null;
+}
+
+export interface RuleOutcome {
+  categoryId?: string;
+  partnerId?: string;
+  tags: string[];
+  excludeFromSpending: boolean;
+  type?: TransactionType;
+  matchedRuleIds: string[];
+}
+
+function compilePattern(rule: RuleConditions): RegExp | null {
+  if (!rule.descriptionPattern || rule.descriptionMatchType !== "regex") return null;
+  try {
+    return new RegExp(rule.descriptionPattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+// Explains why a rule can't be saved, or returns null when it is usable
+export function getRuleValidationError(rule: RuleConditions & RuleActions): string | null {
+  const hasCondition = Boolean(
+    rule.descriptionPattern?.trim() ||
+    rule.minAmount ||
+    rule.maxAmount ||
+    rule.sourceLabel?.trim() ||
+    rule.cardholderName?.trim()
+  );
+  if (!hasCondition) {
+    return "A rule needs at least one condition";
+  }
+
+  const hasAction = Boolean(
+    rule.setCategoryId || rule.setPartnerId || rule.setTags?.length || rule.setExcludeFromSpending || rule.setType
+  );
+  if (!hasAction) {
+    return "A rule needs at least one action";
+  }
+
+  if (rule.descriptionPattern && rule.descriptionMatchType === "regex" && !compilePattern(rule)) {
+    return "The description pattern is not a valid regular expression";
+  }
+
+  if (rule.minAmount && rule.maxAmount && parseFloat(rule.minAmount) > parseFloat(rule.maxAmount)) {
+    return "The minimum amount is larger than the maximum amount";
+  }
+
+  return null;
+}
+
+// Every condition that is set must hold; text comparisons ignore case
+export function ruleMatches(rule: RuleConditions, context: RuleContext, pattern = compilePattern(rule)): boolean {
+  if (rule.descriptionPattern) {
+    if (rule.descriptionMatchType === "regex") {
+      // An invalid expression never matches rather than matching everything
+      if (!pattern || !pattern.test(context.description)) return false;
+    } else if (!context.description.toLowerCase().includes(rule.descriptionPattern.toLowerCase())) {
+      return false;
+    }
+  }
+
+  if (rule.minAmount && context.amount < parseFloat(rule.minAmount)) return false;
+  if (rule.maxAmount && context.amount > parseFloat(rule.maxAmount)) return false;
+
+  if (rule.sourceLabel && (context.sourceLabel || "").toLowerCase() !== rule.sourceLabel.toLowerCase()) {
+    return false;
+  }
+
+  if (rule.cardholderName && !(context.cardholderName || "").toLowerCase().includes(rule.cardholderName.toLowerCase())) {
+    return false;
+  }
+
+  return true;
+}
+
+export class RuleEngine {
+  private rules: { rule: CategorizationRule; pattern: RegExp | null }[];
+
+  constructor(rules: CategorizationRule[]) {
+    this.rules = rules
+      .filter(rule => rule.isActive === 1)
+      .sort((a, b) => a.priority - b.priority)
+      .map(rule => ({ rule, pattern: compilePattern(rule) }));
+  }
+
+  // Category, partner, type and exclusion come from the first matching rule that sets them; tags add up
+  evaluate(context: RuleContext): RuleOutcome | null {
+    const outcome: RuleOutcome = { tags: [], excludeFromSpending: false, matchedRuleIds: [] };
+
+    for (const { rule, pattern } of this.rules) {
+      if (!ruleMatches(rule, context, pattern)) continue;
+
+      outcome.matchedRuleIds.push(rule.id);
+      if (rule.setCategoryId && !outcome.categoryId) outcome.categoryId = rule.setCategoryId;
+      if (rule.setPartnerId && !outcome.partnerId) outcome.partnerId = rule.setPartnerId;
+      if (rule.setType && !outcome.type) outcome.type = rule.setType as TransactionType;
+      if (rule.setExcludeFromSpending === 1) outcome.excludeFromSpending = true;
+      for (const tag of rule.setTags || []) {
+        if (!outcome.tags.includes(tag)) outcome.tags.push(tag);
+      }
+    }
+
+    return outcome.matchedRuleIds.length > 0 ? outcome : null;
+  }
+}
@@ -1,7 +1,8 @@
-import OpenAI from "openai";
-import type { Category, Partner } from "@shared/schema";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import type { Category, Partner, ImportProfile, TransactionType } from "@shared/schema";
+import { readCSV, type CSVParseError, type CSVRecord } from "./csv-reader";
+import type { Categorizer } from "./categorizers";
+import type { LearnedRuleMatcher } from "./learned-rules";
+import type { RuleEngine } from "./rule-engine";
 
 export interface ParsedTransaction {
   date: string;
@@ -13,114 +14,286 @@ export interface ParsedTransaction {
   sourceLabel?: string; // Auto-assigned based on statement source
   suggestedPartnerId?: string; // Auto-assigned partner based on statement data
   cardholderName?: string; // For AMEX statements
+  externalId?: string; // Bank-assigned transaction ID (OFX FITID)
+  tags?: string[]; // Added by categorization rules
+  excludeFromSpending?: boolean; // Set by categorization rules
+  type?: TransactionType; // 'income' for salaries and incoming transfers (amounts are then positive), 'transfer' between own accounts
+  currency?: string; // Currency of amount when the statement states it
+  foreignAmount?: number; // What a card charged abroad before converting it into amount, with the same sign
+  foreignCurrency?: string;
+}
+
+// Account balances printed on the statement itself; amounts are signed from the account holder's view
+export interface StatementBalances {
+  openingBalance?: number;
+  closingBalance?: number;
+  periodStart?: string; // ISO dates
+  periodEnd?: string;
 }
 
+// Salary and pension credits, e.g. "GEHALT 03/2026", "LOHN/GEHALT", "Bezüge"
+// Income categories named like this receive salaries
+export const SALARY_CATEGORY_PATTERN = /salary|gehalt|lohn/i;
+
+const SALARY_PATTERN = /\b(gehalt|lohn|bez(ü|ue)ge|rente|besoldung|salary|payroll|wages)\b/i;
+
+// MT940 booking texts for incoming transfers and salary payments
+const MT940_INCOMING_TYPES = /gutschrift|lohn|gehalt|rente/i;
+
+// The current-account debit that settles a credit card bill, e.g. "AMERICAN EXPRESS EUROPE - Abrechnung"
+const CARD_PAYOFF_PATTERN = /american express|\bamex\b|kreditkarten-?abrechnung|credit card payment|(visa|mastercard)[^-]*abrechnung/i;
+
+// The same payment as it appears on the card statement, e.g. "ZAHLUNG ERHALTEN. BESTEN DANK"
+const CARD_PAYMENT_RECEIVED_PATTERN = /zahlung.{0,20}erhalten|payment received|thank you for your payment/i;
+
+// The detail text AMEX adds to purchases made abroad, e.g. "Foreign Spend Amount: 45.00 USD Commission Amount: 0.88"
+const AMEX_FOREIGN_SPEND_PATTERN = /(?:foreign spend amount|fremdwährungsbetrag|betrag in fremdwährung)\s*:?\s*([\d.,]+)\s*([A-Z]{3})/i;
+
+// PayPal lists the conversion between currencies as separate bookings next to the actual payment
+const PAYPAL_CONVERSION_PATTERN = /currency conversion|währungsumrechnung/i;
+
+interface PayPalColumns {
+  date: number;
+  name: number;
+  type: number;
+  currency: number;
+  gross: number;
+  transactionId: number;
+  decimalSeparator: string;
+}
+
+// Moves between the household's own accounts
+const OWN_ACCOUNT_TRANSFER_PATTERN = /\b(umbuchung|uebertrag|eigenes? konto|own account|internal transfer)\b|übertrag/i;
+
+type UncategorizedTransaction = Omit<ParsedTransaction, 'suggestedCategoryId' | 'confidence'>;
+
 export class StatementProcessor {
   private categories: Category[];
   private partners: Partner[];
+  private categorizer: Categorizer | null;
+  private learnedRules: LearnedRuleMatcher | null;
+  private ruleEngine: RuleEngine | null;
+  // Rows that could not be read or turned into a transaction, by 1-based line number
+  readonly parseErrors: CSVParseError[] = [];
+  // Set when the format carries opening or closing balances (CAMT, MT940, DKB CSV header lines)
+  balances: StatementBalances | null = null;
 
-  constructor(categories: Category[], partners: Partner[] = []) {
+  constructor(
+    categories: Category[],
+    partners: Partner[] = [],
+    categorizer: Categorizer | null = null,
+    learnedRules: LearnedRuleMatcher | null = null,
+    ruleEngine: RuleEngine | null = null,
+  ) {
     this.categories = categories;
     this.partners = partners;
+    this.categorizer = categorizer;
+    this.learnedRules = learnedRules;
+    this.ruleEngine = ruleEngine;
+  }
+
+  async parseStatement(
+    content: string,
+    source: string,
+    fileType: string,
+    profile?: ImportProfile,
+  ): Promise<ParsedTransaction[]> {
+    if (profile && fileType === 'csv') {
+      return this.parseCSVWithProfile(content, profile);
+    }
+    if (fileType === 'ofx') {
+      return this.parseOFXStatement(content, source);
+    }
+    if (fileType === 'camt') {
+      return this.parseCAMTStatement(content, source);
+    }
+    if (fileType === 'mt940') {
+      return this.parseMT940Statement(content, source);
+    }
+    return this.parseCSVStatement(content, source);
   }
 
   async parseCSVStatement(csvContent: string, source: string): Promise<ParsedTransaction[]> {
-    const lines = csvContent.split('\n').filter(line => line.trim());
-    if (lines.length < 2) {
+    const { records, errors, delimiter } = readCSV(csvContent);
+    if (records.length < 2) {
       throw new Error('Invalid CSV format: no data rows found');
     }
 
-    const transactions: ParsedTransaction[] = [];
-    let headerFound = false;
-    let headerIndex = -1;
+    console.log(`Read ${records.length} CSV records using delimiter "${delimiter}"`);
+
+    let headerIndex = 0; // Skip first row as header
 
-    // Find the header row for DKB format
     if (source.toLowerCase().includes('dkb')) {
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line.includes('Buchungsdatum') && line.includes('Betrag (€)')) {
-          headerFound = true;
-          headerIndex = i;
-          console.log(`Found DKB header at line ${i}: ${line}`);
-          break;
-        }
-      }
+      // Find the header row for DKB format, which follows a few lines of account details
+      headerIndex = records.findIndex(record =>
+        record.fields.includes('Buchungsdatum') && record.fields.some(field => field.startsWith('Betrag (€)'))
+      );
 
-      if (!headerFound) {
+      if (headerIndex === -1) {
         throw new Error('DKB CSV header not found. Expected format with "Buchungsdatum" and "Betrag (€)" columns.');
       }
 
-      // Start parsing from after the header
-      for (let i = headerIndex + 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line || line.length < 10) continue; // Skip empty or very short lines
+      console.log(`Found DKB header at line ${records[headerIndex].line}`);
+      this.balances = this.parseDKBHeader(records.slice(0, headerIndex));
+    }
 
-        try {
-          const transaction = await this.parseTransactionLine(line, source);
-          if (transaction) {
-            transactions.push(transaction);
-          }
-        } catch (error) {
-          console.warn(`Failed to parse DKB line ${i}: ${line}`, error);
+    // Malformed lines in a preamble before the header are not transactions
+    const headerLine = records[headerIndex].line;
+    this.parseErrors.push(...errors.filter(error => error.line > headerLine));
+
+    // Full PayPal activity exports name their columns and state the currency of every row
+    const payPalColumns = source.toLowerCase().includes('paypal')
+      ? this.getPayPalColumns(records[headerIndex].fields)
+      : null;
+
+    const transactions: ParsedTransaction[] = [];
+    for (const record of records.slice(headerIndex + 1)) {
+      try {
+        const transaction = payPalColumns
+          ? await this.parsePayPalFields(record.fields, payPalColumns)
+          : source.toLowerCase().includes('amex')
+          ? await this.parseAmexTransactionFields(record.fields)
+          : await this.parseTransactionFields(record.fields, source);
+        if (transaction) {
+          transactions.push(transaction);
         }
+      } catch (error) {
+        console.warn(`Failed to parse line ${record.line}`, error);
+        this.parseErrors.push({
+          line: record.line,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
-    } else if (source.toLowerCase().includes('amex')) {
-      // AMEX format with specific columns: Datum,Beschreibung,Karteninhaber,Konto #,Betrag
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
+    }
 
-        try {
-          const transaction = await this.parseAmexTransactionLine(line, source);
-          if (transaction) {
-            transactions.push(transaction);
-          }
-        } catch (error) {
-          console.warn(`Failed to parse AMEX line ${i}: ${line}`, error);
-        }
+    return transactions;
+  }
+
+  // DKB exports start with account details such as "Kontostand vom 31.01.2026:";"1.234,56 €" and the period,
+  // either as "Zeitraum:";"01.01.2026 - 31.01.2026" or, in older exports, as separate "Von:" and "Bis:" lines
+  private parseDKBHeader(records: CSVRecord[]): StatementBalances | null {
+    const balances: StatementBalances = {};
+    let balanceDate: string | undefined;
+
+    for (const { fields } of records) {
+      const label = (fields[0] || '').trim();
+      const value = (fields[1] || '').trim();
+      if (!value) continue;
+
+      const balanceMatch = label.match(/^Kontostand vom (\d{1,2}\.\d{1,2}\.\d{4})/);
+      if (balanceMatch) {
+        balances.closingBalance = this.parseAmountWithSeparator(value.replace(/EUR/i, ''), ',');
+        balanceDate = this.parseDate(balanceMatch[1]);
+      } else if (label === 'Zeitraum:') {
+        const [from, to] = value.split(/\s+-\s+/);
+        if (from) balances.periodStart = this.parseDate(from);
+        if (to) balances.periodEnd = this.parseDate(to);
+      } else if (label === 'Von:') {
+        balances.periodStart = this.parseDate(value);
+      } else if (label === 'Bis:') {
+        balances.periodEnd = this.parseDate(value);
       }
-    } else {
-      // Generic parsing for other formats - skip first row as header
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
+    }
 
-        try {
-          const transaction = await this.parseTransactionLine(line, source);
-          if (transaction) {
-            transactions.push(transaction);
-          }
-        } catch (error) {
-          console.warn(`Failed to parse line ${i}: ${line}`, error);
+    if (balances.closingBalance !== undefined && !balances.periodEnd) {
+      balances.periodEnd = balanceDate;
+    }
+    return Object.keys(balances).length > 0 ? balances : null;
+  }
+
+  async parseCSVWithProfile(csvContent: string, profile: ImportProfile): Promise<ParsedTransaction[]> {
+    if (profile.amountColumn == null && (profile.debitColumn == null || profile.creditColumn == null)) {
+      throw new Error(`Import profile "${profile.name}" needs an amount column or both debit and credit columns`);
+    }
+
+    const { records, errors } = readCSV(csvContent, profile.delimiter);
+    // headerRow is a 0-based line index, records carry 1-based line numbers
+    const dataRecords = records.filter(record => record.line > profile.headerRow + 1);
+    this.parseErrors.push(...errors.filter(error => error.line > profile.headerRow + 1));
+    if (dataRecords.length === 0) {
+      throw new Error('Invalid CSV format: no data rows found');
+    }
+
+    const transactions: ParsedTransaction[] = [];
+    const sourceLabel = profile.sourceLabel || profile.name;
+
+    for (const record of dataRecords) {
+      try {
+        const transaction = await this.parseProfileFields(record.fields, profile, sourceLabel);
+        if (transaction) {
+          transactions.push(transaction);
         }
+      } catch (error) {
+        console.warn(`Failed to parse line ${record.line} with profile "${profile.name}"`, error);
+        this.parseErrors.push({
+          line: record.line,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
     }
 
     return transactions;
   }
 
-  private async parseTransactionLine(line: string, source: string): Promise<ParsedTransaction | null> {
-    // Parse CSV line - handle quoted fields
-    const fields = this.parseCSVLine(line);
-    
-    if (fields.length < 3) {
+  private async parseProfileFields(
+    fields: string[],
+    profile: ImportProfile,
+    sourceLabel: string,
+  ): Promise<ParsedTransaction | null> {
+    const dateStr = fields[profile.dateColumn] || '';
+    const description = fields[profile.descriptionColumn]?.replace(/\s+/g, ' ') || '';
+
+    let signedAmount: number;
+    let originalAmount: string;
+    if (profile.amountColumn != null) {
+      originalAmount = fields[profile.amountColumn] || '';
+      signedAmount = this.parseAmountWithSeparator(originalAmount, profile.decimalSeparator);
+    } else {
+      // Debit/credit split: both columns hold unsigned values, debits reduce the balance
+      const debitStr = fields[profile.debitColumn!] || '';
+      const creditStr = fields[profile.creditColumn!] || '';
+      originalAmount = debitStr ? `-${debitStr}` : creditStr;
+      signedAmount = Math.abs(this.parseAmountWithSeparator(creditStr, profile.decimalSeparator))
+        - Math.abs(this.parseAmountWithSeparator(debitStr, profile.decimalSeparator));
+    }
+
+    // Expenses are stored as positive amounts, so flip bank-style signs where spending is negative
+    const amount = profile.signConvention === 'expense_negative' ? -signedAmount : signedAmount;
+
+    if (amount === 0 || !description || !dateStr) {
       return null;
     }
 
+    return this.categorizeTransaction({
+      date: this.parseDateWithFormat(dateStr, profile.dateFormat),
+      amount,
+      description: description.trim(),
+      originalAmount: originalAmount.trim(),
+      sourceLabel,
+      type: this.detectType(description, amount < 0),
+    });
+  }
+
+  private async parseTransactionFields(fields: string[], source: string): Promise<ParsedTransaction | null> {
+    if (fields.length < 3) {
+      throw new Error(`Expected at least 3 columns, found ${fields.length}`);
+    }
+
     let date: string, amount: number, description: string, originalAmount: string, sourceLabel: string;
+    let type: TransactionType | undefined;
 
     // Different CSV formats for different sources
     if (source.toLowerCase().includes('amex')) {
       // AMEX format: Date,Description,Amount
       date = this.parseDate(fields[0]);
-      description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
+      description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
       originalAmount = fields[2] || '0';
       amount = this.parseAmount(fields[2] || '0'); // Preserve sign for refunds
       sourceLabel = 'AMEX';
     } else if (source.toLowerCase().includes('chase')) {
       // Chase format: Date,Description,Amount
       date = this.parseDate(fields[0]);
-      description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
+      description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
       originalAmount = fields[2] || '0';
       amount = this.parseAmount(fields[2] || '0'); // Preserve sign for refunds
       sourceLabel = 'Chase';
@@ -128,46 +301,42 @@ export class StatementProcessor {
       // DKB format: "Buchungsdatum";"Wertstellung";"Status";"Zahlungspflichtige*r";"Zahlungsempfänger*in";"Verwendungszweck";"Umsatztyp";"IBAN";"Betrag (€)";"Gläubiger-ID";"Mandatsreferenz";"Kundenreferenz"
       if (fields.length >= 9) {
         date = this.parseDate(fields[0]); // Buchungsdatum
-        const payee = fields[4]?.replace(/"/g, '') || ''; // Zahlungsempfänger*in
-        const purpose = fields[5]?.replace(/"/g, '') || ''; // Verwendungszweck  
-        const transactionType = fields[6]?.replace(/"/g, '') || ''; // Umsatztyp
-        
-        // Create meaningful description by combining available info
-        let descriptionParts = [];
-        if (payee && payee !== 'ISSUER') descriptionParts.push(payee);
-        if (purpose) descriptionParts.push(purpose);
-        if (transactionType && transactionType !== 'Ausgang' && transactionType !== 'Eingang') {
-          descriptionParts.push(`[${transactionType}]`);
-        }
+        const payee = fields[4]?.replace(/\s+/g, ' ') || ''; // Zahlungsempfänger*in
+        const purpose = fields[5]?.replace(/\s+/g, ' ') || ''; // Verwendungszweck, may span several lines
+        const transactionType = fields[6] || ''; // Umsatztyp
         
-        description = descriptionParts.join(' - ') || 'DKB Transaction';
+        description = this.buildDescription(payee, purpose, transactionType, 'DKB Transaction');
         originalAmount = fields[8] || '0'; // Betrag (EUR)
-        amount = this.parseAmount(fields[8] || '0'); // Preserve sign for refunds
+        // DKB amounts are signed from the account holder's view (debits negative) with a decimal comma.
+        // Expenses are stored as positive amounts with refunds negative, so flip the sign.
+        const signedAmount = this.parseAmountWithSeparator(originalAmount, ',');
+        amount = -signedAmount;
         sourceLabel = 'DKB';
+        // DKB exports incoming money as positive "Eingang" rows
+        type = this.detectType(description, signedAmount > 0, transactionType === 'Eingang');
         
         console.log(`DKB transaction parsed: ${date}, ${description}, ${originalAmount}`);
       } else {
-        console.warn(`DKB line has insufficient fields (${fields.length}): ${line.substring(0, 100)}...`);
-        return null;
+        throw new Error(`DKB row has insufficient fields (${fields.length})`);
       }
     } else if (source.toLowerCase().includes('bank')) {
       // Generic Bank format: Date,Description,Amount
       date = this.parseDate(fields[0]);
-      description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
+      description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
       originalAmount = fields[2] || '0';
       amount = this.parseAmount(fields[2] || '0'); // Preserve sign for refunds
       sourceLabel = 'Bank Transfer';
     } else if (source.toLowerCase().includes('paypal')) {
       // PayPal format: Date,Description,Amount
       date = this.parseDate(fields[0]);
-      description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
+      description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
       originalAmount = fields[2] || '0';
       amount = this.parseAmount(fields[2] || '0'); // Preserve sign for refunds
       sourceLabel = 'PayPal';
     } else {
       // Generic format
       date = this.parseDate(fields[0]);
-      description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
+      description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
       originalAmount = fields[2] || '0';
       amount = this.parseAmount(fields[2] || '0'); // Preserve sign for refunds
       sourceLabel = 'Bank Transfer';
@@ -177,44 +346,74 @@ export class StatementProcessor {
       return null;
     }
 
-    // Try fallback categorization first (faster, no API calls)
-    const fallbackResult = this.fallbackCategorization(description);
-    
-    let categoryId = fallbackResult.categoryId;
-    let confidence = fallbackResult.confidence;
-    
-    // Only use AI categorization if fallback confidence is low (< 0.6) or no match found
-    if (confidence < 0.6) {
-      console.log(`Low confidence (${confidence}) for "${description}", using AI categorization...`);
-      const aiResult = await this.categorizeBusiness(description);
-      categoryId = aiResult.categoryId;
-      confidence = aiResult.confidence;
-    }
-
-    return {
+    return this.categorizeTransaction({
       date,
       amount,
       description: description.trim(),
-      suggestedCategoryId: categoryId,
-      confidence,
       originalAmount: originalAmount.trim(),
-      sourceLabel
+      sourceLabel,
+      type,
+    });
+  }
+
+  private getPayPalColumns(header: string[]): PayPalColumns | null {
+    const names = header.map(field => field.trim().toLowerCase());
+    const find = (...candidates: string[]) => names.findIndex(name => candidates.includes(name));
+
+    const columns = {
+      date: find('date', 'datum'),
+      name: find('name'),
+      type: find('type', 'typ', 'beschreibung'),
+      currency: find('currency', 'währung'),
+      gross: find('gross', 'brutto'),
+      transactionId: find('transaction id', 'transaktionscode'),
     };
+    if (columns.date === -1 || columns.currency === -1 || columns.gross === -1) {
+      return null;
+    }
+    return { ...columns, decimalSeparator: names.includes('brutto') ? ',' : '.' };
   }
 
-  private async parseAmexTransactionLine(line: string, source: string): Promise<ParsedTransaction | null> {
+  private async parsePayPalFields(fields: string[], columns: PayPalColumns): Promise<ParsedTransaction | null> {
+    const value = (index: number) => (index >= 0 ? fields[index] || '' : '').replace(/\s+/g, ' ').trim();
+
+    const bookingType = value(columns.type);
+    if (PAYPAL_CONVERSION_PATTERN.test(bookingType)) {
+      return null;
+    }
+
+    // Gross amounts are signed from the account holder's view: payments are negative
+    const grossStr = value(columns.gross);
+    const signedAmount = this.parseAmountWithSeparator(grossStr, columns.decimalSeparator);
+    const description = this.buildDescription(value(columns.name), bookingType, '', 'PayPal Transaction');
+    const dateStr = value(columns.date);
+    if (signedAmount === 0 || !dateStr) {
+      return null;
+    }
+
+    return this.categorizeTransaction({
+      date: this.parseDate(dateStr),
+      amount: -signedAmount,
+      description,
+      originalAmount: grossStr,
+      sourceLabel: 'PayPal',
+      externalId: value(columns.transactionId) || undefined,
+      type: this.detectType(description, signedAmount > 0),
+      currency: value(columns.currency).toUpperCase() || undefined,
+    });
+  }
+
+  private async parseAmexTransactionFields(fields: string[]): Promise<ParsedTransaction | null> {
     // AMEX format: Datum,Beschreibung,Karteninhaber,Konto #,Betrag
-    const fields = this.parseCSVLine(line);
-    
     if (fields.length < 5) {
-      return null;
+      throw new Error(`Expected 5 AMEX columns, found ${fields.length}`);
     }
 
-    const dateStr = fields[0]?.replace(/"/g, '') || '';
-    const description = fields[1]?.replace(/"/g, '') || 'Unknown transaction';
-    const cardholderName = fields[2]?.replace(/"/g, '') || '';
-    const accountNum = fields[3]?.replace(/"/g, '') || '';
-    const amountStr = fields[4]?.replace(/"/g, '') || '0';
+    const dateStr = fields[0] || '';
+    const description = fields[1]?.replace(/\s+/g, ' ') || 'Unknown transaction';
+    const cardholderName = fields[2] || '';
+    const accountNum = fields[3] || '';
+    const amountStr = fields[4] || '0';
 
     // Parse date from DD/MM/YYYY format
     const date = this.parseDate(dateStr);
@@ -224,36 +423,561 @@ export class StatementProcessor {
       return null;
     }
 
-    // Find matching partner based on cardholder name
-    const suggestedPartnerId = this.findPartnerByName(cardholderName);
+    // Find matching partner based on the card number and cardholder name
+    const suggestedPartnerId = this.findPartnerByCard(cardholderName, accountNum);
 
-    // Try fallback categorization first (faster, no API calls)
-    const fallbackResult = this.fallbackCategorization(description);
-    
-    let categoryId = fallbackResult.categoryId;
-    let confidence = fallbackResult.confidence;
-    
-    // Only use AI categorization if fallback confidence is low (< 0.6) or no match found
-    if (confidence < 0.6) {
-      console.log(`Low confidence (${confidence}) for "${description}", using AI categorization...`);
-      const aiResult = await this.categorizeBusiness(description);
-      categoryId = aiResult.categoryId;
-      confidence = aiResult.confidence;
-    }
+    // Purchases abroad are billed converted; the extra detail columns keep what was actually charged
+    const foreignSpend = fields.slice(5).join(' ').match(AMEX_FOREIGN_SPEND_PATTERN);
+    const foreignAmount = foreignSpend ? Math.abs(this.parseAmount(foreignSpend[1])) : 0;
 
-    return {
+    return this.categorizeTransaction({
       date,
       amount,
       description: description.trim(),
-      suggestedCategoryId: categoryId,
-      confidence,
       originalAmount: amountStr.trim(),
       sourceLabel: 'AMEX',
       suggestedPartnerId,
-      cardholderName: cardholderName.trim()
+      cardholderName: cardholderName.trim(),
+      ...(foreignSpend && foreignAmount > 0 && {
+        foreignAmount: Math.sign(amount) * foreignAmount,
+        foreignCurrency: foreignSpend[2].toUpperCase(),
+      }),
+    });
+  }
+
+  async parseOFXStatement(ofxContent: string, source: string): Promise<ParsedTransaction[]> {
+    // OFX 1.x is SGML where leaf elements have no closing tag, OFX 2.x is XML.
+    // Aggregates like <STMTTRN> are closed in both, so we split on those and
+    // read leaf values up to the next tag or line break.
+    const blocks = ofxContent.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+    if (blocks.length === 0) {
+      throw new Error('Invalid OFX format: no transactions found');
+    }
+
+    const institution = this.getOFXValue(ofxContent, 'ORG');
+    const sourceLabel = institution || this.getSourceLabel(source);
+    const currency = this.getOFXValue(ofxContent, 'CURDEF').toUpperCase() || undefined;
+    const transactions: ParsedTransaction[] = [];
+
+    let offset = 0;
+    for (const block of blocks) {
+      offset = ofxContent.indexOf(block, offset);
+      try {
+        const transaction = await this.parseOFXTransaction(block, sourceLabel, currency);
+        if (transaction) {
+          transactions.push(transaction);
+        }
+      } catch (error) {
+        console.warn(`Failed to parse OFX transaction: ${block.substring(0, 100)}`, error);
+        this.parseErrors.push({
+          line: this.getLineNumber(ofxContent, offset),
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return transactions;
+  }
+
+  private async parseOFXTransaction(block: string, sourceLabel: string, currency?: string): Promise<ParsedTransaction | null> {
+    const amountStr = this.getOFXValue(block, 'TRNAMT');
+    const dateStr = this.getOFXValue(block, 'DTPOSTED');
+    const fitId = this.getOFXValue(block, 'FITID');
+    const name = this.getOFXValue(block, 'NAME');
+    const memo = this.getOFXValue(block, 'MEMO');
+    const transactionType = this.getOFXValue(block, 'TRNTYPE').toUpperCase();
+
+    // OFX amounts are signed from the account holder's view (debits negative).
+    // Expenses are stored as positive amounts with refunds negative, so flip the sign.
+    const signedAmount = parseFloat(amountStr.replace(',', '.'));
+    if (isNaN(signedAmount) || signedAmount === 0 || !dateStr) {
+      return null;
+    }
+    const amount = -signedAmount;
+
+    const descriptionParts = [name];
+    if (memo && memo !== name) descriptionParts.push(memo);
+    const description = descriptionParts.filter(Boolean).join(' - ') || 'OFX Transaction';
+
+    return this.categorizeTransaction({
+      date: this.parseOFXDate(dateStr),
+      amount,
+      description: description.trim(),
+      originalAmount: amountStr,
+      sourceLabel,
+      externalId: fitId || undefined,
+      type: this.detectType(description, signedAmount > 0, transactionType === 'DIRECTDEP' || transactionType === 'DEP'),
+      currency,
+    });
+  }
+
+  // 1-based line of a position in the file, so OFX and CAMT entries are reported like CSV rows
+  private getLineNumber(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+  }
+
+  private getOFXValue(content: string, tag: string): string {
+    const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) return '';
+    return match[1]
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
+  private parseOFXDate(dateStr: string): string {
+    // OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; the booking day is all we need
+    const match = dateStr.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+      return this.parseDate(dateStr);
+    }
+    const [, year, month, day] = match;
+    return new Date(parseInt(year), parseInt(month) - 1, parseInt(day)).toISOString();
+  }
+
+  async parseCAMTStatement(xmlContent: string, source: string): Promise<ParsedTransaction[]> {
+    // ISO 20022 camt.053: one <Ntry> per booked entry, counterparty and purpose in <NtryDtls>
+    const entries = xmlContent.match(/<Ntry>[\s\S]*?<\/Ntry>/g) || [];
+    if (entries.length === 0) {
+      throw new Error('Invalid CAMT.053 format: no <Ntry> entries found');
+    }
+
+    this.balances = this.parseCAMTBalances(xmlContent);
+
+    const sourceLabel = this.getSourceLabel(source);
+    const transactions: ParsedTransaction[] = [];
+
+    let offset = 0;
+    for (const entry of entries) {
+      offset = xmlContent.indexOf(entry, offset);
+      try {
+        const transaction = await this.parseCAMTEntry(entry, sourceLabel);
+        if (transaction) {
+          transactions.push(transaction);
+        }
+      } catch (error) {
+        console.warn(`Failed to parse CAMT entry: ${entry.substring(0, 100)}`, error);
+        this.parseErrors.push({
+          line: this.getLineNumber(xmlContent, offset),
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return transactions;
+  }
+
+  private async parseCAMTEntry(entry: string, sourceLabel: string): Promise<ParsedTransaction | null> {
+    // Pending entries are not final yet and will show up again as booked
+    const status = this.getXMLValue(entry, 'Sts');
+    if (status === 'PDNG') {
+      return null;
+    }
+
+    const amountStr = this.getXMLValue(entry, 'Amt');
+    const indicator = this.getXMLValue(entry, 'CdtDbtInd');
+    const bookingDate = this.getXMLValue(this.getXMLBlock(entry, 'BookgDt'), 'Dt')
+      || this.getXMLValue(this.getXMLBlock(entry, 'BookgDt'), 'DtTm')
+      || this.getXMLValue(this.getXMLBlock(entry, 'ValDt'), 'Dt');
+
+    const unsignedAmount = parseFloat(amountStr);
+    if (isNaN(unsignedAmount) || unsignedAmount === 0 || !bookingDate) {
+      return null;
+    }
+    // Debits are spending (positive), credits are refunds or income (negative)
+    const amount = indicator === 'CRDT' ? -unsignedAmount : unsignedAmount;
+
+    // The counterparty is the creditor for outgoing payments and the debtor for incoming ones
+    const parties = this.getXMLBlock(entry, 'RltdPties');
+    const payee = this.getXMLValue(this.getXMLBlock(parties, indicator === 'CRDT' ? 'Dbtr' : 'Cdtr'), 'Nm');
+    const purpose = (entry.match(/<Ustrd>[\s\S]*?<\/Ustrd>/g) || [])
+      .map(line => this.getXMLValue(line, 'Ustrd'))
+      .join(' ')
+      .trim();
+    const transactionType = this.getXMLValue(entry, 'AddtlNtryInf');
+    // ISO bank transaction code family RCDT is a received credit transfer (SALA: salary)
+    const transactionFamily = this.getXMLValue(this.getXMLBlock(entry, 'Fmly'), 'Cd');
+
+    const description = this.buildDescription(payee, purpose || transactionType, purpose ? transactionType : '', 'Bank Transaction');
+
+    return this.categorizeTransaction({
+      date: this.parseDate(bookingDate.substring(0, 10)),
+      amount,
+      description: description.trim(),
+      originalAmount: `${indicator === 'CRDT' ? '' : '-'}${amountStr}`,
+      sourceLabel,
+      externalId: this.getXMLValue(entry, 'AcctSvcrRef') || undefined,
+      type: this.detectType(description, indicator === 'CRDT', transactionFamily === 'RCDT'),
+      currency: entry.match(/<Amt\s[^>]*Ccy="([A-Z]{3})"/)?.[1],
+    });
+  }
+
+  // A file may hold several <Stmt> (e.g. one per day): the first opening and the last closing balance span them all
+  private parseCAMTBalances(xmlContent: string): StatementBalances | null {
+    const balances: StatementBalances = {};
+
+    for (const block of xmlContent.match(/<Bal>[\s\S]*?<\/Bal>/g) || []) {
+      // OPBD is the opening booked balance, PRCD the previous day's closing that some banks send instead
+      const code = this.getXMLValue(this.getXMLBlock(block, 'Tp'), 'Cd');
+      const unsignedAmount = parseFloat(this.getXMLValue(block, 'Amt'));
+      if (isNaN(unsignedAmount)) continue;
+
+      const amount = this.getXMLValue(block, 'CdtDbtInd') === 'DBIT' ? -unsignedAmount : unsignedAmount;
+      const date = this.getXMLValue(block, 'Dt').substring(0, 10);
+
+      if ((code === 'OPBD' || code === 'PRCD') && balances.openingBalance === undefined) {
+        balances.openingBalance = amount;
+        if (code === 'OPBD' && date) balances.periodStart = this.parseDate(date);
+      } else if (code === 'CLBD') {
+        balances.closingBalance = amount;
+        if (date) balances.periodEnd = this.parseDate(date);
+      }
+    }
+
+    // The reporting period, when given, is more precise than the balance dates
+    const periods = xmlContent.match(/<FrToDt>[\s\S]*?<\/FrToDt>/g) || [];
+    const first = periods[0];
+    const last = periods[periods.length - 1];
+    if (first && last) {
+      const from = this.getXMLValue(first, 'FrDtTm') || this.getXMLValue(first, 'FrDt');
+      const to = this.getXMLValue(last, 'ToDtTm') || this.getXMLValue(last, 'ToDt');
+      if (from) balances.periodStart = this.parseDate(from.substring(0, 10));
+      if (to) balances.periodEnd = this.parseDate(to.substring(0, 10));
+    }
+
+    return Object.keys(balances).length > 0 ? balances : null;
+  }
+
+  private getXMLBlock(content: string, tag: string): string {
+    const match = content.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\/${tag}>`));
+    return match ? match[1] : '';
+  }
+
+  private getXMLValue(content: string, tag: string): string {
+    // Nested elements such as <Sts><Cd>BOOK</Cd></Sts> (camt.053.001.08+) resolve to their innermost text
+    return this.getXMLBlock(content, tag)
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
+  async parseMT940Statement(mt940Content: string, source: string): Promise<ParsedTransaction[]> {
+    // SWIFT MT940: each booking is a :61: line followed by an optional :86: details field.
+    // Field values may wrap onto continuation lines that don't start with a tag.
+    const fields: { tag: string; value: string; line: number }[] = [];
+    const lines = mt940Content.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+      const rawLine = lines[index];
+      const tagMatch = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (tagMatch) {
+        fields.push({ tag: tagMatch[1], value: tagMatch[2], line: index + 1 });
+      } else if (fields.length > 0 && rawLine.trim() && rawLine.trim() !== '-') {
+        fields[fields.length - 1].value += '\n' + rawLine;
+      }
+    }
+
+    const bookings = fields.filter(field => field.tag === '61');
+    if (bookings.length === 0) {
+      throw new Error('Invalid MT940 format: no :61: transaction lines found');
+    }
+
+    this.balances = this.parseMT940Balances(fields);
+    // Bookings carry no currency of their own; the opening balance line states the account's
+    const opening = fields.find(field => field.tag === '60F' || field.tag === '60M');
+    const currency = opening?.value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1];
+
+    const sourceLabel = this.getSourceLabel(source);
+    const transactions: ParsedTransaction[] = [];
+
+    for (let i = 0; i < fields.length; i++) {
+      if (fields[i].tag !== '61') continue;
+      const details = fields[i + 1]?.tag === '86' ? fields[i + 1].value : '';
+
+      try {
+        const transaction = await this.parseMT940Booking(fields[i].value, details, sourceLabel, currency);
+        if (transaction) {
+          transactions.push(transaction);
+        }
+      } catch (error) {
+        console.warn(`Failed to parse MT940 booking: ${fields[i].value}`, error);
+        this.parseErrors.push({
+          line: fields[i].line,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return transactions;
+  }
+
+  private async parseMT940Booking(
+    statementLine: string,
+    details: string,
+    sourceLabel: string,
+    currency?: string,
+  ): Promise<ParsedTransaction | null> {
+    // :61: YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)xxx reference[//bank reference]
+    const match = statementLine.match(/^(\d{2})(\d{2})(\d{2})(\d{2})?(\d{2})?(RC|RD|C|D)[A-Z]?(\d+,\d*)[NFS][A-Z0-9]{3}([^\n]*)/);
+    if (!match) {
+      return null;
+    }
+
+    const [, valueYear, valueMonth, valueDay, entryMonth, entryDay, mark, amountStr, references] = match;
+    const unsignedAmount = parseFloat(amountStr.replace(',', '.'));
+    if (isNaN(unsignedAmount) || unsignedAmount === 0) {
+      return null;
+    }
+    // Debits and reversed credits are spending (positive), credits and reversed debits are negative
+    const isDebit = mark === 'D' || mark === 'RC';
+    const amount = isDebit ? unsignedAmount : -unsignedAmount;
+
+    const { payee, purpose, transactionType } = this.parseMT940Details(details);
+    const description = this.buildDescription(payee, purpose, transactionType, 'Bank Transaction');
+
+    const bankReference = references.split('//')[1]?.trim();
+
+    // Prefer the booking (entry) date; it has no year, so borrow the value date's and handle year-end wrap
+    const valueDate = new Date(2000 + parseInt(valueYear), parseInt(valueMonth) - 1, parseInt(valueDay));
+    let date = valueDate;
+    if (entryMonth && entryDay) {
+      date = new Date(valueDate.getFullYear(), parseInt(entryMonth) - 1, parseInt(entryDay));
+      const monthsApart = parseInt(entryMonth) - parseInt(valueMonth);
+      if (monthsApart > 6) date.setFullYear(date.getFullYear() - 1);
+      if (monthsApart < -6) date.setFullYear(date.getFullYear() + 1);
+    }
+
+    return this.categorizeTransaction({
+      date: date.toISOString(),
+      amount,
+      description: description.trim(),
+      originalAmount: `${isDebit ? '-' : ''}${amountStr}`,
+      sourceLabel,
+      externalId: bankReference && bankReference !== 'NONREF' ? bankReference : undefined,
+      type: this.detectType(description, !isDebit, MT940_INCOMING_TYPES.test(transactionType)),
+      currency,
+    });
+  }
+
+  // :60F:/:60M: carry the opening and :62F:/:62M: the closing balance as (C|D)YYMMDD currency amount.
+  // Files with several statements span from the first opening to the last closing balance.
+  private parseMT940Balances(fields: { tag: string; value: string }[]): StatementBalances | null {
+    const parse = (value: string) => {
+      const match = value.match(/^(C|D)(\d{2})(\d{2})(\d{2})[A-Z]{3}(\d+,\d*)/);
+      if (!match) return null;
+      const [, mark, year, month, day, amountStr] = match;
+      const amount = parseFloat(amountStr.replace(',', '.'));
+      return {
+        amount: mark === 'D' ? -amount : amount,
+        date: new Date(2000 + parseInt(year), parseInt(month) - 1, parseInt(day)).toISOString(),
+      };
+    };
+
+    const opening = fields.find(field => field.tag === '60F') || fields.find(field => field.tag === '60M');
+    const closing = [...fields].reverse().find(field => field.tag === '62F' || field.tag === '62M');
+    const openingBalance = opening ? parse(opening.value) : null;
+    const closingBalance = closing ? parse(closing.value) : null;
+    if (!openingBalance && !closingBalance) {
+      return null;
+    }
+
+    // The opening balance is dated at the previous closing, so only the closing date bounds the period
+    return {
+      openingBalance: openingBalance?.amount,
+      closingBalance: closingBalance?.amount,
+      periodEnd: closingBalance?.date,
+    };
+  }
+
+  private parseMT940Details(details: string): { payee: string; purpose: string; transactionType: string } {
+    const text = details.replace(/\n/g, '');
+
+    // German banks use the structured form "GVC?00Buchungstext?20Zweck...?32Name..."
+    if (!/^\d{3}\?/.test(text)) {
+      return { payee: '', purpose: text.trim(), transactionType: '' };
+    }
+
+    const subfields = new Map<string, string>();
+    for (const part of text.split('?').slice(1)) {
+      subfields.set(part.substring(0, 2), part.substring(2));
+    }
+
+    const purposeCodes = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    let purpose = purposeCodes.map(code => subfields.get(code) || '').join('').trim();
+    // SEPA purposes carry keyed segments (EREF+, MREF+, SVWZ+); SVWZ+ is the actual reference text
+    const svwzIndex = purpose.indexOf('SVWZ+');
+    if (svwzIndex >= 0) {
+      purpose = purpose.substring(svwzIndex + 5).split(/\b[A-Z]{4}\+/)[0].trim();
+    }
+
+    return {
+      payee: `${subfields.get('32') || ''}${subfields.get('33') || ''}`.trim(),
+      purpose,
+      transactionType: (subfields.get('00') || '').trim(),
+    };
+  }
+
+  private buildDescription(payee: string, purpose: string, transactionType: string, fallback: string): string {
+    // Create meaningful description by combining available info
+    const descriptionParts = [];
+    if (payee && payee !== 'ISSUER') descriptionParts.push(payee);
+    if (purpose) descriptionParts.push(purpose);
+    if (transactionType && transactionType !== 'Ausgang' && transactionType !== 'Eingang') {
+      descriptionParts.push(`[${transactionType}]`);
+    }
+
+    return descriptionParts.join(' - ') || fallback;
+  }
+
+  private getSourceLabel(source: string): string {
+    const normalized = source.toLowerCase();
+    if (normalized.includes('amex')) return 'AMEX';
+    if (normalized.includes('chase')) return 'Chase';
+    if (normalized.includes('dkb')) return 'DKB';
+    if (normalized.includes('paypal')) return 'PayPal';
+    return 'Bank Transfer';
+  }
+
+  // Credits are income when the bank marks them as incoming transfers or they read like a salary;
+  // any other credit is a refund and stays a (negative) expense
+  private detectType(description: string, isCredit: boolean, isIncomingTransfer = false): TransactionType {
+    if (!isCredit) return 'expense';
+    return isIncomingTransfer || SALARY_PATTERN.test(description) ? 'income' : 'expense';
+  }
+
+  // Card payoffs and transfers between our own or the partners' accounts would double-count
+  // spending that is already imported from the card or the other account
+  private isInternalTransfer(transaction: UncategorizedTransaction): boolean {
+    const { description, sourceLabel } = transaction;
+    // On the card statement itself "AMEX" can be part of a fee or merchant name
+    if (sourceLabel !== 'AMEX' && CARD_PAYOFF_PATTERN.test(description)) return true;
+    return CARD_PAYMENT_RECEIVED_PATTERN.test(description)
+      || OWN_ACCOUNT_TRANSFER_PATTERN.test(description)
+      || this.isPartnerCounterparty(description);
+  }
+
+  // buildDescription puts the counterparty first; only full names count, so a partner called
+  // "Anna" doesn't turn "Anna's Café" into a transfer
+  private isPartnerCounterparty(description: string): boolean {
+    const counterparty = this.normalizeCardholder(description.split(' - ')[0]);
+    return this.partners.some(partner =>
+      [partner.name, ...(partner.cardholderAliases || [])]
+        .map(name => this.normalizeCardholder(name))
+        .some(name => name.includes(' ') && name === counterparty)
+    );
+  }
+
+  // The household's own rules take precedence over every automatic suggestion
+  private async categorizeTransaction(transaction: UncategorizedTransaction): Promise<ParsedTransaction> {
+    const outcome = this.ruleEngine?.evaluate(transaction);
+    const type = outcome?.type || (this.isInternalTransfer(transaction) ? 'transfer' : transaction.type) || 'expense';
+    const kindSuggestion = type === 'income' ? this.suggestIncomeCategory(transaction.description)
+      : type === 'transfer' ? this.suggestTransferCategory()
+      : null;
+    const { categoryId, confidence } = outcome?.categoryId
+      ? { categoryId: outcome.categoryId, confidence: 1 }
+      : kindSuggestion || await this.suggestCategory(transaction.description);
+
+    return {
+      ...transaction,
+      // Income is stored as the positive amount received, whatever sign the bank used
+      amount: type === 'income' ? Math.abs(transaction.amount) : transaction.amount,
+      suggestedCategoryId: categoryId,
+      confidence,
+      suggestedPartnerId: outcome?.partnerId || transaction.suggestedPartnerId,
+      tags: outcome?.tags.length ? outcome.tags : undefined,
+      excludeFromSpending: outcome?.excludeFromSpending || undefined,
+      type,
+    };
+  }
+
+  // Salaries go to an income category named like one, everything else to the first income category
+  private suggestIncomeCategory(description: string): { categoryId: string; confidence: number } | null {
+    const incomeCategories = this.categories.filter(category => category.kind === 'income');
+    if (incomeCategories.length === 0) {
+      return null;
+    }
+
+    if (SALARY_PATTERN.test(description)) {
+      const salaryCategory = incomeCategories.find(category => SALARY_CATEGORY_PATTERN.test(category.name));
+      if (salaryCategory) {
+        return { categoryId: salaryCategory.id, confidence: 0.9 };
+      }
+    }
+
+    const otherIncome = incomeCategories.find(category => !SALARY_CATEGORY_PATTERN.test(category.name)) || incomeCategories[0];
+    return { categoryId: otherIncome.id, confidence: 0.7 };
+  }
+
+  private suggestTransferCategory(): { categoryId: string; confidence: number } | null {
+    const transferCategory = this.categories.find(category => category.kind === 'transfer');
+    return transferCategory ? { categoryId: transferCategory.id, confidence: 0.9 } : null;
+  }
+
+  // Keyword matching is done by the household's categorization rules, which run before this
+  private async suggestCategory(description: string): Promise<{ categoryId: string; confidence: number }> {
+    // Mappings learned from our own corrections beat the categorizer
+    const learned = this.learnedRules?.match(description);
+    if (learned) {
+      return learned;
+    }
+
+    if (this.categorizer) {
+      try {
+        const suggestion = await this.categorizer.categorize(description);
+        if (suggestion) {
+          return suggestion;
+        }
+      } catch (error) {
+        console.error(`${this.categorizer.name} categorization failed:`, error);
+      }
+    }
+
+    // No match: the first spending category, with a confidence low enough to flag the row for review
+    const defaultCategory = this.categories.find(category => category.kind === 'expense') || this.categories[0];
+    return {
+      categoryId: defaultCategory?.id || '',
+      confidence: 0.3
     };
   }
 
+  // Partner assignment for card statements: the card's last four digits decide first, then the
+  // cardholder aliases configured per partner, then a fuzzy match on the partner name
+  private findPartnerByCard(cardholderName: string, cardNumber: string = ''): string | undefined {
+    if (this.partners.length === 0) {
+      return undefined;
+    }
+
+    const lastFour = cardNumber.replace(/\D/g, '').slice(-4);
+    if (lastFour.length === 4) {
+      const cardMatch = this.partners.find(partner => partner.cardLastFour?.includes(lastFour));
+      if (cardMatch) {
+        return cardMatch.id;
+      }
+    }
+
+    const cardholder = this.normalizeCardholder(cardholderName);
+    if (cardholder) {
+      const aliasMatch = this.partners.find(partner =>
+        partner.cardholderAliases?.some(alias => this.normalizeCardholder(alias) === cardholder)
+      );
+      if (aliasMatch) {
+        return aliasMatch.id;
+      }
+    }
+
+    return this.findPartnerByName(cardholderName);
+  }
+
+  // "L. SURNAME" and "l surname" are the same cardholder
+  private normalizeCardholder(name: string): string {
+    return name.toUpperCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
   private findPartnerByName(cardholderName: string): string | undefined {
     if (!cardholderName || this.partners.length === 0) {
       return undefined;
@@ -286,31 +1010,6 @@ export class StatementProcessor {
     return undefined;
   }
 
-  private parseCSVLine(line: string): string[] {
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    // Detect separator: semicolon for DKB, comma for others
-    const separator = line.includes(';') && line.split(';').length > line.split(',').length ? ';' : ',';
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === separator && !inQuotes) {
-        fields.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    fields.push(current.trim());
-    return fields;
-  }
-
   private parseAmount(amountStr: string): number {
     if (!amountStr) return 0;
     
@@ -318,8 +1017,8 @@ export class StatementProcessor {
     let cleaned = amountStr.replace(/["\$€£]/g, '').trim();
     
     // Handle European format (comma as decimal separator)
-    // Examples: "47,40", "1.234,56", "1234,56"
-    const europeanPattern = /^(\d{1,3}(?:\.\d{3})*),(\d{1,2})$/;
+    // Examples: "47,40", "1.234,56", "1234,56", "-12,50"
+    const europeanPattern = /^(-?\d{1,3}(?:\.\d{3})*),(\d{1,2})$/;
     const europeanMatch = cleaned.match(europeanPattern);
     
     if (europeanMatch) {
@@ -328,7 +1027,7 @@ export class StatementProcessor {
       cleaned = integerPart.replace(/\./g, '') + '.' + decimalPart;
     } else if (cleaned.includes(',') && !cleaned.includes('.')) {
       // Simple European format: "47,40" -> "47.40"
-      const simpleEuropeanPattern = /^(\d+),(\d{1,2})$/;
+      const simpleEuropeanPattern = /^(-?\d+),(\d{1,2})$/;
       const simpleMatch = cleaned.match(simpleEuropeanPattern);
       if (simpleMatch) {
         const [, integerPart, decimalPart] = simpleMatch;
@@ -343,6 +1042,56 @@ export class StatementProcessor {
     return isNaN(result) ? 0 : result;
   }
 
+  private parseAmountWithSeparator(amountStr: string, decimalSeparator: string): number {
+    let cleaned = amountStr.replace(/["\s\$€£]/g, '');
+    if (!cleaned) return 0;
+
+    // Accounting style negatives: "(12.50)" or trailing "12,50-"
+    let negative = false;
+    if (/^\(.*\)$/.test(cleaned)) {
+      negative = true;
+      cleaned = cleaned.slice(1, -1);
+    }
+    if (cleaned.endsWith('-')) {
+      negative = true;
+      cleaned = cleaned.slice(0, -1);
+    }
+
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    cleaned = cleaned.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+
+    const result = parseFloat(cleaned);
+    if (isNaN(result)) return 0;
+    return negative ? -Math.abs(result) : result;
+  }
+
+  private parseDateWithFormat(dateStr: string, dateFormat: string): string {
+    const cleaned = dateStr.replace(/"/g, '').trim();
+
+    // Turn e.g. "DD.MM.YYYY" into a regex, remembering the order of the parts
+    const order: string[] = [];
+    const pattern = dateFormat
+      .replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&')
+      .replace(/YYYY|YY|MM|DD/g, (token) => {
+        order.push(token);
+        return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+      });
+
+    const match = cleaned.match(new RegExp(`^${pattern}`));
+    if (!match) {
+      return this.parseDate(cleaned);
+    }
+
+    const parts: Record<string, number> = {};
+    order.forEach((token, index) => {
+      parts[token] = parseInt(match[index + 1]);
+    });
+    const year = parts.YYYY ?? 2000 + (parts.YY ?? 0);
+    const date = new Date(year, (parts.MM ?? 1) - 1, parts.DD ?? 1);
+
+    return isNaN(date.getTime()) ? this.parseDate(cleaned) : date.toISOString();
+  }
+
   private parseDate(dateStr: string): string {
     // Handle various date formats, prioritizing European DD-MM-YYYY format
     const cleaned = dateStr.replace(/"/g, '').trim();
@@ -435,99 +1184,4 @@ export class StatementProcessor {
     // Default to today
     return new Date().toISOString();
   }
-
-  private async categorizeBusiness(description: string): Promise<{ categoryId: string; confidence: number }> {
-    try {
-      const categoryList = this.categories.map(cat => `${cat.name} (${cat.emoji})`).join(', ');
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert at categorizing financial transactions for a couple's budget tracking app. Analyze the transaction description and categorize it into one of these categories: ${categoryList}.
-            
-            Return a JSON response with:
-            - categoryName: the exact category name (not the emoji)
-            - confidence: a number between 0 and 1 indicating how confident you are in this categorization
-            
-            Common patterns:
-            - "Groceries" for supermarkets, food stores, markets
-            - "Eating out" for restaurants, cafes, food delivery
-            - "Entertainment" for movies, games, streaming, events
-            - "Subscription" for monthly services, software, memberships
-            - "Transport" for gas, uber, parking, public transit
-            - "Gifts" for presents, flowers, gift cards
-            - "Vacation" for hotels, flights, travel expenses
-            - "Emergency spending" for urgent repairs, medical expenses
-            - "Supplement/medicine" for pharmacy, vitamins, health products`
-          },
-          {
-            role: "user",
-            content: `Categorize this transaction: "${description}"`
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 200
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || '{}');
-      const categoryName = result.categoryName || 'Entertainment';
-      const confidence = Math.min(Math.max(result.confidence || 0.5, 0), 1);
-
-      // Find matching category
-      const category = this.categories.find(cat => 
-        cat.name.toLowerCase() === categoryName.toLowerCase()
-      ) || this.categories.find(cat => cat.name === 'Entertainment');
-
-      return {
-        categoryId: category?.id || this.categories[0]?.id || '',
-        confidence
-      };
-
-    } catch (error) {
-      console.error('AI categorization failed:', error);
-      // Fallback to basic keyword matching
-      return this.fallbackCategorization(description);
-    }
-  }
-
-  private fallbackCategorization(description: string): { categoryId: string; confidence: number } {
-    const desc = description.toLowerCase();
-    
-    const patterns = [
-      { keywords: ['lidl', 'rewe', 'edeka', 'aldi', 'grocery', 'supermarket', 'market', 'food store', 'walmart', 'safeway', 'whole foods', 'netto', 'penny'], category: 'Groceries', confidence: 0.85 },
-      { keywords: ['restaurant', 'cafe', 'pizza', 'delivery', 'uber eats', 'doordash', 'lieferando', 'mcdonalds', 'burger', 'kfc', 'subway', 'bistro'], category: 'Eating out', confidence: 0.85 },
-      { keywords: ['netflix', 'spotify', 'amazon prime', 'disney', 'cinema', 'theater', 'concert'], category: 'Entertainment', confidence: 0.9 },
-      { keywords: ['bolt', 'uber', 'lyft', 'taxi', 'bvg', 'db bahn'], category: 'Transport', confidence: 0.9 },
-      { keywords: ['apotheke', 'dm', 'rossmann', 'pharmacy'], category: 'Supplement/medicine', confidence: 0.85 },
-      { keywords: ['hotel', 'booking', 'expedia', 'airbnb', 'flight'], category: 'Vacation', confidence: 0.85 },
-      { keywords: ['subscription', 'adobe', 'microsoft', 'saas'], category: 'Subscription', confidence: 0.8 },
-      // Lower confidence patterns for broader matches
-      { keywords: ['movie', 'game', 'entertainment'], category: 'Entertainment', confidence: 0.6 },
-      { keywords: ['gas', 'fuel', 'parking', 'transit', 'transport', 'train', 'bus'], category: 'Transport', confidence: 0.6 },
-      { keywords: ['gift', 'present', 'flower', 'card', 'geschenk'], category: 'Gifts', confidence: 0.7 },
-      { keywords: ['amazon', 'ebay', 'zalando', 'otto'], category: 'Entertainment', confidence: 0.5 }, // General shopping - low confidence
-      { keywords: ['medicine', 'drug', 'vitamin', 'health'], category: 'Supplement/medicine', confidence: 0.6 },
-    ];
-
-    // Check for high-confidence matches first
-    for (const pattern of patterns) {
-      for (const keyword of pattern.keywords) {
-        if (desc.includes(keyword)) {
-          const category = this.categories.find(cat => cat.name === pattern.category);
-          if (category) {
-            return { categoryId: category.id, confidence: pattern.confidence };
-          }
-        }
-      }
-    }
-
-    // No match found - return default with low confidence to trigger AI categorization
-    const defaultCategory = this.categories.find(cat => cat.name === 'Entertainment') || this.categories[0];
-    return { 
-      categoryId: defaultCategory?.id || '', 
-      confidence: 0.3 
-    };
-  }
-}
\ No newline at end of file
+}
@@ -9,16 +9,49 @@ import {
   type InsertStatement,
   type BudgetPeriod,
   type InsertBudgetPeriod,
+  type ImportProfile,
+  type InsertImportProfile,
+  type HouseholdSettings,
+  type UpdateHouseholdSettings,
+  type LearnedCategoryRule,
+  type CategorizationRule,
+  type InsertCategorizationRule,
+  type Merchant,
+  type InsertMerchant,
+  type Settlement,
+  type InsertSettlement,
+  type Account,
+  type InsertAccount,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type RecurringExpense,
+  type InsertRecurringExpense,
+  type EnvelopeTransfer,
+  type InsertEnvelopeTransfer,
+  type BudgetPeriodSeries,
+  type InsertBudgetPeriodSeries,
+  type UpdateBudgetPeriodSeries,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { getSpendingRows, type RefundMode } from "@shared/spending";
+
+// Every amount kept in the base currency, restated in a new one
+export interface BaseCurrencyRebase {
+  expenses: { id: string; update: Pick<Expense, "amount" | "foreignAmount" | "exchangeRate" | "splitShares"> }[];
+  settlements: { id: string; amount: string }[];
+  envelopeTransfers: { id: string; amount: string }[];
+  categories: { id: string; update: Pick<Category, "budget" | "monthlyBudget" | "envelopeCap"> }[];
+  budgetPeriods: { id: string; budgetAmount: string }[];
+  budgetPeriodSeries: { id: string; budgetAmount: string }[];
+}
 
 export interface IStorage {
   // Categories
   getCategories(): Promise<Category[]>;
-  createCategory(category: InsertCategory): Promise<Category>;
+  createCategory(category: InsertCategory & { envelopeStartMonth?: string | null }): Promise<Category>;
   updateCategory(
     id: string,
-    category: Partial<InsertCategory>,
+    category: Partial<InsertCategory> & { envelopeStartMonth?: string | null },
   ): Promise<Category | undefined>;
   deleteCategory(id: string): Promise<boolean>;
 
@@ -32,7 +65,11 @@ export interface IStorage {
   getExpenses(): Promise<
     (Expense & { category: Category; partner: Partner })[]
   >;
+  getExpense(id: string): Promise<Expense | undefined>;
   getExpensesByStatement(statementId: string): Promise<Expense[]>;
+  // Bank transaction IDs are only unique within one account, or within one statement format for statements without one
+  getExpenseByExternalId(externalId: string, statement: Pick<Statement, "accountId" | "source">): Promise<Expense | undefined>;
+  getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]>;
   createExpense(expense: InsertExpense): Promise<Expense>;
   updateExpense(
     id: string,
@@ -59,11 +96,93 @@ export interface IStorage {
   ): Promise<BudgetPeriod | undefined>;
   deleteBudgetPeriod(id: string): Promise<boolean>;
 
-  // Analytics
-  getSpendingByCategory(): Promise<
+  // Budget Period Series
+  getBudgetPeriodSeriesList(): Promise<BudgetPeriodSeries[]>;
+  getBudgetPeriodSeries(id: string): Promise<BudgetPeriodSeries | undefined>;
+  createBudgetPeriodSeries(series: InsertBudgetPeriodSeries): Promise<BudgetPeriodSeries>;
+  updateBudgetPeriodSeries(
+    id: string,
+    series: UpdateBudgetPeriodSeries & { nextInstanceIndex?: number },
+  ): Promise<BudgetPeriodSeries | undefined>;
+  // Periods of the series that haven't started are deleted with it; earlier ones are kept as one-off periods
+  deleteBudgetPeriodSeries(id: string): Promise<boolean>;
+
+  // Import Profiles
+  getImportProfiles(): Promise<ImportProfile[]>;
+  getImportProfile(id: string): Promise<ImportProfile | undefined>;
+  createImportProfile(profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(
+    id: string,
+    profile: Partial<InsertImportProfile>,
+  ): Promise<ImportProfile | undefined>;
+  deleteImportProfile(id: string): Promise<boolean>;
+
+  // Learned Category Rules
+  getLearnedCategoryRules(): Promise<LearnedCategoryRule[]>;
+  upsertLearnedCategoryRule(merchantKey: string, categoryId: string): Promise<LearnedCategoryRule>;
+  deleteLearnedCategoryRule(id: string): Promise<boolean>;
+
+  // Categorization Rules
+  getCategorizationRules(): Promise<CategorizationRule[]>;
+  createCategorizationRule(rule: InsertCategorizationRule): Promise<CategorizationRule>;
+  updateCategorizationRule(
+    id: string,
+    rule: Partial<InsertCategorizationRule>,
+  ): Promise<CategorizationRule | undefined>;
+  deleteCategorizationRule(id: string): Promise<boolean>;
+
+  // Merchants
+  getMerchants(): Promise<Merchant[]>;
+  createMerchant(merchant: InsertMerchant): Promise<Merchant>;
+  updateMerchant(id: string, merchant: Partial<InsertMerchant>): Promise<Merchant | undefined>;
+  // Moves the sources' aliases and expenses to the target and deletes the sources
+  mergeMerchants(targetId: string, sourceIds: string[]): Promise<Merchant | undefined>;
+
+  // Exchange rates
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  // A rate for a day and currency pair that is already known replaces the stored one
+  saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: string): Promise<boolean>;
+
+  // Accounts
+  getAccounts(): Promise<Account[]>;
+  getAccount(id: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: string, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  // Statements and expenses of a deleted account are kept without an account
+  deleteAccount(id: string): Promise<boolean>;
+
+  // Settlements
+  getSettlements(): Promise<Settlement[]>;
+  createSettlement(settlement: InsertSettlement): Promise<Settlement>;
+  deleteSettlement(id: string): Promise<boolean>;
+
+  // Envelope Transfers, an append-only log of money moved between envelopes
+  getEnvelopeTransfers(): Promise<EnvelopeTransfer[]>;
+  createEnvelopeTransfer(transfer: InsertEnvelopeTransfer): Promise<EnvelopeTransfer>;
+
+  // Recurring Expenses
+  getRecurringExpenses(): Promise<RecurringExpense[]>;
+  getRecurringExpense(id: string): Promise<RecurringExpense | undefined>;
+  createRecurringExpense(recurringExpense: InsertRecurringExpense & { nextDueDate: Date | null }): Promise<RecurringExpense>;
+  updateRecurringExpense(
+    id: string,
+    recurringExpense: Partial<InsertRecurringExpense> & { nextDueDate?: Date | null },
+  ): Promise<RecurringExpense | undefined>;
+  // Expenses booked for a deleted recurring expense are kept as ordinary expenses
+  deleteRecurringExpense(id: string): Promise<boolean>;
+
+  // Household Settings
+  getHouseholdSettings(): Promise<HouseholdSettings>;
+  updateHouseholdSettings(settings: UpdateHouseholdSettings & { defaultRulesCreated?: number }): Promise<HouseholdSettings>;
+  // Saves the settings together with the restated amounts of a new base currency, all or nothing
+  rebaseCurrency(rebase: BaseCurrencyRebase, settings: UpdateHouseholdSettings): Promise<HouseholdSettings>;
+
+  // Analytics, counting the same rows as the budget engine
+  getSpendingByCategory(refundMode: RefundMode): Promise<
     { categoryId: string; total: number; category: Category }[]
   >;
-  getMonthlySpending(): Promise<{ month: string; total: number }[]>;
+  getMonthlySpending(refundMode: RefundMode): Promise<{ month: string; total: number }[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -72,6 +191,17 @@ export class MemStorage implements IStorage {
   private expenses: Map<string, Expense>;
   private statements: Map<string, Statement>;
   private budgetPeriods: Map<string, BudgetPeriod>;
+  private budgetPeriodSeries: Map<string, BudgetPeriodSeries>;
+  private importProfiles: Map<string, ImportProfile>;
+  private learnedCategoryRules: Map<string, LearnedCategoryRule>;
+  private categorizationRules: Map<string, CategorizationRule>;
+  private merchants: Map<string, Merchant>;
+  private settlements: Map<string, Settlement>;
+  private accounts: Map<string, Account>;
+  private exchangeRates: Map<string, ExchangeRate>;
+  private recurringExpenses: Map<string, RecurringExpense>;
+  private envelopeTransfers: Map<string, EnvelopeTransfer>;
+  private householdSettings: HouseholdSettings;
 
   constructor() {
     this.categories = new Map();
@@ -79,6 +209,25 @@ export class MemStorage implements IStorage {
     this.expenses = new Map();
     this.statements = new Map();
     this.budgetPeriods = new Map();
+    this.budgetPeriodSeries = new Map();
+    this.importProfiles = new Map();
+    this.learnedCategoryRules = new Map();
+    this.categorizationRules = new Map();
+    this.merchants = new Map();
+    this.settlements = new Map();
+    this.accounts = new Map();
+    this.exchangeRates = new Map();
+    this.recurringExpenses = new Map();
+    this.envelopeTransfers = new Map();
+    this.householdSettings = {
+      id: randomUUID(),
+      categorizerProvider: "openai",
+      categorizerModel: null,
+      categorizerEndpoint: null,
+      baseCurrency: "EUR",
+      defaultRulesCreated: 0,
+      updatedAt: new Date(),
+    };
 
     // Initialize with default data
     this.initializeDefaultData();
@@ -109,10 +258,56 @@ export class MemStorage implements IStorage {
       this.categories.set(id, { 
         ...cat, 
         id,
-        includeInSpending: cat.includeInSpending ? 1 : 0
+        includeInSpending: cat.includeInSpending ? 1 : 0,
+        defaultSplitType: "equal",
+        defaultSplitShares: null,
+        kind: "expense",
+        budgetMode: "standard",
+        envelopeCap: null,
+        envelopeStartMonth: null,
       });
     });
 
+    // Income and transfer categories, kept out of the budget list and the mock expenses above
+    const incomeCategories = [
+      { name: "Salary", emoji: "💼", color: "#16A34A" },
+      { name: "Other income", emoji: "💶", color: "#65A30D" },
+    ];
+    incomeCategories.forEach((cat) => {
+      const id = randomUUID();
+      this.categories.set(id, {
+        ...cat,
+        id,
+        budget: null,
+        monthlyBudget: "0.00",
+        includeInSpending: 0,
+        defaultSplitType: "personal",
+        defaultSplitShares: null,
+        kind: "income",
+        budgetMode: "standard",
+        envelopeCap: null,
+        envelopeStartMonth: null,
+      });
+    });
+
+    // Money moved between our own accounts, such as credit card payoffs
+    const transferId = randomUUID();
+    this.categories.set(transferId, {
+      id: transferId,
+      name: "Transfers",
+      emoji: "🔁",
+      color: "#64748B",
+      budget: null,
+      monthlyBudget: "0.00",
+      includeInSpending: 0,
+      defaultSplitType: "personal",
+      defaultSplitShares: null,
+      kind: "transfer",
+      budgetMode: "standard",
+      envelopeCap: null,
+      envelopeStartMonth: null,
+    });
+
     // Default partners
     const defaultPartners = [
       { name: "Sarah", color: "#8B5CF6" },
@@ -123,7 +318,7 @@ export class MemStorage implements IStorage {
     defaultPartners.forEach((partner) => {
       const id = randomUUID();
       partnerIds.push(id);
-      this.partners.set(id, { ...partner, id });
+      this.partners.set(id, { ...partner, id, cardholderAliases: null, cardLastFour: null });
     });
 
     // Generate mock expenses for testing
@@ -502,6 +697,20 @@ export class MemStorage implements IStorage {
         isVerified: 'verified',
         originalAmount: null,
         sourceLabel: 'Cash',
+        currency: "EUR",
+        foreignAmount: null,
+        exchangeRate: null,
+        lineItems: null,
+        recurringExpenseId: null,
+        externalId: null,
+        tags: null,
+        excludeFromSpending: 0,
+        merchantId: null,
+        splitType: 'equal',
+        splitShares: null,
+        type: 'expense',
+        refundOfExpenseId: null,
+        accountId: null,
       };
 
       this.expenses.set(expense.id, expense);
@@ -512,14 +721,20 @@ export class MemStorage implements IStorage {
     return Array.from(this.categories.values());
   }
 
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+  async createCategory(insertCategory: InsertCategory & { envelopeStartMonth?: string | null }): Promise<Category> {
     const id = randomUUID();
     const category: Category = { 
       ...insertCategory, 
       id,
       budget: insertCategory.budget ?? null,
       monthlyBudget: insertCategory.monthlyBudget ?? null,
-      includeInSpending: insertCategory.includeInSpending ?? 1
+      includeInSpending: insertCategory.includeInSpending ?? 1,
+      defaultSplitType: insertCategory.defaultSplitType ?? "equal",
+      defaultSplitShares: insertCategory.defaultSplitShares ?? null,
+      kind: insertCategory.kind ?? "expense",
+      budgetMode: insertCategory.budgetMode ?? "standard",
+      envelopeCap: insertCategory.envelopeCap ?? null,
+      envelopeStartMonth: insertCategory.envelopeStartMonth ?? null,
     };
     this.categories.set(id, category);
     return category;
@@ -527,7 +742,7 @@ export class MemStorage implements IStorage {
 
   async updateCategory(
     id: string,
-    updateData: Partial<InsertCategory>,
+    updateData: Partial<InsertCategory> & { envelopeStartMonth?: string | null },
   ): Promise<Category | undefined> {
     const category = this.categories.get(id);
     if (!category) return undefined;
@@ -547,7 +762,12 @@ export class MemStorage implements IStorage {
 
   async createPartner(insertPartner: InsertPartner): Promise<Partner> {
     const id = randomUUID();
-    const partner: Partner = { ...insertPartner, id };
+    const partner: Partner = {
+      ...insertPartner,
+      id,
+      cardholderAliases: insertPartner.cardholderAliases ?? null,
+      cardLastFour: insertPartner.cardLastFour ?? null,
+    };
     this.partners.set(id, partner);
     return partner;
   }
@@ -583,8 +803,14 @@ export class MemStorage implements IStorage {
             budget: null,
             monthlyBudget: null,
             includeInSpending: 1,
+            defaultSplitType: "equal",
+            defaultSplitShares: null,
+            kind: "expense",
+            budgetMode: "standard",
+            envelopeCap: null,
+            envelopeStartMonth: null,
           },
-          partner: partner || { id: "", name: "Unknown", color: "#6B7280" },
+          partner: partner || { id: "", name: "Unknown", color: "#6B7280", cardholderAliases: null, cardLastFour: null },
         };
       })
       .sort((a, b) => {
@@ -610,6 +836,20 @@ export class MemStorage implements IStorage {
       isVerified: insertExpense.isVerified ?? "pending",
       originalAmount: insertExpense.originalAmount ?? null,
       sourceLabel: insertExpense.sourceLabel ?? null,
+      externalId: insertExpense.externalId ?? null,
+      tags: insertExpense.tags ?? null,
+      excludeFromSpending: insertExpense.excludeFromSpending ?? 0,
+      merchantId: insertExpense.merchantId ?? null,
+      splitType: insertExpense.splitType ?? "equal",
+      splitShares: insertExpense.splitShares ?? null,
+      type: insertExpense.type ?? "expense",
+      refundOfExpenseId: insertExpense.refundOfExpenseId ?? null,
+      accountId: insertExpense.accountId ?? null,
+      currency: insertExpense.currency ?? "EUR",
+      foreignAmount: insertExpense.foreignAmount ?? null,
+      exchangeRate: insertExpense.exchangeRate ?? null,
+      lineItems: insertExpense.lineItems ?? null,
+      recurringExpenseId: insertExpense.recurringExpenseId ?? null,
     };
     this.expenses.set(id, expense);
     return expense;
@@ -632,7 +872,9 @@ export class MemStorage implements IStorage {
   }
 
   async deleteExpense(id: string): Promise<boolean> {
-    return this.expenses.delete(id);
+    const deleted = this.expenses.delete(id);
+    if (deleted) this.unlinkRefunds([id]);
+    return deleted;
   }
 
   async bulkDeleteExpenses(ids: string[]): Promise<number> {
@@ -642,17 +884,27 @@ export class MemStorage implements IStorage {
         deletedCount++;
       }
     }
+    this.unlinkRefunds(ids);
     return deletedCount;
   }
 
-  async getSpendingByCategory(): Promise<
+  // Refunds of a deleted charge stay, but no longer point at it
+  private unlinkRefunds(deletedIds: string[]) {
+    const deleted = new Set(deletedIds);
+    this.expenses.forEach((expense) => {
+      if (expense.refundOfExpenseId && deleted.has(expense.refundOfExpenseId)) {
+        this.expenses.set(expense.id, { ...expense, refundOfExpenseId: null });
+      }
+    });
+  }
+
+  async getSpendingByCategory(refundMode: RefundMode): Promise<
     { categoryId: string; total: number; category: Category }[]
   > {
     const spendingMap = new Map<string, number>();
 
-    for (const expense of Array.from(this.expenses.values())) {
-      const current = spendingMap.get(expense.categoryId) || 0;
-      spendingMap.set(expense.categoryId, current + parseFloat(expense.amount));
+    for (const row of getSpendingRows(Array.from(this.expenses.values()), refundMode)) {
+      spendingMap.set(row.categoryId, (spendingMap.get(row.categoryId) || 0) + parseFloat(row.amount));
     }
 
     return Array.from(spendingMap.entries()).map(([categoryId, total]) => {
@@ -668,18 +920,24 @@ export class MemStorage implements IStorage {
           budget: null,
           monthlyBudget: null,
           includeInSpending: 1,
+          defaultSplitType: "equal",
+          defaultSplitShares: null,
+          kind: "expense",
+          budgetMode: "standard",
+          envelopeCap: null,
+          envelopeStartMonth: null,
         },
       };
     });
   }
 
-  async getMonthlySpending(): Promise<{ month: string; total: number }[]> {
+  async getMonthlySpending(refundMode: RefundMode): Promise<{ month: string; total: number }[]> {
     const monthlyMap = new Map<string, number>();
 
-    for (const expense of Array.from(this.expenses.values())) {
-      const month = new Date(expense.date).toISOString().slice(0, 7); // YYYY-MM
+    for (const row of getSpendingRows(Array.from(this.expenses.values()), refundMode)) {
+      const month = new Date(row.date).toISOString().slice(0, 7); // YYYY-MM
       const current = monthlyMap.get(month) || 0;
-      monthlyMap.set(month, current + parseFloat(expense.amount));
+      monthlyMap.set(month, current + parseFloat(row.amount));
     }
 
     return Array.from(monthlyMap.entries())
@@ -702,7 +960,17 @@ export class MemStorage implements IStorage {
       status: insertStatement.status ?? "pending",
       totalTransactions: insertStatement.totalTransactions ?? null,
       processedTransactions: insertStatement.processedTransactions ?? null,
+      skippedTransactions: insertStatement.skippedTransactions ?? null,
       errorMessage: insertStatement.errorMessage ?? null,
+      previewTransactions: insertStatement.previewTransactions ?? null,
+      suspectedDuplicates: insertStatement.suspectedDuplicates ?? null,
+      parseErrors: insertStatement.parseErrors ?? null,
+      accountId: insertStatement.accountId ?? null,
+      openingBalance: insertStatement.openingBalance ?? null,
+      closingBalance: insertStatement.closingBalance ?? null,
+      periodStart: insertStatement.periodStart ?? null,
+      periodEnd: insertStatement.periodEnd ?? null,
+      balanceSource: insertStatement.balanceSource ?? null,
     };
     this.statements.set(id, statement);
     return statement;
@@ -731,6 +999,25 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getExpense(id: string): Promise<Expense | undefined> {
+    return this.expenses.get(id);
+  }
+
+  async getExpenseByExternalId(externalId: string, statement: Pick<Statement, "accountId" | "source">): Promise<Expense | undefined> {
+    return Array.from(this.expenses.values()).find(expense => {
+      if (expense.externalId !== externalId) return false;
+      if (statement.accountId) return expense.accountId === statement.accountId;
+      const source = expense.statementId ? this.statements.get(expense.statementId) : undefined;
+      return source !== undefined && source.accountId === null && source.source === statement.source;
+    });
+  }
+
+  async getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]> {
+    return Array.from(this.expenses.values()).filter(
+      expense => expense.date >= startDate && expense.date <= endDate
+    );
+  }
+
   async getBudgetPeriods(): Promise<BudgetPeriod[]> {
     return Array.from(this.budgetPeriods.values()).sort((a, b) => 
       new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
@@ -745,6 +1032,8 @@ export class MemStorage implements IStorage {
       startDate: new Date(insertBudgetPeriod.startDate),
       endDate: new Date(insertBudgetPeriod.endDate),
       isActive: insertBudgetPeriod.isActive ?? 0,
+      seriesId: insertBudgetPeriod.seriesId ?? null,
+      isCustomized: insertBudgetPeriod.isCustomized ?? 0,
       createdAt: new Date(),
     };
     this.budgetPeriods.set(id, budgetPeriod);
@@ -771,6 +1060,446 @@ export class MemStorage implements IStorage {
   async deleteBudgetPeriod(id: string): Promise<boolean> {
     return this.budgetPeriods.delete(id);
   }
+
+  async getBudgetPeriodSeriesList(): Promise<BudgetPeriodSeries[]> {
+    return Array.from(this.budgetPeriodSeries.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getBudgetPeriodSeries(id: string): Promise<BudgetPeriodSeries | undefined> {
+    return this.budgetPeriodSeries.get(id);
+  }
+
+  async createBudgetPeriodSeries(insertSeries: InsertBudgetPeriodSeries): Promise<BudgetPeriodSeries> {
+    const id = randomUUID();
+    const series: BudgetPeriodSeries = {
+      ...insertSeries,
+      id,
+      startDate: new Date(insertSeries.startDate),
+      endDate: new Date(insertSeries.endDate),
+      anchorDates: insertSeries.anchorDates ?? null,
+      repeatUntil: insertSeries.repeatUntil ? new Date(insertSeries.repeatUntil) : null,
+      nextInstanceIndex: 0,
+      isActive: insertSeries.isActive ?? 1,
+      createdAt: new Date(),
+    };
+    this.budgetPeriodSeries.set(id, series);
+    return series;
+  }
+
+  async updateBudgetPeriodSeries(
+    id: string,
+    updateData: UpdateBudgetPeriodSeries & { nextInstanceIndex?: number },
+  ): Promise<BudgetPeriodSeries | undefined> {
+    const series = this.budgetPeriodSeries.get(id);
+    if (!series) return undefined;
+
+    const updated = {
+      ...series,
+      ...updateData,
+      repeatUntil: updateData.repeatUntil !== undefined
+        ? (updateData.repeatUntil ? new Date(updateData.repeatUntil) : null)
+        : series.repeatUntil,
+    };
+    this.budgetPeriodSeries.set(id, updated);
+    return updated;
+  }
+
+  async deleteBudgetPeriodSeries(id: string): Promise<boolean> {
+    if (!this.budgetPeriodSeries.has(id)) return false;
+
+    const now = new Date();
+    for (const budgetPeriod of Array.from(this.budgetPeriods.values())) {
+      if (budgetPeriod.seriesId !== id) continue;
+      if (budgetPeriod.startDate > now) {
+        this.budgetPeriods.delete(budgetPeriod.id);
+      } else {
+        this.budgetPeriods.set(budgetPeriod.id, { ...budgetPeriod, seriesId: null });
+      }
+    }
+    return this.budgetPeriodSeries.delete(id);
+  }
+
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return Array.from(this.importProfiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async getImportProfile(id: string): Promise<ImportProfile | undefined> {
+    return this.importProfiles.get(id);
+  }
+
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const id = randomUUID();
+    const profile: ImportProfile = {
+      ...insertProfile,
+      id,
+      delimiter: insertProfile.delimiter ?? ",",
+      headerRow: insertProfile.headerRow ?? 0,
+      dateFormat: insertProfile.dateFormat ?? "DD.MM.YYYY",
+      decimalSeparator: insertProfile.decimalSeparator ?? ",",
+      amountColumn: insertProfile.amountColumn ?? null,
+      debitColumn: insertProfile.debitColumn ?? null,
+      creditColumn: insertProfile.creditColumn ?? null,
+      signConvention: insertProfile.signConvention ?? "expense_negative",
+      sourceLabel: insertProfile.sourceLabel ?? null,
+      createdAt: new Date(),
+    };
+    this.importProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateImportProfile(
+    id: string,
+    updateData: Partial<InsertImportProfile>,
+  ): Promise<ImportProfile | undefined> {
+    const profile = this.importProfiles.get(id);
+    if (!profile) return undefined;
+
+    const updated = { ...profile, ...updateData };
+    this.importProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    return this.importProfiles.delete(id);
+  }
+
+  async getLearnedCategoryRules(): Promise<LearnedCategoryRule[]> {
+    return Array.from(this.learnedCategoryRules.values()).sort((a, b) =>
+      a.merchantKey.localeCompare(b.merchantKey)
+    );
+  }
+
+  async upsertLearnedCategoryRule(merchantKey: string, categoryId: string): Promise<LearnedCategoryRule> {
+    const existing = Array.from(this.learnedCategoryRules.values()).find(
+      rule => rule.merchantKey === merchantKey
+    );
+
+    // A correction to a different category replaces the mapping and restarts its count
+    const rule: LearnedCategoryRule = existing
+      ? {
+          ...existing,
+          categoryId,
+          hitCount: existing.categoryId === categoryId ? existing.hitCount + 1 : 1,
+          updatedAt: new Date(),
+        }
+      : {
+          id: randomUUID(),
+          merchantKey,
+          categoryId,
+          hitCount: 1,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+    this.learnedCategoryRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async deleteLearnedCategoryRule(id: string): Promise<boolean> {
+    return this.learnedCategoryRules.delete(id);
+  }
+
+  async getCategorizationRules(): Promise<CategorizationRule[]> {
+    return Array.from(this.categorizationRules.values()).sort((a, b) =>
+      a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async createCategorizationRule(insertRule: InsertCategorizationRule): Promise<CategorizationRule> {
+    const id = randomUUID();
+    const rule: CategorizationRule = {
+      ...insertRule,
+      id,
+      priority: insertRule.priority ?? 100,
+      isActive: insertRule.isActive ?? 1,
+      descriptionPattern: insertRule.descriptionPattern ?? null,
+      descriptionMatchType: insertRule.descriptionMatchType ?? "contains",
+      minAmount: insertRule.minAmount ?? null,
+      maxAmount: insertRule.maxAmount ?? null,
+      sourceLabel: insertRule.sourceLabel ?? null,
+      cardholderName: insertRule.cardholderName ?? null,
+      setType: insertRule.setType ?? null,
+      setCategoryId: insertRule.setCategoryId ?? null,
+      setPartnerId: insertRule.setPartnerId ?? null,
+      setTags: insertRule.setTags ?? null,
+      setExcludeFromSpending: insertRule.setExcludeFromSpending ?? 0,
+      createdAt: new Date(),
+    };
+    this.categorizationRules.set(id, rule);
+    return rule;
+  }
+
+  async updateCategorizationRule(
+    id: string,
+    updateData: Partial<InsertCategorizationRule>,
+  ): Promise<CategorizationRule | undefined> {
+    const rule = this.categorizationRules.get(id);
+    if (!rule) return undefined;
+
+    const updated = { ...rule, ...updateData };
+    this.categorizationRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteCategorizationRule(id: string): Promise<boolean> {
+    return this.categorizationRules.delete(id);
+  }
+
+  async getMerchants(): Promise<Merchant[]> {
+    return Array.from(this.merchants.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant> {
+    const id = randomUUID();
+    const merchant: Merchant = {
+      ...insertMerchant,
+      id,
+      createdAt: new Date(),
+    };
+    this.merchants.set(id, merchant);
+    return merchant;
+  }
+
+  async updateMerchant(id: string, updateData: Partial<InsertMerchant>): Promise<Merchant | undefined> {
+    const merchant = this.merchants.get(id);
+    if (!merchant) return undefined;
+
+    const updated = { ...merchant, ...updateData };
+    this.merchants.set(id, updated);
+    return updated;
+  }
+
+  async mergeMerchants(targetId: string, sourceIds: string[]): Promise<Merchant | undefined> {
+    const target = this.merchants.get(targetId);
+    if (!target) return undefined;
+
+    const sources = sourceIds
+      .filter(id => id !== targetId)
+      .map(id => this.merchants.get(id))
+      .filter((merchant): merchant is Merchant => merchant !== undefined);
+    const mergedIds = new Set(sources.map(source => source.id));
+
+    for (const expense of Array.from(this.expenses.values())) {
+      if (expense.merchantId && mergedIds.has(expense.merchantId)) {
+        this.expenses.set(expense.id, { ...expense, merchantId: targetId });
+      }
+    }
+
+    const merged = {
+      ...target,
+      aliases: Array.from(new Set([...target.aliases, ...sources.flatMap(source => source.aliases)])),
+    };
+    this.merchants.set(targetId, merged);
+    sources.forEach(source => this.merchants.delete(source.id));
+    return merged;
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async saveExchangeRates(insertRates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    return insertRates.map((insertRate) => {
+      const date = new Date(insertRate.date);
+      const existing = Array.from(this.exchangeRates.values()).find(rate =>
+        rate.date.getTime() === date.getTime() &&
+        rate.fromCurrency === insertRate.fromCurrency &&
+        rate.toCurrency === insertRate.toCurrency
+      );
+
+      const rate: ExchangeRate = {
+        ...insertRate,
+        id: existing?.id ?? randomUUID(),
+        date,
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      this.exchangeRates.set(rate.id, rate);
+      return rate;
+    });
+  }
+
+  async deleteExchangeRate(id: string): Promise<boolean> {
+    return this.exchangeRates.delete(id);
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    return Array.from(this.accounts.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAccount(id: string): Promise<Account | undefined> {
+    return this.accounts.get(id);
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const id = randomUUID();
+    const account: Account = {
+      ...insertAccount,
+      id,
+      currency: insertAccount.currency ?? "EUR",
+      institution: insertAccount.institution ?? null,
+      createdAt: new Date(),
+    };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async updateAccount(id: string, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    if (!account) return undefined;
+
+    const updated = { ...account, ...updateData };
+    this.accounts.set(id, updated);
+    return updated;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    if (!this.accounts.delete(id)) return false;
+
+    this.expenses.forEach((expense) => {
+      if (expense.accountId === id) this.expenses.set(expense.id, { ...expense, accountId: null });
+    });
+    this.statements.forEach((statement) => {
+      if (statement.accountId === id) this.statements.set(statement.id, { ...statement, accountId: null });
+    });
+    return true;
+  }
+
+  async getSettlements(): Promise<Settlement[]> {
+    return Array.from(this.settlements.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async createSettlement(insertSettlement: InsertSettlement): Promise<Settlement> {
+    const id = randomUUID();
+    const settlement: Settlement = {
+      ...insertSettlement,
+      id,
+      date: insertSettlement.date ? new Date(insertSettlement.date) : new Date(),
+      note: insertSettlement.note ?? null,
+      createdAt: new Date(),
+    };
+    this.settlements.set(id, settlement);
+    return settlement;
+  }
+
+  async deleteSettlement(id: string): Promise<boolean> {
+    return this.settlements.delete(id);
+  }
+
+  async getEnvelopeTransfers(): Promise<EnvelopeTransfer[]> {
+    return Array.from(this.envelopeTransfers.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async createEnvelopeTransfer(insertTransfer: InsertEnvelopeTransfer): Promise<EnvelopeTransfer> {
+    const id = randomUUID();
+    const transfer: EnvelopeTransfer = {
+      ...insertTransfer,
+      id,
+      date: insertTransfer.date ? new Date(insertTransfer.date) : new Date(),
+      note: insertTransfer.note ?? null,
+      createdAt: new Date(),
+    };
+    this.envelopeTransfers.set(id, transfer);
+    return transfer;
+  }
+
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    return Array.from(this.recurringExpenses.values()).sort((a, b) => a.description.localeCompare(b.description));
+  }
+
+  async getRecurringExpense(id: string): Promise<RecurringExpense | undefined> {
+    return this.recurringExpenses.get(id);
+  }
+
+  async createRecurringExpense(
+    insertRecurringExpense: InsertRecurringExpense & { nextDueDate: Date | null },
+  ): Promise<RecurringExpense> {
+    const id = randomUUID();
+    const recurringExpense: RecurringExpense = {
+      ...insertRecurringExpense,
+      id,
+      currency: insertRecurringExpense.currency ?? "EUR",
+      accountId: insertRecurringExpense.accountId ?? null,
+      splitType: insertRecurringExpense.splitType ?? "equal",
+      splitShares: insertRecurringExpense.splitShares ?? null,
+      interval: insertRecurringExpense.interval ?? 1,
+      startDate: new Date(insertRecurringExpense.startDate),
+      endDate: insertRecurringExpense.endDate ? new Date(insertRecurringExpense.endDate) : null,
+      isActive: insertRecurringExpense.isActive ?? 1,
+      createdAt: new Date(),
+    };
+    this.recurringExpenses.set(id, recurringExpense);
+    return recurringExpense;
+  }
+
+  async updateRecurringExpense(
+    id: string,
+    updateData: Partial<InsertRecurringExpense> & { nextDueDate?: Date | null },
+  ): Promise<RecurringExpense | undefined> {
+    const recurringExpense = this.recurringExpenses.get(id);
+    if (!recurringExpense) return undefined;
+
+    const updated: RecurringExpense = {
+      ...recurringExpense,
+      ...updateData,
+      startDate: updateData.startDate ? new Date(updateData.startDate) : recurringExpense.startDate,
+      endDate: updateData.endDate !== undefined
+        ? updateData.endDate ? new Date(updateData.endDate) : null
+        : recurringExpense.endDate,
+    };
+    this.recurringExpenses.set(id, updated);
+    return updated;
+  }
+
+  async deleteRecurringExpense(id: string): Promise<boolean> {
+    if (!this.recurringExpenses.delete(id)) return false;
+
+    this.expenses.forEach((expense) => {
+      if (expense.recurringExpenseId === id) this.expenses.set(expense.id, { ...expense, recurringExpenseId: null });
+    });
+    return true;
+  }
+
+  async getHouseholdSettings(): Promise<HouseholdSettings> {
+    return this.householdSettings;
+  }
+
+  async updateHouseholdSettings(updateData: UpdateHouseholdSettings & { defaultRulesCreated?: number }): Promise<HouseholdSettings> {
+    this.householdSettings = {
+      ...this.householdSettings,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    return this.householdSettings;
+  }
+
+  async rebaseCurrency(rebase: BaseCurrencyRebase, settings: UpdateHouseholdSettings): Promise<HouseholdSettings> {
+    for (const { id, update } of rebase.expenses) {
+      const expense = this.expenses.get(id);
+      if (expense) this.expenses.set(id, { ...expense, ...update });
+    }
+    for (const { id, amount } of rebase.settlements) {
+      const settlement = this.settlements.get(id);
+      if (settlement) this.settlements.set(id, { ...settlement, amount });
+    }
+    for (const { id, amount } of rebase.envelopeTransfers) {
+      const transfer = this.envelopeTransfers.get(id);
+      if (transfer) this.envelopeTransfers.set(id, { ...transfer, amount });
+    }
+    for (const { id, update } of rebase.categories) {
+      const category = this.categories.get(id);
+      if (category) this.categories.set(id, { ...category, ...update });
+    }
+    for (const { id, budgetAmount } of rebase.budgetPeriods) {
+      const period = this.budgetPeriods.get(id);
+      if (period) this.budgetPeriods.set(id, { ...period, budgetAmount });
+    }
+    for (const { id, budgetAmount } of rebase.budgetPeriodSeries) {
+      const series = this.budgetPeriodSeries.get(id);
+      if (series) this.budgetPeriodSeries.set(id, { ...series, budgetAmount });
+    }
+    return this.updateHouseholdSettings(settings);
+  }
 }
 
 import { DatabaseStorage } from "./database-storage";
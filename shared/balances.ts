@@ -0,0 +1,172 @@
+import type { Expense, Settlement } from "./schema";
+import { getPartnerShares } from "./splits";
+
+export interface PartnerMonthBalance {
+  partnerId: string;
+  paid: number; // What the partner paid for expenses this month
+  share: number; // The partner's part of this month's expenses under their splits
+  settlementsPaid: number;
+  settlementsReceived: number;
+  net: number; // Change in balance this month
+  balance: number; // Running balance at the end of the month; positive means the others owe this partner
+}
+
+export interface MonthBalance {
+  month: string; // YYYY-MM
+  partners: PartnerMonthBalance[];
+}
+
+export interface SuggestedTransfer {
+  fromPartnerId: string;
+  toPartnerId: string;
+  amount: number;
+}
+
+export interface BalanceSummary {
+  balances: { partnerId: string; balance: number }[];
+  suggestedTransfers: SuggestedTransfer[];
+  months: MonthBalance[]; // Newest first
+}
+
+type MonthTotals = Omit<PartnerMonthBalance, "net" | "balance">;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function getMonth(date: Date): string {
+  return new Date(date).toISOString().slice(0, 7); // YYYY-MM
+}
+
+// Income, transfers and rows marked as excluded were never shared spending
+function countsTowardBalance(expense: Expense): boolean {
+  return expense.excludeFromSpending !== 1 && expense.type === "expense";
+}
+
+// The fewest transfers that bring every balance back to zero: the largest debtor pays the largest creditor
+function suggestTransfers(balances: { partnerId: string; balance: number }[]): SuggestedTransfer[] {
+  const debtors = balances
+    .filter(entry => entry.balance < -0.005)
+    .map(entry => ({ ...entry }))
+    .sort((a, b) => a.balance - b.balance);
+  const creditors = balances
+    .filter(entry => entry.balance > 0.005)
+    .map(entry => ({ ...entry }))
+    .sort((a, b) => b.balance - a.balance);
+
+  const transfers: SuggestedTransfer[] = [];
+  let debtorIndex = 0;
+  let creditorIndex = 0;
+
+  while (debtorIndex < debtors.length && creditorIndex < creditors.length) {
+    const debtor = debtors[debtorIndex];
+    const creditor = creditors[creditorIndex];
+    const amount = roundCents(Math.min(-debtor.balance, creditor.balance));
+
+    if (amount > 0) {
+      transfers.push({ fromPartnerId: debtor.partnerId, toPartnerId: creditor.partnerId, amount });
+    }
+
+    debtor.balance += amount;
+    creditor.balance -= amount;
+    if (debtor.balance > -0.005) debtorIndex++;
+    if (creditor.balance < 0.005) creditorIndex++;
+  }
+
+  return transfers;
+}
+
+// Runs through expenses and settlements month by month, carrying each partner's net position forward
+export function computeBalances(
+  expenses: Expense[],
+  settlements: Settlement[],
+  partnerIds: string[],
+): BalanceSummary {
+  const monthTotals = new Map<string, Map<string, MonthTotals>>();
+
+  const getTotals = (month: string, partnerId: string): MonthTotals => {
+    let partners = monthTotals.get(month);
+    if (!partners) {
+      partners = new Map(partnerIds.map(id => [id, {
+        partnerId: id,
+        paid: 0,
+        share: 0,
+        settlementsPaid: 0,
+        settlementsReceived: 0,
+      }]));
+      monthTotals.set(month, partners);
+    }
+
+    let totals = partners.get(partnerId);
+    if (!totals) {
+      // A partner that has since been removed still affects the others' balances
+      totals = { partnerId, paid: 0, share: 0, settlementsPaid: 0, settlementsReceived: 0 };
+      partners.set(partnerId, totals);
+    }
+    return totals;
+  };
+
+  for (const expense of expenses.filter(countsTowardBalance)) {
+    const month = getMonth(expense.date);
+    getTotals(month, expense.partnerId).paid += parseFloat(expense.amount);
+
+    const shares = getPartnerShares(expense, partnerIds);
+    shares.forEach((share, partnerId) => {
+      getTotals(month, partnerId).share += share;
+    });
+  }
+
+  for (const settlement of settlements) {
+    const month = getMonth(settlement.date);
+    const amount = parseFloat(settlement.amount);
+    getTotals(month, settlement.fromPartnerId).settlementsPaid += amount;
+    getTotals(month, settlement.toPartnerId).settlementsReceived += amount;
+  }
+
+  const runningBalances = new Map<string, number>();
+  const months: MonthBalance[] = Array.from(monthTotals.keys())
+    .sort()
+    .map(month => ({
+      month,
+      partners: Array.from(monthTotals.get(month)!.values()).map(totals => {
+        const net = totals.paid - totals.share + totals.settlementsPaid - totals.settlementsReceived;
+        const balance = (runningBalances.get(totals.partnerId) || 0) + net;
+        runningBalances.set(totals.partnerId, balance);
+
+        return {
+          partnerId: totals.partnerId,
+          paid: roundCents(totals.paid),
+          share: roundCents(totals.share),
+          settlementsPaid: roundCents(totals.settlementsPaid),
+          settlementsReceived: roundCents(totals.settlementsReceived),
+          net: roundCents(net),
+          balance: roundCents(balance),
+        };
+      }),
+    }));
+
+  // Removed partners only appear in months they had activity in; carry their balance forward
+  months.forEach((entry, index) => {
+    if (index === 0) return;
+    for (const previous of months[index - 1].partners) {
+      if (!entry.partners.some(partner => partner.partnerId === previous.partnerId)) {
+        entry.partners.push({
+          partnerId: previous.partnerId,
+          paid: 0,
+          share: 0,
+          settlementsPaid: 0,
+          settlementsReceived: 0,
+          net: 0,
+          balance: previous.balance,
+        });
+      }
+    }
+  });
+
+  const balances = Array.from(runningBalances.entries())
+    .map(([partnerId, balance]) => ({ partnerId, balance: roundCents(balance) }));
+
+  return {
+    balances,
+    suggestedTransfers: suggestTransfers(balances),
+    months: months.reverse(),
+  };
+}
@@ -0,0 +1,46 @@
+import type { BudgetPeriodFrequency, BudgetPeriodSeries } from "./schema";
+import { getOccurrence } from "./recurring";
+
+type SeriesSchedule = Pick<BudgetPeriodSeries, "frequency" | "startDate" | "endDate" | "anchorDates" | "repeatUntil">;
+
+const MONTHS_PER_PERIOD: Record<Exclude<BudgetPeriodFrequency, "custom">, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+function parseDay(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+function isLastDayOfMonth(date: Date): boolean {
+  return new Date(date.getTime() + 24 * 60 * 60 * 1000).getUTCMonth() !== date.getUTCMonth();
+}
+
+function toLastDayOfMonth(date: Date): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+  return result;
+}
+
+// Start and end of the nth period of a series, n = 0 being the first, or null once the series has ended.
+// Both ends move by whole months; a period ending on the last day of a month, even February's, keeps doing so.
+export function getSeriesPeriod(series: SeriesSchedule, index: number): { startDate: Date; endDate: Date } | null {
+  let startDate: Date;
+  let endDate: Date;
+
+  if (series.frequency === "custom") {
+    const starts = [new Date(series.startDate), ...(series.anchorDates || []).map(parseDay).sort((a, b) => a.getTime() - b.getTime())];
+    if (index >= starts.length) return null;
+    startDate = starts[index];
+    endDate = new Date(startDate.getTime() + (new Date(series.endDate).getTime() - new Date(series.startDate).getTime()));
+  } else {
+    const interval = MONTHS_PER_PERIOD[series.frequency as Exclude<BudgetPeriodFrequency, "custom">] ?? 1;
+    startDate = getOccurrence({ frequency: "monthly", interval, startDate: series.startDate, endDate: null }, index);
+    endDate = getOccurrence({ frequency: "monthly", interval, startDate: series.endDate, endDate: null }, index);
+    if (isLastDayOfMonth(new Date(series.endDate))) endDate = toLastDayOfMonth(endDate);
+  }
+
+  if (series.repeatUntil && startDate > new Date(series.repeatUntil)) return null;
+  return { startDate, endDate };
+}
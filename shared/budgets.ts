@@ -0,0 +1,188 @@
+import type { BudgetPeriod, Category, EnvelopeTransfer, Expense } from "./schema";
+import { getEnvelopeBudget, isEnvelope } from "./envelopes";
+import { getSpendingRows, type RefundMode } from "./spending";
+
+export type BudgetSource = "monthly" | "period" | "envelope" | "none";
+export type BudgetPace = "on_track" | "at_risk" | "over_budget";
+
+export interface BudgetPeriodShare {
+  id: string;
+  name: string;
+  amount: number; // The period's budget prorated to the days it shares with the range
+}
+
+export interface CategoryBudgetStatus {
+  categoryId: string;
+  source: BudgetSource; // "period" as soon as a budget period covers part of the range
+  budget: number;
+  spent: number;
+  remaining: number;
+  percentage: number; // Spent as a share of the budget; above 100 when over
+  isOverBudget: boolean;
+  monthlyShare: number; // How many monthly budgets the days outside budget periods are worth
+  periods: BudgetPeriodShare[];
+  carriedIn: number | null; // Envelopes only: carried into the range's first month
+  moved: number | null; // Envelopes only: net moves within the range
+  expectedSpent: number; // The budget's share of the days elapsed so far
+  projectedSpent: number; // Spending by the end of the range if it goes on at the pace so far
+  pace: BudgetPace;
+}
+
+export interface BudgetStatus {
+  from: string; // YYYY-MM-DD
+  to: string;
+  dayCount: number;
+  elapsedDays: number; // Days of the range up to and including today
+  monthlyShare: number; // How many monthly budgets the whole range is worth, ignoring budget periods
+  categories: CategoryBudgetStatus[];
+  totals: { budget: number; spent: number; remaining: number };
+}
+
+export interface BudgetData {
+  categories: Category[];
+  expenses: Expense[];
+  budgetPeriods: BudgetPeriod[];
+  envelopeTransfers: EnvelopeTransfer[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Midnight UTC of the day a date falls on; months and days are keyed in UTC throughout
+function toDay(date: Date | string): number {
+  const value = new Date(date);
+  return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate());
+}
+
+function getDaysInMonth(day: number): number {
+  const value = new Date(day);
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function countDays(firstDay: number, lastDay: number): number {
+  return Math.max(0, Math.round((lastDay - firstDay) / DAY_MS) + 1);
+}
+
+// Monthly budgets are prorated per calendar month: each day is worth 1/28th to 1/31st of the month it falls
+// in, so a whole month always gets exactly its budget. Days covered by a budget period get nothing here.
+function getMonthlyShare(firstDay: number, lastDay: number, periods: BudgetPeriod[]): number {
+  let share = 0;
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    const covered = periods.some(period => toDay(period.startDate) <= day && toDay(period.endDate) >= day);
+    if (!covered) share += 1 / getDaysInMonth(day);
+  }
+  return Math.round(share * 10000) / 10000;
+}
+
+// A budget period adds the part of its amount that falls into the range, by days
+function getPeriodShare(period: BudgetPeriod, firstDay: number, lastDay: number): BudgetPeriodShare {
+  const periodStart = toDay(period.startDate);
+  const periodEnd = toDay(period.endDate);
+  const overlap = countDays(Math.max(periodStart, firstDay), Math.min(periodEnd, lastDay));
+  const amount = parseFloat(period.budgetAmount || "0") || 0;
+  return {
+    id: period.id,
+    name: period.name,
+    amount: roundCents(amount * overlap / countDays(periodStart, periodEnd)),
+  };
+}
+
+function getPace(status: Pick<CategoryBudgetStatus, "budget" | "isOverBudget" | "projectedSpent">): BudgetPace {
+  if (status.isOverBudget) return "over_budget";
+  if (status.budget > 0 && status.projectedSpent > status.budget) return "at_risk";
+  return "on_track";
+}
+
+// Effective budget, spending and pace of every expense category for the days from..to (YYYY-MM-DD, both
+// included). Active budget periods replace the monthly budget on the days they cover, envelopes add what
+// was carried over and moved, and split expenses count towards each line's category.
+export function getBudgetStatus(
+  data: BudgetData,
+  from: string,
+  to: string,
+  refundMode: RefundMode = "net",
+  now: Date = new Date(),
+): BudgetStatus {
+  const firstDay = toDay(`${from}T00:00:00.000Z`);
+  const lastDay = toDay(`${to}T00:00:00.000Z`);
+  const dayCount = countDays(firstDay, lastDay);
+  const elapsedDays = Math.min(dayCount, countDays(firstDay, toDay(now)));
+
+  // Envelopes carry balances over from earlier months, so they look at all spending
+  const spendingRows = getSpendingRows(data.expenses, refundMode).filter(expense => expense.date);
+
+  const spentByCategory = new Map<string, number>();
+  for (const row of spendingRows) {
+    const day = toDay(row.date);
+    if (day < firstDay || day > lastDay) continue;
+    const amount = parseFloat(row.amount);
+    spentByCategory.set(row.categoryId, (spentByCategory.get(row.categoryId) || 0) + (isNaN(amount) ? 0 : amount));
+  }
+
+  const categories = data.categories
+    .filter(category => category.kind === "expense")
+    .map((category): CategoryBudgetStatus => {
+      const periods = data.budgetPeriods.filter(period =>
+        period.isActive === 1 && period.categoryId === category.id
+        && toDay(period.startDate) <= lastDay && toDay(period.endDate) >= firstDay
+      );
+      const periodShares = periods.map(period => getPeriodShare(period, firstDay, lastDay));
+      const monthlyShare = getMonthlyShare(firstDay, lastDay, periods);
+      const monthlyBudget = parseFloat(category.monthlyBudget || "0") || 0;
+
+      let budget = periodShares.reduce((sum, share) => sum + share.amount, 0);
+      let carriedIn: number | null = null;
+      let moved: number | null = null;
+      if (isEnvelope(category)) {
+        const envelope = getEnvelopeBudget(
+          category, spendingRows, data.envelopeTransfers, new Date(firstDay), new Date(lastDay + DAY_MS - 1), monthlyShare,
+        );
+        budget += envelope.budget;
+        carriedIn = envelope.carriedIn;
+        moved = envelope.moved;
+      } else {
+        budget += monthlyBudget * monthlyShare;
+      }
+      budget = roundCents(budget);
+
+      const spent = roundCents(spentByCategory.get(category.id) || 0);
+      const remaining = roundCents(budget - spent);
+      // An envelope can start a month overdrawn, before anything is spent
+      const isOverBudget = carriedIn !== null ? remaining < 0 : spent > budget && budget > 0;
+      const projectedSpent = roundCents(elapsedDays > 0 ? spent * dayCount / elapsedDays : spent);
+
+      const source: BudgetSource = periods.length > 0
+        ? "period"
+        : carriedIn !== null ? "envelope" : monthlyBudget > 0 ? "monthly" : "none";
+
+      return {
+        categoryId: category.id,
+        source,
+        budget,
+        spent,
+        remaining,
+        percentage: budget > 0 ? Math.round(spent / budget * 1000) / 10 : spent > 0 || budget < 0 ? 100 : 0,
+        isOverBudget,
+        monthlyShare,
+        periods: periodShares,
+        carriedIn,
+        moved,
+        expectedSpent: budget > 0 ? roundCents(budget * elapsedDays / dayCount) : 0,
+        projectedSpent,
+        pace: getPace({ budget, isOverBudget, projectedSpent }),
+      };
+    });
+
+  const totalBudget = roundCents(categories.reduce((sum, category) => sum + category.budget, 0));
+  const totalSpent = roundCents(categories.reduce((sum, category) => sum + category.spent, 0));
+  return {
+    from,
+    to,
+    dayCount,
+    elapsedDays,
+    monthlyShare: getMonthlyShare(firstDay, lastDay, []),
+    categories,
+    totals: { budget: totalBudget, spent: totalSpent, remaining: roundCents(totalBudget - totalSpent) },
+  };
+}
@@ -0,0 +1,72 @@
+import type { Expense } from "./schema";
+import { getPartnerShares } from "./splits";
+
+export interface PartnerCashFlow {
+  partnerId: string;
+  income: number; // Income received by the partner this month
+  spending: number; // The partner's part of this month's spending under the splits
+  net: number; // Income minus spending
+}
+
+export interface MonthCashFlow {
+  month: string; // YYYY-MM
+  partners: PartnerCashFlow[];
+  income: number;
+  spending: number;
+  net: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function getMonth(date: Date): string {
+  return new Date(date).toISOString().slice(0, 7); // YYYY-MM
+}
+
+// Income minus spending per month and partner, newest month first.
+// Income belongs to the partner who received it; spending is split the same way as for balances.
+export function computeCashFlow(expenses: Expense[], partnerIds: string[]): MonthCashFlow[] {
+  const totalsByMonth = new Map<string, Map<string, { income: number; spending: number }>>();
+
+  const getTotals = (month: string, partnerId: string) => {
+    let partners = totalsByMonth.get(month);
+    if (!partners) {
+      partners = new Map(partnerIds.map(id => [id, { income: 0, spending: 0 }]));
+      totalsByMonth.set(month, partners);
+    }
+    let totals = partners.get(partnerId);
+    if (!totals) {
+      totals = { income: 0, spending: 0 };
+      partners.set(partnerId, totals);
+    }
+    return totals;
+  };
+
+  for (const expense of expenses) {
+    // Transfers between our own accounts are neither income nor spending
+    if (expense.excludeFromSpending === 1 || expense.type === "transfer") continue;
+    const month = getMonth(expense.date);
+
+    if (expense.type === "income") {
+      getTotals(month, expense.partnerId).income += parseFloat(expense.amount) || 0;
+      continue;
+    }
+
+    getPartnerShares(expense, partnerIds).forEach((share, partnerId) => {
+      getTotals(month, partnerId).spending += share;
+    });
+  }
+
+  return Array.from(totalsByMonth.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, partners]) => {
+      const partnerFlows = Array.from(partners.entries()).map(([partnerId, totals]) => ({
+        partnerId,
+        income: roundCents(totals.income),
+        spending: roundCents(totals.spending),
+        net: roundCents(totals.income - totals.spending),
+      }));
+      const income = roundCents(partnerFlows.reduce((sum, flow) => sum + flow.income, 0));
+      const spending = roundCents(partnerFlows.reduce((sum, flow) => sum + flow.spending, 0));
+      return { month, partners: partnerFlows, income, spending, net: roundCents(income - spending) };
+    });
+}
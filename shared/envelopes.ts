@@ -0,0 +1,104 @@
+import type { Category, EnvelopeTransfer } from "./schema";
+
+// Spending rows with income, transfers and excluded rows already left out and split expenses expanded
+type SpendingRow = { amount: string; date: Date | string; categoryId: string };
+type EnvelopeCategory = Pick<Category, "id" | "monthlyBudget" | "budgetMode" | "envelopeCap" | "envelopeStartMonth">;
+
+export interface EnvelopeMonth {
+  month: string; // YYYY-MM
+  carriedIn: number; // Left over (or overspent, when negative) from the month before, after the cap
+  funded: number; // The month's budget
+  moved: number; // Moved in from other envelopes minus moved out
+  spent: number;
+  available: number; // What the envelope holds at the end of the month, before the cap
+}
+
+export interface EnvelopeBudget {
+  carriedIn: number; // Into the first month of the range
+  funded: number; // The monthly budget prorated to the range, as for standard budgets
+  moved: number; // Net moves dated within the range
+  budget: number; // All of the above; what may be spent in the range
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function getMonth(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 7); // YYYY-MM
+}
+
+function getNextMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 7);
+}
+
+export function isEnvelope(category: Pick<Category, "budgetMode">): boolean {
+  return category.budgetMode === "envelope";
+}
+
+// What a transfer adds to (or, when negative, takes from) the envelope
+function getMovedAmount(transfer: EnvelopeTransfer, categoryId: string): number {
+  const amount = parseFloat(transfer.amount);
+  if (transfer.toCategoryId === categoryId) return amount;
+  if (transfer.fromCategoryId === categoryId) return -amount;
+  return 0;
+}
+
+// Month-by-month ledger of an envelope from the month it was opened through the given month. Each month adds
+// the monthly budget and the moves, takes the spending, and passes what is left on to the next month; a
+// surplus only up to the cap, a deficit always in full.
+export function getEnvelopeMonths(
+  category: EnvelopeCategory,
+  spending: SpendingRow[],
+  transfers: EnvelopeTransfer[],
+  throughMonth: string,
+): EnvelopeMonth[] {
+  const startMonth = category.envelopeStartMonth ?? throughMonth;
+  const monthlyBudget = parseFloat(category.monthlyBudget || "0") || 0;
+  const cap = category.envelopeCap !== null ? parseFloat(category.envelopeCap) : null;
+
+  const spentByMonth = new Map<string, number>();
+  for (const row of spending) {
+    if (row.categoryId !== category.id) continue;
+    const month = getMonth(row.date);
+    spentByMonth.set(month, (spentByMonth.get(month) || 0) + parseFloat(row.amount));
+  }
+
+  const movedByMonth = new Map<string, number>();
+  for (const transfer of transfers) {
+    const month = getMonth(transfer.date);
+    movedByMonth.set(month, (movedByMonth.get(month) || 0) + getMovedAmount(transfer, category.id));
+  }
+
+  const months: EnvelopeMonth[] = [];
+  let carriedIn = 0;
+  for (let month = startMonth; month <= throughMonth; month = getNextMonth(month)) {
+    const moved = roundCents(movedByMonth.get(month) || 0);
+    const spent = roundCents(spentByMonth.get(month) || 0);
+    const available = roundCents(carriedIn + monthlyBudget + moved - spent);
+    months.push({ month, carriedIn, funded: monthlyBudget, moved, spent, available });
+    carriedIn = cap !== null ? Math.min(available, cap) : available;
+  }
+  return months;
+}
+
+// Budget of an envelope for a date range. The balance is carried over per calendar month, so the range gets
+// what was carried into its first month on top of its own funding and moves.
+export function getEnvelopeBudget(
+  category: EnvelopeCategory,
+  spending: SpendingRow[],
+  transfers: EnvelopeTransfer[],
+  startDate: Date,
+  endDate: Date,
+  monthlyShare: number,
+): EnvelopeBudget {
+  const firstMonth = getMonth(startDate);
+  const ledger = getEnvelopeMonths(category, spending, transfers, firstMonth);
+  const carriedIn = ledger.length > 0 ? ledger[ledger.length - 1].carriedIn : 0;
+
+  const funded = roundCents((parseFloat(category.monthlyBudget || "0") || 0) * monthlyShare);
+  const moved = roundCents(transfers
+    .filter(transfer => new Date(transfer.date) >= startDate && new Date(transfer.date) <= endDate)
+    .reduce((sum, transfer) => sum + getMovedAmount(transfer, category.id), 0));
+
+  return { carriedIn, funded, moved, budget: roundCents(carriedIn + funded + moved) };
+}
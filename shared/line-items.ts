@@ -0,0 +1,67 @@
+import type { Expense, LineItem } from "./schema";
+
+type LineItemFields = Pick<Expense, "amount" | "categoryId" | "lineItems">;
+
+const toCents = (value: number) => Math.round(value * 100);
+
+// Explains why a set of line items can't be saved, or returns null when they are usable.
+// The total is the expense amount in its own currency.
+export function getLineItemsValidationError(lineItems: LineItem[] | null | undefined, total: number): string | null {
+  if (!lineItems || lineItems.length === 0) {
+    return null;
+  }
+  if (lineItems.length < 2) {
+    return "A split needs at least two lines";
+  }
+  if (lineItems.some(line => toCents(line.amount) === 0)) {
+    return "Every line needs an amount";
+  }
+  if (lineItems.some(line => Math.sign(line.amount) !== Math.sign(total))) {
+    return "Lines must have the same sign as the expense";
+  }
+
+  const sumCents = lineItems.reduce((sum, line) => sum + toCents(line.amount), 0);
+  if (sumCents !== toCents(total)) {
+    return `Lines must add up to ${total.toFixed(2)} (currently ${(sumCents / 100).toFixed(2)})`;
+  }
+  return null;
+}
+
+// The category a split expense is filed under when only one can be shown: that of its largest line
+export function getMainCategoryId(lineItems: LineItem[]): string | undefined {
+  return [...lineItems].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0]?.categoryId;
+}
+
+// What an expense adds to each category in the base currency: one part per line for a split expense,
+// otherwise the whole amount. Parts are worked out in cents so they add up to the stored amount.
+export function getCategoryAmounts(expense: LineItemFields): { categoryId: string; amount: number }[] {
+  const amountCents = toCents(parseFloat(expense.amount) || 0);
+  const lines = expense.lineItems;
+  if (!lines || lines.length === 0) {
+    return [{ categoryId: expense.categoryId, amount: amountCents / 100 }];
+  }
+
+  // Lines are in the expense's own currency; scale them to the stored base amount
+  const lineTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const parts = lines.map(line => ({
+    categoryId: line.categoryId,
+    cents: lineTotal === 0 ? 0 : Math.round(amountCents * line.amount / lineTotal),
+  }));
+  const remainder = amountCents - parts.reduce((sum, part) => sum + part.cents, 0);
+  parts[parts.length - 1].cents += remainder;
+
+  return parts.map(part => ({ categoryId: part.categoryId, amount: part.cents / 100 }));
+}
+
+// Splits expenses into one row per line item so category reports can treat them like any other expense
+export function expandLineItems<T extends LineItemFields>(expenses: T[]): T[] {
+  return expenses.flatMap(expense => {
+    if (!expense.lineItems || expense.lineItems.length === 0) return [expense];
+    return getCategoryAmounts(expense).map(part => ({
+      ...expense,
+      categoryId: part.categoryId,
+      amount: part.amount.toFixed(2),
+      lineItems: null,
+    }));
+  });
+}
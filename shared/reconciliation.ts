@@ -0,0 +1,126 @@
+import type { Account, Expense, Statement } from "./schema";
+
+export type ReconciliationStatus = "balanced" | "gap" | "missing_balances";
+
+export interface StatementReconciliation {
+  statementId: string;
+  fileName: string;
+  periodStart: string | null; // YYYY-MM-DD, inclusive
+  periodEnd: string | null;
+  openingBalance: number | null;
+  openingFromPrevious: boolean; // No opening balance of its own, the previous statement's closing balance is used
+  closingBalance: number | null;
+  expectedChange: number | null; // Closing minus opening balance
+  recordedChange: number; // What the account's transactions in the period add up to
+  difference: number | null; // Expected minus recorded change; anything but zero means rows are missing or wrong
+  carryOverGap: number | null; // Opening balance minus the previous closing balance, e.g. a statement missing in between
+  transactionCount: number;
+  status: ReconciliationStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function getDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+function parseBalance(value: string | null): number | null {
+  if (value === null) return null;
+  const balance = parseFloat(value);
+  return isNaN(balance) ? null : balance;
+}
+
+// How a row moves the account balance: spending lowers it, refunds (negative amounts) and income raise it.
+// Statements print balances in the account's currency, so rows made in it count with their original amount.
+export function getBalanceEffect(
+  expense: Pick<Expense, "amount" | "type" | "currency" | "foreignAmount">,
+  accountCurrency?: string,
+): number {
+  const inAccountCurrency = expense.currency === accountCurrency && expense.foreignAmount !== null;
+  const amount = parseFloat(inAccountCurrency ? expense.foreignAmount! : expense.amount) || 0;
+  return expense.type === "income" ? Math.abs(amount) : -amount;
+}
+
+// Checks each imported statement of an account, oldest first, against the transactions recorded for
+// its period. The period falls back to the statement's own booking dates when the file gave none.
+export function reconcileAccount(
+  account: Pick<Account, "id" | "currency">,
+  statements: Statement[],
+  expenses: Expense[],
+): StatementReconciliation[] {
+  const accountId = account.id;
+  const accountExpenses = expenses.filter(expense => expense.accountId === accountId);
+
+  const ownPeriod = (statement: Statement) => {
+    const days = accountExpenses
+      .filter(expense => expense.statementId === statement.id)
+      .map(expense => getDay(expense.date))
+      .sort();
+    return {
+      start: statement.periodStart ? getDay(statement.periodStart) : days[0] ?? null,
+      end: statement.periodEnd ? getDay(statement.periodEnd) : days[days.length - 1] ?? null,
+    };
+  };
+
+  const accountStatements = statements
+    .filter(statement => statement.accountId === accountId && statement.status === "completed")
+    .map(statement => ({ statement, period: ownPeriod(statement) }))
+    .sort((a, b) =>
+      (a.period.end ?? getDay(a.statement.uploadedAt)).localeCompare(b.period.end ?? getDay(b.statement.uploadedAt))
+    );
+
+  const results: StatementReconciliation[] = [];
+  let previous: StatementReconciliation | null = null;
+
+  for (const { statement, period } of accountStatements) {
+    const ownOpening = parseBalance(statement.openingBalance);
+    const closingBalance = parseBalance(statement.closingBalance);
+    const openingFromPrevious = ownOpening === null && previous?.closingBalance != null;
+    const openingBalance = openingFromPrevious ? previous!.closingBalance : ownOpening;
+
+    // A borrowed opening balance is only right if the period picks up the day after the previous one
+    let periodStart = period.start;
+    if (openingFromPrevious && !statement.periodStart && previous?.periodEnd) {
+      periodStart = getDay(new Date(new Date(previous.periodEnd).getTime() + DAY_MS));
+    }
+    const periodEnd = period.end;
+
+    const inPeriod = periodStart && periodEnd
+      ? accountExpenses.filter(expense => {
+          const day = getDay(expense.date);
+          return day >= periodStart! && day <= periodEnd;
+        })
+      : [];
+    const recordedChange = roundCents(inPeriod.reduce((sum, expense) => sum + getBalanceEffect(expense, account.currency), 0));
+
+    const expectedChange = openingBalance !== null && closingBalance !== null
+      ? roundCents(closingBalance - openingBalance)
+      : null;
+    const difference = expectedChange !== null ? roundCents(expectedChange - recordedChange) : null;
+    const carryOverGap = ownOpening !== null && previous?.closingBalance != null
+      ? roundCents(ownOpening - previous.closingBalance)
+      : null;
+
+    const result: StatementReconciliation = {
+      statementId: statement.id,
+      fileName: statement.fileName,
+      periodStart,
+      periodEnd,
+      openingBalance,
+      openingFromPrevious,
+      closingBalance,
+      expectedChange,
+      recordedChange,
+      difference,
+      carryOverGap: carryOverGap === 0 ? null : carryOverGap,
+      transactionCount: inPeriod.length,
+      status: difference === null ? "missing_balances" : difference === 0 && !carryOverGap ? "balanced" : "gap",
+    };
+    results.push(result);
+    previous = result;
+  }
+
+  return results;
+}
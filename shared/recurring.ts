@@ -0,0 +1,70 @@
+import type { RecurrenceFrequency, RecurringExpense } from "./schema";
+
+type Schedule = Pick<RecurringExpense, "frequency" | "interval" | "startDate" | "endDate">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest length of one step in days, used to skip ahead without passing the wanted occurrence
+const MAX_STEP_DAYS: Record<RecurrenceFrequency, number> = {
+  weekly: 7,
+  monthly: 31,
+  yearly: 366,
+  custom: 1,
+};
+
+function addMonthsKeepingDay(start: Date, months: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(start);
+  result.setUTCFullYear(year, month, Math.min(start.getUTCDate(), lastDay));
+  return result;
+}
+
+// The nth occurrence counted from the start date, n = 0 being the start date itself. Monthly and yearly
+// series are counted from the start every time, so a bill on the 31st falls on the 30th or 28th in shorter
+// months and is back on the 31st after them.
+export function getOccurrence(schedule: Schedule, index: number): Date {
+  const start = new Date(schedule.startDate);
+  const steps = index * Math.max(1, schedule.interval);
+
+  switch (schedule.frequency as RecurrenceFrequency) {
+    case "weekly":
+      return new Date(start.getTime() + steps * 7 * DAY_MS);
+    case "monthly":
+      return addMonthsKeepingDay(start, steps);
+    case "yearly":
+      return addMonthsKeepingDay(start, steps * 12);
+    default:
+      return new Date(start.getTime() + steps * DAY_MS);
+  }
+}
+
+// The first occurrence on or after the date, or null once the series has ended
+export function getNextOccurrence(schedule: Schedule, onOrAfter: Date | string): Date | null {
+  const time = new Date(onOrAfter).getTime();
+  const start = new Date(schedule.startDate).getTime();
+  const stepDays = MAX_STEP_DAYS[schedule.frequency as RecurrenceFrequency] ?? 1;
+  const stepMs = stepDays * Math.max(1, schedule.interval) * DAY_MS;
+
+  let index = Math.max(0, Math.floor((time - start) / stepMs) - 1);
+  let occurrence = getOccurrence(schedule, index);
+  while (occurrence.getTime() < time) {
+    occurrence = getOccurrence(schedule, ++index);
+  }
+
+  if (schedule.endDate && occurrence > new Date(schedule.endDate)) return null;
+  return occurrence;
+}
+
+// Every occurrence from one date to another, both inclusive
+export function listOccurrences(schedule: Schedule, from: Date | string, to: Date | string): Date[] {
+  const end = new Date(to);
+  const occurrences: Date[] = [];
+  let occurrence = getNextOccurrence(schedule, from);
+  while (occurrence && occurrence <= end) {
+    occurrences.push(occurrence);
+    occurrence = getNextOccurrence(schedule, new Date(occurrence.getTime() + 1));
+  }
+  return occurrences;
+}
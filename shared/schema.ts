@@ -1,7 +1,41 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { refundModes } from "./spending";
+
+// How an expense is divided between partners
+export const splitTypes = ["equal", "percentage", "fixed", "personal"] as const;
+export type SplitType = typeof splitTypes[number];
+
+// A partner's part of a split: a percentage for "percentage" splits, an amount for "fixed" splits
+export const splitShareSchema = z.object({
+  partnerId: z.string().min(1),
+  value: z.number().min(0),
+});
+
+export type SplitShare = z.infer<typeof splitShareSchema>;
+
+// One part of a receipt that mixes categories, e.g. the household supplies on a grocery bill.
+// The amount is in the expense's own currency and has the same sign as the expense.
+export const lineItemSchema = z.object({
+  amount: z.number(),
+  categoryId: z.string().min(1),
+  note: z.string().nullable().optional(),
+});
+
+export type LineItem = z.infer<typeof lineItemSchema>;
+
+// Whether a row is money going out, coming in, or moving between the household's own accounts
+// (e.g. paying off the credit card); categories carry the same distinction
+export const transactionTypes = ["expense", "income", "transfer"] as const;
+export type TransactionType = typeof transactionTypes[number];
+
+// ISO 4217 code such as "EUR" or "USD"
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, "Expected a three-letter currency code");
+
+export const budgetModes = ["standard", "envelope"] as const;
+export type BudgetMode = typeof budgetModes[number];
 
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -11,17 +45,26 @@ export const categories = pgTable("categories", {
   budget: decimal("budget", { precision: 10, scale: 2 }),
   monthlyBudget: decimal("monthly_budget", { precision: 10, scale: 2 }).default("0"),
   includeInSpending: integer("include_in_spending").default(1), // 0 = false, 1 = true
+  defaultSplitType: text("default_split_type").notNull().default("equal"), // Split for new expenses: 'equal', 'percentage', 'personal'
+  defaultSplitShares: jsonb("default_split_shares").$type<SplitShare[]>(), // Percentages for a 'percentage' default
+  kind: text("kind").notNull().default("expense"), // 'expense', 'income' or 'transfer'
+  // 'standard' starts every period afresh; 'envelope' carries what is left or overspent into the next month
+  budgetMode: text("budget_mode").notNull().default("standard"),
+  envelopeCap: decimal("envelope_cap", { precision: 10, scale: 2 }), // Most an envelope carries over; no cap when null
+  envelopeStartMonth: text("envelope_start_month"), // YYYY-MM the envelope was opened, set when switching to envelope mode
 });
 
 export const partners = pgTable("partners", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   color: text("color").notNull(),
+  cardholderAliases: jsonb("cardholder_aliases").$type<string[]>(), // Names as printed on card statements, e.g. "R PURNAMA"
+  cardLastFour: jsonb("card_last_four").$type<string[]>(), // Last four digits of the partner's cards
 });
 
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // In the household's base currency
   description: text("description").notNull(),
   categoryId: varchar("category_id").notNull(),
   partnerId: varchar("partner_id").notNull(),
@@ -31,6 +74,98 @@ export const expenses = pgTable("expenses", {
   isVerified: text("is_verified").default("pending"), // 'pending', 'verified', 'rejected'
   originalAmount: text("original_amount"), // Store original amount string from statement
   sourceLabel: text("source_label"), // Label for expense source: 'AMEX', 'DKB', 'PayPal', etc.
+  externalId: text("external_id"), // Bank-assigned transaction ID (e.g. OFX FITID) for recognising re-imports
+  tags: jsonb("tags").$type<string[]>(), // Free-form labels, e.g. set by categorization rules
+  excludeFromSpending: integer("exclude_from_spending").default(0), // 0 = false, 1 = true; left out of spending totals
+  merchantId: varchar("merchant_id"), // Normalised merchant the description resolved to
+  splitType: text("split_type").notNull().default("equal"), // 'equal', 'percentage', 'fixed', 'personal' (the payer's own)
+  splitShares: jsonb("split_shares").$type<SplitShare[]>(), // Per-partner percentages or amounts for 'percentage' / 'fixed'
+  type: text("type").notNull().default("expense"), // 'expense', 'income' or 'transfer'; income is stored as a positive amount received
+  refundOfExpenseId: varchar("refund_of_expense_id"), // For a refund (negative amount), the original charge it returns
+  accountId: varchar("account_id"), // Account the money left or arrived on
+  currency: text("currency").notNull().default("EUR"), // ISO 4217 code the transaction was made in
+  foreignAmount: decimal("foreign_amount", { precision: 10, scale: 2 }), // Amount in that currency when it is not the base currency
+  exchangeRate: decimal("exchange_rate", { precision: 14, scale: 6 }), // Base currency units per unit of the transaction currency used for the conversion
+  lineItems: jsonb("line_items").$type<LineItem[]>(), // Category split of the amount; categoryId is then the largest line's category
+  recurringExpenseId: varchar("recurring_expense_id"), // Recurring expense this row was booked for, or matched to when imported
+});
+
+// Locally maintained conversion rates, imported from CSV: one unit of fromCurrency buys rate units of toCurrency
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: timestamp("date").notNull(),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: decimal("rate", { precision: 14, scale: 6 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// A merchant as it appears across statements; every alias is a normalised description key
+export const merchants = pgTable("merchants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  aliases: jsonb("aliases").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const accountTypes = ["checking", "credit_card", "cash", "wallet"] as const;
+export type AccountType = typeof accountTypes[number];
+
+// A bank account, card, cash box or wallet (e.g. PayPal) that statements and expenses come from
+export const accounts = pgTable("accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull().default("checking"), // 'checking', 'credit_card', 'cash', 'wallet'
+  ownerPartnerIds: jsonb("owner_partner_ids").$type<string[]>().notNull(), // Several owners for a joint account
+  currency: text("currency").notNull().default("EUR"), // ISO 4217 code
+  institution: text("institution"), // Bank or card issuer, e.g. 'DKB', 'American Express'
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Money moved from one partner to the other to even out shared spending; never counted as spending
+export const settlements = pgTable("settlements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fromPartnerId: varchar("from_partner_id").notNull(),
+  toPartnerId: varchar("to_partner_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: timestamp("date").notNull().default(sql`now()`),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Money moved from one envelope to another. Moves are never edited or deleted; a move back undoes one.
+export const envelopeTransfers = pgTable("envelope_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fromCategoryId: varchar("from_category_id").notNull(),
+  toCategoryId: varchar("to_category_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // In the household's base currency
+  date: timestamp("date").notNull().default(sql`now()`), // Counts towards the envelopes of this month
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const recurrenceFrequencies = ["weekly", "monthly", "yearly", "custom"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// A bill or subscription that comes back on a schedule, such as rent or a streaming service.
+// The scheduler books an expense for each occurrence once it falls due.
+export const recurringExpenses = pgTable("recurring_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // In the recurring expense's own currency
+  currency: text("currency").notNull().default("EUR"),
+  categoryId: varchar("category_id").notNull(),
+  partnerId: varchar("partner_id").notNull(),
+  accountId: varchar("account_id"),
+  splitType: text("split_type").notNull().default("equal"),
+  splitShares: jsonb("split_shares").$type<SplitShare[]>(),
+  frequency: text("frequency").notNull().default("monthly"), // 'weekly', 'monthly', 'yearly' or 'custom'
+  interval: integer("interval").notNull().default(1), // Every n weeks, months or years; every n days for 'custom'
+  startDate: timestamp("start_date").notNull(), // First occurrence; monthly and yearly ones keep its day of the month
+  endDate: timestamp("end_date"), // Last day an occurrence may fall on, open-ended when empty
+  nextDueDate: timestamp("next_due_date"), // Next occurrence that hasn't been booked yet; empty once the series has ended
+  isActive: integer("is_active").notNull().default(1), // 0 = paused, 1 = active
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const budgetPeriods = pgTable("budget_periods", {
@@ -41,30 +176,174 @@ export const budgetPeriods = pgTable("budget_periods", {
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   isActive: integer("is_active").default(0), // 0 = false, 1 = true (SQLite compatibility)
+  seriesId: varchar("series_id"), // Set for periods created from a budget period series
+  isCustomized: integer("is_customized").notNull().default(0), // 1 once edited on its own; series edits leave it alone
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+export const budgetPeriodFrequencies = ["monthly", "quarterly", "yearly", "custom"] as const;
+export type BudgetPeriodFrequency = typeof budgetPeriodFrequencies[number];
+
+// A budget period that comes back, such as "Vacation summer" every June to August. The first period is the
+// template; later ones fall the same number of months later or, for 'custom', start on the anchor dates and
+// last as long as the first. Periods are created ahead of time, each as a budget period of its own.
+export const budgetPeriodSeries = pgTable("budget_period_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  categoryId: varchar("category_id").notNull(),
+  budgetAmount: decimal("budget_amount", { precision: 10, scale: 2 }).notNull(),
+  frequency: text("frequency").notNull(), // 'monthly', 'quarterly', 'yearly' or 'custom'
+  startDate: timestamp("start_date").notNull(), // First period
+  endDate: timestamp("end_date").notNull(),
+  anchorDates: jsonb("anchor_dates").$type<string[]>(), // YYYY-MM-DD starts of the later 'custom' periods
+  repeatUntil: timestamp("repeat_until"), // No periods start after this date; open-ended when null
+  nextInstanceIndex: integer("next_instance_index").notNull().default(0), // Periods before it have been created
+  isActive: integer("is_active").notNull().default(1), // 0 = paused, no new periods are created
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// A parsed statement row awaiting review before it becomes an expense
+export const previewTransactionSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  amount: z.number(),
+  description: z.string().min(1),
+  categoryId: z.string().min(1),
+  partnerId: z.string(),
+  confidence: z.number(),
+  originalAmount: z.string().optional(),
+  sourceLabel: z.string().optional(),
+  externalId: z.string().optional(),
+  cardholderName: z.string().optional(),
+  duplicateOfExpenseId: z.string().optional(), // Set when an existing expense looks like the same purchase
+  tags: z.array(z.string()).optional(),
+  excludeFromSpending: z.boolean().optional(),
+  type: z.enum(transactionTypes).optional(),
+  currency: z.string().optional(), // Set when the statement states it; otherwise the account's currency applies
+  foreignAmount: z.number().optional(), // What a card charged abroad before converting it into amount
+  foreignCurrency: z.string().optional(),
+});
+
+export type PreviewTransaction = z.infer<typeof previewTransactionSchema>;
+
+// A statement row held back because it matches an existing expense
+export const suspectedDuplicateSchema = z.object({
+  transaction: previewTransactionSchema,
+  expenseId: z.string(),
+  matchType: z.enum(["statement", "manual"]), // Matched an imported row or a manually entered expense
+  resolution: z.enum(["skipped", "merged", "imported"]).optional(),
+});
+
+export type SuspectedDuplicate = z.infer<typeof suspectedDuplicateSchema>;
+
+// A statement row that could not be read, reported by its 1-based line number
+export const statementParseErrorSchema = z.object({
+  line: z.number().int(),
+  message: z.string(),
+});
+
+export type StatementParseError = z.infer<typeof statementParseErrorSchema>;
+
 export const statements = pgTable("statements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   fileName: text("file_name").notNull(),
-  fileType: text("file_type").notNull(), // 'csv', 'pdf', etc.
-  source: text("source").notNull(), // 'amex', 'bank', 'chase', etc.
+  fileType: text("file_type").notNull(), // 'csv', 'ofx', 'pdf', etc.
+  source: text("source").notNull(), // Statement format: 'amex', 'bank', 'chase', etc.
+  accountId: varchar("account_id"), // Account the statement belongs to
   uploadedAt: timestamp("uploaded_at").notNull().default(sql`now()`),
   processedAt: timestamp("processed_at"),
-  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'preview', 'completed', 'failed', 'discarded'
   totalTransactions: integer("total_transactions"),
   processedTransactions: integer("processed_transactions"),
+  skippedTransactions: integer("skipped_transactions"), // Rows left out because an earlier statement already imported them
   errorMessage: text("error_message"),
+  previewTransactions: jsonb("preview_transactions").$type<PreviewTransaction[]>(), // Parsed rows held back until the import is reviewed
+  suspectedDuplicates: jsonb("suspected_duplicates").$type<SuspectedDuplicate[]>(), // Rows not imported because they look like existing expenses
+  parseErrors: jsonb("parse_errors").$type<StatementParseError[]>(), // Rows skipped because they could not be parsed
+  openingBalance: decimal("opening_balance", { precision: 10, scale: 2 }), // Account balance before the first booking of the period
+  closingBalance: decimal("closing_balance", { precision: 10, scale: 2 }), // Account balance after the last booking of the period
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  balanceSource: text("balance_source"), // 'file' when read from the statement, 'manual' when entered by hand
+});
+
+export const importProfiles = pgTable("import_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  delimiter: text("delimiter").notNull().default(","),
+  headerRow: integer("header_row").notNull().default(0), // 0-based line index of the column header row
+  dateFormat: text("date_format").notNull().default("DD.MM.YYYY"), // Tokens: DD, MM, YYYY, YY
+  decimalSeparator: text("decimal_separator").notNull().default(","), // ',' or '.'
+  dateColumn: integer("date_column").notNull(), // 0-based column indexes
+  descriptionColumn: integer("description_column").notNull(),
+  amountColumn: integer("amount_column"), // Single signed amount column
+  debitColumn: integer("debit_column"), // Debit/credit split, used when amountColumn is not set
+  creditColumn: integer("credit_column"),
+  signConvention: text("sign_convention").notNull().default("expense_negative"), // 'expense_negative' (bank style), 'expense_positive' (card style)
+  sourceLabel: text("source_label"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Merchant-to-category mappings learned from verified or corrected imported expenses
+export const learnedCategoryRules = pgTable("learned_category_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantKey: text("merchant_key").notNull().unique(), // Normalised leading words of the description
+  categoryId: varchar("category_id").notNull(),
+  hitCount: integer("hit_count").notNull().default(1), // Times the mapping was confirmed
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// User-defined import rules; all set conditions must match, lower priority runs first
+export const categorizationRules = pgTable("categorization_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().default(100),
+  isActive: integer("is_active").notNull().default(1), // 0 = false, 1 = true
+  descriptionPattern: text("description_pattern"),
+  descriptionMatchType: text("description_match_type").notNull().default("contains"), // 'contains', 'regex'
+  minAmount: decimal("min_amount", { precision: 10, scale: 2 }),
+  maxAmount: decimal("max_amount", { precision: 10, scale: 2 }),
+  sourceLabel: text("source_label"),
+  cardholderName: text("cardholder_name"),
+  setCategoryId: varchar("set_category_id"),
+  setPartnerId: varchar("set_partner_id"),
+  setTags: jsonb("set_tags").$type<string[]>(),
+  setExcludeFromSpending: integer("set_exclude_from_spending").notNull().default(0), // 1 = mark matches as excluded
+  setType: text("set_type"), // 'income', 'expense' or 'transfer' to override the detected type
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Single row of household-wide preferences
+export const householdSettings = pgTable("household_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  categorizerProvider: text("categorizer_provider").notNull().default("openai"), // 'openai', 'local_endpoint', 'offline', 'keywords'
+  categorizerModel: text("categorizer_model"), // Chat model for 'openai' / 'local_endpoint', defaults to gpt-4o
+  categorizerEndpoint: text("categorizer_endpoint"), // Base URL of an OpenAI-compatible server for 'local_endpoint'
+  baseCurrency: text("base_currency").notNull().default("EUR"), // Every amount and total is reported in this currency
+  defaultRulesCreated: integer("default_rules_created").notNull().default(0), // 1 once the starter keyword rules exist; deleted ones stay deleted
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
 }).extend({
   monthlyBudget: z.string().optional(),
+  // A fixed amount per partner only makes sense for a single expense
+  defaultSplitType: z.enum(["equal", "percentage", "personal"]).optional(),
+  defaultSplitShares: z.array(splitShareSchema).nullable().optional(),
+  kind: z.enum(transactionTypes).optional(),
+  budgetMode: z.enum(budgetModes).optional(),
+  envelopeCap: z.string().refine(value => parseFloat(value) >= 0, "Cap can't be negative").nullable().optional(),
+}).omit({
+  envelopeStartMonth: true,
 });
 
 export const insertPartnerSchema = createInsertSchema(partners).omit({
   id: true,
+}).extend({
+  cardholderAliases: z.array(z.string().trim().min(1)).nullable().optional(),
+  cardLastFour: z.array(z.string().regex(/^\d{4}$/, "Expected the last four digits of a card")).nullable().optional(),
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
@@ -73,6 +352,43 @@ export const insertExpenseSchema = createInsertSchema(expenses).omit({
 }).extend({
   date: z.string().optional(),
   sourceLabel: z.string().optional(),
+  tags: z.array(z.string()).nullable().optional(),
+  splitType: z.enum(splitTypes).optional(),
+  splitShares: z.array(splitShareSchema).nullable().optional(),
+  type: z.enum(transactionTypes).optional(),
+  currency: currencyCodeSchema.optional(),
+  exchangeRate: z.string().nullable().optional(),
+  lineItems: z.array(lineItemSchema).nullable().optional(),
+});
+
+export const insertEnvelopeTransferSchema = createInsertSchema(envelopeTransfers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  amount: z.string().refine(value => parseFloat(value) > 0, "Amount must be positive"),
+  date: z.string().optional(),
+  note: z.string().nullable().optional(),
+}).refine(transfer => transfer.fromCategoryId !== transfer.toCategoryId, {
+  message: "A move needs two different envelopes",
+  path: ["toCategoryId"],
+});
+
+export const insertRecurringExpenseSchema = createInsertSchema(recurringExpenses).omit({
+  id: true,
+  createdAt: true,
+  nextDueDate: true,
+}).extend({
+  description: z.string().trim().min(1, "Description is required"),
+  amount: z.string().refine(value => parseFloat(value) > 0, "Amount must be positive"),
+  currency: currencyCodeSchema.optional(),
+  accountId: z.string().nullable().optional(),
+  splitType: z.enum(splitTypes).optional(),
+  splitShares: z.array(splitShareSchema).nullable().optional(),
+  frequency: z.enum(recurrenceFrequencies),
+  interval: z.number().int().min(1).max(366).optional(),
+  startDate: z.string(),
+  endDate: z.string().nullable().optional(),
+  isActive: z.number().int().min(0).max(1).optional(),
 });
 
 export const insertBudgetPeriodSchema = createInsertSchema(budgetPeriods).omit({
@@ -84,13 +400,152 @@ export const insertBudgetPeriodSchema = createInsertSchema(budgetPeriods).omit({
   budgetAmount: z.string(),
 });
 
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const insertBudgetPeriodSeriesSchema = createInsertSchema(budgetPeriodSeries).omit({
+  id: true,
+  createdAt: true,
+  nextInstanceIndex: true,
+}).extend({
+  budgetAmount: z.string().refine(value => parseFloat(value) >= 0, "Amount can't be negative"),
+  frequency: z.enum(budgetPeriodFrequencies),
+  startDate: z.string(),
+  endDate: z.string(),
+  anchorDates: z.array(isoDateSchema).nullable().optional(),
+  repeatUntil: z.string().nullable().optional(),
+  isActive: z.number().int().min(0).max(1).optional(),
+});
+
+// Editing a whole series changes what its periods are about, not when they fall
+export const updateBudgetPeriodSeriesSchema = insertBudgetPeriodSeriesSchema.pick({
+  name: true,
+  categoryId: true,
+  budgetAmount: true,
+  repeatUntil: true,
+  isActive: true,
+}).partial();
+
+export const budgetStatusQuerySchema = z.object({
+  from: isoDateSchema,
+  to: isoDateSchema,
+  refundMode: z.enum(refundModes).default("net"),
+}).refine(query => query.from <= query.to, "The range must end on or after its start");
+
+export const analyticsQuerySchema = z.object({
+  refundMode: z.enum(refundModes).default("net"),
+});
+
 export const insertStatementSchema = createInsertSchema(statements).omit({
   id: true,
   uploadedAt: true,
 }).extend({
   processedAt: z.date().nullable().optional(),
+  previewTransactions: z.array(previewTransactionSchema).nullable().optional(),
+  suspectedDuplicates: z.array(suspectedDuplicateSchema).nullable().optional(),
+  parseErrors: z.array(statementParseErrorSchema).nullable().optional(),
+});
+
+export const commitStatementSchema = z.object({
+  transactions: z.array(previewTransactionSchema),
+});
+
+export const resolveDuplicateSchema = z.object({
+  action: z.enum(["skip", "merge", "import"]),
+});
+
+const balanceAmountSchema = z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Balance must be an amount like 1234.56");
+
+export const updateStatementBalancesSchema = z.object({
+  accountId: z.string().nullable().optional(),
+  openingBalance: balanceAmountSchema.nullable().optional(),
+  closingBalance: balanceAmountSchema.nullable().optional(),
+  periodStart: z.string().nullable().optional(),
+  periodEnd: z.string().nullable().optional(),
+}).refine(data => !data.periodStart || !data.periodEnd || data.periodStart <= data.periodEnd, {
+  message: "The period must end after it starts",
+  path: ["periodEnd"],
 });
 
+export const insertImportProfileSchema = createInsertSchema(importProfiles).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  delimiter: z.string().length(1).optional(),
+  decimalSeparator: z.enum([",", "."]).optional(),
+  signConvention: z.enum(["expense_negative", "expense_positive"]).optional(),
+});
+
+export const insertCategorizationRuleSchema = createInsertSchema(categorizationRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  descriptionMatchType: z.enum(["contains", "regex"]).optional(),
+  minAmount: z.string().nullable().optional(),
+  maxAmount: z.string().nullable().optional(),
+  setTags: z.array(z.string().trim().min(1)).nullable().optional(),
+  setType: z.enum(transactionTypes).nullable().optional(),
+});
+
+export const insertMerchantSchema = createInsertSchema(merchants).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  aliases: z.array(z.string()),
+});
+
+export const mergeMerchantsSchema = z.object({
+  targetId: z.string().min(1),
+  sourceIds: z.array(z.string().min(1)).min(1),
+  name: z.string().trim().min(1).optional(), // Renames the surviving merchant
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  date: z.string(),
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  rate: z.string().refine(value => parseFloat(value) > 0, "Rate must be positive"),
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(accountTypes),
+  ownerPartnerIds: z.array(z.string()).min(1, "An account needs at least one owner"),
+  currency: currencyCodeSchema.optional(),
+  institution: z.string().trim().nullable().optional(),
+});
+
+export const insertSettlementSchema = createInsertSchema(settlements).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  amount: z.string().refine(value => parseFloat(value) > 0, "Amount must be positive"),
+  date: z.string().optional(),
+  note: z.string().nullable().optional(),
+}).refine(settlement => settlement.fromPartnerId !== settlement.toPartnerId, {
+  message: "A settlement needs two different partners",
+  path: ["toPartnerId"],
+});
+
+export const categorizerProviders = ["openai", "local_endpoint", "offline", "keywords"] as const;
+
+export const updateHouseholdSettingsSchema = createInsertSchema(householdSettings).omit({
+  id: true,
+  defaultRulesCreated: true,
+  updatedAt: true,
+}).extend({
+  categorizerProvider: z.enum(categorizerProviders).optional(),
+  categorizerEndpoint: z.string().url().nullable().optional(),
+  baseCurrency: currencyCodeSchema.optional(),
+}).partial();
+
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertPartner = z.infer<typeof insertPartnerSchema>;
@@ -99,5 +554,28 @@ export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Expense = typeof expenses.$inferSelect;
 export type InsertStatement = z.infer<typeof insertStatementSchema>;
 export type Statement = typeof statements.$inferSelect;
+export type UpdateStatementBalances = z.infer<typeof updateStatementBalancesSchema>;
+export type InsertEnvelopeTransfer = z.infer<typeof insertEnvelopeTransferSchema>;
+export type EnvelopeTransfer = typeof envelopeTransfers.$inferSelect;
+export type InsertRecurringExpense = z.infer<typeof insertRecurringExpenseSchema>;
+export type RecurringExpense = typeof recurringExpenses.$inferSelect;
 export type InsertBudgetPeriod = z.infer<typeof insertBudgetPeriodSchema>;
 export type BudgetPeriod = typeof budgetPeriods.$inferSelect;
+export type InsertBudgetPeriodSeries = z.infer<typeof insertBudgetPeriodSeriesSchema>;
+export type UpdateBudgetPeriodSeries = z.infer<typeof updateBudgetPeriodSeriesSchema>;
+export type BudgetPeriodSeries = typeof budgetPeriodSeries.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type UpdateHouseholdSettings = z.infer<typeof updateHouseholdSettingsSchema>;
+export type HouseholdSettings = typeof householdSettings.$inferSelect;
+export type LearnedCategoryRule = typeof learnedCategoryRules.$inferSelect;
+export type InsertCategorizationRule = z.infer<typeof insertCategorizationRuleSchema>;
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type InsertMerchant = z.infer<typeof insertMerchantSchema>;
+export type Merchant = typeof merchants.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertSettlement = z.infer<typeof insertSettlementSchema>;
+export type Settlement = typeof settlements.$inferSelect;
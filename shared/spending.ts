@@ -0,0 +1,53 @@
+// Which rows count as spending, shared by the client screens and the server's budget engine
+import type { Expense } from "./schema";
+import { expandLineItems } from "./line-items";
+
+// Whether a row is income rather than spending
+export function isIncome(expense: { type?: string | null }): boolean {
+  return expense.type === "income";
+}
+
+// Whether a row moves money between the household's own accounts, such as a credit card payoff
+export function isTransfer(expense: { type?: string | null }): boolean {
+  return expense.type === "transfer";
+}
+
+// Whether a row is left out of spending totals: income, transfers, or marked (e.g. by a categorization rule) as excluded
+export function isExcludedFromSpending(expense: { excludeFromSpending?: number | null; type?: string | null }): boolean {
+  return expense.excludeFromSpending === 1 || isIncome(expense) || isTransfer(expense);
+}
+
+export const refundModes = ["gross", "net"] as const;
+export type RefundMode = typeof refundModes[number];
+
+// Whether a row gives money back on a purchase (stored as a negative amount)
+export function isRefund(expense: { amount: string; type?: string | null }): boolean {
+  return !isIncome(expense) && !isTransfer(expense) && parseFloat(expense.amount) < 0;
+}
+
+// Prepares expenses for spending reports. Gross leaves refunds out; net counts a linked refund
+// on its original charge's date and category, so a return lowers the month of the purchase
+export function applyRefundMode<T extends {
+  id: string;
+  amount: string;
+  date: Date | string;
+  categoryId: string;
+  type?: string | null;
+  refundOfExpenseId?: string | null;
+}>(expenses: T[], mode: RefundMode): T[] {
+  if (mode === "gross") {
+    return expenses.filter(expense => !isRefund(expense));
+  }
+
+  const byId = new Map(expenses.map(expense => [expense.id, expense]));
+  return expenses.map(expense => {
+    const original = expense.refundOfExpenseId ? byId.get(expense.refundOfExpenseId) : undefined;
+    return original ? { ...expense, date: original.date, categoryId: original.categoryId } : expense;
+  });
+}
+
+// The rows spending reports add up: refunds handled as the mode says, split expenses as one row per line,
+// and income, transfers and excluded rows left out
+export function getSpendingRows<T extends Expense>(expenses: T[], mode: RefundMode): T[] {
+  return expandLineItems(applyRefundMode(expenses, mode)).filter(expense => !isExcludedFromSpending(expense));
+}
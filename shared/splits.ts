@@ -0,0 +1,106 @@
+import type { Category, Expense, SplitShare, SplitType } from "./schema";
+
+type SplitFields = Pick<Expense, "amount" | "partnerId" | "splitType" | "splitShares">;
+
+function sumShares(shares: SplitShare[]): number {
+  return shares.reduce((sum, share) => sum + share.value, 0);
+}
+
+// Explains why a split can't be saved, or returns null when it is usable.
+// The amount is only needed to check fixed splits.
+export function getSplitValidationError(
+  splitType: SplitType | string,
+  shares: SplitShare[] | null | undefined,
+  amount?: number,
+): string | null {
+  if (splitType === "equal" || splitType === "personal") {
+    return null;
+  }
+
+  if (!shares || shares.length === 0) {
+    return "Enter a share for at least one partner";
+  }
+
+  const partnerIds = new Set(shares.map(share => share.partnerId));
+  if (partnerIds.size !== shares.length) {
+    return "Each partner can only have one share";
+  }
+
+  if (splitType === "percentage") {
+    const total = sumShares(shares);
+    if (Math.abs(total - 100) > 0.01) {
+      return `Percentages must add up to 100% (currently ${Math.round(total * 100) / 100}%)`;
+    }
+    return null;
+  }
+
+  if (splitType === "fixed") {
+    if (amount === undefined || isNaN(amount)) {
+      return null;
+    }
+    const total = sumShares(shares);
+    if (Math.abs(total - Math.abs(amount)) > 0.005) {
+      return `Amounts must add up to ${Math.abs(amount).toFixed(2)} (currently ${total.toFixed(2)})`;
+    }
+    return null;
+  }
+
+  return "Unknown split type";
+}
+
+// Works out how much of an expense each partner carries, in cents so the parts add up to the amount.
+// Any rounding remainder stays with the partner who paid.
+export function getPartnerShares(expense: SplitFields, partnerIds: string[]): Map<string, number> {
+  const totalCents = Math.round(parseFloat(expense.amount) * 100);
+  const centsByPartner = new Map<string, number>(partnerIds.map(id => [id, 0]));
+  const shares = expense.splitShares || [];
+
+  if (expense.splitType === "personal" || partnerIds.length === 0) {
+    centsByPartner.set(expense.partnerId, totalCents);
+  } else if (expense.splitType === "percentage" && shares.length > 0) {
+    for (const share of shares) {
+      centsByPartner.set(share.partnerId, Math.round(totalCents * share.value / 100));
+    }
+  } else if (expense.splitType === "fixed" && shares.length > 0) {
+    const sign = totalCents < 0 ? -1 : 1;
+    for (const share of shares) {
+      centsByPartner.set(share.partnerId, sign * Math.round(share.value * 100));
+    }
+  } else {
+    const perPartner = Math.trunc(totalCents / partnerIds.length);
+    partnerIds.forEach(id => centsByPartner.set(id, perPartner));
+  }
+
+  const assigned = Array.from(centsByPartner.values()).reduce((sum, cents) => sum + cents, 0);
+  centsByPartner.set(expense.partnerId, (centsByPartner.get(expense.partnerId) || 0) + totalCents - assigned);
+
+  return new Map(Array.from(centsByPartner.entries()).map(([id, cents]) => [id, cents / 100]));
+}
+
+// The split a new expense in this category starts with
+export function getDefaultSplit(category: Pick<Category, "defaultSplitType" | "defaultSplitShares"> | undefined): {
+  splitType: SplitType;
+  splitShares: SplitShare[] | null;
+} {
+  if (!category) {
+    return { splitType: "equal", splitShares: null };
+  }
+  return {
+    splitType: category.defaultSplitType as SplitType,
+    splitShares: category.defaultSplitType === "percentage" ? category.defaultSplitShares : null,
+  };
+}
+
+// Restates fixed shares for the same expense in another currency, keeping their proportions.
+// Rounding leftovers go to the largest share so the shares still add up to the amount.
+export function rescaleFixedShares(shares: SplitShare[], amount: number): SplitShare[] {
+  const totalCents = Math.round(sumShares(shares) * 100);
+  const targetCents = Math.round(Math.abs(amount) * 100);
+  if (totalCents === 0 || shares.length === 0) return shares;
+
+  const cents = shares.map(share => Math.round(share.value * 100 * targetCents / totalCents));
+  const largest = cents.indexOf(Math.max(...cents));
+  cents[largest] += targetCents - cents.reduce((sum, value) => sum + value, 0);
+
+  return shares.map((share, index) => ({ ...share, value: cents[index] / 100 }));
+}
@@ -0,0 +1,159 @@
+import type { Expense, RecurrenceFrequency } from "./schema";
+import { getOccurrence } from "./recurring";
+
+export type SubscriptionStatus = "active" | "possibly_cancelled";
+
+export interface PriceChange {
+  previousAmount: number;
+  amount: number;
+  date: string; // YYYY-MM-DD of the first charge at the new price
+}
+
+export interface DetectedSubscription {
+  key: string; // Merchant id, or the normalised description for rows without a merchant
+  merchantId: string | null;
+  description: string; // Of the latest charge
+  frequency: Exclude<RecurrenceFrequency, "custom">;
+  interval: number; // Every n weeks, months or years
+  amount: number; // Latest charge in the base currency
+  currency: string; // Latest charge's own currency and amount, for turning it into a recurring expense
+  originalAmount: number;
+  monthlyCost: number;
+  annualCost: number;
+  chargeCount: number;
+  firstCharge: string; // YYYY-MM-DD
+  lastCharge: string;
+  nextExpected: string;
+  priceChange: PriceChange | null; // Most recent change of the charged amount
+  status: SubscriptionStatus;
+  latest: Expense; // Category, partner, account and split come from here
+  recurringExpenseId: string | null; // Set when a recurring expense already covers it
+}
+
+interface Cadence {
+  frequency: DetectedSubscription["frequency"];
+  interval: number;
+  days: number; // Typical number of days between charges
+  toleranceDays: number; // How far a single gap may be off, e.g. for weekends and short months
+}
+
+const CADENCES: Cadence[] = [
+  { frequency: "weekly", interval: 1, days: 7, toleranceDays: 2 },
+  { frequency: "weekly", interval: 2, days: 14, toleranceDays: 3 },
+  { frequency: "monthly", interval: 1, days: 30.44, toleranceDays: 5 },
+  { frequency: "monthly", interval: 3, days: 91.31, toleranceDays: 10 },
+  { frequency: "monthly", interval: 6, days: 182.62, toleranceDays: 15 },
+  { frequency: "yearly", interval: 1, days: 365.25, toleranceDays: 20 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of gaps that must fit the cadence; one skipped or doubled charge in a long history is fine
+const MIN_REGULAR_SHARE = 0.75;
+// The largest charge may be this much above the smallest, e.g. after one or two price increases
+const MAX_AMOUNT_SPREAD = 1.5;
+// A subscription counts as possibly cancelled once a charge is this many gaps overdue
+const OVERDUE_GAPS = 1.5;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function getDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Groups rows of the same merchant; rows without one by their description minus numbers such as order ids
+function getGroupKey(expense: Expense): string {
+  if (expense.merchantId) return expense.merchantId;
+  return `description:${expense.description.toLowerCase().replace(/[^a-zäöüß]+/g, " ").trim()}`;
+}
+
+function getCadence(gaps: number[]): Cadence | null {
+  const typical = median(gaps);
+  const cadence = CADENCES.find(candidate => Math.abs(typical - candidate.days) <= candidate.toleranceDays);
+  if (!cadence) return null;
+
+  const regular = gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.toleranceDays).length;
+  return regular / gaps.length >= MIN_REGULAR_SHARE ? cadence : null;
+}
+
+function getMonthlyCost(amount: number, cadence: Cadence): number {
+  if (cadence.frequency === "weekly") return amount * 52 / 12 / cadence.interval;
+  if (cadence.frequency === "yearly") return amount / 12 / cadence.interval;
+  return amount / cadence.interval;
+}
+
+function getPriceChange(charges: Expense[]): PriceChange | null {
+  for (let i = charges.length - 1; i > 0; i--) {
+    const amount = parseFloat(charges[i].foreignAmount ?? charges[i].amount);
+    const previousAmount = parseFloat(charges[i - 1].foreignAmount ?? charges[i - 1].amount);
+    // Charges in another currency move with the rate; only a change of the charged price counts
+    if (charges[i].currency === charges[i - 1].currency && Math.abs(amount - previousAmount) >= 0.01) {
+      return { previousAmount, amount, date: getDay(charges[i].date) };
+    }
+  }
+  return null;
+}
+
+// Looks for charges that come back at a steady rhythm and a similar amount, such as streaming services,
+// gym memberships or insurance. Yearly charges need two payments, everything else three.
+// Subscriptions are returned by monthly cost, most expensive first.
+export function detectSubscriptions(expenses: Expense[], now: Date = new Date()): DetectedSubscription[] {
+  const groups = new Map<string, Expense[]>();
+  for (const expense of expenses) {
+    if (expense.type !== "expense" || expense.excludeFromSpending === 1 || !(parseFloat(expense.amount) > 0)) continue;
+    const key = getGroupKey(expense);
+    groups.set(key, [...(groups.get(key) || []), expense]);
+  }
+
+  const subscriptions: DetectedSubscription[] = [];
+  groups.forEach((group, key) => {
+    if (group.length < 2) return;
+    const charges = [...group].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const gaps = charges.slice(1).map((charge, i) =>
+      (new Date(charge.date).getTime() - new Date(charges[i].date).getTime()) / DAY_MS
+    );
+    const cadence = getCadence(gaps);
+    if (!cadence || (cadence.frequency !== "yearly" && charges.length < 3)) return;
+
+    const amounts = charges.map(charge => parseFloat(charge.amount));
+    if (Math.max(...amounts) > Math.min(...amounts) * MAX_AMOUNT_SPREAD) return;
+
+    const latest = charges[charges.length - 1];
+    const amount = parseFloat(latest.amount);
+    const nextExpected = getOccurrence(
+      { frequency: cadence.frequency, interval: cadence.interval, startDate: new Date(latest.date), endDate: null },
+      1,
+    );
+    const overdueDays = (now.getTime() - new Date(latest.date).getTime()) / DAY_MS;
+    const monthlyCost = getMonthlyCost(amount, cadence);
+
+    subscriptions.push({
+      key,
+      merchantId: latest.merchantId,
+      description: latest.description,
+      frequency: cadence.frequency,
+      interval: cadence.interval,
+      amount,
+      currency: latest.currency,
+      originalAmount: parseFloat(latest.foreignAmount ?? latest.amount),
+      monthlyCost: roundCents(monthlyCost),
+      annualCost: roundCents(monthlyCost * 12),
+      chargeCount: charges.length,
+      firstCharge: getDay(charges[0].date),
+      lastCharge: getDay(latest.date),
+      nextExpected: getDay(nextExpected),
+      priceChange: getPriceChange(charges),
+      status: overdueDays > cadence.days * OVERDUE_GAPS + cadence.toleranceDays ? "possibly_cancelled" : "active",
+      latest,
+      recurringExpenseId: [...charges].reverse().find(charge => charge.recurringExpenseId)?.recurringExpenseId ?? null,
+    });
+  });
+
+  return subscriptions.sort((a, b) => b.monthlyCost - a.monthlyCost);
+}